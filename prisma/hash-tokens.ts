@@ -0,0 +1,88 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  hashToken,
+  TOKEN_HASH_PATTERN,
+} from '../src/crypto/token-hash.service';
+
+// One-off backfill for the hash_tokens_at_rest migration: hashes every token
+// that is still stored in plaintext. Already hashed values are recognised by
+// their shape, so running it more than once is harmless.
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const secret = process.env.TOKEN_HASH_SECRET;
+  if (!secret) {
+    throw new Error('TOKEN_HASH_SECRET must be set');
+  }
+
+  const isPlaintext = (value: string | null): value is string =>
+    !!value && !TOKEN_HASH_PATTERN.test(value);
+
+  const sessions = await prisma.session.findMany({
+    select: { id: true, refreshTokenHash: true },
+  });
+
+  let hashedSessions = 0;
+  for (const session of sessions) {
+    if (isPlaintext(session.refreshTokenHash)) {
+      await prisma.session.update({
+        where: { id: session.id },
+        data: { refreshTokenHash: hashToken(session.refreshTokenHash, secret) },
+      });
+      hashedSessions++;
+    }
+  }
+
+  const users = await prisma.user.findMany({
+    where: {
+      OR: [
+        { emailVerificationTokenHash: { not: null } },
+        { passwordResetTokenHash: { not: null } },
+      ],
+    },
+    select: {
+      id: true,
+      emailVerificationTokenHash: true,
+      passwordResetTokenHash: true,
+    },
+  });
+
+  let hashedUsers = 0;
+  for (const user of users) {
+    const data: {
+      emailVerificationTokenHash?: string;
+      passwordResetTokenHash?: string;
+    } = {};
+
+    if (isPlaintext(user.emailVerificationTokenHash)) {
+      data.emailVerificationTokenHash = hashToken(
+        user.emailVerificationTokenHash,
+        secret,
+      );
+    }
+    if (isPlaintext(user.passwordResetTokenHash)) {
+      data.passwordResetTokenHash = hashToken(
+        user.passwordResetTokenHash,
+        secret,
+      );
+    }
+
+    if (Object.keys(data).length > 0) {
+      await prisma.user.update({ where: { id: user.id }, data });
+      hashedUsers++;
+    }
+  }
+
+  console.log(`Hashed refresh tokens of ${hashedSessions} sessions`);
+  console.log(`Hashed verification/reset tokens of ${hashedUsers} users`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Error while hashing tokens:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
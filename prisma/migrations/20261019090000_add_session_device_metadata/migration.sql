@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."sessions" ADD COLUMN     "ip_address" TEXT,
+ADD COLUMN     "label" TEXT,
+ADD COLUMN     "last_used_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "platform" TEXT,
+ADD COLUMN     "user_agent" TEXT;
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "public"."SecurityEventType" AS ENUM ('REFRESH_TOKEN_REUSE');
+
+-- CreateTable
+CREATE TABLE "public"."security_events" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "type" "public"."SecurityEventType" NOT NULL,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "metadata" JSON,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "security_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "security_events_user_id_created_at_idx" ON "public"."security_events"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "security_events_type_idx" ON "public"."security_events"("type");
+
+-- AddForeignKey
+ALTER TABLE "public"."security_events" ADD CONSTRAINT "security_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
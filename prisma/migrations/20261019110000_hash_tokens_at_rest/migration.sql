@@ -0,0 +1,31 @@
+-- Tokens are now stored as HMAC-SHA256 digests (see src/crypto/token-hash.service.ts).
+-- Existing plaintext values are kept by the rename and must be hashed in place
+-- with `yarn prisma:hash-tokens` right after deploying this migration; until
+-- then they simply fail to match.
+
+-- RenameColumn
+ALTER TABLE "public"."users" RENAME COLUMN "email_verification_token" TO "email_verification_token_hash";
+
+-- RenameColumn
+ALTER TABLE "public"."users" RENAME COLUMN "password_reset_token" TO "password_reset_token_hash";
+
+-- RenameColumn
+ALTER TABLE "public"."sessions" RENAME COLUMN "refresh_token" TO "refresh_token_hash";
+
+-- RenameIndex
+ALTER INDEX "public"."users_email_verification_token_key" RENAME TO "users_email_verification_token_hash_key";
+
+-- RenameIndex
+ALTER INDEX "public"."users_email_verification_token_idx" RENAME TO "users_email_verification_token_hash_idx";
+
+-- RenameIndex
+ALTER INDEX "public"."users_password_reset_token_key" RENAME TO "users_password_reset_token_hash_key";
+
+-- RenameIndex
+ALTER INDEX "public"."users_password_reset_token_idx" RENAME TO "users_password_reset_token_hash_idx";
+
+-- RenameIndex
+ALTER INDEX "public"."sessions_refresh_token_key" RENAME TO "sessions_refresh_token_hash_key";
+
+-- RenameIndex
+ALTER INDEX "public"."sessions_refresh_token_idx" RENAME TO "sessions_refresh_token_hash_idx";
@@ -0,0 +1,30 @@
+-- AlterEnum
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'MFA_ENABLED';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'MFA_DISABLED';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'MFA_RECOVERY_CODE_USED';
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "mfa_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "mfa_enabled_at" TIMESTAMP(3),
+ADD COLUMN     "mfa_last_used_step" INTEGER,
+ADD COLUMN     "mfa_secret" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."mfa_recovery_codes" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "code_hash" TEXT NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mfa_recovery_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mfa_recovery_codes_code_hash_key" ON "public"."mfa_recovery_codes"("code_hash");
+
+-- CreateIndex
+CREATE INDEX "mfa_recovery_codes_user_id_idx" ON "public"."mfa_recovery_codes"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."mfa_recovery_codes" ADD CONSTRAINT "mfa_recovery_codes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "public"."WebAuthnCeremony" AS ENUM ('REGISTRATION', 'AUTHENTICATION');
+
+-- AlterEnum
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'PASSKEY_ADDED';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'PASSKEY_REMOVED';
+
+-- CreateTable
+CREATE TABLE "public"."webauthn_credentials" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "credential_id" TEXT NOT NULL,
+    "public_key" BYTEA NOT NULL,
+    "counter" INTEGER NOT NULL DEFAULT 0,
+    "transports" TEXT[],
+    "device_type" TEXT NOT NULL,
+    "backed_up" BOOLEAN NOT NULL DEFAULT false,
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_used_at" TIMESTAMP(3),
+
+    CONSTRAINT "webauthn_credentials_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."webauthn_challenges" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "challenge" TEXT NOT NULL,
+    "ceremony" "public"."WebAuthnCeremony" NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webauthn_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webauthn_credentials_credential_id_key" ON "public"."webauthn_credentials"("credential_id");
+
+-- CreateIndex
+CREATE INDEX "webauthn_credentials_user_id_idx" ON "public"."webauthn_credentials"("user_id");
+
+-- CreateIndex
+CREATE INDEX "webauthn_challenges_expires_at_idx" ON "public"."webauthn_challenges"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."webauthn_credentials" ADD CONSTRAINT "webauthn_credentials_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."webauthn_challenges" ADD CONSTRAINT "webauthn_challenges_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- AlterEnum
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'IDENTITY_LINKED';
+
+-- AlterTable
+ALTER TABLE "public"."users" ALTER COLUMN "password_hash" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "public"."user_identities" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "email" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_used_at" TIMESTAMP(3),
+
+    CONSTRAINT "user_identities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."oidc_authorization_requests" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "state_hash" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "code_verifier" TEXT NOT NULL,
+    "redirect_uri" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "oidc_authorization_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_identities_user_id_idx" ON "public"."user_identities"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_identities_provider_subject_key" ON "public"."user_identities"("provider", "subject");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oidc_authorization_requests_state_hash_key" ON "public"."oidc_authorization_requests"("state_hash");
+
+-- CreateIndex
+CREATE INDEX "oidc_authorization_requests_expires_at_idx" ON "public"."oidc_authorization_requests"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_identities" ADD CONSTRAINT "user_identities_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
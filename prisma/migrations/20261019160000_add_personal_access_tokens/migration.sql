@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'ACCESS_TOKEN_CREATED';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'ACCESS_TOKEN_REVOKED';
+
+-- CreateTable
+CREATE TABLE "public"."personal_access_tokens" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "token_prefix" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "last_used_at" TIMESTAMP(3),
+    "last_used_ip" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "personal_access_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "personal_access_tokens_token_hash_key" ON "public"."personal_access_tokens"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "personal_access_tokens_user_id_idx" ON "public"."personal_access_tokens"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."personal_access_tokens" ADD CONSTRAINT "personal_access_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
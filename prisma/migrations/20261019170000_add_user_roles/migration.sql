@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "public"."Role" AS ENUM ('USER', 'SUPPORT', 'ADMIN');
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN "role" "public"."Role" NOT NULL DEFAULT 'USER';
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."AdminActionType" AS ENUM ('SUSPEND', 'REACTIVATE', 'UNLOCK', 'VERIFY_EMAIL', 'SEND_PASSWORD_RESET', 'REVOKE_SESSIONS');
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN "suspended_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."admin_actions" (
+    "id" TEXT NOT NULL,
+    "actor_id" TEXT,
+    "target_user_id" TEXT,
+    "action" "public"."AdminActionType" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "admin_actions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "admin_actions_target_user_id_created_at_idx" ON "public"."admin_actions"("target_user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "admin_actions_actor_id_idx" ON "public"."admin_actions"("actor_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."admin_actions" ADD CONSTRAINT "admin_actions_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."admin_actions" ADD CONSTRAINT "admin_actions_target_user_id_fkey" FOREIGN KEY ("target_user_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterEnum
+ALTER TYPE "public"."AdminActionType" ADD VALUE 'IMPERSONATE';
+
+-- CreateTable
+CREATE TABLE "public"."impersonation_sessions" (
+    "id" TEXT NOT NULL,
+    "actor_id" TEXT,
+    "target_user_id" TEXT,
+    "reason" TEXT NOT NULL,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "impersonation_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "impersonation_sessions_actor_id_idx" ON "public"."impersonation_sessions"("actor_id");
+
+-- CreateIndex
+CREATE INDEX "impersonation_sessions_target_user_id_idx" ON "public"."impersonation_sessions"("target_user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."impersonation_sessions" ADD CONSTRAINT "impersonation_sessions_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."impersonation_sessions" ADD CONSTRAINT "impersonation_sessions_target_user_id_fkey" FOREIGN KEY ("target_user_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
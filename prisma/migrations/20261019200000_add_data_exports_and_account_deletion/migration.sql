@@ -0,0 +1,36 @@
+-- AlterEnum
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'DATA_EXPORT_REQUESTED';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'ACCOUNT_DELETION_SCHEDULED';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'ACCOUNT_DELETION_CANCELLED';
+
+-- CreateEnum
+CREATE TYPE "public"."DataExportStatus" AS ENUM ('PENDING', 'READY', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN "scheduled_deletion_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."data_exports" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "status" "public"."DataExportStatus" NOT NULL DEFAULT 'PENDING',
+    "file_path" TEXT,
+    "download_token_hash" TEXT,
+    "expires_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "data_exports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "data_exports_download_token_hash_key" ON "public"."data_exports"("download_token_hash");
+
+-- CreateIndex
+CREATE INDEX "data_exports_user_id_created_at_idx" ON "public"."data_exports"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "data_exports_expires_at_idx" ON "public"."data_exports"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."data_exports" ADD CONSTRAINT "data_exports_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
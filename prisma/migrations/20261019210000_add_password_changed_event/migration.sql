@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'PASSWORD_CHANGED';
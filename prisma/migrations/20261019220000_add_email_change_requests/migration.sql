@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'EMAIL_CHANGE_REQUESTED';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'EMAIL_CHANGED';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'EMAIL_CHANGE_REVERTED';
+
+-- CreateTable
+CREATE TABLE "public"."email_change_requests" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "old_email" TEXT NOT NULL,
+    "new_email" TEXT NOT NULL,
+    "confirm_token_hash" TEXT NOT NULL,
+    "revert_token_hash" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "revert_expires_at" TIMESTAMP(3) NOT NULL,
+    "confirmed_at" TIMESTAMP(3),
+    "reverted_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_change_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_change_requests_confirm_token_hash_key" ON "public"."email_change_requests"("confirm_token_hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_change_requests_revert_token_hash_key" ON "public"."email_change_requests"("revert_token_hash");
+
+-- CreateIndex
+CREATE INDEX "email_change_requests_user_id_created_at_idx" ON "public"."email_change_requests"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."email_change_requests" ADD CONSTRAINT "email_change_requests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
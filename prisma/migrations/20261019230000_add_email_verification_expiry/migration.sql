@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "email_verification_expires" TIMESTAMP(3);
+
+-- Links already sent stay usable for a day instead of failing outright
+UPDATE "public"."users" SET "email_verification_expires" = NOW() + INTERVAL '24 hours' WHERE "email_verification_token_hash" IS NOT NULL;
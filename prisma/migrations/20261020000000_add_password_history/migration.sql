@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "public"."password_history" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "password_hash" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "password_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "password_history_user_id_created_at_idx" ON "public"."password_history"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."password_history" ADD CONSTRAINT "password_history_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
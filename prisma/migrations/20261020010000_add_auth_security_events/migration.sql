@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "public"."SecurityEventOutcome" AS ENUM ('SUCCESS', 'FAILURE');
+
+-- AlterEnum
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'LOGIN';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'LOGOUT';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'ACCOUNT_LOCKED';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'TOKEN_REFRESHED';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'PASSWORD_RESET_REQUESTED';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'PASSWORD_RESET_COMPLETED';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'EMAIL_VERIFIED';
+
+-- AlterTable
+ALTER TABLE "public"."security_events" ADD COLUMN     "outcome" "public"."SecurityEventOutcome" NOT NULL DEFAULT 'SUCCESS';
+
+-- CreateIndex
+CREATE INDEX "security_events_created_at_idx" ON "public"."security_events"("created_at");
@@ -0,0 +1,27 @@
+-- AlterEnum
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'LOGIN_DISPUTED';
+
+-- CreateTable
+CREATE TABLE "public"."known_devices" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "user_agent" TEXT,
+    "ip_address" TEXT,
+    "location" TEXT,
+    "dispute_token_hash" TEXT,
+    "dispute_expires_at" TIMESTAMP(3),
+    "first_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "known_devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "known_devices_dispute_token_hash_key" ON "public"."known_devices"("dispute_token_hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "known_devices_user_id_fingerprint_key" ON "public"."known_devices"("user_id", "fingerprint");
+
+-- AddForeignKey
+ALTER TABLE "public"."known_devices" ADD CONSTRAINT "known_devices_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- Archives move from the local disk of the instance that built them into the
+-- database, so any instance can serve the download. Links to archives built
+-- before this migration stop working; their files are left to the OS temp
+-- directory cleanup.
+
+-- AlterTable
+ALTER TABLE "public"."data_exports" DROP COLUMN "file_path",
+ADD COLUMN     "archive" BYTEA;
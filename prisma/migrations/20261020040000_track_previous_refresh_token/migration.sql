@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."sessions" ADD COLUMN     "previous_refresh_token_hash" TEXT,
+ADD COLUMN     "rotated_at" TIMESTAMP(3);
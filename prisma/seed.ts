@@ -1,17 +1,25 @@
 import { PrismaClient } from '@prisma/client';
-import * as bcrypt from 'bcrypt';
+import { hashToken } from '../src/crypto/token-hash.service';
+import { PasswordHasherService } from '../src/crypto/password-hasher.service';
+import { authConfig } from '../src/config/auth.config';
 
 const prisma = new PrismaClient();
 
 async function main() {
   console.log('Start seeding...');
 
+  const tokenHashSecret = process.env.TOKEN_HASH_SECRET;
+  if (!tokenHashSecret) {
+    throw new Error('TOKEN_HASH_SECRET must be set');
+  }
+
   // Clean existing data
   await prisma.session.deleteMany();
   await prisma.user.deleteMany();
 
   // Create test users
-  const hashedPassword = await bcrypt.hash('Password123!', 10);
+  const passwordHasher = new PasswordHasherService(authConfig());
+  const hashedPassword = await passwordHasher.hash('Password123!');
 
   const user1 = await prisma.user.create({
     data: {
@@ -19,9 +27,11 @@ async function main() {
       passwordHash: hashedPassword,
       name: 'Admin User',
       emailVerified: true,
+      role: 'ADMIN',
       preferences: {
+        version: 1,
         theme: 'light',
-        notifications: true,
+        notifications: { email: true, push: true, marketing: false },
       },
     },
   });
@@ -33,19 +43,31 @@ async function main() {
       name: 'Test User',
       emailVerified: true,
       preferences: {
+        version: 1,
         theme: 'dark',
-        notifications: false,
+        notifications: { email: false, push: false, marketing: false },
       },
     },
   });
 
+  const support = await prisma.user.create({
+    data: {
+      email: 'support@example.com',
+      passwordHash: hashedPassword,
+      name: 'Support User',
+      emailVerified: true,
+      role: 'SUPPORT',
+      preferences: {},
+    },
+  });
+
   const user3 = await prisma.user.create({
     data: {
       email: 'unverified@example.com',
       passwordHash: hashedPassword,
       name: 'Unverified User',
       emailVerified: false,
-      emailVerificationToken: 'test-verification-token-123',
+      emailVerificationTokenHash: hashToken('test-verification-token-123', tokenHashSecret),
       preferences: {},
     },
   });
@@ -53,6 +75,7 @@ async function main() {
   console.log('Created users:', {
     user1: user1.email,
     user2: user2.email,
+    support: support.email,
     user3: user3.email,
   });
 
@@ -60,7 +83,7 @@ async function main() {
   const session = await prisma.session.create({
     data: {
       userId: user1.id,
-      refreshToken: 'test-refresh-token-admin',
+      refreshTokenHash: hashToken('test-refresh-token-admin', tokenHashSecret),
       expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
     },
   });
@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Post,
+  Delete,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+import { AccountDeletionService } from './account-deletion.service';
+import { DeleteAccountDto } from './dto/delete-account.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  CurrentUser,
+  CurrentUserData,
+} from '../auth/decorators/current-user.decorator';
+import {
+  ClientInfo,
+  ClientInfoData,
+} from '../auth/decorators/client-info.decorator';
+import { DenyImpersonation } from '../auth/decorators/deny-impersonation.decorator';
+
+@ApiTags('Users')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('users/me')
+export class AccountDeletionController {
+  constructor(
+    private readonly accountDeletionService: AccountDeletionService,
+  ) {}
+
+  @Delete()
+  @DenyImpersonation()
+  @ApiOperation({
+    summary: 'Delete the current account',
+    description:
+      'The account is signed out everywhere and permanently deleted after a grace period, during which signing in again allows cancelling.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Account deletion scheduled',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Invalid password, or an account without a password that has not signed in recently',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Account deletion is already scheduled',
+  })
+  @ApiBody({ type: DeleteAccountDto })
+  async remove(
+    @CurrentUser() user: CurrentUserData,
+    @Body() deleteAccountDto: DeleteAccountDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.accountDeletionService.schedule(
+      user.id,
+      deleteAccountDto.password,
+      user.sessionId,
+      client,
+    );
+  }
+
+  @Post('cancel-deletion')
+  @DenyImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a scheduled account deletion' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Account deletion cancelled',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Account deletion is not scheduled',
+  })
+  async cancelDeletion(
+    @CurrentUser() user: CurrentUserData,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.accountDeletionService.cancel(user.id, client);
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { AccountDeletionService } from './account-deletion.service';
+import { AccountDeletionProcessor } from './account-deletion.processor';
+import { AccountDeletionController } from './account-deletion.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { UsersModule } from '../users/users.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { EmailModule } from '../email/email.module';
+import { SecurityEventsModule } from '../security-events/security-events.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    UsersModule,
+    SessionsModule,
+    EmailModule,
+    SecurityEventsModule,
+    BullModule.registerQueue({
+      name: 'account-deletion',
+      defaultJobOptions: {
+        removeOnComplete: true,
+        removeOnFail: false,
+      },
+    }),
+  ],
+  controllers: [AccountDeletionController],
+  providers: [AccountDeletionService, AccountDeletionProcessor],
+})
+export class AccountDeletionModule {}
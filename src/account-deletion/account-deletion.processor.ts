@@ -0,0 +1,20 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { AccountDeletionService } from './account-deletion.service';
+
+@Processor('account-deletion')
+export class AccountDeletionProcessor {
+  private readonly logger = new Logger(AccountDeletionProcessor.name);
+
+  constructor(
+    private readonly accountDeletionService: AccountDeletionService,
+  ) {}
+
+  @Process('purge')
+  async handlePurge() {
+    const deleted = await this.accountDeletionService.purgeDue();
+    if (deleted > 0) {
+      this.logger.log(`Deleted ${deleted} accounts past their grace period`);
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getQueueToken } from '@nestjs/bull';
+import { AccountDeletionService } from './account-deletion.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { UsersService } from '../users/users.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { EmailService } from '../email/email.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { PasswordHasherService } from '../crypto/password-hasher.service';
+import { authConfig } from '../config/auth.config';
+
+describe('AccountDeletionService', () => {
+  let service: AccountDeletionService;
+  let prismaService: PrismaService;
+  let usersService: UsersService;
+  let sessionsService: SessionsService;
+  let emailService: EmailService;
+  let securityEventsService: SecurityEventsService;
+  let passwordHasher: PasswordHasherService;
+
+  const userId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const mockUser = {
+    id: userId,
+    email: 'test@example.com',
+    name: 'Test User',
+    passwordHash: 'hashedPassword',
+    scheduledDeletionAt: null,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountDeletionService,
+        { provide: authConfig.KEY, useValue: authConfig() },
+        {
+          provide: PrismaService,
+          useValue: {
+            $transaction: jest.fn(),
+            user: {
+              update: jest.fn(),
+              updateMany: jest.fn(),
+              findMany: jest.fn(),
+              delete: jest.fn(),
+            },
+            personalAccessToken: {
+              deleteMany: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: getQueueToken('account-deletion'),
+          useValue: { add: jest.fn() },
+        },
+        {
+          provide: UsersService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue(mockUser),
+          },
+        },
+        {
+          provide: SessionsService,
+          useValue: {
+            findActive: jest.fn(),
+            revokeAll: jest.fn(),
+          },
+        },
+        {
+          provide: EmailService,
+          useValue: {
+            sendSecurityAlertEmail: jest.fn(),
+          },
+        },
+        {
+          provide: SecurityEventsService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+          },
+        },
+        {
+          provide: PasswordHasherService,
+          useValue: {
+            verify: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AccountDeletionService>(AccountDeletionService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    usersService = module.get<UsersService>(UsersService);
+    sessionsService = module.get<SessionsService>(SessionsService);
+    emailService = module.get<EmailService>(EmailService);
+    securityEventsService = module.get<SecurityEventsService>(
+      SecurityEventsService,
+    );
+    passwordHasher = module.get<PasswordHasherService>(PasswordHasherService);
+
+    jest.clearAllMocks();
+  });
+
+  describe('schedule', () => {
+    it('should schedule deletion after the grace period and sign out everywhere', async () => {
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+
+      const result = await service.schedule(userId, 'Password123!');
+
+      const days =
+        (result.scheduledDeletionAt.getTime() - Date.now()) / 86400000;
+      expect(Math.round(days)).toBe(30);
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: userId },
+        data: { scheduledDeletionAt: result.scheduledDeletionAt },
+      });
+      expect(prismaService.personalAccessToken.deleteMany).toHaveBeenCalledWith(
+        { where: { userId } },
+      );
+      expect(sessionsService.revokeAll).toHaveBeenCalledWith(userId);
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId, type: 'ACCOUNT_DELETION_SCHEDULED' }),
+      );
+      expect(emailService.sendSecurityAlertEmail).toHaveBeenCalledWith(
+        'test@example.com',
+        'Test User',
+        expect.objectContaining({
+          subject: 'Your account is scheduled for deletion',
+        }),
+      );
+    });
+
+    it('should throw ForbiddenException for a wrong password', async () => {
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(false);
+
+      await expect(service.schedule(userId, 'wrong')).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should accept a recent sign-in for accounts without a password', async () => {
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValue({ ...mockUser, passwordHash: null } as any);
+      jest
+        .spyOn(sessionsService, 'findActive')
+        .mockResolvedValue({ createdAt: new Date() } as any);
+
+      await service.schedule(userId, undefined, 'session-123');
+
+      expect(sessionsService.findActive).toHaveBeenCalledWith(
+        userId,
+        'session-123',
+      );
+      expect(passwordHasher.verify).not.toHaveBeenCalled();
+      expect(prismaService.$transaction).toHaveBeenCalled();
+    });
+
+    it('should ask accounts without a password to sign in again after a while', async () => {
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValue({ ...mockUser, passwordHash: null } as any);
+      jest.spyOn(sessionsService, 'findActive').mockResolvedValue({
+        createdAt: new Date(Date.now() - 60 * 60 * 1000),
+      } as any);
+
+      await expect(
+        service.schedule(userId, undefined, 'session-123'),
+      ).rejects.toThrow('Sign in again to delete your account');
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse accounts without a password outside a session', async () => {
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValue({ ...mockUser, passwordHash: null } as any);
+
+      await expect(service.schedule(userId, 'anything')).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(sessionsService.findActive).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when already scheduled', async () => {
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+      jest.spyOn(usersService, 'findById').mockResolvedValue({
+        ...mockUser,
+        scheduledDeletionAt: new Date(),
+      } as any);
+
+      await expect(service.schedule(userId, 'Password123!')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('cancel', () => {
+    it('should clear the scheduled deletion', async () => {
+      jest
+        .spyOn(prismaService.user, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+
+      await service.cancel(userId);
+
+      expect(prismaService.user.updateMany).toHaveBeenCalledWith({
+        where: { id: userId, scheduledDeletionAt: { not: null } },
+        data: { scheduledDeletionAt: null },
+      });
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId, type: 'ACCOUNT_DELETION_CANCELLED' }),
+      );
+    });
+
+    it('should throw ConflictException when nothing is scheduled', async () => {
+      jest
+        .spyOn(prismaService.user, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(service.cancel(userId)).rejects.toThrow(ConflictException);
+      expect(securityEventsService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeDue', () => {
+    it('should delete accounts past their grace period', async () => {
+      jest
+        .spyOn(prismaService.user, 'findMany')
+        .mockResolvedValue([{ id: 'user-1' }, { id: 'user-2' }] as any);
+
+      await expect(service.purgeDue()).resolves.toBe(2);
+
+      expect(prismaService.user.findMany).toHaveBeenCalledWith({
+        where: { scheduledDeletionAt: { lte: expect.any(Date) } },
+        select: { id: true },
+      });
+      expect(prismaService.user.delete).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+      });
+      expect(prismaService.user.delete).toHaveBeenCalledWith({
+        where: { id: 'user-2' },
+      });
+    });
+  });
+});
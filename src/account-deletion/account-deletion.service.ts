@@ -0,0 +1,217 @@
+import {
+  Inject,
+  Injectable,
+  HttpException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  InternalServerErrorException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { PrismaService } from '../prisma/prisma.service';
+import { UsersService } from '../users/users.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { EmailService } from '../email/email.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { PasswordHasherService } from '../crypto/password-hasher.service';
+import { ClientInfoData } from '../auth/decorators/client-info.decorator';
+import { authConfig, AuthConfig } from '../config/auth.config';
+
+@Injectable()
+export class AccountDeletionService implements OnModuleInit {
+  private readonly logger = new Logger(AccountDeletionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @InjectQueue('account-deletion')
+    private readonly accountDeletionQueue: Queue,
+    private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
+    private readonly emailService: EmailService,
+    private readonly securityEventsService: SecurityEventsService,
+    private readonly passwordHasher: PasswordHasherService,
+    private readonly configService: ConfigService,
+    @Inject(authConfig.KEY) private readonly authConfig: AuthConfig,
+  ) {}
+
+  async onModuleInit() {
+    await this.accountDeletionQueue.add(
+      'purge',
+      {},
+      { repeat: { cron: '0 * * * *' }, jobId: 'purge-deleted-accounts' },
+    );
+  }
+
+  /**
+   * Schedules the account for deletion once the grace period is over and
+   * signs it out everywhere. Signing back in lets the user cancel.
+   */
+  async schedule(
+    userId: string,
+    password: string | undefined,
+    sessionId?: string,
+    client?: ClientInfoData,
+  ) {
+    try {
+      const user = await this.usersService.findById(userId);
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      await this.confirmIdentity(user, password, sessionId);
+
+      if (user.scheduledDeletionAt) {
+        throw new ConflictException('Account deletion is already scheduled');
+      }
+
+      const scheduledDeletionAt =
+        this.authConfig.accountDeletionGracePeriod.from(new Date());
+
+      await this.prisma.$transaction([
+        this.prisma.user.update({
+          where: { id: userId },
+          data: { scheduledDeletionAt },
+        }),
+        this.prisma.personalAccessToken.deleteMany({ where: { userId } }),
+      ]);
+      await this.sessionsService.revokeAll(userId);
+
+      await this.securityEventsService.record({
+        userId,
+        type: 'ACCOUNT_DELETION_SCHEDULED',
+        client,
+        metadata: { scheduledDeletionAt: scheduledDeletionAt.toISOString() },
+      });
+
+      await this.sendDeletionScheduledAlert(user, scheduledDeletionAt);
+
+      return {
+        message: 'Account deletion scheduled',
+        scheduledDeletionAt,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to schedule account deletion',
+      );
+    }
+  }
+
+  async cancel(userId: string, client?: ClientInfoData) {
+    try {
+      const { count } = await this.prisma.user.updateMany({
+        where: { id: userId, scheduledDeletionAt: { not: null } },
+        data: { scheduledDeletionAt: null },
+      });
+
+      if (count === 0) {
+        throw new ConflictException('Account deletion is not scheduled');
+      }
+
+      await this.securityEventsService.record({
+        userId,
+        type: 'ACCOUNT_DELETION_CANCELLED',
+        client,
+      });
+
+      return { message: 'Account deletion cancelled' };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to cancel account deletion',
+      );
+    }
+  }
+
+  /**
+   * Erases every account whose grace period is over. Related rows, export
+   * archives included, are removed by the database.
+   */
+  async purgeDue() {
+    const users = await this.prisma.user.findMany({
+      where: { scheduledDeletionAt: { lte: new Date() } },
+      select: { id: true },
+    });
+
+    for (const user of users) {
+      await this.prisma.user.delete({ where: { id: user.id } });
+      this.logger.log(`Deleted account ${user.id}`);
+    }
+
+    return users.length;
+  }
+
+  /**
+   * Accounts with a password re-enter it. Accounts that sign in with
+   * passkeys, sign-in links or a provider have none, so they confirm by
+   * having signed in moments ago; rotation keeps the session's sign-in time.
+   */
+  private async confirmIdentity(
+    user: { id: string; passwordHash: string | null },
+    password: string | undefined,
+    sessionId: string | undefined,
+  ) {
+    if (user.passwordHash) {
+      const isPasswordValid = await this.passwordHasher.verify(
+        password ?? '',
+        user.passwordHash,
+      );
+      if (!isPasswordValid) {
+        throw new ForbiddenException('Invalid password');
+      }
+      return;
+    }
+
+    const session =
+      sessionId && (await this.sessionsService.findActive(user.id, sessionId));
+    const signedInSince = new Date(
+      Date.now() - this.authConfig.recentSignInWindow.milliseconds,
+    );
+    if (!session || session.createdAt < signedInSince) {
+      throw new ForbiddenException('Sign in again to delete your account');
+    }
+  }
+
+  private async sendDeletionScheduledAlert(
+    user: { id: string; email: string; name: string | null },
+    scheduledDeletionAt: Date,
+  ) {
+    try {
+      const baseUrl = this.configService.get<string>(
+        'FRONTEND_URL',
+        'http://localhost:3000',
+      );
+      await this.emailService.sendSecurityAlertEmail(
+        user.email,
+        user.name || '',
+        {
+          subject: 'Your account is scheduled for deletion',
+          heading: 'Account deletion scheduled',
+          message:
+            'Your account and all of its data will be permanently deleted. To keep your account, sign in and cancel the deletion before then. If you did not ask for this, cancel it and reset your password.',
+          details: [
+            {
+              label: 'Deletion date',
+              value: scheduledDeletionAt.toUTCString(),
+            },
+          ],
+          actionUrl: `${baseUrl}/login`,
+          actionText: 'Sign In to Cancel',
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue deletion alert for user ${user.id}:`,
+        error,
+      );
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class DeleteAccountDto {
+  @ApiPropertyOptional({
+    example: 'Password123!',
+    description:
+      'Current password, re-entered to confirm. Accounts without a password sign in again instead',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty({ message: 'Password must not be empty' })
+  password?: string;
+}
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Delete,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ImpersonationService } from '../impersonation/impersonation.service';
+import { ImpersonationSessionDto } from './dto/impersonation.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import {
+  CurrentUser,
+  CurrentUserData,
+} from '../auth/decorators/current-user.decorator';
+
+@ApiTags('Admin')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@RequirePermissions('users:impersonate')
+@Controller('admin/impersonations')
+export class AdminImpersonationsController {
+  constructor(private readonly impersonationService: ImpersonationService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List impersonations that are still running' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Active impersonations, most recent first',
+    type: [ImpersonationSessionDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Caller may not impersonate',
+  })
+  async findActive() {
+    return this.impersonationService.findActive();
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'End an impersonation and invalidate its token' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Impersonation ended',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Impersonation not found or already over',
+  })
+  async end(
+    @CurrentUser() admin: CurrentUserData,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.impersonationService.end(id, admin.id);
+    return { message: 'Impersonation ended successfully' };
+  }
+}
@@ -0,0 +1,45 @@
+import { Controller, Get, Query, UseGuards, HttpStatus } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { SecurityEventPageDto } from '../security-events/dto/security-event-page.dto';
+import { SearchSecurityEventsQueryDto } from './dto/search-security-events-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+
+@ApiTags('Admin')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@RequirePermissions('security-events:read')
+@Controller('admin/security-events')
+export class AdminSecurityEventsController {
+  constructor(private readonly securityEventsService: SecurityEventsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Search security events',
+    description:
+      'Failed logins for emails without an account have no userId; the attempted email is in their metadata.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'A page of security events, newest first',
+    type: SecurityEventPageDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Caller is not allowed to read security events',
+  })
+  async search(@Query() query: SearchSecurityEventsQueryDto) {
+    return this.securityEventsService.search(query);
+  }
+}
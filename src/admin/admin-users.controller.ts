@@ -0,0 +1,300 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+import { AdminUsersService } from './admin-users.service';
+import { ListUsersQueryDto } from './dto/list-users-query.dto';
+import { UserPageDto } from './dto/user-page.dto';
+import { AdminActionReasonDto } from './dto/admin-action-reason.dto';
+import { AdminActionDto } from './dto/admin-action.dto';
+import { ImpersonationTokenDto } from './dto/impersonation.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import {
+  CurrentUser,
+  CurrentUserData,
+} from '../auth/decorators/current-user.decorator';
+import {
+  ClientInfo,
+  ClientInfoData,
+} from '../auth/decorators/client-info.decorator';
+
+@ApiTags('Admin')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('admin/users')
+export class AdminUsersController {
+  constructor(private readonly adminUsersService: AdminUsersService) {}
+
+  @Get()
+  @RequirePermissions('users:read')
+  @ApiOperation({ summary: 'Search and list users' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'A page of users',
+    type: UserPageDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Caller is not allowed to read users',
+  })
+  async findAll(@Query() query: ListUsersQueryDto) {
+    return this.adminUsersService.findAll(query);
+  }
+
+  @Post(':id/suspend')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('users:suspend')
+  @ApiOperation({
+    summary: 'Suspend a user',
+    description:
+      'Blocks every login and revokes all sessions until the user is reactivated',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'User suspended',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'User is already suspended',
+  })
+  @ApiBody({ type: AdminActionReasonDto })
+  async suspend(
+    @CurrentUser() admin: CurrentUserData,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: AdminActionReasonDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.adminUsersService.suspend({
+      actorId: admin.id,
+      actorRole: admin.role,
+      userId: id,
+      reason: body.reason,
+      client,
+    });
+  }
+
+  @Post(':id/reactivate')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('users:suspend')
+  @ApiOperation({ summary: 'Reactivate a suspended user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'User reactivated',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'User is not suspended',
+  })
+  @ApiBody({ type: AdminActionReasonDto })
+  async reactivate(
+    @CurrentUser() admin: CurrentUserData,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: AdminActionReasonDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.adminUsersService.reactivate({
+      actorId: admin.id,
+      actorRole: admin.role,
+      userId: id,
+      reason: body.reason,
+      client,
+    });
+  }
+
+  @Post(':id/unlock')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('users:manage')
+  @ApiOperation({ summary: 'Clear failed login attempts and lockout' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Account unlocked',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User not found',
+  })
+  @ApiBody({ type: AdminActionReasonDto })
+  async unlock(
+    @CurrentUser() admin: CurrentUserData,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: AdminActionReasonDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.adminUsersService.unlock({
+      actorId: admin.id,
+      actorRole: admin.role,
+      userId: id,
+      reason: body.reason,
+      client,
+    });
+  }
+
+  @Post(':id/verify-email')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('users:manage')
+  @ApiOperation({ summary: 'Mark the email address as verified' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Email marked as verified',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Email is already verified',
+  })
+  @ApiBody({ type: AdminActionReasonDto })
+  async verifyEmail(
+    @CurrentUser() admin: CurrentUserData,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: AdminActionReasonDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.adminUsersService.verifyEmail({
+      actorId: admin.id,
+      actorRole: admin.role,
+      userId: id,
+      reason: body.reason,
+      client,
+    });
+  }
+
+  @Post(':id/password-reset')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('users:manage')
+  @ApiOperation({ summary: 'Send a password reset email' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Password reset email sent',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User not found',
+  })
+  @ApiBody({ type: AdminActionReasonDto })
+  async sendPasswordReset(
+    @CurrentUser() admin: CurrentUserData,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: AdminActionReasonDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.adminUsersService.sendPasswordReset({
+      actorId: admin.id,
+      actorRole: admin.role,
+      userId: id,
+      reason: body.reason,
+      client,
+    });
+  }
+
+  @Post(':id/revoke-sessions')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('users:manage')
+  @ApiOperation({ summary: 'Sign the user out of every device' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'All sessions revoked',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User not found',
+  })
+  @ApiBody({ type: AdminActionReasonDto })
+  async revokeSessions(
+    @CurrentUser() admin: CurrentUserData,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: AdminActionReasonDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.adminUsersService.revokeSessions({
+      actorId: admin.id,
+      actorRole: admin.role,
+      userId: id,
+      reason: body.reason,
+      client,
+    });
+  }
+
+  @Post(':id/impersonate')
+  @RequirePermissions('users:impersonate')
+  @ApiOperation({
+    summary: 'Get a short-lived access token to act as the user',
+    description:
+      'Requests made with the token are logged, cannot change sign-in settings and stop working once the impersonation is ended.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Impersonation started',
+    type: ImpersonationTokenDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'User is suspended, unverified or the caller',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Caller may not impersonate, or the user is a staff member',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User not found',
+  })
+  @ApiBody({ type: AdminActionReasonDto })
+  async impersonate(
+    @CurrentUser() admin: CurrentUserData,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: AdminActionReasonDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.adminUsersService.impersonate({
+      actorId: admin.id,
+      actorRole: admin.role,
+      userId: id,
+      reason: body.reason,
+      client,
+    });
+  }
+
+  @Get(':id/actions')
+  @RequirePermissions('users:read')
+  @ApiOperation({ summary: 'List staff actions taken on a user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Actions, most recent first',
+    type: [AdminActionDto],
+  })
+  async findActions(@Param('id', ParseUUIDPipe) id: string) {
+    return this.adminUsersService.findActions(id);
+  }
+}
@@ -0,0 +1,453 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { AdminUsersService } from './admin-users.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { UsersService } from '../users/users.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { AuthService } from '../auth/auth.service';
+import { ImpersonationService } from '../impersonation/impersonation.service';
+
+describe('AdminUsersService', () => {
+  let service: AdminUsersService;
+  let prismaService: PrismaService;
+  let usersService: UsersService;
+  let sessionsService: SessionsService;
+  let authService: AuthService;
+  let impersonationService: ImpersonationService;
+
+  const targetUser = {
+    id: 'target-123',
+    email: 'target@example.com',
+    name: 'Target User',
+    emailVerified: true,
+    role: 'USER',
+    suspendedAt: null,
+  };
+
+  const context = {
+    actorId: 'admin-123',
+    actorRole: 'ADMIN' as const,
+    userId: targetUser.id,
+    reason: 'Requested by the user over the phone',
+    client: { ipAddress: '203.0.113.7', userAgent: 'Admin console' },
+  };
+
+  const userRow = (id: string) => ({
+    id,
+    email: `${id}@example.com`,
+    name: 'Test User',
+    emailVerified: true,
+    role: 'USER' as const,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const findManyArgs = () =>
+    (prismaService.user.findMany as jest.Mock).mock.calls[0][0];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminUsersService,
+        {
+          provide: PrismaService,
+          useValue: {
+            user: {
+              findMany: jest.fn().mockResolvedValue([]),
+              update: jest.fn(),
+            },
+            adminAction: {
+              create: jest.fn(),
+              findMany: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: UsersService,
+          useValue: {
+            findById: jest.fn(),
+            resetLoginAttempts: jest.fn(),
+            setEmailVerified: jest.fn(),
+          },
+        },
+        {
+          provide: SessionsService,
+          useValue: {
+            revokeAll: jest.fn(),
+          },
+        },
+        {
+          provide: AuthService,
+          useValue: {
+            forgotPassword: jest.fn(),
+          },
+        },
+        {
+          provide: ImpersonationService,
+          useValue: {
+            start: jest.fn().mockResolvedValue({
+              impersonationId: 'impersonation-123',
+              accessToken: 'impersonation-token',
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AdminUsersService>(AdminUsersService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    usersService = module.get<UsersService>(UsersService);
+    sessionsService = module.get<SessionsService>(SessionsService);
+    authService = module.get<AuthService>(AuthService);
+    impersonationService =
+      module.get<ImpersonationService>(ImpersonationService);
+  });
+
+  const findTarget = (overrides: Record<string, unknown> = {}) =>
+    jest
+      .spyOn(usersService, 'findById')
+      .mockResolvedValue({ ...targetUser, ...overrides } as any);
+
+  describe('findAll', () => {
+    it('should return the newest users first by default', async () => {
+      await service.findAll({});
+
+      expect(findManyArgs()).toMatchObject({
+        where: { AND: [] },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 21,
+      });
+      expect(findManyArgs().select).not.toHaveProperty('passwordHash');
+      expect(findManyArgs().select).toHaveProperty('lastLogin', true);
+    });
+
+    it('should return a cursor when there are more users', async () => {
+      jest
+        .spyOn(prismaService.user, 'findMany')
+        .mockResolvedValue([userRow('a'), userRow('b'), userRow('c')] as any);
+
+      const result = await service.findAll({ limit: 2 });
+
+      expect(result.data.map((user) => user.id)).toEqual(['a', 'b']);
+      expect(result.nextCursor).toBe('b');
+    });
+
+    it('should not return a cursor on the last page', async () => {
+      jest
+        .spyOn(prismaService.user, 'findMany')
+        .mockResolvedValue([userRow('a')] as any);
+
+      const result = await service.findAll({ limit: 2 });
+
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('should resume after the cursor', async () => {
+      await service.findAll({ cursor: 'cursor-id' });
+
+      expect(findManyArgs()).toMatchObject({
+        cursor: { id: 'cursor-id' },
+        skip: 1,
+      });
+    });
+
+    it('should search email and name case-insensitively', async () => {
+      await service.findAll({ search: 'john' });
+
+      expect(findManyArgs().where.AND).toEqual([
+        {
+          OR: [
+            { email: { contains: 'john', mode: 'insensitive' } },
+            { name: { contains: 'john', mode: 'insensitive' } },
+          ],
+        },
+      ]);
+    });
+
+    it('should filter by verification, lockout and creation date', async () => {
+      const createdFrom = new Date('2024-01-01');
+      const createdTo = new Date('2024-12-31');
+
+      await service.findAll({
+        verified: false,
+        locked: true,
+        createdFrom,
+        createdTo,
+      });
+
+      expect(findManyArgs().where.AND).toEqual([
+        { emailVerified: false },
+        { lockedUntil: { gt: expect.any(Date) } },
+        { createdAt: { gte: createdFrom, lte: createdTo } },
+      ]);
+    });
+
+    it('should treat expired lockouts as unlocked', async () => {
+      await service.findAll({ locked: false });
+
+      expect(findManyArgs().where.AND).toEqual([
+        {
+          OR: [
+            { lockedUntil: null },
+            { lockedUntil: { lte: expect.any(Date) } },
+          ],
+        },
+      ]);
+    });
+
+    it('should keep users without a name at the end when sorting by name', async () => {
+      await service.findAll({ sortBy: 'name', sortOrder: 'asc' });
+
+      expect(findManyArgs().orderBy).toEqual([
+        { name: { sort: 'asc', nulls: 'last' } },
+        { id: 'asc' },
+      ]);
+    });
+
+    it('should throw InternalServerErrorException on database error', async () => {
+      jest
+        .spyOn(prismaService.user, 'findMany')
+        .mockRejectedValue(new Error('Database error'));
+
+      await expect(service.findAll({})).rejects.toThrow(
+        InternalServerErrorException,
+      );
+    });
+  });
+
+  describe('suspend', () => {
+    it('should suspend the user, end their sessions and record the action', async () => {
+      findTarget();
+
+      await service.suspend(context);
+
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: targetUser.id },
+        data: { suspendedAt: expect.any(Date) },
+      });
+      expect(sessionsService.revokeAll).toHaveBeenCalledWith(targetUser.id);
+      expect(prismaService.adminAction.create).toHaveBeenCalledWith({
+        data: {
+          actorId: 'admin-123',
+          targetUserId: targetUser.id,
+          action: 'SUSPEND',
+          reason: context.reason,
+          ipAddress: '203.0.113.7',
+          userAgent: 'Admin console',
+        },
+      });
+    });
+
+    it('should refuse to suspend the acting admin', async () => {
+      await expect(
+        service.suspend({ ...context, userId: context.actorId }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should not record anything for users already suspended', async () => {
+      findTarget({ suspendedAt: new Date() });
+
+      await expect(service.suspend(context)).rejects.toThrow(ConflictException);
+      expect(prismaService.adminAction.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for unknown users', async () => {
+      jest.spyOn(usersService, 'findById').mockResolvedValue(null);
+
+      await expect(service.suspend(context)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('reactivate', () => {
+    it('should clear the suspension', async () => {
+      findTarget({ suspendedAt: new Date() });
+
+      await service.reactivate(context);
+
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: targetUser.id },
+        data: { suspendedAt: null },
+      });
+      expect(prismaService.adminAction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'REACTIVATE' }),
+      });
+    });
+
+    it('should throw ConflictException for users that are not suspended', async () => {
+      findTarget();
+
+      await expect(service.reactivate(context)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('unlock', () => {
+    it('should reset the failed login attempts', async () => {
+      findTarget();
+
+      await service.unlock(context);
+
+      expect(usersService.resetLoginAttempts).toHaveBeenCalledWith(
+        targetUser.email,
+      );
+      expect(prismaService.adminAction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'UNLOCK' }),
+      });
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the email verified', async () => {
+      findTarget({ emailVerified: false });
+
+      await service.verifyEmail(context);
+
+      expect(usersService.setEmailVerified).toHaveBeenCalledWith(
+        targetUser.id,
+        true,
+      );
+    });
+
+    it('should throw ConflictException when already verified', async () => {
+      findTarget();
+
+      await expect(service.verifyEmail(context)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('sendPasswordReset', () => {
+    it('should go through the regular forgot password flow', async () => {
+      findTarget();
+
+      await service.sendPasswordReset(context);
+
+      expect(authService.forgotPassword).toHaveBeenCalledWith({
+        email: targetUser.email,
+      });
+      expect(prismaService.adminAction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'SEND_PASSWORD_RESET' }),
+      });
+    });
+  });
+
+  describe('revokeSessions', () => {
+    it('should revoke every session of the user', async () => {
+      findTarget();
+
+      await service.revokeSessions(context);
+
+      expect(sessionsService.revokeAll).toHaveBeenCalledWith(targetUser.id);
+    });
+
+    it('should throw InternalServerErrorException when the action fails', async () => {
+      findTarget();
+      jest
+        .spyOn(sessionsService, 'revokeAll')
+        .mockRejectedValue(new Error('Database error'));
+
+      await expect(service.revokeSessions(context)).rejects.toThrow(
+        InternalServerErrorException,
+      );
+      expect(prismaService.adminAction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('impersonate', () => {
+    it('should start an impersonation and record the action', async () => {
+      findTarget();
+
+      const result = await service.impersonate(context);
+
+      expect(result.accessToken).toBe('impersonation-token');
+      expect(impersonationService.start).toHaveBeenCalledWith(
+        'admin-123',
+        expect.objectContaining({ id: targetUser.id }),
+        context.reason,
+        context.client,
+      );
+      expect(prismaService.adminAction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'IMPERSONATE' }),
+      });
+    });
+
+    it('should refuse to impersonate staff accounts', async () => {
+      findTarget({ role: 'SUPPORT' });
+
+      await expect(service.impersonate(context)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(impersonationService.start).not.toHaveBeenCalled();
+    });
+
+    it('should refuse suspended or unverified users', async () => {
+      findTarget({ suspendedAt: new Date() });
+      await expect(service.impersonate(context)).rejects.toThrow(
+        BadRequestException,
+      );
+
+      findTarget({ emailVerified: false });
+      await expect(service.impersonate(context)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prismaService.adminAction.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to impersonate the acting admin', async () => {
+      await expect(
+        service.impersonate({ ...context, userId: context.actorId }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('role checks', () => {
+    it('should refuse to act on an account with a higher role', async () => {
+      findTarget({ role: 'ADMIN' });
+
+      await expect(
+        service.revokeSessions({ ...context, actorRole: 'SUPPORT' }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(sessionsService.revokeAll).not.toHaveBeenCalled();
+      expect(prismaService.adminAction.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to act on an account with the same role', async () => {
+      findTarget({ role: 'SUPPORT' });
+
+      await expect(
+        service.sendPasswordReset({ ...context, actorRole: 'SUPPORT' }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(authService.forgotPassword).not.toHaveBeenCalled();
+    });
+
+    it('should let support act on regular users', async () => {
+      findTarget();
+
+      await service.revokeSessions({ ...context, actorRole: 'SUPPORT' });
+
+      expect(sessionsService.revokeAll).toHaveBeenCalledWith(targetUser.id);
+    });
+  });
+
+  describe('findActions', () => {
+    it('should list actions on the user, newest first', async () => {
+      await service.findActions(targetUser.id);
+
+      expect(prismaService.adminAction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { targetUserId: targetUser.id },
+          orderBy: { createdAt: 'desc' },
+        }),
+      );
+    });
+  });
+});
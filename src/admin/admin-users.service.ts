@@ -0,0 +1,280 @@
+import {
+  Injectable,
+  HttpException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { AdminActionType, Prisma, Role, User } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { UsersService } from '../users/users.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { AuthService } from '../auth/auth.service';
+import { ImpersonationService } from '../impersonation/impersonation.service';
+import { ClientInfoData } from '../auth/decorators/client-info.decorator';
+import { outranks } from '../auth/permissions';
+import { ListUsersQueryDto } from './dto/list-users-query.dto';
+
+export interface AdminActionContext {
+  actorId: string;
+  actorRole: Role;
+  userId: string;
+  reason: string;
+  client?: ClientInfoData;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+const USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  emailVerified: true,
+  role: true,
+  lastLogin: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+@Injectable()
+export class AdminUsersService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
+    private readonly authService: AuthService,
+    private readonly impersonationService: ImpersonationService,
+  ) {}
+
+  /**
+   * Cursor paginated user listing. The id is used as a tie-breaker so the
+   * order is total and a cursor always resumes exactly after its row.
+   */
+  async findAll(query: ListUsersQueryDto) {
+    try {
+      const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+      const sortBy = query.sortBy ?? 'createdAt';
+      const sortOrder = query.sortOrder ?? 'desc';
+
+      const orderBy: Prisma.UserOrderByWithRelationInput[] = [
+        sortBy === 'name' || sortBy === 'lastLogin'
+          ? { [sortBy]: { sort: sortOrder, nulls: 'last' } }
+          : { [sortBy]: sortOrder },
+        { id: sortOrder },
+      ];
+
+      const users = await this.prisma.user.findMany({
+        where: this.buildFilter(query),
+        select: USER_SELECT,
+        orderBy,
+        take: limit + 1,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+      });
+
+      const hasMore = users.length > limit;
+      const data = hasMore ? users.slice(0, limit) : users;
+
+      return {
+        data,
+        nextCursor: hasMore ? data[data.length - 1].id : null,
+      };
+    } catch (error) {
+      throw new InternalServerErrorException('Failed to list users');
+    }
+  }
+
+  async suspend(context: AdminActionContext) {
+    if (context.actorId === context.userId) {
+      throw new BadRequestException('You cannot suspend your own account');
+    }
+
+    await this.runAction('SUSPEND', context, async (user) => {
+      if (user.suspendedAt) {
+        throw new ConflictException('User is already suspended');
+      }
+
+      await this.prisma.user.update({
+        where: { id: user.id },
+        data: { suspendedAt: new Date() },
+      });
+      // Access tokens are refused by JwtStrategy, refresh tokens go with the sessions
+      await this.sessionsService.revokeAll(user.id);
+    });
+
+    return { message: 'User suspended successfully' };
+  }
+
+  async reactivate(context: AdminActionContext) {
+    await this.runAction('REACTIVATE', context, async (user) => {
+      if (!user.suspendedAt) {
+        throw new ConflictException('User is not suspended');
+      }
+
+      await this.prisma.user.update({
+        where: { id: user.id },
+        data: { suspendedAt: null },
+      });
+    });
+
+    return { message: 'User reactivated successfully' };
+  }
+
+  async unlock(context: AdminActionContext) {
+    await this.runAction('UNLOCK', context, (user) =>
+      this.usersService.resetLoginAttempts(user.email),
+    );
+
+    return { message: 'Account unlocked successfully' };
+  }
+
+  async verifyEmail(context: AdminActionContext) {
+    await this.runAction('VERIFY_EMAIL', context, async (user) => {
+      if (user.emailVerified) {
+        throw new ConflictException('Email is already verified');
+      }
+
+      await this.usersService.setEmailVerified(user.id, true);
+    });
+
+    return { message: 'Email marked as verified' };
+  }
+
+  async sendPasswordReset(context: AdminActionContext) {
+    await this.runAction('SEND_PASSWORD_RESET', context, async (user) => {
+      await this.authService.forgotPassword({ email: user.email });
+    });
+
+    return { message: 'Password reset email sent' };
+  }
+
+  async revokeSessions(context: AdminActionContext) {
+    await this.runAction('REVOKE_SESSIONS', context, (user) =>
+      this.sessionsService.revokeAll(user.id),
+    );
+
+    return { message: 'All sessions revoked successfully' };
+  }
+
+  async impersonate(context: AdminActionContext) {
+    if (context.actorId === context.userId) {
+      throw new BadRequestException('You cannot impersonate yourself');
+    }
+
+    return this.runAction('IMPERSONATE', context, async (user) => {
+      // An impersonation token must never carry more access than its issuer
+      if (user.role !== 'USER') {
+        throw new ForbiddenException('Staff accounts cannot be impersonated');
+      }
+      if (user.suspendedAt || !user.emailVerified) {
+        throw new BadRequestException(
+          'Only active, verified users can be impersonated',
+        );
+      }
+
+      return this.impersonationService.start(
+        context.actorId,
+        user,
+        context.reason,
+        context.client,
+      );
+    });
+  }
+
+  async findActions(userId: string) {
+    try {
+      return await this.prisma.adminAction.findMany({
+        where: { targetUserId: userId },
+        select: {
+          id: true,
+          action: true,
+          reason: true,
+          actor: { select: { id: true, email: true, name: true } },
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      throw new InternalServerErrorException('Failed to list admin actions');
+    }
+  }
+
+  /**
+   * Applies an action to an existing user and records who took it and why.
+   * The record is only written once the action has succeeded. Accounts at
+   * or above the actor's role are refused, so support staff cannot act on
+   * admins.
+   */
+  private async runAction<T>(
+    action: AdminActionType,
+    context: AdminActionContext,
+    perform: (user: User) => Promise<T>,
+  ): Promise<T> {
+    try {
+      const user = await this.usersService.findById(context.userId);
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+      if (!outranks(context.actorRole, user.role)) {
+        throw new ForbiddenException(
+          'You cannot act on an account with the same or a higher role',
+        );
+      }
+
+      const result = await perform(user);
+
+      await this.prisma.adminAction.create({
+        data: {
+          actorId: context.actorId,
+          targetUserId: user.id,
+          action,
+          reason: context.reason,
+          ipAddress: context.client?.ipAddress,
+          userAgent: context.client?.userAgent,
+        },
+      });
+
+      return result;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to perform admin action');
+    }
+  }
+
+  private buildFilter(query: ListUsersQueryDto): Prisma.UserWhereInput {
+    const now = new Date();
+    const filters: Prisma.UserWhereInput[] = [];
+
+    if (query.search) {
+      filters.push({
+        OR: [
+          { email: { contains: query.search, mode: 'insensitive' } },
+          { name: { contains: query.search, mode: 'insensitive' } },
+        ],
+      });
+    }
+
+    if (query.verified !== undefined) {
+      filters.push({ emailVerified: query.verified });
+    }
+
+    if (query.locked === true) {
+      filters.push({ lockedUntil: { gt: now } });
+    } else if (query.locked === false) {
+      filters.push({
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }],
+      });
+    }
+
+    if (query.createdFrom || query.createdTo) {
+      filters.push({
+        createdAt: { gte: query.createdFrom, lte: query.createdTo },
+      });
+    }
+
+    return { AND: filters };
+  }
+}
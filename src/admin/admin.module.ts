@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { AdminUsersService } from './admin-users.service';
+import { AdminUsersController } from './admin-users.controller';
+import { AdminImpersonationsController } from './admin-impersonations.controller';
+import { AdminSecurityEventsController } from './admin-security-events.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { UsersModule } from '../users/users.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { AuthModule } from '../auth/auth.module';
+import { ImpersonationModule } from '../impersonation/impersonation.module';
+import { SecurityEventsModule } from '../security-events/security-events.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    UsersModule,
+    SessionsModule,
+    AuthModule,
+    ImpersonationModule,
+    SecurityEventsModule,
+  ],
+  controllers: [
+    AdminUsersController,
+    AdminImpersonationsController,
+    AdminSecurityEventsController,
+  ],
+  providers: [AdminUsersService],
+})
+export class AdminModule {}
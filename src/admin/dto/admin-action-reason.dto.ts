@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class AdminActionReasonDto {
+  @ApiProperty({
+    example: 'Locked out after travelling, identity confirmed by phone',
+    description: 'Why the action is taken, kept in the admin audit trail',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Reason is required' })
+  @MaxLength(500, { message: 'Reason must be at most 500 characters long' })
+  reason: string;
+}
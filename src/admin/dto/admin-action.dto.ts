@@ -0,0 +1,38 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AdminActionType } from '@prisma/client';
+
+class AdminActionActorDto {
+  @ApiProperty({ example: '0b8f1f5e-1c1a-4a57-9b8e-7f0c6a3d2e11' })
+  id: string;
+
+  @ApiProperty({ example: 'admin@example.com' })
+  email: string;
+
+  @ApiPropertyOptional({ example: 'Admin User' })
+  name: string | null;
+}
+
+export class AdminActionDto {
+  @ApiProperty({
+    example: '7d8e2c1a-4b5f-4c3e-9a1d-2f6b8e0c4a77',
+    description: 'Action unique identifier',
+  })
+  id: string;
+
+  @ApiProperty({ enum: AdminActionType, example: 'UNLOCK' })
+  action: AdminActionType;
+
+  @ApiProperty({
+    example: 'Locked out after travelling, identity confirmed by phone',
+  })
+  reason: string;
+
+  @ApiPropertyOptional({
+    type: AdminActionActorDto,
+    description: 'Staff member who took the action, null once deleted',
+  })
+  actor: AdminActionActorDto | null;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00Z' })
+  createdAt: Date;
+}
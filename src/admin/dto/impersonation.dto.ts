@@ -0,0 +1,62 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ImpersonationTokenDto {
+  @ApiProperty({
+    example: '3f2c9a7e-5d1b-4e8a-b6c4-0a9d8e7f6b21',
+    description: 'Impersonation session to end once done',
+  })
+  impersonationId: string;
+
+  @ApiProperty({
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description:
+      'Access token for the impersonated user. It cannot be refreshed',
+  })
+  accessToken: string;
+
+  @ApiProperty({ example: 'Bearer' })
+  tokenType: string;
+
+  @ApiProperty({ example: '15m' })
+  expiresIn: string;
+
+  @ApiProperty({ example: '2024-01-15T10:45:00Z' })
+  expiresAt: Date;
+}
+
+class ImpersonationUserDto {
+  @ApiProperty({ example: '0b8f1f5e-1c1a-4a57-9b8e-7f0c6a3d2e11' })
+  id: string;
+
+  @ApiProperty({ example: 'user@example.com' })
+  email: string;
+
+  @ApiPropertyOptional({ example: 'John Doe' })
+  name: string | null;
+}
+
+export class ImpersonationSessionDto {
+  @ApiProperty({ example: '3f2c9a7e-5d1b-4e8a-b6c4-0a9d8e7f6b21' })
+  id: string;
+
+  @ApiProperty({ example: 'Reproducing an empty listening queue' })
+  reason: string;
+
+  @ApiPropertyOptional({
+    type: ImpersonationUserDto,
+    description: 'Admin acting as the user, null once deleted',
+  })
+  actor: ImpersonationUserDto | null;
+
+  @ApiPropertyOptional({
+    type: ImpersonationUserDto,
+    description: 'Impersonated user, null once deleted',
+  })
+  targetUser: ImpersonationUserDto | null;
+
+  @ApiProperty({ example: '2024-01-15T10:45:00Z' })
+  expiresAt: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00Z' })
+  createdAt: Date;
+}
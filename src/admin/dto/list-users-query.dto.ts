@@ -0,0 +1,107 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export const USER_SORT_FIELDS = [
+  'createdAt',
+  'email',
+  'name',
+  'lastLogin',
+] as const;
+
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+// Query strings only carry text, and implicit conversion turns 'false' into true
+const toBoolean = ({
+  obj,
+  key,
+}: {
+  obj: Record<string, unknown>;
+  key: string;
+}) =>
+  obj[key] === true || obj[key] === 'true'
+    ? true
+    : obj[key] === false || obj[key] === 'false'
+      ? false
+      : obj[key];
+
+export class ListUsersQueryDto {
+  @ApiPropertyOptional({
+    example: 'john',
+    description: 'Case-insensitive match on email or name',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only users with this verification status',
+  })
+  @Transform(toBoolean)
+  @IsBoolean()
+  @IsOptional()
+  verified?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Only users that are (or are not) locked out',
+  })
+  @Transform(toBoolean)
+  @IsBoolean()
+  @IsOptional()
+  locked?: boolean;
+
+  @ApiPropertyOptional({
+    example: '2024-01-01T00:00:00Z',
+    description: 'Only users created at or after this date',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  createdFrom?: Date;
+
+  @ApiPropertyOptional({
+    example: '2024-12-31T23:59:59Z',
+    description: 'Only users created at or before this date',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  createdTo?: Date;
+
+  @ApiPropertyOptional({ enum: USER_SORT_FIELDS, default: 'createdAt' })
+  @IsIn(USER_SORT_FIELDS)
+  @IsOptional()
+  sortBy?: UserSortField;
+
+  @ApiPropertyOptional({ enum: ['asc', 'desc'], default: 'desc' })
+  @IsIn(['asc', 'desc'])
+  @IsOptional()
+  sortOrder?: 'asc' | 'desc';
+
+  @ApiPropertyOptional({
+    description: 'nextCursor from the previous page',
+  })
+  @IsUUID('4', { message: 'Invalid cursor' })
+  @IsOptional()
+  cursor?: string;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: 100, default: 20 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
@@ -0,0 +1,39 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsDate, IsIP, IsOptional, IsUUID } from 'class-validator';
+import { ListSecurityEventsQueryDto } from '../../security-events/dto/list-security-events-query.dto';
+
+export class SearchSecurityEventsQueryDto extends ListSecurityEventsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only events of this account',
+  })
+  @IsUUID('4')
+  @IsOptional()
+  userId?: string;
+
+  @ApiPropertyOptional({
+    example: '203.0.113.42',
+    description: 'Only events from this IP address',
+  })
+  @IsIP()
+  @IsOptional()
+  ipAddress?: string;
+
+  @ApiPropertyOptional({
+    example: '2024-01-01T00:00:00Z',
+    description: 'Only events at or after this date',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  from?: Date;
+
+  @ApiPropertyOptional({
+    example: '2024-12-31T23:59:59Z',
+    description: 'Only events at or before this date',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  to?: Date;
+}
@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserDto } from '../../users/dto/user.dto';
+
+export class AdminUserDto extends UserDto {
+  @ApiProperty({
+    example: '2024-01-20T08:15:00Z',
+    description: 'Last successful sign-in, null if the user never signed in',
+    nullable: true,
+    type: Date,
+  })
+  lastLogin: Date | null;
+}
+
+export class UserPageDto {
+  @ApiProperty({ type: [AdminUserDto] })
+  data: AdminUserDto[];
+
+  @ApiProperty({
+    example: '0b8f1f5e-1c1a-4a57-9b8e-7f0c6a3d2e11',
+    description: 'Cursor for the next page, null on the last page',
+    nullable: true,
+  })
+  nextCursor: string | null;
+}
@@ -1,25 +1,27 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
-import { ThrottlerModule } from '@nestjs/throttler';
 import { BullModule } from '@nestjs/bull';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaModule } from './prisma/prisma.module';
+import { CryptoModule } from './crypto/crypto.module';
+import { authConfig } from './config/auth.config';
+import { RedisModule } from './redis/redis.module';
+import { RateLimitModule } from './rate-limit/rate-limit.module';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
 import { EmailModule } from './email/email.module';
+import { AdminModule } from './admin/admin.module';
+import { DataExportModule } from './data-export/data-export.module';
+import { AccountDeletionModule } from './account-deletion/account-deletion.module';
+import { EmailChangeModule } from './email-change/email-change.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
+      load: [authConfig],
     }),
-    ThrottlerModule.forRoot([
-      {
-        ttl: 60000, // 1 minute
-        limit: 10, // 10 requests per minute
-      },
-    ]),
     BullModule.forRootAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
@@ -32,9 +34,16 @@ import { EmailModule } from './email/email.module';
       inject: [ConfigService],
     }),
     PrismaModule,
+    CryptoModule,
+    RedisModule,
+    RateLimitModule,
     AuthModule,
     UsersModule,
     EmailModule,
+    AdminModule,
+    DataExportModule,
+    AccountDeletionModule,
+    EmailChangeModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -6,13 +6,14 @@ import { LoginDto } from './dto/login.dto';
 import { VerifyEmailDto } from './dto/verify-email.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
+import { MfaLoginDto } from './dto/mfa-login.dto';
+import { PasskeyLoginDto } from './dto/passkey-login.dto';
 import { CurrentUserData } from './decorators/current-user.decorator';
 import {
   ConflictException,
   UnauthorizedException,
   ForbiddenException,
   BadRequestException,
-  NotFoundException,
 } from '@nestjs/common';
 
 describe('AuthController', () => {
@@ -24,6 +25,13 @@ describe('AuthController', () => {
     email: 'test@example.com',
     name: 'Test User',
     emailVerified: true,
+    role: 'USER',
+    sessionId: 'session-123',
+  };
+
+  const mockClient = {
+    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)',
+    ipAddress: '203.0.113.42',
   };
 
   const mockTokens = {
@@ -52,11 +60,20 @@ describe('AuthController', () => {
           useValue: {
             register: jest.fn(),
             login: jest.fn(),
+            loginWithMfa: jest.fn(),
+            passkeyLoginOptions: jest.fn(),
+            loginWithPasskey: jest.fn(),
+            oidcProviders: jest.fn(),
+            oidcAuthorizationUrl: jest.fn(),
+            loginWithOidc: jest.fn(),
+            sendMagicLink: jest.fn(),
+            loginWithMagicLink: jest.fn(),
             logout: jest.fn(),
             refreshTokens: jest.fn(),
             verifyEmail: jest.fn(),
             forgotPassword: jest.fn(),
             resetPassword: jest.fn(),
+            changePassword: jest.fn(),
             resendVerificationEmail: jest.fn(),
           },
         },
@@ -84,10 +101,10 @@ describe('AuthController', () => {
       
       jest.spyOn(authService, 'register').mockResolvedValue(expectedResponse);
 
-      const result = await controller.register(registerDto);
+      const result = await controller.register(registerDto, mockClient);
 
       expect(result).toEqual(expectedResponse);
-      expect(authService.register).toHaveBeenCalledWith(registerDto);
+      expect(authService.register).toHaveBeenCalledWith(registerDto, mockClient);
     });
 
     it('should handle duplicate email error', async () => {
@@ -95,7 +112,7 @@ describe('AuthController', () => {
         new ConflictException('User with this email already exists')
       );
 
-      await expect(controller.register(registerDto)).rejects.toThrow(ConflictException);
+      await expect(controller.register(registerDto, mockClient)).rejects.toThrow(ConflictException);
     });
 
     it('should handle validation errors', async () => {
@@ -109,7 +126,7 @@ describe('AuthController', () => {
         new BadRequestException('Validation failed')
       );
 
-      await expect(controller.register(invalidDto)).rejects.toThrow(BadRequestException);
+      await expect(controller.register(invalidDto, mockClient)).rejects.toThrow(BadRequestException);
     });
   });
 
@@ -122,10 +139,10 @@ describe('AuthController', () => {
     it('should successfully login a user', async () => {
       jest.spyOn(authService, 'login').mockResolvedValue(mockAuthResponse as any);
 
-      const result = await controller.login(loginDto);
+      const result = await controller.login(loginDto, mockClient);
 
       expect(result).toEqual(mockAuthResponse);
-      expect(authService.login).toHaveBeenCalledWith(loginDto);
+      expect(authService.login).toHaveBeenCalledWith(loginDto, mockClient);
     });
 
     it('should handle invalid credentials', async () => {
@@ -133,7 +150,7 @@ describe('AuthController', () => {
         new UnauthorizedException('Invalid credentials')
       );
 
-      await expect(controller.login(loginDto)).rejects.toThrow(UnauthorizedException);
+      await expect(controller.login(loginDto, mockClient)).rejects.toThrow(UnauthorizedException);
     });
 
     it('should handle unverified email', async () => {
@@ -141,7 +158,7 @@ describe('AuthController', () => {
         new ForbiddenException('Please verify your email before logging in')
       );
 
-      await expect(controller.login(loginDto)).rejects.toThrow(ForbiddenException);
+      await expect(controller.login(loginDto, mockClient)).rejects.toThrow(ForbiddenException);
     });
 
     it('should handle locked account', async () => {
@@ -149,7 +166,98 @@ describe('AuthController', () => {
         new ForbiddenException('Account is locked due to multiple failed login attempts')
       );
 
-      await expect(controller.login(loginDto)).rejects.toThrow(ForbiddenException);
+      await expect(controller.login(loginDto, mockClient)).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('loginWithMfa', () => {
+    const mfaLoginDto: MfaLoginDto = {
+      mfaToken: 'mfa-challenge-token',
+      code: '123456',
+    };
+
+    it('should exchange the challenge and code for tokens', async () => {
+      jest.spyOn(authService, 'loginWithMfa').mockResolvedValue(mockAuthResponse as any);
+
+      const result = await controller.loginWithMfa(mfaLoginDto, mockClient);
+
+      expect(result).toEqual(mockAuthResponse);
+      expect(authService.loginWithMfa).toHaveBeenCalledWith(mfaLoginDto, mockClient);
+    });
+
+    it('should handle invalid codes', async () => {
+      jest.spyOn(authService, 'loginWithMfa').mockRejectedValue(
+        new UnauthorizedException('Invalid two-factor code')
+      );
+
+      await expect(controller.loginWithMfa(mfaLoginDto, mockClient)).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('passkey login', () => {
+    it('should return authentication options', async () => {
+      const options = { challengeId: 'challenge-123', options: { challenge: 'abc' } };
+      jest.spyOn(authService, 'passkeyLoginOptions').mockResolvedValue(options as any);
+
+      const result = await controller.passkeyLoginOptions();
+
+      expect(result).toEqual(options);
+    });
+
+    it('should exchange a verified assertion for tokens', async () => {
+      const passkeyLoginDto: PasskeyLoginDto = {
+        challengeId: 'challenge-123',
+        response: { id: 'credential-id' } as any,
+      };
+      jest.spyOn(authService, 'loginWithPasskey').mockResolvedValue(mockAuthResponse as any);
+
+      const result = await controller.loginWithPasskey(passkeyLoginDto, mockClient);
+
+      expect(result).toEqual(mockAuthResponse);
+      expect(authService.loginWithPasskey).toHaveBeenCalledWith(passkeyLoginDto, mockClient);
+    });
+  });
+
+  describe('OIDC login', () => {
+    it('should return the authorization URL for the provider', async () => {
+      const authorization = { authorizationUrl: 'https://accounts.example.com/authorize?state=abc', state: 'abc' };
+      jest.spyOn(authService, 'oidcAuthorizationUrl').mockResolvedValue(authorization);
+
+      const result = await controller.oidcAuthorize('google');
+
+      expect(result).toEqual(authorization);
+      expect(authService.oidcAuthorizationUrl).toHaveBeenCalledWith('google');
+    });
+
+    it('should exchange the authorization code for tokens', async () => {
+      const oidcLoginDto = { code: 'authorization-code', state: 'abc' };
+      jest.spyOn(authService, 'loginWithOidc').mockResolvedValue(mockAuthResponse as any);
+
+      const result = await controller.loginWithOidc('google', oidcLoginDto, mockClient);
+
+      expect(result).toEqual(mockAuthResponse);
+      expect(authService.loginWithOidc).toHaveBeenCalledWith('google', oidcLoginDto, mockClient);
+    });
+  });
+
+  describe('magic link', () => {
+    it('should request a sign-in link', async () => {
+      const expectedResponse = { message: 'Check your email for a sign-in link.' };
+      jest.spyOn(authService, 'sendMagicLink').mockResolvedValue(expectedResponse);
+
+      const result = await controller.sendMagicLink({ email: 'test@example.com' });
+
+      expect(result).toEqual(expectedResponse);
+    });
+
+    it('should exchange the link token for tokens', async () => {
+      const consumeMagicLinkDto = { token: 'magic-token' };
+      jest.spyOn(authService, 'loginWithMagicLink').mockResolvedValue(mockAuthResponse as any);
+
+      const result = await controller.loginWithMagicLink(consumeMagicLinkDto, mockClient);
+
+      expect(result).toEqual(mockAuthResponse);
+      expect(authService.loginWithMagicLink).toHaveBeenCalledWith(consumeMagicLinkDto, mockClient);
     });
   });
 
@@ -159,10 +267,10 @@ describe('AuthController', () => {
       
       jest.spyOn(authService, 'logout').mockResolvedValue(expectedResponse);
 
-      const result = await controller.logout(mockUser);
+      const result = await controller.logout({ ...mockUser, tokenId: 'token-123', tokenExpiresAt: 1700000900 }, mockClient);
 
       expect(result).toEqual(expectedResponse);
-      expect(authService.logout).toHaveBeenCalledWith(mockUser.id);
+      expect(authService.logout).toHaveBeenCalledWith(mockUser.id, mockUser.sessionId, { id: 'token-123', expiresAt: 1700000900 }, mockClient);
     });
   });
 
@@ -170,17 +278,20 @@ describe('AuthController', () => {
     it('should successfully refresh tokens', async () => {
       const refreshUser = {
         sub: mockUser.id,
+        sid: mockUser.sessionId,
         refreshToken: 'old-refresh-token',
       };
 
       jest.spyOn(authService, 'refreshTokens').mockResolvedValue(mockTokens);
 
-      const result = await controller.refreshTokens(refreshUser);
+      const result = await controller.refreshTokens(refreshUser, mockClient);
 
       expect(result).toEqual(mockTokens);
       expect(authService.refreshTokens).toHaveBeenCalledWith(
         refreshUser.sub,
-        refreshUser.refreshToken
+        refreshUser.refreshToken,
+        refreshUser.sid,
+        mockClient,
       );
     });
 
@@ -208,10 +319,10 @@ describe('AuthController', () => {
       
       jest.spyOn(authService, 'verifyEmail').mockResolvedValue(expectedResponse);
 
-      const result = await controller.verifyEmail(verifyEmailDto);
+      const result = await controller.verifyEmail(verifyEmailDto, mockClient);
 
       expect(result).toEqual(expectedResponse);
-      expect(authService.verifyEmail).toHaveBeenCalledWith(verifyEmailDto);
+      expect(authService.verifyEmail).toHaveBeenCalledWith(verifyEmailDto, mockClient);
     });
 
     it('should handle invalid verification token', async () => {
@@ -245,10 +356,10 @@ describe('AuthController', () => {
       
       jest.spyOn(authService, 'forgotPassword').mockResolvedValue(expectedResponse);
 
-      const result = await controller.forgotPassword(forgotPasswordDto);
+      const result = await controller.forgotPassword(forgotPasswordDto, mockClient);
 
       expect(result).toEqual(expectedResponse);
-      expect(authService.forgotPassword).toHaveBeenCalledWith(forgotPasswordDto);
+      expect(authService.forgotPassword).toHaveBeenCalledWith(forgotPasswordDto, mockClient);
     });
 
     it('should return generic message for non-existent email', async () => {
@@ -275,10 +386,10 @@ describe('AuthController', () => {
       
       jest.spyOn(authService, 'resetPassword').mockResolvedValue(expectedResponse);
 
-      const result = await controller.resetPassword(resetPasswordDto);
+      const result = await controller.resetPassword(resetPasswordDto, mockClient);
 
       expect(result).toEqual(expectedResponse);
-      expect(authService.resetPassword).toHaveBeenCalledWith(resetPasswordDto);
+      expect(authService.resetPassword).toHaveBeenCalledWith(resetPasswordDto, mockClient);
     });
 
     it('should handle invalid reset token', async () => {
@@ -290,36 +401,36 @@ describe('AuthController', () => {
     });
   });
 
-  describe('resendVerificationEmail', () => {
-    const email = 'test@example.com';
+  describe('changePassword', () => {
+    it('should change the password from the current session', async () => {
+      const changePasswordDto = {
+        currentPassword: 'Password123!',
+        newPassword: 'NewPassword123!',
+        revokeOtherSessions: true,
+      };
+      const expectedResponse = { message: 'Password changed successfully', revokedSessions: 1 };
 
-    it('should resend verification email', async () => {
-      const expectedResponse = { message: 'Verification email sent successfully' };
-      
-      jest.spyOn(authService, 'resendVerificationEmail').mockResolvedValue(expectedResponse);
+      jest.spyOn(authService, 'changePassword').mockResolvedValue(expectedResponse);
 
-      const result = await controller.resendVerificationEmail(email);
+      const result = await controller.changePassword(mockUser, changePasswordDto, mockClient);
 
       expect(result).toEqual(expectedResponse);
-      expect(authService.resendVerificationEmail).toHaveBeenCalledWith(email);
+      expect(authService.changePassword).toHaveBeenCalledWith(mockUser.id, changePasswordDto, mockUser.sessionId, mockClient);
     });
+  });
 
-    it('should handle non-existent user', async () => {
-      jest.spyOn(authService, 'resendVerificationEmail').mockRejectedValue(
-        new NotFoundException('User not found')
-      );
-
-      await expect(controller.resendVerificationEmail(email)).rejects.toThrow(NotFoundException);
-    });
+  describe('resendVerificationEmail', () => {
+    const email = 'test@example.com';
 
-    it('should handle already verified email', async () => {
-      const expectedResponse = { message: 'Email already verified' };
+    it('should resend verification email', async () => {
+      const expectedResponse = { message: 'If an unverified account exists with this email, a new verification link has been sent.' };
       
       jest.spyOn(authService, 'resendVerificationEmail').mockResolvedValue(expectedResponse);
 
-      const result = await controller.resendVerificationEmail(email);
+      const result = await controller.resendVerificationEmail({ email });
 
       expect(result).toEqual(expectedResponse);
+      expect(authService.resendVerificationEmail).toHaveBeenCalledWith(email);
     });
   });
 
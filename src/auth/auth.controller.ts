@@ -7,6 +7,7 @@ import {
   HttpStatus,
   Get,
   Query,
+  Param,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -14,6 +15,7 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiBody,
+  ApiSecurity,
 } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
 import { RegisterDto } from './dto/register.dto';
@@ -21,10 +23,21 @@ import { LoginDto } from './dto/login.dto';
 import { VerifyEmailDto } from './dto/verify-email.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { MfaLoginDto } from './dto/mfa-login.dto';
+import { PasskeyLoginDto } from './dto/passkey-login.dto';
+import { OidcLoginDto } from './dto/oidc-login.dto';
+import { MagicLinkDto } from './dto/magic-link.dto';
+import { ConsumeMagicLinkDto } from './dto/consume-magic-link.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { JwtRefreshGuard } from './guards/jwt-refresh.guard';
 import { CurrentUser, CurrentUserData } from './decorators/current-user.decorator';
+import { ClientInfo, ClientInfoData } from './decorators/client-info.decorator';
 import { Public } from './decorators/public.decorator';
+import { AllowApiKey } from './decorators/allow-api-key.decorator';
+import { DenyImpersonation } from './decorators/deny-impersonation.decorator';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
 
 @ApiTags('Authentication')
 @Controller('auth')
@@ -33,6 +46,7 @@ export class AuthController {
 
   @Public()
   @Post('register')
+  @RateLimit('register')
   @ApiOperation({ summary: 'Register a new user' })
   @ApiResponse({
     status: HttpStatus.CREATED,
@@ -46,18 +60,23 @@ export class AuthController {
     status: HttpStatus.BAD_REQUEST,
     description: 'Invalid input data',
   })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many registrations from this client or for this email',
+  })
   @ApiBody({ type: RegisterDto })
-  async register(@Body() registerDto: RegisterDto) {
-    return this.authService.register(registerDto);
+  async register(@Body() registerDto: RegisterDto, @ClientInfo() client: ClientInfoData) {
+    return this.authService.register(registerDto, client);
   }
 
   @Public()
   @Post('login')
+  @RateLimit('login')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Login user' })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'User successfully logged in',
+    description: 'User successfully logged in, or an MFA challenge if two-factor authentication is enabled',
   })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
@@ -67,16 +86,171 @@ export class AuthController {
     status: HttpStatus.FORBIDDEN,
     description: 'Account locked or email not verified',
   })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many attempts from this client or on this email',
+  })
   @ApiBody({ type: LoginDto })
-  async login(@Body() loginDto: LoginDto) {
-    return this.authService.login(loginDto);
+  async login(@Body() loginDto: LoginDto, @ClientInfo() client: ClientInfoData) {
+    return this.authService.login(loginDto, client);
+  }
+
+  @Public()
+  @Post('login/mfa')
+  @RateLimit('loginMfa')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete a login with a two-factor code' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'User successfully logged in',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid or expired challenge, or invalid code',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Account locked',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many attempts from this client',
+  })
+  @ApiBody({ type: MfaLoginDto })
+  async loginWithMfa(@Body() mfaLoginDto: MfaLoginDto, @ClientInfo() client: ClientInfoData) {
+    return this.authService.loginWithMfa(mfaLoginDto, client);
+  }
+
+  @Public()
+  @Post('webauthn/login/options')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start a passkey login' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Challenge id and options for navigator.credentials.get()',
+  })
+  async passkeyLoginOptions() {
+    return this.authService.passkeyLoginOptions();
+  }
+
+  @Public()
+  @Post('webauthn/login/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Login with a passkey' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'User successfully logged in',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid or expired challenge, unknown passkey or invalid assertion',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Account locked or email not verified',
+  })
+  @ApiBody({ type: PasskeyLoginDto })
+  async loginWithPasskey(@Body() passkeyLoginDto: PasskeyLoginDto, @ClientInfo() client: ClientInfoData) {
+    return this.authService.loginWithPasskey(passkeyLoginDto, client);
+  }
+
+  @Public()
+  @Get('oidc/providers')
+  @ApiOperation({ summary: 'List the identity providers available for login' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Keys of the configured identity providers',
+  })
+  async oidcProviders() {
+    return this.authService.oidcProviders();
+  }
+
+  @Public()
+  @Post('oidc/:provider/authorize')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start a login with an identity provider' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Authorization URL to redirect the browser to, and the state it carries',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Unknown identity provider',
+  })
+  async oidcAuthorize(@Param('provider') provider: string) {
+    return this.authService.oidcAuthorizationUrl(provider);
+  }
+
+  @Public()
+  @Post('oidc/:provider/callback')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete a login with an identity provider' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'User successfully logged in, or an MFA challenge if two-factor authentication is enabled',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid or expired state, rejected code, invalid ID token or no verified email',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Account locked',
+  })
+  @ApiBody({ type: OidcLoginDto })
+  async loginWithOidc(
+    @Param('provider') provider: string,
+    @Body() oidcLoginDto: OidcLoginDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.authService.loginWithOidc(provider, oidcLoginDto, client);
+  }
+
+  @Public()
+  @Post('magic-link')
+  @RateLimit('magicLink')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Email a one-time sign-in link' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sign-in link sent; accounts are created on first use',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many requests from this client or for this email',
+  })
+  @ApiBody({ type: MagicLinkDto })
+  async sendMagicLink(@Body() magicLinkDto: MagicLinkDto) {
+    return this.authService.sendMagicLink(magicLinkDto);
+  }
+
+  @Public()
+  @Post('magic-link/consume')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Login with a sign-in link' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'User successfully logged in, or an MFA challenge if two-factor authentication is enabled',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid, expired or already used link',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Account locked',
+  })
+  @ApiBody({ type: ConsumeMagicLinkDto })
+  async loginWithMagicLink(@Body() consumeMagicLinkDto: ConsumeMagicLinkDto, @ClientInfo() client: ClientInfoData) {
+    return this.authService.loginWithMagicLink(consumeMagicLinkDto, client);
   }
 
   @Post('logout')
   @UseGuards(JwtAuthGuard)
+  @DenyImpersonation()
   @HttpCode(HttpStatus.OK)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Logout user' })
+  @ApiOperation({ summary: 'Logout user from the current session' })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'User successfully logged out',
@@ -85,8 +259,8 @@ export class AuthController {
     status: HttpStatus.UNAUTHORIZED,
     description: 'Unauthorized',
   })
-  async logout(@CurrentUser() user: CurrentUserData) {
-    return this.authService.logout(user.id);
+  async logout(@CurrentUser() user: CurrentUserData, @ClientInfo() client?: ClientInfoData) {
+    return this.authService.logout(user.id, user.sessionId, user.tokenId && user.tokenExpiresAt ? { id: user.tokenId, expiresAt: user.tokenExpiresAt } : undefined, client);
   }
 
   @Public()
@@ -105,10 +279,11 @@ export class AuthController {
   })
   async refreshTokens(
     @CurrentUser() user: any,
+    @ClientInfo() client?: ClientInfoData,
   ) {
     const userId = user.sub;
     const refreshToken = user.refreshToken;
-    return this.authService.refreshTokens(userId, refreshToken);
+    return this.authService.refreshTokens(userId, refreshToken, user.sid, client);
   }
 
   @Public()
@@ -121,28 +296,34 @@ export class AuthController {
   })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
-    description: 'Invalid or expired verification token',
+    description: 'Invalid verification token, or an expired one that needs to be requested again',
   })
   @ApiBody({ type: VerifyEmailDto })
-  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
-    return this.authService.verifyEmail(verifyEmailDto);
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto, @ClientInfo() client?: ClientInfoData) {
+    return this.authService.verifyEmail(verifyEmailDto, client);
   }
 
   @Public()
   @Post('forgot-password')
+  @RateLimit('forgotPassword')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Request password reset' })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Password reset email sent if account exists',
   })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many requests from this client or for this email',
+  })
   @ApiBody({ type: ForgotPasswordDto })
-  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
-    return this.authService.forgotPassword(forgotPasswordDto);
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto, @ClientInfo() client?: ClientInfoData) {
+    return this.authService.forgotPassword(forgotPasswordDto, client);
   }
 
   @Public()
   @Post('reset-password')
+  @RateLimit('resetPassword')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Reset password with token' })
   @ApiResponse({
@@ -151,32 +332,62 @@ export class AuthController {
   })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
-    description: 'Invalid or expired reset token',
+    description: 'Invalid or expired reset token, or a new password that breaks the password policy',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many attempts from this client',
   })
   @ApiBody({ type: ResetPasswordDto })
-  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
-    return this.authService.resetPassword(resetPasswordDto);
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto, @ClientInfo() client?: ClientInfoData) {
+    return this.authService.resetPassword(resetPasswordDto, client);
+  }
+
+  @Post('change-password')
+  @UseGuards(JwtAuthGuard)
+  @DenyImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Change the password of the current user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Password changed',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'New password breaks the password policy, is unchanged, or the account has no password',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Invalid current password',
+  })
+  @ApiBody({ type: ChangePasswordDto })
+  async changePassword(@CurrentUser() user: CurrentUserData, @Body() changePasswordDto: ChangePasswordDto, @ClientInfo() client: ClientInfoData) {
+    return this.authService.changePassword(user.id, changePasswordDto, user.sessionId, client);
   }
 
   @Public()
   @Post('resend-verification')
+  @RateLimit('resendVerification')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Resend verification email' })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Verification email sent',
+    description: 'Verification email sent if the account exists and is unverified',
   })
   @ApiResponse({
-    status: HttpStatus.NOT_FOUND,
-    description: 'User not found',
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many requests from this client or for this email',
   })
-  async resendVerificationEmail(@Query('email') email: string) {
-    return this.authService.resendVerificationEmail(email);
+  async resendVerificationEmail(@Query() resendVerificationDto: ResendVerificationDto) {
+    return this.authService.resendVerificationEmail(resendVerificationDto.email);
   }
 
   @Get('me')
   @UseGuards(JwtAuthGuard)
+  @AllowApiKey('profile:read')
   @ApiBearerAuth()
+  @ApiSecurity('api-key')
   @ApiOperation({ summary: 'Get current user profile' })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -1,34 +1,46 @@
 import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
-import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { JwtRefreshStrategy } from './strategies/jwt-refresh.strategy';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
 import { UsersModule } from '../users/users.module';
 import { EmailModule } from '../email/email.module';
 import { PrismaModule } from '../prisma/prisma.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { SecurityEventsModule } from '../security-events/security-events.module';
+import { MfaModule } from '../mfa/mfa.module';
+import { WebAuthnModule } from '../webauthn/webauthn.module';
+import { OidcModule } from '../oidc/oidc.module';
+import { MagicLinkModule } from '../magic-link/magic-link.module';
+import { PersonalAccessTokensModule } from '../personal-access-tokens/personal-access-tokens.module';
+import { ImpersonationModule } from '../impersonation/impersonation.module';
+import { PasswordPolicyModule } from '../password-policy/password-policy.module';
+import { LoginAlertsModule } from '../login-alerts/login-alerts.module';
 
 @Module({
   imports: [
     UsersModule,
     EmailModule,
     PrismaModule,
+    SessionsModule,
+    SecurityEventsModule,
+    MfaModule,
+    WebAuthnModule,
+    OidcModule,
+    MagicLinkModule,
+    PersonalAccessTokensModule,
+    ImpersonationModule,
+    PasswordPolicyModule,
+    LoginAlertsModule,
     PassportModule.register({ defaultStrategy: 'jwt' }),
-    JwtModule.registerAsync({
-      imports: [ConfigModule],
-      useFactory: async (configService: ConfigService) => ({
-        secret: configService.get<string>('JWT_SECRET'),
-        signOptions: {
-          expiresIn: configService.get<string>('JWT_EXPIRATION', '15m'),
-        },
-      }),
-      inject: [ConfigService],
-    }),
+    // Keys are passed on every call: access tokens use JwtKeysService, refresh tokens their own secret
+    JwtModule.register({}),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, JwtRefreshStrategy],
+  providers: [AuthService, JwtStrategy, JwtRefreshStrategy, ApiKeyStrategy],
   exports: [AuthService],
 })
 export class AuthModule {}
\ No newline at end of file
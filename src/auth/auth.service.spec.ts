@@ -8,20 +8,34 @@ import {
   NotFoundException,
   ForbiddenException,
   InternalServerErrorException,
+  Logger,
 } from '@nestjs/common';
-import * as bcrypt from 'bcrypt';
 import { AuthService } from './auth.service';
 import { UsersService } from '../users/users.service';
 import { EmailService } from '../email/email.service';
-import { PrismaService } from '../prisma/prisma.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { AccessTokenDenyListService } from '../sessions/access-token-deny-list.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { MfaService } from '../mfa/mfa.service';
+import { WebAuthnService } from '../webauthn/webauthn.service';
+import { OidcService } from '../oidc/oidc.service';
+import { MagicLinkService } from '../magic-link/magic-link.service';
+import { JwtKeysService } from '../crypto/jwt-keys.service';
+import { PasswordHasherService } from '../crypto/password-hasher.service';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import { LoginAlertsService } from '../login-alerts/login-alerts.service';
+import { PersonalAccessTokensService } from '../personal-access-tokens/personal-access-tokens.service';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { VerifyEmailDto } from './dto/verify-email.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { authConfig, AuthConfig } from '../config/auth.config';
 
-// Mock bcrypt
-jest.mock('bcrypt');
+// Mock logger to prevent console output during tests
+jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+jest.spyOn(Logger.prototype, 'error').mockImplementation();
 
 describe('AuthService', () => {
   let service: AuthService;
@@ -29,7 +43,18 @@ describe('AuthService', () => {
   let jwtService: JwtService;
   let configService: ConfigService;
   let emailService: EmailService;
-  let prismaService: PrismaService;
+  let sessionsService: SessionsService;
+  let securityEventsService: SecurityEventsService;
+  let mfaService: MfaService;
+  let webAuthnService: WebAuthnService;
+  let oidcService: OidcService;
+  let magicLinkService: MagicLinkService;
+  let accessTokenDenyList: AccessTokenDenyListService;
+  let passwordHasher: PasswordHasherService;
+  let passwordPolicy: PasswordPolicyService;
+  let loginAlertsService: LoginAlertsService;
+  let personalAccessTokensService: PersonalAccessTokensService;
+  let config: AuthConfig;
 
   const mockUser = {
     id: '123e4567-e89b-12d3-a456-426614174000',
@@ -37,13 +62,21 @@ describe('AuthService', () => {
     name: 'Test User',
     passwordHash: 'hashedPassword',
     emailVerified: true,
-    emailVerificationToken: null,
-    passwordResetToken: null,
+    emailVerificationTokenHash: null,
+    emailVerificationExpires: null,
+    passwordResetTokenHash: null,
     passwordResetExpires: null,
     failedLoginAttempts: 0,
     lockedUntil: null,
+    role: 'USER' as const,
+    suspendedAt: null,
+    scheduledDeletionAt: null,
     lastLogin: null,
     preferences: {},
+    mfaEnabled: false,
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaLastUsedStep: null,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -51,9 +84,16 @@ describe('AuthService', () => {
   const mockSession = {
     id: 'session-123',
     userId: mockUser.id,
-    refreshToken: 'valid-refresh-token',
+    refreshTokenHash: 'hashed-valid-refresh-token',
     expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
     createdAt: new Date(),
+    userAgent: null,
+    ipAddress: null,
+    platform: null,
+    label: null,
+    lastUsedAt: new Date(),
+    previousRefreshTokenHash: null,
+    rotatedAt: null,
   };
 
   const mockTokens = {
@@ -67,6 +107,7 @@ describe('AuthService', () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AuthService,
+        { provide: authConfig.KEY, useValue: authConfig() },
         {
           provide: UsersService,
           useValue: {
@@ -79,16 +120,17 @@ describe('AuthService', () => {
             findByPasswordResetToken: jest.fn(),
             findByEmailVerificationToken: jest.fn(),
             updatePassword: jest.fn(),
-            updateRefreshToken: jest.fn(),
             incrementLoginAttempts: jest.fn(),
             resetLoginAttempts: jest.fn(),
             isAccountLocked: jest.fn(),
+            rehashPassword: jest.fn(),
           },
         },
         {
           provide: JwtService,
           useValue: {
             signAsync: jest.fn(),
+            verifyAsync: jest.fn(),
           },
         },
         {
@@ -96,12 +138,7 @@ describe('AuthService', () => {
           useValue: {
             get: jest.fn((key: string, defaultValue?: any) => {
               const config = {
-                JWT_SECRET: 'test-secret',
                 JWT_REFRESH_SECRET: 'test-refresh-secret',
-                JWT_EXPIRATION: '15m',
-                JWT_REFRESH_EXPIRATION: '30d',
-                PASSWORD_RESET_EXPIRY: '1h',
-                BCRYPT_ROUNDS: '10',
               };
               return config[key] || defaultValue;
             }),
@@ -112,17 +149,95 @@ describe('AuthService', () => {
           useValue: {
             sendVerificationEmail: jest.fn(),
             sendPasswordResetEmail: jest.fn(),
+            sendSecurityAlertEmail: jest.fn(),
           },
         },
         {
-          provide: PrismaService,
+          provide: SessionsService,
           useValue: {
-            session: {
-              findFirst: jest.fn(),
-              create: jest.fn(),
-              delete: jest.fn(),
-              deleteMany: jest.fn(),
-            },
+            create: jest.fn(),
+            findActive: jest.fn(),
+            rotate: jest.fn(),
+            isCurrentRefreshToken: jest.fn(
+              (session: any, token: string) => session.refreshTokenHash === `hashed-${token}`,
+            ),
+            isJustRotatedRefreshToken: jest.fn().mockReturnValue(false),
+            revoke: jest.fn(),
+            revokeOthers: jest.fn(),
+            revokeAll: jest.fn(),
+          },
+        },
+        {
+          provide: SecurityEventsService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+        {
+          provide: MfaService,
+          useValue: {
+            verifyLoginCode: jest.fn(),
+          },
+        },
+        {
+          provide: WebAuthnService,
+          useValue: {
+            generateAuthenticationOptions: jest.fn(),
+            verifyAuthentication: jest.fn(),
+          },
+        },
+        {
+          provide: OidcService,
+          useValue: {
+            getProviders: jest.fn(),
+            createAuthorizationUrl: jest.fn(),
+            authenticate: jest.fn(),
+          },
+        },
+        {
+          provide: MagicLinkService,
+          useValue: {
+            send: jest.fn(),
+            consume: jest.fn(),
+          },
+        },
+        {
+          provide: JwtKeysService,
+          useValue: {
+            signOptions: jest.fn().mockReturnValue({ privateKey: 'test-private-key', algorithm: 'RS256', keyid: 'test-kid' }),
+            verifyOptions: jest.fn().mockReturnValue({ publicKey: 'test-public-key', algorithms: ['RS256'] }),
+          },
+        },
+        {
+          provide: AccessTokenDenyListService,
+          useValue: {
+            denyToken: jest.fn(),
+          },
+        },
+        {
+          provide: PasswordHasherService,
+          useValue: {
+            verify: jest.fn(),
+            needsRehash: jest.fn().mockReturnValue(false),
+          },
+        },
+        {
+          provide: PasswordPolicyService,
+          useValue: {
+            assertValid: jest.fn(),
+          },
+        },
+        {
+          provide: LoginAlertsService,
+          useValue: {
+            checkSignIn: jest.fn(),
+            sendLockoutAlert: jest.fn(),
+          },
+        },
+        {
+          provide: PersonalAccessTokensService,
+          useValue: {
+            revokeAll: jest.fn(),
           },
         },
       ],
@@ -133,7 +248,18 @@ describe('AuthService', () => {
     jwtService = module.get<JwtService>(JwtService);
     configService = module.get<ConfigService>(ConfigService);
     emailService = module.get<EmailService>(EmailService);
-    prismaService = module.get<PrismaService>(PrismaService);
+    sessionsService = module.get<SessionsService>(SessionsService);
+    securityEventsService = module.get<SecurityEventsService>(SecurityEventsService);
+    mfaService = module.get<MfaService>(MfaService);
+    webAuthnService = module.get<WebAuthnService>(WebAuthnService);
+    oidcService = module.get<OidcService>(OidcService);
+    magicLinkService = module.get<MagicLinkService>(MagicLinkService);
+    accessTokenDenyList = module.get<AccessTokenDenyListService>(AccessTokenDenyListService);
+    passwordHasher = module.get<PasswordHasherService>(PasswordHasherService);
+    passwordPolicy = module.get<PasswordPolicyService>(PasswordPolicyService);
+    loginAlertsService = module.get<LoginAlertsService>(LoginAlertsService);
+    personalAccessTokensService = module.get<PersonalAccessTokensService>(PersonalAccessTokensService);
+    config = module.get<AuthConfig>(authConfig.KEY);
 
     // Reset all mocks
     jest.clearAllMocks();
@@ -156,7 +282,7 @@ describe('AuthService', () => {
       jest.spyOn(jwtService, 'signAsync')
         .mockResolvedValueOnce('access-token')
         .mockResolvedValueOnce('refresh-token');
-      jest.spyOn(usersService, 'updateRefreshToken').mockResolvedValue(undefined);
+      jest.spyOn(sessionsService, 'create').mockResolvedValue(mockSession);
 
       const result = await service.register(registerDto);
 
@@ -170,6 +296,9 @@ describe('AuthService', () => {
         password: registerDto.password,
         name: registerDto.name,
       });
+      expect(usersService.setEmailVerificationToken).toHaveBeenCalledWith(newUser.id, expect.any(String), expect.any(Date));
+      const expiresAt: Date = (usersService.setEmailVerificationToken as jest.Mock).mock.calls[0][2];
+      expect(expiresAt.getTime() - Date.now()).toBeGreaterThan(23 * 60 * 60 * 1000);
       expect(emailService.sendVerificationEmail).toHaveBeenCalled();
     });
 
@@ -179,6 +308,15 @@ describe('AuthService', () => {
       await expect(service.register(registerDto)).rejects.toThrow(ConflictException);
       expect(usersService.create).not.toHaveBeenCalled();
     });
+
+    it('should not create the user when the password breaks the policy', async () => {
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue(null);
+      jest.spyOn(passwordPolicy, 'assertValid').mockRejectedValue(new BadRequestException({ message: ['Password must contain at least 1 number'], violations: [{ rule: 'digit', message: 'Password must contain at least 1 number' }] }));
+
+      await expect(service.register(registerDto)).rejects.toThrow(BadRequestException);
+      expect(passwordPolicy.assertValid).toHaveBeenCalledWith(registerDto.password, { email: registerDto.email, name: registerDto.name });
+      expect(usersService.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('login', () => {
@@ -190,12 +328,12 @@ describe('AuthService', () => {
     it('should successfully login a user with valid credentials', async () => {
       jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
       jest.spyOn(usersService, 'findByEmail').mockResolvedValue(mockUser);
-      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
       jest.spyOn(usersService, 'resetLoginAttempts').mockResolvedValue(undefined);
       jest.spyOn(jwtService, 'signAsync')
         .mockResolvedValueOnce('access-token')
         .mockResolvedValueOnce('refresh-token');
-      jest.spyOn(usersService, 'updateRefreshToken').mockResolvedValue(undefined);
+      jest.spyOn(sessionsService, 'create').mockResolvedValue(mockSession);
 
       const result = await service.login(loginDto);
 
@@ -203,19 +341,136 @@ describe('AuthService', () => {
       expect(result).toHaveProperty('accessToken');
       expect(result).toHaveProperty('refreshToken');
       expect(usersService.resetLoginAttempts).toHaveBeenCalledWith(loginDto.email);
+      expect(loginAlertsService.checkSignIn).toHaveBeenCalledWith(mockUser, undefined);
+    });
+
+    it('should sign tokens with the configured lifetimes in seconds', async () => {
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue(mockUser);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+      jest.spyOn(jwtService, 'signAsync')
+        .mockResolvedValueOnce('access-token')
+        .mockResolvedValueOnce('refresh-token');
+      jest.spyOn(sessionsService, 'create').mockResolvedValue(mockSession);
+
+      const result = await service.login(loginDto);
+
+      // JWT_EXPIRATION and JWT_REFRESH_EXPIRATION default to 15m and 30d
+      expect(jwtService.signAsync).toHaveBeenCalledWith(expect.any(Object), expect.objectContaining({ expiresIn: 15 * 60 }));
+      expect(jwtService.signAsync).toHaveBeenCalledWith(expect.any(Object), expect.objectContaining({ expiresIn: 30 * 24 * 60 * 60 }));
+      expect(result).toMatchObject({ expiresIn: '15m' });
+    });
+
+    it('should create a session with the client device metadata', async () => {
+      const client = { userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)', ipAddress: '203.0.113.42' };
+
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue(mockUser);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+      jest.spyOn(jwtService, 'signAsync')
+        .mockResolvedValueOnce('access-token')
+        .mockResolvedValueOnce('refresh-token');
+      jest.spyOn(sessionsService, 'create').mockResolvedValue(mockSession);
+
+      await service.login({ ...loginDto, deviceName: 'My phone' }, client);
+
+      expect(sessionsService.create).toHaveBeenCalledWith({
+        id: expect.any(String),
+        userId: mockUser.id,
+        refreshToken: 'refresh-token',
+        client,
+        label: 'My phone',
+      });
+      expect(jwtService.signAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: mockUser.id, sid: expect.any(String), jti: expect.any(String) }),
+        expect.any(Object),
+      );
     });
 
     it('should throw ForbiddenException if account is locked', async () => {
       jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(true);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue(mockUser);
 
       await expect(service.login(loginDto)).rejects.toThrow(ForbiddenException);
-      expect(usersService.findByEmail).not.toHaveBeenCalled();
+      expect(passwordHasher.verify).not.toHaveBeenCalled();
+      expect(securityEventsService.record).toHaveBeenCalledWith({
+        userId: mockUser.id,
+        type: 'LOGIN',
+        outcome: 'FAILURE',
+        client: undefined,
+        metadata: { method: 'password', reason: 'account_locked' },
+      });
+    });
+
+    it('should record a successful login with the client it came from', async () => {
+      const client = { userAgent: 'curl/8.0', ipAddress: '203.0.113.42' };
+
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue(mockUser);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+      jest.spyOn(jwtService, 'signAsync')
+        .mockResolvedValueOnce('access-token')
+        .mockResolvedValueOnce('refresh-token');
+      jest.spyOn(sessionsService, 'create').mockResolvedValue(mockSession);
+
+      await service.login(loginDto, client);
+
+      expect(securityEventsService.record).toHaveBeenCalledWith({
+        userId: mockUser.id,
+        type: 'LOGIN',
+        outcome: 'SUCCESS',
+        client,
+        metadata: { method: 'password' },
+      });
+    });
+
+    it('should record attempts on unknown emails with the email instead of an account', async () => {
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue(null);
+
+      await expect(service.login(loginDto)).rejects.toThrow(UnauthorizedException);
+      expect(securityEventsService.record).toHaveBeenCalledWith({
+        userId: undefined,
+        type: 'LOGIN',
+        outcome: 'FAILURE',
+        client: undefined,
+        metadata: { method: 'password', reason: 'unknown_email', email: loginDto.email },
+      });
+    });
+
+    it('should record a wrong password, and the lockout it triggers', async () => {
+      const lockedUntil = new Date(Date.now() + 15 * 60 * 1000);
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue(mockUser);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(false);
+      jest.spyOn(usersService, 'incrementLoginAttempts').mockResolvedValue(lockedUntil);
+
+      await expect(service.login(loginDto)).rejects.toThrow(UnauthorizedException);
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id, type: 'LOGIN', outcome: 'FAILURE', metadata: { method: 'password', reason: 'invalid_password' } }),
+      );
+      // LOCK_TIME defaults to 15m
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id, type: 'ACCOUNT_LOCKED', metadata: { method: 'password', lockedFor: '15m' } }),
+      );
+      expect(loginAlertsService.sendLockoutAlert).toHaveBeenCalledWith(mockUser, undefined, lockedUntil);
+    });
+
+    it('should not record a lockout while attempts remain', async () => {
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue(mockUser);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(false);
+      jest.spyOn(usersService, 'incrementLoginAttempts').mockResolvedValue(null);
+
+      await expect(service.login(loginDto)).rejects.toThrow(UnauthorizedException);
+      expect(securityEventsService.record).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'ACCOUNT_LOCKED' }));
+      expect(loginAlertsService.sendLockoutAlert).not.toHaveBeenCalled();
     });
 
     it('should throw UnauthorizedException for invalid email', async () => {
       jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
       jest.spyOn(usersService, 'findByEmail').mockResolvedValue(null);
-      jest.spyOn(usersService, 'incrementLoginAttempts').mockResolvedValue(undefined);
+      jest.spyOn(usersService, 'incrementLoginAttempts').mockResolvedValue(null);
 
       await expect(service.login(loginDto)).rejects.toThrow(UnauthorizedException);
       expect(usersService.incrementLoginAttempts).toHaveBeenCalledWith(loginDto.email);
@@ -224,52 +479,554 @@ describe('AuthService', () => {
     it('should throw UnauthorizedException for invalid password', async () => {
       jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
       jest.spyOn(usersService, 'findByEmail').mockResolvedValue(mockUser);
-      (bcrypt.compare as jest.Mock).mockResolvedValue(false);
-      jest.spyOn(usersService, 'incrementLoginAttempts').mockResolvedValue(undefined);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(false);
+      jest.spyOn(usersService, 'incrementLoginAttempts').mockResolvedValue(null);
 
       await expect(service.login(loginDto)).rejects.toThrow(UnauthorizedException);
       expect(usersService.incrementLoginAttempts).toHaveBeenCalledWith(loginDto.email);
     });
 
+    it('should throw UnauthorizedException for accounts without a password', async () => {
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue({ ...mockUser, passwordHash: null });
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(false);
+
+      await expect(service.login(loginDto)).rejects.toThrow(UnauthorizedException);
+      expect(passwordHasher.verify).toHaveBeenCalledWith(loginDto.password, null);
+      expect(usersService.incrementLoginAttempts).toHaveBeenCalledWith(loginDto.email);
+    });
+
     it('should throw ForbiddenException if email is not verified', async () => {
       const unverifiedUser = { ...mockUser, emailVerified: false };
       
       jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
       jest.spyOn(usersService, 'findByEmail').mockResolvedValue(unverifiedUser);
-      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
       jest.spyOn(usersService, 'resetLoginAttempts').mockResolvedValue(undefined);
 
       await expect(service.login(loginDto)).rejects.toThrow(ForbiddenException);
       expect(usersService.resetLoginAttempts).toHaveBeenCalled();
     });
+
+    it('should return an MFA challenge instead of tokens when two-factor is enabled', async () => {
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue({ ...mockUser, mfaEnabled: true });
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+      jest.spyOn(jwtService, 'signAsync').mockResolvedValueOnce('mfa-challenge-token');
+
+      const result = await service.login({ ...loginDto, deviceName: 'My phone' });
+
+      expect(result).toEqual({
+        mfaRequired: true,
+        mfaToken: 'mfa-challenge-token',
+        expiresIn: '5m',
+        message: 'Two-factor authentication required',
+      });
+      expect(jwtService.signAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: mockUser.id, typ: 'mfa_challenge', deviceName: 'My phone' }),
+        { privateKey: 'test-private-key', algorithm: 'RS256', keyid: 'test-kid', expiresIn: 300 },
+      );
+      expect(sessionsService.create).not.toHaveBeenCalled();
+      expect(usersService.resetLoginAttempts).not.toHaveBeenCalled();
+    });
+
+    it('should re-hash a password stored with outdated settings', async () => {
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue(mockUser);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+      (passwordHasher.needsRehash as jest.Mock).mockReturnValueOnce(true);
+      jest.spyOn(jwtService, 'signAsync')
+        .mockResolvedValueOnce('access-token')
+        .mockResolvedValueOnce('refresh-token');
+      jest.spyOn(sessionsService, 'create').mockResolvedValue(mockSession);
+
+      await service.login(loginDto);
+
+      expect(passwordHasher.needsRehash).toHaveBeenCalledWith(mockUser.passwordHash);
+      expect(usersService.rehashPassword).toHaveBeenCalledWith(mockUser.id, mockUser.passwordHash, loginDto.password);
+    });
+
+    it('should leave a current password hash alone', async () => {
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue(mockUser);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+      jest.spyOn(jwtService, 'signAsync')
+        .mockResolvedValueOnce('access-token')
+        .mockResolvedValueOnce('refresh-token');
+      jest.spyOn(sessionsService, 'create').mockResolvedValue(mockSession);
+
+      await service.login(loginDto);
+
+      expect(usersService.rehashPassword).not.toHaveBeenCalled();
+    });
+
+    it('should not re-hash after a wrong password', async () => {
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue(mockUser);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(false);
+      (passwordHasher.needsRehash as jest.Mock).mockReturnValueOnce(true);
+
+      await expect(service.login(loginDto)).rejects.toThrow(UnauthorizedException);
+      expect(usersService.rehashPassword).not.toHaveBeenCalled();
+    });
+
+    it('should re-hash before the MFA challenge, since the password is not needed again', async () => {
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue({ ...mockUser, mfaEnabled: true });
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+      (passwordHasher.needsRehash as jest.Mock).mockReturnValueOnce(true);
+      jest.spyOn(jwtService, 'signAsync').mockResolvedValueOnce('mfa-challenge-token');
+
+      await expect(service.login(loginDto)).resolves.toMatchObject({ mfaRequired: true });
+      expect(usersService.rehashPassword).toHaveBeenCalledWith(mockUser.id, mockUser.passwordHash, loginDto.password);
+    });
+
+    it('should still log in when the re-hash fails', async () => {
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue(mockUser);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+      (passwordHasher.needsRehash as jest.Mock).mockReturnValueOnce(true);
+      jest.spyOn(usersService, 'rehashPassword').mockRejectedValue(new Error('Database error'));
+      jest.spyOn(jwtService, 'signAsync')
+        .mockResolvedValueOnce('access-token')
+        .mockResolvedValueOnce('refresh-token');
+      jest.spyOn(sessionsService, 'create').mockResolvedValue(mockSession);
+
+      await expect(service.login(loginDto)).resolves.toHaveProperty('accessToken', 'access-token');
+    });
+
+    it('should throw ForbiddenException if the account is suspended', async () => {
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue({ ...mockUser, suspendedAt: new Date() });
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+
+      await expect(service.login(loginDto)).rejects.toThrow('Account is suspended');
+      expect(sessionsService.create).not.toHaveBeenCalled();
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'LOGIN', outcome: 'FAILURE', metadata: { method: 'password', reason: 'account_suspended' } }),
+      );
+      expect(securityEventsService.record).not.toHaveBeenCalledWith(expect.objectContaining({ outcome: 'SUCCESS' }));
+      expect(loginAlertsService.checkSignIn).not.toHaveBeenCalled();
+    });
+
+    it('should not issue an MFA challenge for a suspended account', async () => {
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue({ ...mockUser, mfaEnabled: true, suspendedAt: new Date() });
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+
+      await expect(service.login(loginDto)).rejects.toThrow(ForbiddenException);
+      expect(jwtService.signAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginWithMfa', () => {
+    const mfaLoginDto = { mfaToken: 'mfa-challenge-token', code: '123456' };
+    const mfaUser = { ...mockUser, mfaEnabled: true };
+    const challenge = {
+      sub: mockUser.id,
+      email: mockUser.email,
+      name: mockUser.name,
+      typ: 'mfa_challenge',
+      deviceName: 'My phone',
+    };
+
+    it('should create a session once the code is verified', async () => {
+      jest.spyOn(jwtService, 'verifyAsync').mockResolvedValue(challenge);
+      jest.spyOn(usersService, 'findById').mockResolvedValue(mfaUser);
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(mfaService, 'verifyLoginCode').mockResolvedValue(true);
+      jest.spyOn(jwtService, 'signAsync')
+        .mockResolvedValueOnce('access-token')
+        .mockResolvedValueOnce('refresh-token');
+      jest.spyOn(sessionsService, 'create').mockResolvedValue(mockSession);
+
+      const result = await service.loginWithMfa(mfaLoginDto);
+
+      expect(result).toHaveProperty('accessToken', 'access-token');
+      expect(result).toHaveProperty('refreshToken', 'refresh-token');
+      expect(jwtService.verifyAsync).toHaveBeenCalledWith('mfa-challenge-token', { publicKey: 'test-public-key', algorithms: ['RS256'] });
+      expect(mfaService.verifyLoginCode).toHaveBeenCalledWith(mockUser.id, '123456', undefined);
+      expect(usersService.resetLoginAttempts).toHaveBeenCalledWith(mockUser.email);
+      expect(sessionsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id, label: 'My phone' }),
+      );
+    });
+
+    it('should count an invalid code as a failed login attempt', async () => {
+      jest.spyOn(jwtService, 'verifyAsync').mockResolvedValue(challenge);
+      jest.spyOn(usersService, 'findById').mockResolvedValue(mfaUser);
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(mfaService, 'verifyLoginCode').mockResolvedValue(false);
+
+      await expect(service.loginWithMfa(mfaLoginDto)).rejects.toThrow('Invalid two-factor code');
+      expect(usersService.incrementLoginAttempts).toHaveBeenCalledWith(mockUser.email);
+      expect(sessionsService.create).not.toHaveBeenCalled();
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id, type: 'LOGIN', outcome: 'FAILURE', metadata: { method: 'mfa', reason: 'invalid_mfa_code' } }),
+      );
+    });
+
+    it('should reject expired or tampered challenges', async () => {
+      jest.spyOn(jwtService, 'verifyAsync').mockRejectedValue(new Error('jwt expired'));
+
+      await expect(service.loginWithMfa(mfaLoginDto)).rejects.toThrow(UnauthorizedException);
+      expect(mfaService.verifyLoginCode).not.toHaveBeenCalled();
+    });
+
+    it('should reject access tokens used as challenges', async () => {
+      jest.spyOn(jwtService, 'verifyAsync').mockResolvedValue({ ...challenge, typ: undefined });
+
+      await expect(service.loginWithMfa(mfaLoginDto)).rejects.toThrow(UnauthorizedException);
+      expect(mfaService.verifyLoginCode).not.toHaveBeenCalled();
+    });
+
+    it('should refuse locked accounts', async () => {
+      jest.spyOn(jwtService, 'verifyAsync').mockResolvedValue(challenge);
+      jest.spyOn(usersService, 'findById').mockResolvedValue(mfaUser);
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(true);
+
+      await expect(service.loginWithMfa(mfaLoginDto)).rejects.toThrow(ForbiddenException);
+      expect(mfaService.verifyLoginCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginWithPasskey', () => {
+    const passkeyLoginDto = {
+      challengeId: 'challenge-123',
+      response: { id: 'credential-id' } as any,
+      deviceName: 'Work laptop',
+    };
+
+    it('should create a session for the owner of the passkey', async () => {
+      jest.spyOn(webAuthnService, 'verifyAuthentication').mockResolvedValue({
+        userId: mockUser.id,
+        passkeyId: 'passkey-123',
+      });
+      jest.spyOn(usersService, 'findById').mockResolvedValue(mockUser);
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(jwtService, 'signAsync')
+        .mockResolvedValueOnce('access-token')
+        .mockResolvedValueOnce('refresh-token');
+      jest.spyOn(sessionsService, 'create').mockResolvedValue(mockSession);
+
+      const result = await service.loginWithPasskey(passkeyLoginDto);
+
+      expect(result).toHaveProperty('accessToken', 'access-token');
+      expect(webAuthnService.verifyAuthentication).toHaveBeenCalledWith(
+        passkeyLoginDto.challengeId,
+        passkeyLoginDto.response,
+      );
+      expect(sessionsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id, label: 'Work laptop' }),
+      );
+    });
+
+    it('should not ask for a second factor', async () => {
+      jest.spyOn(webAuthnService, 'verifyAuthentication').mockResolvedValue({
+        userId: mockUser.id,
+        passkeyId: 'passkey-123',
+      });
+      jest.spyOn(usersService, 'findById').mockResolvedValue({ ...mockUser, mfaEnabled: true });
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(jwtService, 'signAsync')
+        .mockResolvedValueOnce('access-token')
+        .mockResolvedValueOnce('refresh-token');
+
+      const result = await service.loginWithPasskey(passkeyLoginDto);
+
+      expect(result).toHaveProperty('accessToken');
+      expect(mfaService.verifyLoginCode).not.toHaveBeenCalled();
+    });
+
+    it('should propagate verification failures', async () => {
+      jest.spyOn(webAuthnService, 'verifyAuthentication').mockRejectedValue(
+        new UnauthorizedException('Passkey could not be verified'),
+      );
+
+      await expect(service.loginWithPasskey(passkeyLoginDto)).rejects.toThrow(UnauthorizedException);
+      expect(sessionsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse locked accounts', async () => {
+      jest.spyOn(webAuthnService, 'verifyAuthentication').mockResolvedValue({
+        userId: mockUser.id,
+        passkeyId: 'passkey-123',
+      });
+      jest.spyOn(usersService, 'findById').mockResolvedValue(mockUser);
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(true);
+
+      await expect(service.loginWithPasskey(passkeyLoginDto)).rejects.toThrow(ForbiddenException);
+      expect(sessionsService.create).not.toHaveBeenCalled();
+    });
+    it('should refuse suspended accounts', async () => {
+      jest.spyOn(webAuthnService, 'verifyAuthentication').mockResolvedValue({
+        userId: mockUser.id,
+        passkeyId: 'passkey-123',
+      });
+      jest.spyOn(usersService, 'findById').mockResolvedValue({ ...mockUser, suspendedAt: new Date() });
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+
+      await expect(service.loginWithPasskey(passkeyLoginDto)).rejects.toThrow(ForbiddenException);
+      expect(sessionsService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginWithOidc', () => {
+    const oidcLoginDto = {
+      code: 'authorization-code',
+      state: 'state-123',
+      deviceName: 'Work laptop',
+    };
+
+    it('should create a session for the user behind the identity', async () => {
+      jest.spyOn(oidcService, 'authenticate').mockResolvedValue({ ...mockUser, passwordHash: null });
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(jwtService, 'signAsync')
+        .mockResolvedValueOnce('access-token')
+        .mockResolvedValueOnce('refresh-token');
+      jest.spyOn(sessionsService, 'create').mockResolvedValue(mockSession);
+
+      const result = await service.loginWithOidc('google', oidcLoginDto);
+
+      expect(result).toHaveProperty('accessToken', 'access-token');
+      expect(oidcService.authenticate).toHaveBeenCalledWith('google', 'authorization-code', 'state-123', undefined);
+      expect(usersService.resetLoginAttempts).toHaveBeenCalledWith(mockUser.email);
+      expect(sessionsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id, label: 'Work laptop' }),
+      );
+    });
+
+    it('should still ask for a second factor when it is enabled', async () => {
+      jest.spyOn(oidcService, 'authenticate').mockResolvedValue({ ...mockUser, mfaEnabled: true });
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(jwtService, 'signAsync').mockResolvedValue('mfa-challenge-token');
+
+      const result = await service.loginWithOidc('google', oidcLoginDto);
+
+      expect(result).toMatchObject({ mfaRequired: true, mfaToken: 'mfa-challenge-token' });
+      expect(sessionsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse locked accounts', async () => {
+      jest.spyOn(oidcService, 'authenticate').mockResolvedValue(mockUser);
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(true);
+
+      await expect(service.loginWithOidc('google', oidcLoginDto)).rejects.toThrow(ForbiddenException);
+      expect(sessionsService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendMagicLink', () => {
+    it('should answer the same way whether or not the account exists', async () => {
+      const result = await service.sendMagicLink({ email: 'anyone@example.com' });
+
+      expect(result.message).toBe('Check your email for a sign-in link.');
+      expect(magicLinkService.send).toHaveBeenCalledWith('anyone@example.com');
+    });
+  });
+
+  describe('loginWithMagicLink', () => {
+    it('should exchange the link for an access and refresh token pair', async () => {
+      jest.spyOn(magicLinkService, 'consume').mockResolvedValue(mockUser);
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(jwtService, 'signAsync')
+        .mockResolvedValueOnce('access-token')
+        .mockResolvedValueOnce('refresh-token');
+      jest.spyOn(sessionsService, 'create').mockResolvedValue(mockSession);
+
+      const result = await service.loginWithMagicLink({ token: 'magic-token', deviceName: 'My phone' });
+
+      expect(result).toMatchObject({ accessToken: 'access-token', refreshToken: 'refresh-token' });
+      expect(magicLinkService.consume).toHaveBeenCalledWith('magic-token');
+      expect(sessionsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id, label: 'My phone' }),
+      );
+    });
+
+    it('should still ask for a second factor when it is enabled', async () => {
+      jest.spyOn(magicLinkService, 'consume').mockResolvedValue({ ...mockUser, mfaEnabled: true });
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(false);
+      jest.spyOn(jwtService, 'signAsync').mockResolvedValue('mfa-challenge-token');
+
+      const result = await service.loginWithMagicLink({ token: 'magic-token' });
+
+      expect(result).toMatchObject({ mfaRequired: true });
+      expect(sessionsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse locked accounts', async () => {
+      jest.spyOn(magicLinkService, 'consume').mockResolvedValue(mockUser);
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(true);
+
+      await expect(service.loginWithMagicLink({ token: 'magic-token' })).rejects.toThrow(ForbiddenException);
+    });
   });
 
   describe('logout', () => {
-    it('should successfully logout a user', async () => {
-      jest.spyOn(usersService, 'updateRefreshToken').mockResolvedValue(undefined);
+    it('should only revoke the current session', async () => {
+      jest.spyOn(sessionsService, 'revoke').mockResolvedValue(undefined);
+
+      const result = await service.logout(mockUser.id, mockSession.id);
+
+      expect(result.message).toBe('Logged out successfully');
+      expect(sessionsService.revoke).toHaveBeenCalledWith(mockUser.id, mockSession.id);
+      expect(sessionsService.revokeAll).not.toHaveBeenCalled();
+    });
 
-      const result = await service.logout(mockUser.id);
+    it('should revoke the access token used to log out', async () => {
+      jest.spyOn(sessionsService, 'revoke').mockResolvedValue(undefined);
+      const expiresAt = Math.floor(Date.now() / 1000) + 900;
+
+      await service.logout(mockUser.id, mockSession.id, { id: 'token-123', expiresAt });
+
+      expect(accessTokenDenyList.denyToken).toHaveBeenCalledWith('token-123', expiresAt);
+    });
+
+    it('should be idempotent when the session is already gone', async () => {
+      jest.spyOn(sessionsService, 'revoke').mockRejectedValue(new NotFoundException('Session not found'));
+
+      const result = await service.logout(mockUser.id, mockSession.id);
 
       expect(result.message).toBe('Logged out successfully');
-      expect(usersService.updateRefreshToken).toHaveBeenCalledWith(mockUser.id, null);
+    });
+
+    it('should revoke all sessions for tokens without a session id', async () => {
+      jest.spyOn(sessionsService, 'revokeAll').mockResolvedValue(2);
+
+      await service.logout(mockUser.id);
+
+      expect(sessionsService.revokeAll).toHaveBeenCalledWith(mockUser.id);
+    });
+
+    it('should record the logout', async () => {
+      const client = { userAgent: 'curl/8.0', ipAddress: '203.0.113.42' };
+      jest.spyOn(sessionsService, 'revoke').mockResolvedValue(undefined);
+
+      await service.logout(mockUser.id, mockSession.id, undefined, client);
+
+      expect(securityEventsService.record).toHaveBeenCalledWith({
+        userId: mockUser.id,
+        type: 'LOGOUT',
+        client,
+        metadata: { sessionId: mockSession.id },
+      });
     });
   });
 
   describe('refreshTokens', () => {
     it('should successfully refresh tokens', async () => {
       jest.spyOn(usersService, 'findById').mockResolvedValue(mockUser);
-      jest.spyOn(prismaService.session, 'findFirst').mockResolvedValue(mockSession);
+      jest.spyOn(sessionsService, 'findActive').mockResolvedValue(mockSession);
       jest.spyOn(jwtService, 'signAsync')
         .mockResolvedValueOnce('new-access-token')
         .mockResolvedValueOnce('new-refresh-token');
-      jest.spyOn(prismaService.session, 'delete').mockResolvedValue(mockSession);
-      jest.spyOn(usersService, 'updateRefreshToken').mockResolvedValue(undefined);
+      jest.spyOn(sessionsService, 'rotate').mockResolvedValue(true);
 
-      const result = await service.refreshTokens(mockUser.id, 'valid-refresh-token');
+      const result = await service.refreshTokens(mockUser.id, 'valid-refresh-token', mockSession.id);
 
       expect(result).toHaveProperty('accessToken');
       expect(result).toHaveProperty('refreshToken');
-      expect(prismaService.session.delete).toHaveBeenCalledWith({ where: { id: mockSession.id } });
+      expect(sessionsService.rotate).toHaveBeenCalledWith(
+        mockSession.id,
+        'valid-refresh-token',
+        'new-refresh-token',
+        undefined,
+      );
+      expect(securityEventsService.record).toHaveBeenCalledWith({
+        userId: mockUser.id,
+        type: 'TOKEN_REFRESHED',
+        outcome: 'SUCCESS',
+        client: undefined,
+        metadata: { sessionId: mockSession.id },
+      });
+    });
+
+    it('should throw ForbiddenException if the token was rotated concurrently', async () => {
+      jest.spyOn(usersService, 'findById').mockResolvedValue(mockUser);
+      jest.spyOn(sessionsService, 'findActive').mockResolvedValue(mockSession);
+      jest.spyOn(jwtService, 'signAsync')
+        .mockResolvedValueOnce('new-access-token')
+        .mockResolvedValueOnce('new-refresh-token');
+      jest.spyOn(sessionsService, 'rotate').mockResolvedValue(false);
+
+      await expect(
+        service.refreshTokens(mockUser.id, 'valid-refresh-token', mockSession.id),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should revoke the token family when a rotated token is replayed', async () => {
+      jest.spyOn(usersService, 'findById').mockResolvedValue(mockUser);
+      jest.spyOn(sessionsService, 'findActive').mockResolvedValue(mockSession);
+      jest.spyOn(sessionsService, 'revoke').mockResolvedValue(undefined);
+      const client = { ipAddress: '198.51.100.7', userAgent: 'curl/8.0' };
+
+      await expect(
+        service.refreshTokens(mockUser.id, 'already-rotated-token', mockSession.id, client),
+      ).rejects.toThrow(ForbiddenException);
+
+      expect(sessionsService.revoke).toHaveBeenCalledWith(mockUser.id, mockSession.id);
+      expect(sessionsService.revokeAll).not.toHaveBeenCalled();
+      expect(sessionsService.rotate).not.toHaveBeenCalled();
+      expect(securityEventsService.record).toHaveBeenCalledWith({
+        userId: mockUser.id,
+        type: 'REFRESH_TOKEN_REUSE',
+        client,
+        metadata: { sessionId: mockSession.id, revokedAllSessions: false },
+      });
+      expect(emailService.sendSecurityAlertEmail).toHaveBeenCalledWith(
+        mockUser.email,
+        mockUser.name,
+        expect.objectContaining({ subject: 'Suspicious activity on your account' }),
+      );
+    });
+
+    it('should refuse a token rotated moments ago without ending the session', async () => {
+      jest.spyOn(usersService, 'findById').mockResolvedValue(mockUser);
+      jest.spyOn(sessionsService, 'findActive').mockResolvedValue(mockSession);
+      jest.spyOn(sessionsService, 'isJustRotatedRefreshToken').mockReturnValue(true);
+
+      await expect(
+        service.refreshTokens(mockUser.id, 'just-rotated-token', mockSession.id),
+      ).rejects.toThrow('Invalid refresh token');
+
+      expect(sessionsService.isJustRotatedRefreshToken).toHaveBeenCalledWith(mockSession, 'just-rotated-token');
+      expect(sessionsService.revoke).not.toHaveBeenCalled();
+      expect(sessionsService.rotate).not.toHaveBeenCalled();
+      expect(emailService.sendSecurityAlertEmail).not.toHaveBeenCalled();
+      expect(securityEventsService.record).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'REFRESH_TOKEN_REUSE' }),
+      );
+    });
+
+    it('should revoke every session on reuse when configured to', async () => {
+      config.refreshTokenReuseRevokeAll = true;
+      jest.spyOn(usersService, 'findById').mockResolvedValue(mockUser);
+      jest.spyOn(sessionsService, 'findActive').mockResolvedValue(mockSession);
+      jest.spyOn(sessionsService, 'revokeAll').mockResolvedValue(3);
+
+      await expect(
+        service.refreshTokens(mockUser.id, 'already-rotated-token', mockSession.id),
+      ).rejects.toThrow(ForbiddenException);
+
+      expect(sessionsService.revokeAll).toHaveBeenCalledWith(mockUser.id);
+      expect(sessionsService.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should still reject the replayed token if the alert email cannot be queued', async () => {
+      jest.spyOn(usersService, 'findById').mockResolvedValue(mockUser);
+      jest.spyOn(sessionsService, 'findActive').mockResolvedValue(mockSession);
+      jest.spyOn(emailService, 'sendSecurityAlertEmail').mockRejectedValue(new Error('Queue error'));
+
+      await expect(
+        service.refreshTokens(mockUser.id, 'already-rotated-token', mockSession.id),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should throw ForbiddenException for refresh tokens without a session id', async () => {
+      jest.spyOn(usersService, 'findById').mockResolvedValue(mockUser);
+
+      await expect(service.refreshTokens(mockUser.id, 'valid-refresh-token')).rejects.toThrow(ForbiddenException);
+      expect(sessionsService.findActive).not.toHaveBeenCalled();
     });
 
     it('should throw ForbiddenException if user not found', async () => {
@@ -280,9 +1037,19 @@ describe('AuthService', () => {
 
     it('should throw ForbiddenException for invalid refresh token', async () => {
       jest.spyOn(usersService, 'findById').mockResolvedValue(mockUser);
-      jest.spyOn(prismaService.session, 'findFirst').mockResolvedValue(null);
+      jest.spyOn(sessionsService, 'findActive').mockResolvedValue(null);
+
+      await expect(service.refreshTokens(mockUser.id, 'invalid-token', mockSession.id)).rejects.toThrow(ForbiddenException);
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id, type: 'TOKEN_REFRESHED', outcome: 'FAILURE', metadata: { sessionId: mockSession.id, reason: 'invalid_refresh_token' } }),
+      );
+    });
+
+    it('should throw ForbiddenException if the account is suspended', async () => {
+      jest.spyOn(usersService, 'findById').mockResolvedValue({ ...mockUser, suspendedAt: new Date() });
 
-      await expect(service.refreshTokens(mockUser.id, 'invalid-token')).rejects.toThrow(ForbiddenException);
+      await expect(service.refreshTokens(mockUser.id, 'token', mockSession.id)).rejects.toThrow('Account is suspended');
+      expect(sessionsService.findActive).not.toHaveBeenCalled();
     });
   });
 
@@ -292,7 +1059,7 @@ describe('AuthService', () => {
     };
 
     it('should successfully verify email', async () => {
-      const unverifiedUser = { ...mockUser, emailVerified: false };
+      const unverifiedUser = { ...mockUser, emailVerified: false, emailVerificationExpires: new Date(Date.now() + 60 * 60 * 1000) };
       
       jest.spyOn(usersService, 'findByEmailVerificationToken').mockResolvedValue(unverifiedUser);
       jest.spyOn(usersService, 'setEmailVerified').mockResolvedValue(undefined);
@@ -301,6 +1068,7 @@ describe('AuthService', () => {
 
       expect(result.message).toBe('Email verified successfully');
       expect(usersService.setEmailVerified).toHaveBeenCalledWith(unverifiedUser.id, true);
+      expect(securityEventsService.record).toHaveBeenCalledWith({ userId: unverifiedUser.id, type: 'EMAIL_VERIFIED', client: undefined });
     });
 
     it('should return already verified message if email is already verified', async () => {
@@ -315,7 +1083,18 @@ describe('AuthService', () => {
     it('should throw BadRequestException for invalid token', async () => {
       jest.spyOn(usersService, 'findByEmailVerificationToken').mockResolvedValue(null);
 
-      await expect(service.verifyEmail(verifyEmailDto)).rejects.toThrow(BadRequestException);
+      await expect(service.verifyEmail(verifyEmailDto)).rejects.toThrow('Invalid verification token');
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'EMAIL_VERIFIED', outcome: 'FAILURE', metadata: { reason: 'invalid_token' } }),
+      );
+    });
+
+    it('should tell expired tokens apart from invalid ones', async () => {
+      const expiredUser = { ...mockUser, emailVerified: false, emailVerificationExpires: new Date(Date.now() - 1000) };
+      jest.spyOn(usersService, 'findByEmailVerificationToken').mockResolvedValue(expiredUser);
+
+      await expect(service.verifyEmail(verifyEmailDto)).rejects.toThrow('Verification token has expired, please request a new one');
+      expect(usersService.setEmailVerified).not.toHaveBeenCalled();
     });
   });
 
@@ -332,8 +1111,13 @@ describe('AuthService', () => {
       const result = await service.forgotPassword(forgotPasswordDto);
 
       expect(result.message).toBe('If an account exists with this email, a password reset link has been sent.');
-      expect(usersService.setPasswordResetToken).toHaveBeenCalled();
+      // PASSWORD_RESET_EXPIRY defaults to 1h
+      expect(usersService.setPasswordResetToken).toHaveBeenCalledWith(mockUser.id, expect.any(String), expect.any(Date));
+      const expiresAt: Date = (usersService.setPasswordResetToken as jest.Mock).mock.calls[0][2];
+      expect(expiresAt.getTime() - Date.now()).toBeGreaterThan(59 * 60 * 1000);
+      expect(expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(60 * 60 * 1000);
       expect(emailService.sendPasswordResetEmail).toHaveBeenCalled();
+      expect(securityEventsService.record).toHaveBeenCalledWith({ userId: mockUser.id, type: 'PASSWORD_RESET_REQUESTED', client: undefined });
     });
 
     it('should return generic message for non-existent user', async () => {
@@ -344,6 +1128,9 @@ describe('AuthService', () => {
       expect(result.message).toBe('If an account exists with this email, a password reset link has been sent.');
       expect(usersService.setPasswordResetToken).not.toHaveBeenCalled();
       expect(emailService.sendPasswordResetEmail).not.toHaveBeenCalled();
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'PASSWORD_RESET_REQUESTED', outcome: 'FAILURE', metadata: { reason: 'unknown_email', email: forgotPasswordDto.email } }),
+      );
     });
   });
 
@@ -356,11 +1143,16 @@ describe('AuthService', () => {
     it('should successfully reset password', async () => {
       jest.spyOn(usersService, 'findByPasswordResetToken').mockResolvedValue(mockUser);
       jest.spyOn(usersService, 'updatePassword').mockResolvedValue({ message: 'Password updated successfully' });
+      jest.spyOn(sessionsService, 'revokeAll').mockResolvedValue(2);
+      jest.spyOn(personalAccessTokensService, 'revokeAll').mockResolvedValue(1);
 
       const result = await service.resetPassword(resetPasswordDto);
 
       expect(result.message).toBe('Password reset successfully');
       expect(usersService.updatePassword).toHaveBeenCalledWith(mockUser.id, resetPasswordDto.newPassword);
+      expect(sessionsService.revokeAll).toHaveBeenCalledWith(mockUser.id);
+      expect(personalAccessTokensService.revokeAll).toHaveBeenCalledWith(mockUser.id);
+      expect(securityEventsService.record).toHaveBeenCalledWith({ userId: mockUser.id, type: 'PASSWORD_RESET_COMPLETED', client: undefined, metadata: { revokedSessions: 2, revokedAccessTokens: 1 } });
     });
 
     it('should throw BadRequestException for invalid token', async () => {
@@ -368,10 +1160,117 @@ describe('AuthService', () => {
 
       await expect(service.resetPassword(resetPasswordDto)).rejects.toThrow(BadRequestException);
       expect(usersService.updatePassword).not.toHaveBeenCalled();
+      expect(sessionsService.revokeAll).not.toHaveBeenCalled();
+      expect(personalAccessTokensService.revokeAll).not.toHaveBeenCalled();
+    });
+
+    it('should check the new password against the policy and history of the account', async () => {
+      jest.spyOn(usersService, 'findByPasswordResetToken').mockResolvedValue(mockUser);
+      jest.spyOn(passwordPolicy, 'assertValid').mockRejectedValue(new BadRequestException({ message: ['Password must contain at least 1 number'], violations: [{ rule: 'digit', message: 'Password must contain at least 1 number' }] }));
+
+      await expect(service.resetPassword(resetPasswordDto)).rejects.toThrow(BadRequestException);
+      expect(passwordPolicy.assertValid).toHaveBeenCalledWith(resetPasswordDto.newPassword, {
+        email: mockUser.email,
+        name: mockUser.name,
+        userId: mockUser.id,
+      });
+      expect(usersService.updatePassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePassword', () => {
+    const changePasswordDto: ChangePasswordDto = {
+      currentPassword: 'Password123!',
+      newPassword: 'NewPassword123!',
+    };
+
+    beforeEach(() => {
+      jest.spyOn(usersService, 'findById').mockResolvedValue(mockUser);
+      (passwordHasher.verify as jest.Mock).mockImplementation(async (password: string) => password === 'Password123!');
+    });
+
+    it('should change the password, sign out other sessions and notify the user', async () => {
+      jest.spyOn(sessionsService, 'revokeOthers').mockResolvedValue(2);
+
+      const result = await service.changePassword(mockUser.id, changePasswordDto, 'session-123');
+
+      expect(result).toEqual({ message: 'Password changed successfully', revokedSessions: 2 });
+      expect(usersService.updatePassword).toHaveBeenCalledWith(mockUser.id, 'NewPassword123!');
+      expect(sessionsService.revokeOthers).toHaveBeenCalledWith(mockUser.id, 'session-123');
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id, type: 'PASSWORD_CHANGED' }),
+      );
+      expect(emailService.sendSecurityAlertEmail).toHaveBeenCalledWith(
+        mockUser.email,
+        mockUser.name,
+        expect.objectContaining({ subject: 'Your password was changed' }),
+      );
+    });
+
+    it('should keep other sessions when asked', async () => {
+      const result = await service.changePassword(
+        mockUser.id,
+        { ...changePasswordDto, revokeOtherSessions: false },
+        'session-123',
+      );
+
+      expect(sessionsService.revokeOthers).not.toHaveBeenCalled();
+      expect(result.revokedSessions).toBe(0);
+    });
+
+    it('should sign out every session when not called from one', async () => {
+      jest.spyOn(sessionsService, 'revokeAll').mockResolvedValue(3);
+
+      const result = await service.changePassword(mockUser.id, changePasswordDto);
+
+      expect(sessionsService.revokeAll).toHaveBeenCalledWith(mockUser.id);
+      expect(result.revokedSessions).toBe(3);
+    });
+
+    it('should throw ForbiddenException for a wrong current password', async () => {
+      await expect(
+        service.changePassword(mockUser.id, { ...changePasswordDto, currentPassword: 'Wrong123!' }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(usersService.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('should reject reusing the current password', async () => {
+      await expect(
+        service.changePassword(mockUser.id, { ...changePasswordDto, newPassword: 'Password123!' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(usersService.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('should check the new password against the policy and history of the account', async () => {
+      jest.spyOn(passwordPolicy, 'assertValid').mockRejectedValue(new BadRequestException({ message: ['Password must contain at least 1 number'], violations: [{ rule: 'digit', message: 'Password must contain at least 1 number' }] }));
+
+      await expect(service.changePassword(mockUser.id, changePasswordDto)).rejects.toThrow(BadRequestException);
+      expect(passwordPolicy.assertValid).toHaveBeenCalledWith('NewPassword123!', {
+        email: mockUser.email,
+        name: mockUser.name,
+        userId: mockUser.id,
+      });
+      expect(usersService.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException for accounts without a password', async () => {
+      jest.spyOn(usersService, 'findById').mockResolvedValue({ ...mockUser, passwordHash: null });
+
+      await expect(service.changePassword(mockUser.id, changePasswordDto)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should still succeed when the notification cannot be queued', async () => {
+      jest.spyOn(emailService, 'sendSecurityAlertEmail').mockRejectedValue(new Error('Redis down'));
+
+      await expect(service.changePassword(mockUser.id, changePasswordDto)).resolves.toMatchObject({
+        message: 'Password changed successfully',
+      });
     });
   });
 
   describe('resendVerificationEmail', () => {
+    const genericMessage = 'If an unverified account exists with this email, a new verification link has been sent.';
+
     it('should resend verification email for unverified user', async () => {
       const unverifiedUser = { ...mockUser, emailVerified: false };
       
@@ -381,25 +1280,40 @@ describe('AuthService', () => {
 
       const result = await service.resendVerificationEmail(unverifiedUser.email);
 
-      expect(result.message).toBe('Verification email sent successfully');
-      expect(usersService.setEmailVerificationToken).toHaveBeenCalled();
+      expect(result.message).toBe(genericMessage);
+      expect(usersService.setEmailVerificationToken).toHaveBeenCalledWith(unverifiedUser.id, expect.any(String), expect.any(Date));
       expect(emailService.sendVerificationEmail).toHaveBeenCalled();
     });
 
-    it('should return already verified message for verified user', async () => {
+    it('should not send another link within a minute of the last one', async () => {
+      // Issued 30 seconds ago with a 24 hour lifetime
+      const recentlySent = { ...mockUser, emailVerified: false, emailVerificationExpires: new Date(Date.now() - 30 * 1000 + 24 * 60 * 60 * 1000) };
+      jest.spyOn(usersService, 'findByEmail').mockResolvedValue(recentlySent);
+
+      const result = await service.resendVerificationEmail(recentlySent.email);
+
+      expect(result.message).toBe(genericMessage);
+      expect(usersService.setEmailVerificationToken).not.toHaveBeenCalled();
+      expect(emailService.sendVerificationEmail).not.toHaveBeenCalled();
+    });
+
+    it('should not reveal that the email is already verified', async () => {
       jest.spyOn(usersService, 'findByEmail').mockResolvedValue(mockUser);
 
       const result = await service.resendVerificationEmail(mockUser.email);
 
-      expect(result.message).toBe('Email already verified');
+      expect(result.message).toBe(genericMessage);
       expect(usersService.setEmailVerificationToken).not.toHaveBeenCalled();
       expect(emailService.sendVerificationEmail).not.toHaveBeenCalled();
     });
 
-    it('should throw NotFoundException for non-existent user', async () => {
+    it('should not reveal that the email has no account', async () => {
       jest.spyOn(usersService, 'findByEmail').mockResolvedValue(null);
 
-      await expect(service.resendVerificationEmail('nonexistent@example.com')).rejects.toThrow(NotFoundException);
+      const result = await service.resendVerificationEmail('nonexistent@example.com');
+
+      expect(result.message).toBe(genericMessage);
+      expect(emailService.sendVerificationEmail).not.toHaveBeenCalled();
     });
   });
 });
\ No newline at end of file
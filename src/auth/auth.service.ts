@@ -1,5 +1,7 @@
 import {
+  Inject,
   Injectable,
+  Logger,
   UnauthorizedException,
   BadRequestException,
   ConflictException,
@@ -8,29 +10,74 @@ import {
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
-import * as bcrypt from 'bcrypt';
+import { Role } from '@prisma/client';
 import { UsersService } from '../users/users.service';
 import { EmailService } from '../email/email.service';
-import { PrismaService } from '../prisma/prisma.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { AccessTokenDenyListService } from '../sessions/access-token-deny-list.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { MfaService } from '../mfa/mfa.service';
+import { WebAuthnService } from '../webauthn/webauthn.service';
+import { OidcService } from '../oidc/oidc.service';
+import { MagicLinkService } from '../magic-link/magic-link.service';
+import { JwtKeysService } from '../crypto/jwt-keys.service';
+import { PasswordHasherService } from '../crypto/password-hasher.service';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import { LoginAlertsService } from '../login-alerts/login-alerts.service';
+import { PersonalAccessTokensService } from '../personal-access-tokens/personal-access-tokens.service';
+import { authConfig, AuthConfig } from '../config/auth.config';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { VerifyEmailDto } from './dto/verify-email.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { MfaLoginDto } from './dto/mfa-login.dto';
+import { PasskeyLoginDto } from './dto/passkey-login.dto';
+import { OidcLoginDto } from './dto/oidc-login.dto';
+import { MagicLinkDto } from './dto/magic-link.dto';
+import { ConsumeMagicLinkDto } from './dto/consume-magic-link.dto';
 import { JwtPayload } from './interfaces/jwt-payload.interface';
-import { randomBytes } from 'crypto';
+import { ClientInfoData } from './decorators/client-info.decorator';
+import { randomBytes, randomUUID } from 'crypto';
+
+const VERIFICATION_RESEND_INTERVAL = 60 * 1000;
+
+type LoginMethod = 'password' | 'mfa' | 'passkey' | 'oidc' | 'magic_link';
+
+type LoginFailureReason =
+  | 'unknown_email'
+  | 'invalid_password'
+  | 'invalid_mfa_code'
+  | 'account_locked'
+  | 'account_suspended'
+  | 'email_not_verified';
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private readonly usersService: UsersService,
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
     private readonly emailService: EmailService,
-    private readonly prisma: PrismaService,
+    private readonly sessionsService: SessionsService,
+    private readonly securityEventsService: SecurityEventsService,
+    private readonly mfaService: MfaService,
+    private readonly webAuthnService: WebAuthnService,
+    private readonly oidcService: OidcService,
+    private readonly magicLinkService: MagicLinkService,
+    private readonly jwtKeysService: JwtKeysService,
+    private readonly accessTokenDenyList: AccessTokenDenyListService,
+    private readonly passwordHasher: PasswordHasherService,
+    private readonly passwordPolicy: PasswordPolicyService,
+    private readonly loginAlertsService: LoginAlertsService,
+    private readonly personalAccessTokensService: PersonalAccessTokensService,
+    @Inject(authConfig.KEY) private readonly authConfig: AuthConfig,
   ) {}
 
-  async register(registerDto: RegisterDto) {
+  async register(registerDto: RegisterDto, client?: ClientInfoData) {
     const { email, password, name } = registerDto;
 
     // Check if user already exists
@@ -39,6 +86,8 @@ export class AuthService {
       throw new ConflictException('User with this email already exists');
     }
 
+    await this.passwordPolicy.assertValid(password, { email, name });
+
     // Create user
     const user = await this.usersService.create({
       email,
@@ -46,16 +95,10 @@ export class AuthService {
       name,
     });
 
-    // Generate email verification token
-    const verificationToken = this.generateToken();
-    await this.usersService.setEmailVerificationToken(user.id, verificationToken);
-
-    // Send verification email
-    await this.emailService.sendVerificationEmail(user.email, user.name || '', verificationToken);
+    await this.sendEmailVerification(user);
 
     // Generate tokens
-    const tokens = await this.generateTokens(user.id, user.email, user.name || '');
-    await this.updateRefreshToken(user.id, tokens.refreshToken);
+    const tokens = await this.createSession(user, client);
 
     return {
       user: {
@@ -69,40 +112,213 @@ export class AuthService {
     };
   }
 
-  async login(loginDto: LoginDto) {
-    const { email, password } = loginDto;
+  async login(loginDto: LoginDto, client?: ClientInfoData) {
+    const { email, password, deviceName } = loginDto;
+
+    // Find user
+    const user = await this.usersService.findByEmail(email);
 
     // Check if account is locked
     const isLocked = await this.usersService.isAccountLocked(email);
     if (isLocked) {
+      await this.recordLogin(user?.id, client, { method: 'password', reason: 'account_locked' });
       throw new ForbiddenException('Account is locked due to multiple failed login attempts. Please try again later.');
     }
 
-    // Find user
-    const user = await this.usersService.findByEmail(email);
     if (!user) {
       await this.usersService.incrementLoginAttempts(email);
+      await this.recordLogin(undefined, client, { method: 'password', reason: 'unknown_email', email });
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    // Verify password
-    const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
+    // Verify password (accounts created through a social login have none yet)
+    const isPasswordValid = await this.passwordHasher.verify(password, user.passwordHash);
     if (!isPasswordValid) {
-      await this.usersService.incrementLoginAttempts(email);
+      await this.registerFailedAttempt(user, client, { method: 'password', reason: 'invalid_password' });
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    // The plaintext is only at hand here, so this is where old hashes get upgraded
+    await this.upgradePasswordHash(user, password);
+
+    // The password alone does not complete the login when two-factor is on,
+    // so failed attempts keep counting until the second step succeeds
+    if (user.mfaEnabled) {
+      return this.createMfaChallenge(user, deviceName);
+    }
+
     // Reset login attempts on successful login
     await this.usersService.resetLoginAttempts(email);
 
     // Check if email is verified
     if (!user.emailVerified) {
+      await this.recordLogin(user.id, client, { method: 'password', reason: 'email_not_verified' });
       throw new ForbiddenException('Please verify your email before logging in');
     }
 
     // Generate tokens
-    const tokens = await this.generateTokens(user.id, user.email, user.name || '');
-    await this.updateRefreshToken(user.id, tokens.refreshToken);
+    const tokens = await this.createLoginSession(user, client, 'password', deviceName);
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        emailVerified: user.emailVerified,
+      },
+      ...tokens,
+    };
+  }
+
+  async loginWithMfa(mfaLoginDto: MfaLoginDto, client?: ClientInfoData) {
+    const { mfaToken, code } = mfaLoginDto;
+
+    const challenge = await this.verifyMfaChallenge(mfaToken);
+
+    const user = await this.usersService.findById(challenge.sub);
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+
+    const isLocked = await this.usersService.isAccountLocked(user.email);
+    if (isLocked) {
+      await this.recordLogin(user.id, client, { method: 'mfa', reason: 'account_locked' });
+      throw new ForbiddenException('Account is locked due to multiple failed login attempts. Please try again later.');
+    }
+
+    const isCodeValid = await this.mfaService.verifyLoginCode(user.id, code, client);
+    if (!isCodeValid) {
+      await this.registerFailedAttempt(user, client, { method: 'mfa', reason: 'invalid_mfa_code' });
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    await this.usersService.resetLoginAttempts(user.email);
+
+    const tokens = await this.createLoginSession(user, client, 'mfa', challenge.deviceName);
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        emailVerified: user.emailVerified,
+      },
+      ...tokens,
+    };
+  }
+
+  async passkeyLoginOptions() {
+    return this.webAuthnService.generateAuthenticationOptions();
+  }
+
+  /**
+   * Passwordless login. Passkeys require user verification (biometrics or
+   * PIN) on top of possession of the device, so no second factor is asked.
+   */
+  async loginWithPasskey(passkeyLoginDto: PasskeyLoginDto, client?: ClientInfoData) {
+    const { challengeId, response, deviceName } = passkeyLoginDto;
+
+    const { userId } = await this.webAuthnService.verifyAuthentication(challengeId, response);
+
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new UnauthorizedException('Passkey could not be verified');
+    }
+
+    const isLocked = await this.usersService.isAccountLocked(user.email);
+    if (isLocked) {
+      await this.recordLogin(user.id, client, { method: 'passkey', reason: 'account_locked' });
+      throw new ForbiddenException('Account is locked due to multiple failed login attempts. Please try again later.');
+    }
+
+    if (!user.emailVerified) {
+      await this.recordLogin(user.id, client, { method: 'passkey', reason: 'email_not_verified' });
+      throw new ForbiddenException('Please verify your email before logging in');
+    }
+
+    await this.usersService.resetLoginAttempts(user.email);
+
+    const tokens = await this.createLoginSession(user, client, 'passkey', deviceName);
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        emailVerified: user.emailVerified,
+      },
+      ...tokens,
+    };
+  }
+
+  oidcProviders() {
+    return this.oidcService.getProviders().map(({ key }) => ({ key }));
+  }
+
+  async oidcAuthorizationUrl(provider: string) {
+    return this.oidcService.createAuthorizationUrl(provider);
+  }
+
+  /**
+   * Login through an external identity provider. The provider has already
+   * verified the email, but a second factor enabled here is still required.
+   */
+  async loginWithOidc(provider: string, oidcLoginDto: OidcLoginDto, client?: ClientInfoData) {
+    const { code, state, deviceName } = oidcLoginDto;
+
+    const user = await this.oidcService.authenticate(provider, code, state, client);
+
+    const isLocked = await this.usersService.isAccountLocked(user.email);
+    if (isLocked) {
+      await this.recordLogin(user.id, client, { method: 'oidc', reason: 'account_locked' });
+      throw new ForbiddenException('Account is locked due to multiple failed login attempts. Please try again later.');
+    }
+
+    if (user.mfaEnabled) {
+      return this.createMfaChallenge(user, deviceName);
+    }
+
+    await this.usersService.resetLoginAttempts(user.email);
+
+    const tokens = await this.createLoginSession(user, client, 'oidc', deviceName);
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        emailVerified: user.emailVerified,
+      },
+      ...tokens,
+    };
+  }
+
+  async sendMagicLink(magicLinkDto: MagicLinkDto) {
+    await this.magicLinkService.send(magicLinkDto.email);
+
+    // Same answer whether or not an account exists
+    return { message: 'Check your email for a sign-in link.' };
+  }
+
+  async loginWithMagicLink(consumeMagicLinkDto: ConsumeMagicLinkDto, client?: ClientInfoData) {
+    const { token, deviceName } = consumeMagicLinkDto;
+
+    const user = await this.magicLinkService.consume(token);
+
+    const isLocked = await this.usersService.isAccountLocked(user.email);
+    if (isLocked) {
+      await this.recordLogin(user.id, client, { method: 'magic_link', reason: 'account_locked' });
+      throw new ForbiddenException('Account is locked due to multiple failed login attempts. Please try again later.');
+    }
+
+    // The link only proves access to the mailbox, which is not a second factor
+    if (user.mfaEnabled) {
+      return this.createMfaChallenge(user, deviceName);
+    }
+
+    await this.usersService.resetLoginAttempts(user.email);
+
+    const tokens = await this.createLoginSession(user, client, 'magic_link', deviceName);
 
     return {
       user: {
@@ -115,81 +331,252 @@ export class AuthService {
     };
   }
 
-  async logout(userId: string) {
-    await this.updateRefreshToken(userId, null);
+  async logout(userId: string, sessionId?: string, accessToken?: { id: string; expiresAt: number }, client?: ClientInfoData) {
+    // Refused straight away; ending the session covers the other access tokens issued for it
+    if (accessToken) {
+      await this.accessTokenDenyList.denyToken(accessToken.id, accessToken.expiresAt);
+    }
+
+    if (sessionId) {
+      // Only end the session the request was made from
+      await this.endSession(userId, sessionId);
+    } else {
+      // Tokens issued before sessions were tracked per device
+      await this.sessionsService.revokeAll(userId);
+    }
+
+    await this.securityEventsService.record({
+      userId,
+      type: 'LOGOUT',
+      client,
+      metadata: { sessionId },
+    });
+
     return { message: 'Logged out successfully' };
   }
 
-  async refreshTokens(userId: string, refreshToken: string) {
+  async refreshTokens(userId: string, refreshToken: string, sessionId?: string, client?: ClientInfoData) {
     const user = await this.usersService.findById(userId);
     
     if (!user) {
       throw new ForbiddenException('Access denied');
     }
 
+    this.assertNotSuspended(user);
+
     // Validate refresh token from session
-    const session = await this.validateRefreshToken(userId, refreshToken);
-    
+    const { session, reused } = await this.validateRefreshToken(userId, refreshToken, sessionId);
+
+    if (reused && sessionId) {
+      await this.handleRefreshTokenReuse(user, sessionId, client);
+      throw new ForbiddenException('Refresh token has already been used');
+    }
+
     if (!session) {
+      await this.recordRefresh(user.id, client, { sessionId, reason: 'invalid_refresh_token' });
       throw new ForbiddenException('Invalid refresh token');
     }
 
-    const tokens = await this.generateTokens(user.id, user.email, user.name || '');
+    const tokens = await this.generateTokens(user, session.id);
     
-    // Delete old session and create new one
-    await this.prisma.session.delete({ where: { id: session.id } });
-    await this.updateRefreshToken(user.id, tokens.refreshToken);
+    // Rotate the refresh token in place so the session keeps its device metadata
+    const rotated = await this.sessionsService.rotate(session.id, refreshToken, tokens.refreshToken, client);
+    if (!rotated) {
+      await this.recordRefresh(user.id, client, { sessionId: session.id, reason: 'invalid_refresh_token' });
+      throw new ForbiddenException('Invalid refresh token');
+    }
+
+    await this.recordRefresh(user.id, client, { sessionId: session.id });
 
     return tokens;
   }
 
-  private async validateRefreshToken(userId: string, refreshToken: string) {
-    const session = await this.prisma.session.findFirst({
-      where: {
-        userId,
-        refreshToken,
-        expiresAt: {
-          gt: new Date(),
-        },
-      },
+  /**
+   * Each session is a refresh token family: rotation replaces its token in
+   * place, so a correctly signed token for a live session that no longer
+   * matches the stored one can only be a token that was already rotated.
+   * The token replaced moments ago is refused without ending the session,
+   * since that is a client refreshing twice at once rather than a thief.
+   */
+  private async validateRefreshToken(userId: string, refreshToken: string, sessionId?: string) {
+    if (!sessionId) {
+      return { session: null, reused: false };
+    }
+
+    const session = await this.sessionsService.findActive(userId, sessionId);
+
+    if (!session) {
+      return { session: null, reused: false };
+    }
+
+    if (!this.sessionsService.isCurrentRefreshToken(session, refreshToken)) {
+      const racing = this.sessionsService.isJustRotatedRefreshToken(session, refreshToken);
+      return { session: null, reused: !racing };
+    }
+
+    return { session, reused: false };
+  }
+
+  private async handleRefreshTokenReuse(
+    user: { id: string; email: string; name: string | null },
+    sessionId: string,
+    client?: ClientInfoData,
+  ) {
+    const revokeAll = this.authConfig.refreshTokenReuseRevokeAll;
+
+    if (revokeAll) {
+      await this.sessionsService.revokeAll(user.id);
+    } else {
+      await this.endSession(user.id, sessionId);
+    }
+
+    this.logger.warn(`Refresh token reuse detected for user ${user.id} (session ${sessionId})`);
+
+    await this.securityEventsService.record({
+      userId: user.id,
+      type: 'REFRESH_TOKEN_REUSE',
+      client,
+      metadata: { sessionId, revokedAllSessions: revokeAll },
+    });
+
+    try {
+      const baseUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000');
+      await this.emailService.sendSecurityAlertEmail(user.email, user.name || '', {
+        subject: 'Suspicious activity on your account',
+        heading: 'We signed you out',
+        message: revokeAll
+          ? 'A sign-in token that had already been used was presented again, which can mean it was stolen. As a precaution we signed you out of all your devices.'
+          : 'A sign-in token that had already been used was presented again, which can mean it was stolen. As a precaution we signed out the affected device.',
+        details: [
+          { label: 'IP address', value: client?.ipAddress || 'Unknown' },
+          { label: 'Device', value: client?.userAgent || 'Unknown' },
+          { label: 'Time', value: new Date().toUTCString() },
+        ],
+        actionUrl: `${baseUrl}/forgot-password`,
+        actionText: 'Reset Password',
+      });
+    } catch (error) {
+      this.logger.error(`Failed to queue refresh token reuse alert for user ${user.id}:`, error);
+    }
+  }
+
+  /** Re-hashes with the current algorithm and cost; a failure only costs the upgrade, not the login. */
+  private async upgradePasswordHash(user: { id: string; passwordHash: string | null }, password: string) {
+    if (!user.passwordHash || !this.passwordHasher.needsRehash(user.passwordHash)) {
+      return;
+    }
+
+    try {
+      await this.usersService.rehashPassword(user.id, user.passwordHash, password);
+    } catch (error) {
+      this.logger.error(`Failed to upgrade the password hash of user ${user.id}:`, error);
+    }
+  }
+
+  /**
+   * Audit trail of sign-in attempts. A `reason` marks the attempt as refused;
+   * attempts on unknown emails have no account, so they carry the email instead.
+   */
+  private async recordLogin(
+    userId: string | undefined,
+    client: ClientInfoData | undefined,
+    metadata: { method: LoginMethod; reason?: LoginFailureReason; email?: string },
+  ) {
+    await this.securityEventsService.record({
+      userId,
+      type: 'LOGIN',
+      outcome: metadata.reason ? 'FAILURE' : 'SUCCESS',
+      client,
+      metadata,
     });
+  }
 
-    return session;
+  /** Counts a wrong password or code towards the lockout, and records and alerts the owner once it is reached. */
+  private async registerFailedAttempt(
+    user: { id: string; email: string; name: string | null },
+    client: ClientInfoData | undefined,
+    metadata: { method: LoginMethod; reason: LoginFailureReason },
+  ) {
+    await this.recordLogin(user.id, client, metadata);
+
+    const lockedUntil = await this.usersService.incrementLoginAttempts(user.email);
+    if (lockedUntil) {
+      await this.securityEventsService.record({
+        userId: user.id,
+        type: 'ACCOUNT_LOCKED',
+        client,
+        metadata: { method: metadata.method, lockedFor: this.authConfig.lockTime.toString() },
+      });
+      await this.loginAlertsService.sendLockoutAlert(user, client, lockedUntil);
+    }
+  }
+
+  private async recordRefresh(
+    userId: string,
+    client: ClientInfoData | undefined,
+    metadata: { sessionId?: string; reason?: 'invalid_refresh_token' },
+  ) {
+    await this.securityEventsService.record({
+      userId,
+      type: 'TOKEN_REFRESHED',
+      outcome: metadata.reason ? 'FAILURE' : 'SUCCESS',
+      client,
+      metadata,
+    });
+  }
+
+  private async endSession(userId: string, sessionId: string) {
+    try {
+      await this.sessionsService.revoke(userId, sessionId);
+    } catch (error) {
+      // Ending a session twice is not an error
+      if (!(error instanceof NotFoundException)) {
+        throw error;
+      }
+    }
   }
 
-  async verifyEmail(verifyEmailDto: VerifyEmailDto) {
+  async verifyEmail(verifyEmailDto: VerifyEmailDto, client?: ClientInfoData) {
     const { token } = verifyEmailDto;
 
     const user = await this.usersService.findByEmailVerificationToken(token);
     
     if (!user) {
-      throw new BadRequestException('Invalid or expired verification token');
+      await this.securityEventsService.record({ type: 'EMAIL_VERIFIED', outcome: 'FAILURE', client, metadata: { reason: 'invalid_token' } });
+      throw new BadRequestException('Invalid verification token');
     }
 
     if (user.emailVerified) {
       return { message: 'Email already verified' };
     }
 
+    if (!user.emailVerificationExpires || user.emailVerificationExpires <= new Date()) {
+      await this.securityEventsService.record({ userId: user.id, type: 'EMAIL_VERIFIED', outcome: 'FAILURE', client, metadata: { reason: 'expired_token' } });
+      throw new BadRequestException('Verification token has expired, please request a new one');
+    }
+
     await this.usersService.setEmailVerified(user.id, true);
 
+    await this.securityEventsService.record({ userId: user.id, type: 'EMAIL_VERIFIED', client });
+
     return { message: 'Email verified successfully' };
   }
 
-  async forgotPassword(forgotPasswordDto: ForgotPasswordDto) {
+  async forgotPassword(forgotPasswordDto: ForgotPasswordDto, client?: ClientInfoData) {
     const { email } = forgotPasswordDto;
 
     const user = await this.usersService.findByEmail(email);
     
     if (!user) {
+      await this.securityEventsService.record({ type: 'PASSWORD_RESET_REQUESTED', outcome: 'FAILURE', client, metadata: { reason: 'unknown_email', email } });
+
       // Don't reveal if user exists or not for security
       return { message: 'If an account exists with this email, a password reset link has been sent.' };
     }
 
     // Generate password reset token
     const resetToken = this.generateToken();
-    const expiryHours = parseInt(this.configService.get<string>('PASSWORD_RESET_EXPIRY', '1h'));
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + expiryHours);
+    const expiresAt = this.authConfig.passwordResetExpiry.from(new Date());
 
     await this.usersService.setPasswordResetToken(user.id, resetToken, expiresAt);
 
@@ -201,59 +588,247 @@ export class AuthService {
       resetToken,
     );
 
+    await this.securityEventsService.record({ userId: user.id, type: 'PASSWORD_RESET_REQUESTED', client });
+
     return { message: 'If an account exists with this email, a password reset link has been sent.' };
   }
 
-  async resetPassword(resetPasswordDto: ResetPasswordDto) {
+  async resetPassword(resetPasswordDto: ResetPasswordDto, client?: ClientInfoData) {
     const { token, newPassword } = resetPasswordDto;
 
     const user = await this.usersService.findByPasswordResetToken(token);
     
     if (!user) {
+      await this.securityEventsService.record({ type: 'PASSWORD_RESET_COMPLETED', outcome: 'FAILURE', client, metadata: { reason: 'invalid_token' } });
       throw new BadRequestException('Invalid or expired reset token');
     }
 
+    await this.passwordPolicy.assertValid(newPassword, { email: user.email, name: user.name, userId: user.id });
+
     await this.usersService.updatePassword(user.id, newPassword);
 
+    // Whoever had the old password may still hold a session or have created a token, so revoke them all
+    const revokedSessions = await this.sessionsService.revokeAll(user.id);
+    const revokedAccessTokens = await this.personalAccessTokensService.revokeAll(user.id);
+
+    await this.securityEventsService.record({ userId: user.id, type: 'PASSWORD_RESET_COMPLETED', client, metadata: { revokedSessions, revokedAccessTokens } });
+
     return { message: 'Password reset successfully' };
   }
 
-  async resendVerificationEmail(email: string) {
-    const user = await this.usersService.findByEmail(email);
-    
+  async changePassword(userId: string, changePasswordDto: ChangePasswordDto, sessionId?: string, client?: ClientInfoData) {
+    const { currentPassword, newPassword, revokeOtherSessions = true } = changePasswordDto;
+
+    const user = await this.usersService.findById(userId);
     if (!user) {
       throw new NotFoundException('User not found');
     }
 
-    if (user.emailVerified) {
-      return { message: 'Email already verified' };
+    // Accounts created through OIDC or a magic link set their first password via reset
+    if (!user.passwordHash) {
+      throw new BadRequestException('No password is set for this account, use forgot password to create one');
     }
 
-    // Generate new verification token
+    if (!(await this.passwordHasher.verify(currentPassword, user.passwordHash))) {
+      throw new ForbiddenException('Invalid password');
+    }
+
+    if (await this.passwordHasher.verify(newPassword, user.passwordHash)) {
+      throw new BadRequestException('New password must be different from the current password');
+    }
+
+    await this.passwordPolicy.assertValid(newPassword, { email: user.email, name: user.name, userId: user.id });
+
+    await this.usersService.updatePassword(user.id, newPassword);
+
+    // Other sessions are signed out unless the user explicitly keeps them
+    let revokedSessions = 0;
+    if (revokeOtherSessions) {
+      revokedSessions = sessionId
+        ? await this.sessionsService.revokeOthers(user.id, sessionId)
+        : await this.sessionsService.revokeAll(user.id);
+    }
+
+    await this.securityEventsService.record({
+      userId: user.id,
+      type: 'PASSWORD_CHANGED',
+      client,
+      metadata: { revokedSessions },
+    });
+
+    try {
+      const baseUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000');
+      await this.emailService.sendSecurityAlertEmail(user.email, user.name || '', {
+        subject: 'Your password was changed',
+        heading: 'Password changed',
+        message: 'The password for your account was just changed. If you did not do this, reset your password right away.',
+        details: [
+          { label: 'IP address', value: client?.ipAddress || 'Unknown' },
+          { label: 'Device', value: client?.userAgent || 'Unknown' },
+          { label: 'Time', value: new Date().toUTCString() },
+        ],
+        actionUrl: `${baseUrl}/forgot-password`,
+        actionText: 'Reset Password',
+      });
+    } catch (error) {
+      this.logger.error(`Failed to queue password changed alert for user ${user.id}:`, error);
+    }
+
+    return { message: 'Password changed successfully', revokedSessions };
+  }
+
+  async resendVerificationEmail(email: string) {
+    const user = await this.usersService.findByEmail(email);
+
+    // Same answer whether or not there is anything to send, so it doesn't reveal which emails have accounts
+    const response = { message: 'If an unverified account exists with this email, a new verification link has been sent.' };
+
+    if (!user || user.emailVerified) {
+      return response;
+    }
+
+    // At most one email per address every minute, however many clients ask
+    const issuedAt = user.emailVerificationExpires && user.emailVerificationExpires.getTime() - this.authConfig.emailVerificationExpiry.milliseconds;
+    if (issuedAt && Date.now() - issuedAt < VERIFICATION_RESEND_INTERVAL) {
+      return response;
+    }
+
+    await this.sendEmailVerification(user);
+
+    return response;
+  }
+
+  /** Replaces any outstanding verification link, so only the newest one works. */
+  private async sendEmailVerification(user: { id: string; email: string; name: string | null }) {
     const verificationToken = this.generateToken();
-    await this.usersService.setEmailVerificationToken(user.id, verificationToken);
+    const expiresAt = this.authConfig.emailVerificationExpiry.from(new Date());
+    await this.usersService.setEmailVerificationToken(user.id, verificationToken, expiresAt);
 
-    // Send verification email
     await this.emailService.sendVerificationEmail(user.email, user.name || '', verificationToken);
+  }
+
+  /**
+   * Every login flow ends in createSession or createMfaChallenge, so checking
+   * there blocks suspended accounts however they authenticate. It runs after
+   * the credential check and does not reveal the suspension to guessers.
+   */
+  private assertNotSuspended(user: { suspendedAt?: Date | null }) {
+    if (user.suspendedAt) {
+      throw new ForbiddenException('Account is suspended');
+    }
+  }
 
-    return { message: 'Verification email sent successfully' };
+  private async createSession(
+    user: { id: string; email: string; name: string | null; role: Role; suspendedAt?: Date | null },
+    client?: ClientInfoData,
+    label?: string,
+  ) {
+    this.assertNotSuspended(user);
+
+    const sessionId = randomUUID();
+    const tokens = await this.generateTokens(user, sessionId);
+
+    await this.sessionsService.create({
+      id: sessionId,
+      userId: user.id,
+      refreshToken: tokens.refreshToken,
+      client,
+      label,
+    });
+
+    return tokens;
   }
 
-  private async generateTokens(userId: string, email: string, name: string) {
+  /**
+   * The last step of every login flow; a suspended account is recorded as refused before createSession throws.
+   * Signing in from a device the user has not used before emails them an alert.
+   */
+  private async createLoginSession(
+    user: { id: string; email: string; name: string | null; role: Role; suspendedAt?: Date | null },
+    client: ClientInfoData | undefined,
+    method: LoginMethod,
+    label?: string,
+  ) {
+    if (user.suspendedAt) {
+      await this.recordLogin(user.id, client, { method, reason: 'account_suspended' });
+    }
+
+    const tokens = await this.createSession(user, client, label);
+
+    await this.recordLogin(user.id, client, { method });
+    await this.loginAlertsService.checkSignIn(user, client);
+
+    return tokens;
+  }
+
+  /**
+   * Short-lived token proving the password step succeeded. It is signed with
+   * the access token key, so JwtStrategy must refuse anything with a `typ`.
+   */
+  private async createMfaChallenge(
+    user: { id: string; email: string; name: string | null; suspendedAt?: Date | null },
+    deviceName?: string,
+  ) {
+    this.assertNotSuspended(user);
+
+    const { mfaChallengeExpiry } = this.authConfig;
     const payload: JwtPayload = {
-      sub: userId,
-      email,
-      name,
+      sub: user.id,
+      email: user.email,
+      name: user.name || '',
+      typ: 'mfa_challenge',
+      deviceName,
+    };
+
+    const mfaToken = await this.jwtService.signAsync(payload, {
+      ...this.jwtKeysService.signOptions(),
+      expiresIn: mfaChallengeExpiry.seconds,
+    });
+
+    return {
+      mfaRequired: true,
+      mfaToken,
+      expiresIn: mfaChallengeExpiry.toString(),
+      message: 'Two-factor authentication required',
+    };
+  }
+
+  private async verifyMfaChallenge(mfaToken: string) {
+    let payload: JwtPayload;
+
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(mfaToken, this.jwtKeysService.verifyOptions(mfaToken));
+    } catch (error) {
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+
+    if (payload.typ !== 'mfa_challenge') {
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+
+    return payload;
+  }
+
+  private async generateTokens(
+    user: { id: string; email: string; name: string | null; role: Role },
+    sessionId: string,
+  ) {
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      name: user.name || '',
+      role: user.role,
+      sid: sessionId,
     };
 
     const [accessToken, refreshToken] = await Promise.all([
-      this.jwtService.signAsync(payload, {
-        secret: this.configService.get<string>('JWT_SECRET'),
-        expiresIn: this.configService.get<string>('JWT_EXPIRATION', '15m'),
+      this.jwtService.signAsync({ ...payload, jti: randomUUID() }, {
+        ...this.jwtKeysService.signOptions(),
+        expiresIn: this.authConfig.accessTokenExpiry.seconds,
       }),
-      this.jwtService.signAsync(payload, {
+      this.jwtService.signAsync({ ...payload, jti: randomUUID() }, {
         secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
-        expiresIn: this.configService.get<string>('JWT_REFRESH_EXPIRATION', '30d'),
+        expiresIn: this.authConfig.refreshTokenExpiry.seconds,
       }),
     ]);
 
@@ -261,14 +836,10 @@ export class AuthService {
       accessToken,
       refreshToken,
       tokenType: 'Bearer',
-      expiresIn: this.configService.get<string>('JWT_EXPIRATION', '15m'),
+      expiresIn: this.authConfig.accessTokenExpiry.toString(),
     };
   }
 
-  private async updateRefreshToken(userId: string, refreshToken: string | null) {
-    await this.usersService.updateRefreshToken(userId, refreshToken);
-  }
-
   private generateToken(): string {
     return randomBytes(32).toString('hex');
   }
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { AccessTokenScope } from '../../personal-access-tokens/access-token-scopes';
+
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+
+/**
+ * Lets `JwtAuthGuard` accept personal access tokens on a route, provided
+ * the token was granted every listed scope.
+ */
+export const AllowApiKey = (...scopes: AccessTokenScope[]) =>
+  SetMetadata(API_KEY_SCOPES_KEY, scopes);
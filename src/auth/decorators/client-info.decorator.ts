@@ -0,0 +1,18 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+
+export interface ClientInfoData {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export const ClientInfo = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): ClientInfoData => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+
+    return {
+      userAgent: request.get('user-agent') || undefined,
+      ipAddress: request.ip || request.socket?.remoteAddress || undefined,
+    };
+  },
+);
@@ -1,10 +1,22 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Role } from '@prisma/client';
 
 export interface CurrentUserData {
   id: string;
   email: string;
   name: string;
   emailVerified: boolean;
+  role: Role;
+  sessionId?: string;
+  // jti and exp of the access token, so it can be revoked on logout
+  tokenId?: string;
+  tokenExpiresAt?: number;
+  // Set instead of sessionId when authenticated with a personal access token
+  accessTokenId?: string;
+  scopes?: string[];
+  // Set when an admin is acting as this user
+  impersonatorId?: string;
+  impersonationId?: string;
 }
 
 export const CurrentUser = createParamDecorator(
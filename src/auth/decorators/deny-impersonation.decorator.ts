@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const DENY_IMPERSONATION_KEY = 'denyImpersonation';
+
+/**
+ * Makes `JwtAuthGuard` refuse impersonation tokens on a route. Use it for
+ * anything that changes how the user signs in or removes their data.
+ */
+export const DenyImpersonation = () =>
+  SetMetadata(DENY_IMPERSONATION_KEY, true);
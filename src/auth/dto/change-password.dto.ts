@@ -0,0 +1,31 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class ChangePasswordDto {
+  @ApiProperty({
+    example: 'Password123!',
+    description: 'Current password',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Current password is required' })
+  currentPassword: string;
+
+  @ApiProperty({
+    example: 'NewPassword123!',
+    description:
+      'New password, which must meet the password policy (GET /auth/password-policy)',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'New password is required' })
+  newPassword: string;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Sign out every other device. Pass false to keep them signed in, which leaves their access tokens valid',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  revokeOtherSessions?: boolean;
+}
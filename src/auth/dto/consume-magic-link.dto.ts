@@ -0,0 +1,23 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ConsumeMagicLinkDto {
+  @ApiProperty({
+    example: 'a1b2c3d4e5f6...',
+    description: 'Token from the sign-in link',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Token is required' })
+  token: string;
+
+  @ApiPropertyOptional({
+    example: "John's iPhone",
+    description: 'Human readable label for the session created by this login',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100, {
+    message: 'Device name must be at most 100 characters long',
+  })
+  deviceName?: string;
+}
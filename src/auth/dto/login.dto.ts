@@ -1,5 +1,5 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEmail, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
 
 export class LoginDto {
   @ApiProperty({
@@ -17,4 +17,13 @@ export class LoginDto {
   @IsString()
   @IsNotEmpty({ message: 'Password is required' })
   password: string;
+
+  @ApiPropertyOptional({
+    example: "John's iPhone",
+    description: 'Human readable label for the session created by this login',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100, { message: 'Device name must be at most 100 characters long' })
+  deviceName?: string;
 }
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class MfaLoginDto {
+  @ApiProperty({
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description: 'Challenge token returned by the login endpoint',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'MFA token is required' })
+  mfaToken: string;
+
+  @ApiProperty({
+    example: '123456',
+    description: 'Code from the authenticator app, or a recovery code',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Code is required' })
+  @MaxLength(20)
+  code: string;
+}
@@ -0,0 +1,35 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class OidcLoginDto {
+  @ApiProperty({
+    example: '4/0AX4XfWh...',
+    description:
+      'Authorization code the identity provider sent to the redirect URI',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Authorization code is required' })
+  @MaxLength(2048)
+  code: string;
+
+  @ApiProperty({
+    example: 'x8Jb2cI0m3Qd0l9vZl7cV1n4b6Yl3pQm2sVfXk1aT0E',
+    description:
+      'State returned with the authorization URL and echoed back by the provider',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'State is required' })
+  @MaxLength(512)
+  state: string;
+
+  @ApiPropertyOptional({
+    example: "John's MacBook",
+    description: 'Human readable label for the session created by this login',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100, {
+    message: 'Device name must be at most 100 characters long',
+  })
+  deviceName?: string;
+}
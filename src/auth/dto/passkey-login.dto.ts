@@ -0,0 +1,37 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
+
+export class PasskeyLoginDto {
+  @ApiProperty({
+    example: '0b8f1f5e-1c1a-4a57-9b8e-7f0c6a3d2e11',
+    description: 'Challenge id returned with the login options',
+  })
+  @IsUUID('4', { message: 'Invalid challenge id' })
+  challengeId: string;
+
+  @ApiProperty({
+    description: 'Output of navigator.credentials.get() serialized as JSON',
+  })
+  @IsObject()
+  @IsNotEmpty({ message: 'Response is required' })
+  response: AuthenticationResponseJSON;
+
+  @ApiPropertyOptional({
+    example: "John's iPhone",
+    description: 'Human readable label for the session created by this login',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100, {
+    message: 'Device name must be at most 100 characters long',
+  })
+  deviceName?: string;
+}
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString, MinLength, Matches } from 'class-validator';
+import { IsNotEmpty, IsString } from 'class-validator';
 
 export class ResetPasswordDto {
   @ApiProperty({
@@ -12,17 +12,9 @@ export class ResetPasswordDto {
 
   @ApiProperty({
     example: 'NewPassword123!',
-    description: 'New password (min 8 chars, 1 uppercase, 1 number, 1 special character)',
+    description: 'New password, which must meet the password policy (GET /auth/password-policy)',
   })
   @IsString()
   @IsNotEmpty({ message: 'New password is required' })
-  @MinLength(8, { message: 'Password must be at least 8 characters long' })
-  @Matches(
-    /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
-    {
-      message:
-        'Password must contain at least 1 uppercase letter, 1 lowercase letter, 1 number, and 1 special character',
-    },
-  )
   newPassword: string;
 }
\ No newline at end of file
@@ -1,15 +1,21 @@
-import { Injectable, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Injectable, ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { Reflector } from '@nestjs/core';
-import { Observable } from 'rxjs';
+import { API_KEY_SCOPES_KEY } from '../decorators/allow-api-key.decorator';
+import { DENY_IMPERSONATION_KEY } from '../decorators/deny-impersonation.decorator';
 
+/**
+ * Authenticates with an access JWT or, on routes marked with `@AllowApiKey`,
+ * a personal access token carrying the scopes the route asks for.
+ * Impersonation tokens are refused on routes marked with `@DenyImpersonation`.
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
+export class JwtAuthGuard extends AuthGuard(['jwt', 'api-key']) {
   constructor(private reflector: Reflector) {
     super();
   }
 
-  canActivate(context: ExecutionContext): boolean | Promise<boolean> | Observable<boolean> {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const isPublic = this.reflector.getAllAndOverride<boolean>('isPublic', [
       context.getHandler(),
       context.getClass(),
@@ -19,7 +25,18 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       return true;
     }
 
-    return super.canActivate(context);
+    const activated = (await super.canActivate(context)) as boolean;
+
+    const { user } = context.switchToHttp().getRequest();
+    if (user?.accessTokenId) {
+      this.checkScopes(context, user.scopes);
+    }
+
+    if (user?.impersonatorId) {
+      this.checkImpersonation(context);
+    }
+
+    return activated;
   }
 
   handleRequest(err: any, user: any, info: any) {
@@ -28,4 +45,31 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
     }
     return user;
   }
+
+  private checkImpersonation(context: ExecutionContext) {
+    const denied = this.reflector.getAllAndOverride<boolean>(DENY_IMPERSONATION_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (denied) {
+      throw new ForbiddenException('This action is not available while impersonating a user');
+    }
+  }
+
+  private checkScopes(context: ExecutionContext, granted: string[]) {
+    const required = this.reflector.getAllAndOverride<string[]>(API_KEY_SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!required) {
+      throw new ForbiddenException('Personal access tokens are not accepted here');
+    }
+
+    const missing = required.filter((scope) => !granted.includes(scope));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`Personal access token is missing scope: ${missing.join(', ')}`);
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@prisma/client';
+import { RolesGuard } from './roles.guard';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { Permission } from '../permissions';
+
+describe('RolesGuard', () => {
+  let guard: RolesGuard;
+  let reflector: Reflector;
+
+  const contextFor = (role?: Role): ExecutionContext =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({ user: role ? { id: 'user-1', role } : undefined }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  const requireMetadata = (metadata: {
+    roles?: Role[];
+    permissions?: Permission[];
+  }) => {
+    jest
+      .spyOn(reflector, 'getAllAndOverride')
+      .mockImplementation((key: string) =>
+        key === ROLES_KEY
+          ? metadata.roles
+          : key === PERMISSIONS_KEY
+            ? metadata.permissions
+            : undefined,
+      );
+  };
+
+  beforeEach(() => {
+    reflector = new Reflector();
+    guard = new RolesGuard(reflector);
+  });
+
+  it('should allow routes without role or permission requirements', () => {
+    requireMetadata({});
+
+    expect(guard.canActivate(contextFor('USER'))).toBe(true);
+  });
+
+  it('should allow users with one of the required roles', () => {
+    requireMetadata({ roles: ['SUPPORT', 'ADMIN'] });
+
+    expect(guard.canActivate(contextFor('SUPPORT'))).toBe(true);
+    expect(guard.canActivate(contextFor('ADMIN'))).toBe(true);
+  });
+
+  it('should reject users without a required role', () => {
+    requireMetadata({ roles: ['ADMIN'] });
+
+    expect(() => guard.canActivate(contextFor('USER'))).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should require every listed permission', () => {
+    requireMetadata({ permissions: ['users:read', 'users:suspend'] });
+
+    expect(() => guard.canActivate(contextFor('SUPPORT'))).toThrow(
+      ForbiddenException,
+    );
+    expect(guard.canActivate(contextFor('ADMIN'))).toBe(true);
+  });
+
+  it('should grant support read access to users', () => {
+    requireMetadata({ permissions: ['users:read'] });
+
+    expect(guard.canActivate(contextFor('SUPPORT'))).toBe(true);
+    expect(() => guard.canActivate(contextFor('USER'))).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should reject unauthenticated requests on protected routes', () => {
+    requireMetadata({ roles: ['USER'] });
+
+    expect(() => guard.canActivate(contextFor())).toThrow(ForbiddenException);
+  });
+});
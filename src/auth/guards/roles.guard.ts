@@ -0,0 +1,48 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@prisma/client';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { Permission, hasPermission } from '../permissions';
+import { CurrentUserData } from '../decorators/current-user.decorator';
+
+/**
+ * Enforces `@Roles()` and `@RequirePermissions()`. It relies on the user
+ * that `JwtAuthGuard` puts on the request, so it must be listed after it:
+ * `@UseGuards(JwtAuthGuard, RolesGuard)`.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    const permissions = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!roles && !permissions) {
+      return true;
+    }
+
+    const user: CurrentUserData | undefined = context.switchToHttp().getRequest().user;
+
+    if (!user?.role) {
+      throw new ForbiddenException('Insufficient permissions');
+    }
+
+    if (roles && !roles.includes(user.role)) {
+      throw new ForbiddenException('Insufficient permissions');
+    }
+
+    if (permissions && !permissions.every((permission) => hasPermission(user.role, permission))) {
+      throw new ForbiddenException('Insufficient permissions');
+    }
+
+    return true;
+  }
+}
\ No newline at end of file
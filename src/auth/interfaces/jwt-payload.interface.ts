@@ -1,7 +1,15 @@
+import { Role } from '@prisma/client';
+
 export interface JwtPayload {
   sub: string; // User ID
   email: string;
   name: string;
+  role?: Role; // For clients; JwtStrategy reads the current role from the database
+  sid?: string; // Session ID
+  jti?: string; // Token ID, or the impersonation session ID when act is set
+  act?: { sub: string }; // Admin acting as the user (impersonation tokens only)
+  typ?: 'mfa_challenge'; // Only set on tokens that are not access tokens
+  deviceName?: string; // Session label requested at login (MFA challenge only)
   iat?: number;
   exp?: number;
 }
@@ -0,0 +1,37 @@
+import { Role } from '@prisma/client';
+
+export const PERMISSIONS = [
+  'users:read',
+  'users:manage',
+  'users:suspend',
+  'users:impersonate',
+  'security-events:read',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Permissions granted by each role. Routes should ask for a permission
+ * rather than a role where they can, so that roles can be reshaped here
+ * without touching controllers.
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  USER: [],
+  SUPPORT: ['users:read', 'users:manage', 'security-events:read'],
+  ADMIN: PERMISSIONS,
+};
+
+/** Roles from the least to the most privileged. */
+const ROLE_RANK: readonly Role[] = ['USER', 'SUPPORT', 'ADMIN'];
+
+/**
+ * Whether `role` sits strictly above `other`. Staff may only act on
+ * accounts below their own role, never on their peers or superiors.
+ */
+export function outranks(role: Role, other: Role): boolean {
+  return ROLE_RANK.indexOf(role) > ROLE_RANK.indexOf(other);
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
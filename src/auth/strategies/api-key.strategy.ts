@@ -0,0 +1,67 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-custom';
+import { Request } from 'express';
+import {
+  ACCESS_TOKEN_PREFIX,
+  PersonalAccessTokensService,
+} from '../../personal-access-tokens/personal-access-tokens.service';
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(
+    private readonly personalAccessTokensService: PersonalAccessTokensService,
+  ) {
+    super();
+  }
+
+  async validate(request: Request) {
+    const token = this.extractToken(request);
+
+    // Nothing that looks like an API key: let the request fail as unauthenticated
+    if (!token) {
+      return null;
+    }
+
+    const accessToken = await this.personalAccessTokensService.validate(
+      token,
+      request.ip || request.socket?.remoteAddress || undefined,
+    );
+    const { user } = accessToken;
+
+    if (!user.emailVerified) {
+      throw new UnauthorizedException('Email not verified');
+    }
+
+    if (user.suspendedAt) {
+      throw new UnauthorizedException('Account suspended');
+    }
+
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      emailVerified: user.emailVerified,
+      role: user.role,
+      accessTokenId: accessToken.id,
+      scopes: accessToken.scopes,
+    };
+  }
+
+  private extractToken(request: Request): string | null {
+    const apiKey = request.get('x-api-key');
+    if (apiKey) {
+      return apiKey;
+    }
+
+    const [scheme, token] = (request.get('authorization') || '').split(' ');
+    if (
+      scheme?.toLowerCase() === 'bearer' &&
+      token?.startsWith(ACCESS_TOKEN_PREFIX)
+    ) {
+      return token;
+    }
+
+    return null;
+  }
+}
@@ -8,9 +8,16 @@ import { JwtPayload, JwtPayloadWithRefreshToken } from '../interfaces/jwt-payloa
 @Injectable()
 export class JwtRefreshStrategy extends PassportStrategy(Strategy, 'jwt-refresh') {
   constructor(private readonly configService: ConfigService) {
+    const secret = configService.get<string>('JWT_REFRESH_SECRET');
+    if (!secret) {
+      throw new Error('JWT_REFRESH_SECRET must be configured to sign refresh tokens');
+    }
+
+    // Refresh tokens never leave this service, so they stay on a shared secret
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
-      secretOrKey: configService.get<string>('JWT_REFRESH_SECRET') || 'default-refresh-secret',
+      secretOrKey: secret,
+      algorithms: ['HS256'],
       passReqToCallback: true,
     } as any);
   }
@@ -1,24 +1,51 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { JwtPayload } from '../interfaces/jwt-payload.interface';
 import { UsersService } from '../../users/users.service';
+import { ImpersonationService } from '../../impersonation/impersonation.service';
+import { JwtKeysService, JWT_ALGORITHMS } from '../../crypto/jwt-keys.service';
+import { AccessTokenDenyListService } from '../../sessions/access-token-deny-list.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
   constructor(
-    private readonly configService: ConfigService,
     private readonly usersService: UsersService,
+    private readonly impersonationService: ImpersonationService,
+    private readonly accessTokenDenyList: AccessTokenDenyListService,
+    jwtKeysService: JwtKeysService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: configService.get<string>('JWT_SECRET') || 'default-secret',
+      algorithms: [...JWT_ALGORITHMS],
+      // Picked by `kid`, so tokens signed with a retired key keep working while it is still configured
+      secretOrKeyProvider: (request, rawJwtToken, done) => {
+        const key = jwtKeysService.findVerificationKey(rawJwtToken);
+        if (!key) {
+          return done(new UnauthorizedException('Unknown signing key'));
+        }
+        done(null, key.publicKey);
+      },
     });
   }
 
   async validate(payload: JwtPayload) {
+    // MFA challenges share the signing key but must not grant access
+    if (payload.typ) {
+      throw new UnauthorizedException('Invalid token type');
+    }
+
+    // Logged out, or its session was revoked, before it expired
+    if (await this.accessTokenDenyList.isDenied(payload)) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
+
+    // Impersonation tokens die with their session, however long the JWT has left
+    if (payload.act && (!payload.jti || !(await this.impersonationService.isActive(payload.jti, payload.act.sub)))) {
+      throw new UnauthorizedException('Impersonation session has ended');
+    }
+
     const user = await this.usersService.findById(payload.sub);
     
     if (!user) {
@@ -29,11 +56,21 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
       throw new UnauthorizedException('Email not verified');
     }
 
+    if (user.suspendedAt) {
+      throw new UnauthorizedException('Account suspended');
+    }
+
     return {
       id: user.id,
       email: user.email,
       name: user.name,
       emailVerified: user.emailVerified,
+      role: user.role,
+      sessionId: payload.sid,
+      tokenId: payload.jti,
+      tokenExpiresAt: payload.exp,
+      impersonatorId: payload.act?.sub,
+      impersonationId: payload.act ? payload.jti : undefined,
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,281 @@
+import { authConfig } from './auth.config';
+
+describe('authConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    for (const name of [
+      'JWT_EXPIRATION',
+      'JWT_REFRESH_EXPIRATION',
+      'REFRESH_TOKEN_REUSE_GRACE',
+      'REFRESH_TOKEN_REUSE_REVOKE_ALL',
+      'MFA_CHALLENGE_EXPIRATION',
+      'IMPERSONATION_TOKEN_EXPIRATION',
+      'PASSWORD_RESET_EXPIRY',
+      'EMAIL_VERIFICATION_EXPIRY',
+      'MAGIC_LINK_EXPIRY',
+      'EMAIL_CHANGE_EXPIRY',
+      'EMAIL_CHANGE_REVERT_EXPIRY',
+      'MAX_LOGIN_ATTEMPTS',
+      'LOCK_TIME',
+      'SECURITY_EVENT_RETENTION',
+      'DATA_EXPORT_EXPIRY',
+      'ACCOUNT_DELETION_GRACE_PERIOD',
+      'RECENT_SIGN_IN_WINDOW',
+      'PASSWORD_MIN_LENGTH',
+      'PASSWORD_REQUIRED_CHARACTER_CLASSES',
+      'PASSWORD_BANNED_WORDS',
+      'PASSWORD_HISTORY_SIZE',
+      'BREACHED_PASSWORDS_PATH',
+      'LOGIN_DISPUTE_EXPIRY',
+      'GEOIP_DATABASE_PATH',
+      'RATE_LIMIT_ENABLED',
+      'RATE_LIMIT',
+      'RATE_LIMIT_LOGIN',
+      'RATE_LIMIT_LOGIN_PER_EMAIL',
+    ]) {
+      delete process.env[name];
+    }
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should fall back to the documented defaults', () => {
+    const config = authConfig();
+
+    expect(config.accessTokenExpiry.seconds).toBe(15 * 60);
+    expect(config.refreshTokenExpiry.seconds).toBe(30 * 24 * 60 * 60);
+    expect(config.refreshTokenReuseGrace.seconds).toBe(5);
+    expect(config.refreshTokenReuseRevokeAll).toBe(false);
+    expect(config.mfaChallengeExpiry.seconds).toBe(5 * 60);
+    expect(config.impersonationTokenExpiry.seconds).toBe(15 * 60);
+    expect(config.passwordResetExpiry.seconds).toBe(60 * 60);
+    expect(config.emailVerificationExpiry.seconds).toBe(24 * 60 * 60);
+    expect(config.magicLinkExpiry.seconds).toBe(15 * 60);
+    expect(config.emailChangeExpiry.seconds).toBe(24 * 60 * 60);
+    expect(config.emailChangeRevertExpiry.seconds).toBe(7 * 24 * 60 * 60);
+    expect(config.maxLoginAttempts).toBe(5);
+    expect(config.lockTime.seconds).toBe(15 * 60);
+    expect(config.securityEventRetention.seconds).toBe(365 * 24 * 60 * 60);
+    expect(config.dataExportExpiry.seconds).toBe(7 * 24 * 60 * 60);
+    expect(config.accountDeletionGracePeriod.seconds).toBe(30 * 24 * 60 * 60);
+    expect(config.recentSignInWindow.seconds).toBe(5 * 60);
+  });
+
+  it.each([
+    ['JWT_EXPIRATION', 'accessTokenExpiry', '1h', 60 * 60],
+    ['JWT_EXPIRATION', 'accessTokenExpiry', '3600', 60 * 60],
+    ['JWT_REFRESH_EXPIRATION', 'refreshTokenExpiry', '7d', 7 * 24 * 60 * 60],
+    ['REFRESH_TOKEN_REUSE_GRACE', 'refreshTokenReuseGrace', '10s', 10],
+    ['REFRESH_TOKEN_REUSE_GRACE', 'refreshTokenReuseGrace', '0', 0],
+    ['MFA_CHALLENGE_EXPIRATION', 'mfaChallengeExpiry', '90s', 90],
+    [
+      'IMPERSONATION_TOKEN_EXPIRATION',
+      'impersonationTokenExpiry',
+      '30m',
+      30 * 60,
+    ],
+    ['PASSWORD_RESET_EXPIRY', 'passwordResetExpiry', '30m', 30 * 60],
+    ['PASSWORD_RESET_EXPIRY', 'passwordResetExpiry', '2h', 2 * 60 * 60],
+    [
+      'EMAIL_VERIFICATION_EXPIRY',
+      'emailVerificationExpiry',
+      '2d',
+      2 * 24 * 60 * 60,
+    ],
+    [
+      'EMAIL_VERIFICATION_EXPIRY',
+      'emailVerificationExpiry',
+      '48h',
+      2 * 24 * 60 * 60,
+    ],
+    ['MAGIC_LINK_EXPIRY', 'magicLinkExpiry', '10m', 10 * 60],
+    ['EMAIL_CHANGE_EXPIRY', 'emailChangeExpiry', '2h', 2 * 60 * 60],
+    [
+      'EMAIL_CHANGE_REVERT_EXPIRY',
+      'emailChangeRevertExpiry',
+      '3d',
+      3 * 24 * 60 * 60,
+    ],
+    ['LOCK_TIME', 'lockTime', '1h', 60 * 60],
+    ['LOCK_TIME', 'lockTime', '30m', 30 * 60],
+    [
+      'SECURITY_EVENT_RETENTION',
+      'securityEventRetention',
+      '90d',
+      90 * 24 * 60 * 60,
+    ],
+    ['DATA_EXPORT_EXPIRY', 'dataExportExpiry', '48h', 2 * 24 * 60 * 60],
+    [
+      'ACCOUNT_DELETION_GRACE_PERIOD',
+      'accountDeletionGracePeriod',
+      '14d',
+      14 * 24 * 60 * 60,
+    ],
+    ['RECENT_SIGN_IN_WINDOW', 'recentSignInWindow', '10m', 10 * 60],
+  ] as const)('should read %s=%s into %s', (name, key, value, seconds) => {
+    process.env[name] = value;
+
+    expect(authConfig()[key].seconds).toBe(seconds);
+  });
+
+  it('should name the variable holding an invalid duration', () => {
+    process.env.LOCK_TIME = '15 minutes';
+
+    expect(() => authConfig()).toThrow('LOCK_TIME: Invalid duration');
+  });
+
+  it('should read the login attempt limit', () => {
+    process.env.MAX_LOGIN_ATTEMPTS = '3';
+
+    expect(authConfig().maxLoginAttempts).toBe(3);
+  });
+
+  it.each(['0', '-2', 'five', '2.5'])(
+    'should reject %j as the login attempt limit',
+    (value) => {
+      process.env.MAX_LOGIN_ATTEMPTS = value;
+
+      expect(() => authConfig()).toThrow(
+        'MAX_LOGIN_ATTEMPTS must be a positive whole number',
+      );
+    },
+  );
+
+  it('should default to the previous password rules with history and no breach screening', () => {
+    expect(authConfig().passwordPolicy).toEqual({
+      minLength: 8,
+      maxLength: 128,
+      requiredCharacterClasses: ['lowercase', 'uppercase', 'digit', 'symbol'],
+      bannedWords: [],
+      historySize: 5,
+      breachedPasswordsPath: null,
+    });
+  });
+
+  it('should read the password policy lists', () => {
+    process.env.PASSWORD_REQUIRED_CHARACTER_CLASSES = 'lowercase, digit';
+    process.env.PASSWORD_BANNED_WORDS = 'fata,audio';
+
+    expect(authConfig().passwordPolicy).toMatchObject({
+      requiredCharacterClasses: ['lowercase', 'digit'],
+      bannedWords: ['fata', 'audio'],
+    });
+  });
+
+  it('should require no character classes when the list is empty', () => {
+    process.env.PASSWORD_REQUIRED_CHARACTER_CLASSES = '';
+
+    expect(authConfig().passwordPolicy.requiredCharacterClasses).toEqual([]);
+  });
+
+  it('should reject unknown character classes', () => {
+    process.env.PASSWORD_REQUIRED_CHARACTER_CLASSES = 'lowercase,emoji';
+
+    expect(() => authConfig()).toThrow(
+      'PASSWORD_REQUIRED_CHARACTER_CLASSES may only contain lowercase, uppercase, digit, symbol, got "emoji"',
+    );
+  });
+
+  it('should allow turning the password history off', () => {
+    process.env.PASSWORD_HISTORY_SIZE = '0';
+
+    expect(authConfig().passwordPolicy.historySize).toBe(0);
+  });
+
+  it('should reject a negative password history', () => {
+    process.env.PASSWORD_HISTORY_SIZE = '-1';
+
+    expect(() => authConfig()).toThrow(
+      'PASSWORD_HISTORY_SIZE must be zero or a positive whole number',
+    );
+  });
+
+  it('should default to week-long dispute links without a GeoIP database', () => {
+    const { loginAlerts } = authConfig();
+
+    expect(loginAlerts.disputeExpiry.seconds).toBe(7 * 24 * 60 * 60);
+    expect(loginAlerts.geoIpDatabasePath).toBeNull();
+  });
+
+  it('should read the sign-in alert settings', () => {
+    process.env.LOGIN_DISPUTE_EXPIRY = '2d';
+    process.env.GEOIP_DATABASE_PATH = '/var/lib/geoip/GeoLite2-City.mmdb';
+
+    const { loginAlerts } = authConfig();
+
+    expect(loginAlerts.disputeExpiry.seconds).toBe(2 * 24 * 60 * 60);
+    expect(loginAlerts.geoIpDatabasePath).toBe(
+      '/var/lib/geoip/GeoLite2-City.mmdb',
+    );
+  });
+
+  it('should default to throttling the auth routes harder than the rest', () => {
+    const { rateLimits } = authConfig();
+
+    expect(rateLimits.enabled).toBe(true);
+    expect(rateLimits.default.perIp.limit).toBe(100);
+    expect(rateLimits.default.perIp.ttl.seconds).toBe(60);
+    expect(rateLimits.login.perIp.limit).toBe(10);
+    expect(rateLimits.login.perEmail.ttl.seconds).toBe(15 * 60);
+    expect(rateLimits.loginMfa.perIp.limit).toBe(5);
+    expect(rateLimits.mfaDisable.perIp.ttl.seconds).toBe(15 * 60);
+    expect(rateLimits.magicLink.perEmail.limit).toBe(3);
+    expect(rateLimits.register.perIp.ttl.seconds).toBe(60 * 60);
+    expect(rateLimits.resetPassword.perIp.limit).toBe(10);
+    expect(rateLimits.forgotPassword.perEmail.limit).toBe(3);
+    expect(rateLimits.resendVerification.perIp.ttl.seconds).toBe(60 * 60);
+  });
+
+  it('should read rate limits as a request count over a duration', () => {
+    process.env.RATE_LIMIT_LOGIN = '3/30s';
+    process.env.RATE_LIMIT_LOGIN_PER_EMAIL = '20/1h';
+
+    const { login } = authConfig().rateLimits;
+
+    expect(login.perIp.limit).toBe(3);
+    expect(login.perIp.ttl.seconds).toBe(30);
+    expect(login.perEmail.limit).toBe(20);
+    expect(login.perEmail.ttl.seconds).toBe(60 * 60);
+  });
+
+  it.each(['10', '0/1m', 'ten/1m', '10/1m/2'])(
+    'should reject %j as a rate limit',
+    (value) => {
+      process.env.RATE_LIMIT = value;
+
+      expect(() => authConfig()).toThrow(
+        `RATE_LIMIT must be a request count and a duration such as 10/1m, got "${value}"`,
+      );
+    },
+  );
+
+  it('should name the rate limit holding an invalid duration', () => {
+    process.env.RATE_LIMIT = '10/1 minute';
+
+    expect(() => authConfig()).toThrow('RATE_LIMIT: Invalid duration');
+  });
+
+  it('should allow turning rate limiting off', () => {
+    process.env.RATE_LIMIT_ENABLED = 'false';
+
+    expect(authConfig().rateLimits.enabled).toBe(false);
+  });
+
+  it('should allow revoking every session on refresh token reuse', () => {
+    process.env.REFRESH_TOKEN_REUSE_REVOKE_ALL = 'true';
+
+    expect(authConfig().refreshTokenReuseRevokeAll).toBe(true);
+  });
+
+  it('should reject rate limiting flags other than true and false', () => {
+    process.env.RATE_LIMIT_ENABLED = 'no';
+
+    expect(() => authConfig()).toThrow(
+      'RATE_LIMIT_ENABLED must be one of true, false, got "no"',
+    );
+  });
+});
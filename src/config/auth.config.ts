@@ -0,0 +1,220 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { Duration } from './duration';
+
+export const PASSWORD_HASH_ALGORITHMS = ['argon2id', 'bcrypt'] as const;
+
+export type PasswordHashAlgorithm = (typeof PASSWORD_HASH_ALGORITHMS)[number];
+
+export const CHARACTER_CLASSES = [
+  'lowercase',
+  'uppercase',
+  'digit',
+  'symbol',
+] as const;
+
+export type CharacterClass = (typeof CHARACTER_CLASSES)[number];
+
+function readDuration(name: string, fallback: string) {
+  try {
+    return Duration.parse(process.env[name] || fallback);
+  } catch (error) {
+    throw new Error(`${name}: ${error.message}`);
+  }
+}
+
+function readWholeNumber(name: string, fallback: number, min = 1) {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    const kind = min === 0 ? 'zero or a positive' : 'a positive';
+    throw new Error(`${name} must be ${kind} whole number, got "${value}"`);
+  }
+
+  return parsed;
+}
+
+/** Comma-separated values. Unlike the other readers, an empty variable means an empty list. */
+function readList(name: string, fallback: readonly string[]) {
+  const value = process.env[name];
+  if (value === undefined) {
+    return [...fallback];
+  }
+
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function readChoice<T extends string>(
+  name: string,
+  choices: readonly T[],
+  fallback: T,
+) {
+  const value = process.env[name] || fallback;
+  if (!choices.includes(value as T)) {
+    throw new Error(
+      `${name} must be one of ${choices.join(', ')}, got "${value}"`,
+    );
+  }
+
+  return value as T;
+}
+
+function readChoices<T extends string>(
+  name: string,
+  choices: readonly T[],
+  fallback: readonly T[],
+) {
+  const values = readList(name, fallback);
+  const unknown = values.filter((value) => !choices.includes(value as T));
+  if (unknown.length > 0) {
+    throw new Error(
+      `${name} may only contain ${choices.join(', ')}, got "${unknown.join(', ')}"`,
+    );
+  }
+
+  return values as T[];
+}
+
+function readFlag(name: string, fallback: boolean) {
+  return readChoice(name, ['true', 'false'], String(fallback)) === 'true';
+}
+
+/** `<limit>/<duration>`, e.g. `10/1m` for ten requests a minute. */
+function readRateLimit(name: string, fallback: string) {
+  const value = process.env[name] || fallback;
+  const [limit, ttl, ...rest] = value.split('/');
+  const parsedLimit = Number(limit);
+  if (
+    ttl === undefined ||
+    rest.length > 0 ||
+    !Number.isInteger(parsedLimit) ||
+    parsedLimit < 1
+  ) {
+    throw new Error(
+      `${name} must be a request count and a duration such as 10/1m, got "${value}"`,
+    );
+  }
+
+  try {
+    return { limit: parsedLimit, ttl: Duration.parse(ttl) };
+  } catch (error) {
+    throw new Error(`${name}: ${error.message}`);
+  }
+}
+
+/**
+ * Lifetimes and limits of the credentials the auth flows hand out, parsed
+ * once at startup so a malformed value stops the app instead of a request.
+ * The JWTs and the database rows that back them are given the same values.
+ */
+export const authConfig = registerAs('auth', () => ({
+  accessTokenExpiry: readDuration('JWT_EXPIRATION', '15m'),
+  // Also how long a session lasts, so the session goes when its refresh token does
+  refreshTokenExpiry: readDuration('JWT_REFRESH_EXPIRATION', '30d'),
+  // How long after a rotation the replaced token is refused without ending the session
+  refreshTokenReuseGrace: readDuration('REFRESH_TOKEN_REUSE_GRACE', '5s'),
+  // Reuse ends every session of the user rather than just the affected one
+  refreshTokenReuseRevokeAll: readFlag('REFRESH_TOKEN_REUSE_REVOKE_ALL', false),
+  mfaChallengeExpiry: readDuration('MFA_CHALLENGE_EXPIRATION', '5m'),
+  // Impersonation tokens cannot be refreshed, so this caps each impersonation
+  impersonationTokenExpiry: readDuration(
+    'IMPERSONATION_TOKEN_EXPIRATION',
+    '15m',
+  ),
+  passwordResetExpiry: readDuration('PASSWORD_RESET_EXPIRY', '1h'),
+  emailVerificationExpiry: readDuration('EMAIL_VERIFICATION_EXPIRY', '24h'),
+  magicLinkExpiry: readDuration('MAGIC_LINK_EXPIRY', '15m'),
+  // How long the new address can confirm an email change, and the old one undo it
+  emailChangeExpiry: readDuration('EMAIL_CHANGE_EXPIRY', '24h'),
+  emailChangeRevertExpiry: readDuration('EMAIL_CHANGE_REVERT_EXPIRY', '7d'),
+  maxLoginAttempts: readWholeNumber('MAX_LOGIN_ATTEMPTS', 5),
+  lockTime: readDuration('LOCK_TIME', '15m'),
+  // How long login, logout and other security events are kept for auditing
+  securityEventRetention: readDuration('SECURITY_EVENT_RETENTION', '365d'),
+  // How long the emailed link to a data export keeps working
+  dataExportExpiry: readDuration('DATA_EXPORT_EXPIRY', '7d'),
+  // How long a deleted account can still be restored by signing in
+  accountDeletionGracePeriod: readDuration(
+    'ACCOUNT_DELETION_GRACE_PERIOD',
+    '30d',
+  ),
+  // How recently an account without a password must have signed in to delete itself
+  recentSignInWindow: readDuration('RECENT_SIGN_IN_WINDOW', '5m'),
+  passwordHashing: {
+    // New hashes only; hashes from either algorithm keep verifying
+    algorithm: readChoice<PasswordHashAlgorithm>(
+      'PASSWORD_HASH_ALGORITHM',
+      PASSWORD_HASH_ALGORITHMS,
+      'argon2id',
+    ),
+    // OWASP baseline for Argon2id: 19 MiB, 2 iterations, 1 lane
+    argon2MemoryCost: readWholeNumber('ARGON2_MEMORY_COST', 19456),
+    argon2TimeCost: readWholeNumber('ARGON2_TIME_COST', 2),
+    argon2Parallelism: readWholeNumber('ARGON2_PARALLELISM', 1),
+    bcryptRounds: readWholeNumber('BCRYPT_ROUNDS', 10),
+  },
+  passwordPolicy: {
+    minLength: readWholeNumber('PASSWORD_MIN_LENGTH', 8),
+    maxLength: readWholeNumber('PASSWORD_MAX_LENGTH', 128),
+    requiredCharacterClasses: readChoices<CharacterClass>(
+      'PASSWORD_REQUIRED_CHARACTER_CLASSES',
+      CHARACTER_CLASSES,
+      CHARACTER_CLASSES,
+    ),
+    // Besides the user's own email and name, which are always refused
+    bannedWords: readList('PASSWORD_BANNED_WORDS', []),
+    // Previous passwords that cannot be reused, 0 to allow any
+    historySize: readWholeNumber('PASSWORD_HISTORY_SIZE', 5, 0),
+    // Directory of SHA-1 range files; screening is off without one
+    breachedPasswordsPath: process.env.BREACHED_PASSWORDS_PATH || null,
+  },
+  rateLimits: {
+    // Off only for local tooling and test runs that replay many requests
+    enabled: readFlag('RATE_LIMIT_ENABLED', true),
+    // Keyed by client IP on every route, and also by the targeted email where set
+    default: { perIp: readRateLimit('RATE_LIMIT', '100/1m') },
+    register: {
+      perIp: readRateLimit('RATE_LIMIT_REGISTER', '5/1h'),
+      perEmail: readRateLimit('RATE_LIMIT_REGISTER_PER_EMAIL', '3/1h'),
+    },
+    login: {
+      perIp: readRateLimit('RATE_LIMIT_LOGIN', '10/1m'),
+      perEmail: readRateLimit('RATE_LIMIT_LOGIN_PER_EMAIL', '10/15m'),
+    },
+    // Two-factor codes are short, so guessing them is only bounded by this
+    loginMfa: { perIp: readRateLimit('RATE_LIMIT_LOGIN_MFA', '5/1m') },
+    mfaDisable: { perIp: readRateLimit('RATE_LIMIT_MFA_DISABLE', '5/15m') },
+    magicLink: {
+      perIp: readRateLimit('RATE_LIMIT_MAGIC_LINK', '5/15m'),
+      perEmail: readRateLimit('RATE_LIMIT_MAGIC_LINK_PER_EMAIL', '3/1h'),
+    },
+    forgotPassword: {
+      perIp: readRateLimit('RATE_LIMIT_FORGOT_PASSWORD', '5/15m'),
+      perEmail: readRateLimit('RATE_LIMIT_FORGOT_PASSWORD_PER_EMAIL', '3/1h'),
+    },
+    resetPassword: {
+      perIp: readRateLimit('RATE_LIMIT_RESET_PASSWORD', '10/15m'),
+    },
+    resendVerification: {
+      perIp: readRateLimit('RATE_LIMIT_RESEND_VERIFICATION', '10/1h'),
+      perEmail: readRateLimit(
+        'RATE_LIMIT_RESEND_VERIFICATION_PER_EMAIL',
+        '3/1h',
+      ),
+    },
+  },
+  loginAlerts: {
+    // How long the "this wasn't me" link of a new sign-in alert works
+    disputeExpiry: readDuration('LOGIN_DISPUTE_EXPIRY', '7d'),
+    // MaxMind City database (.mmdb) used to locate sign-ins; alerts show no location without one
+    geoIpDatabasePath: process.env.GEOIP_DATABASE_PATH || null,
+  },
+}));
+
+export type AuthConfig = ConfigType<typeof authConfig>;
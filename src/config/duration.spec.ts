@@ -0,0 +1,64 @@
+import { Duration } from './duration';
+
+describe('Duration', () => {
+  describe('parse', () => {
+    it.each([
+      ['30s', 30 * 1000],
+      ['15m', 15 * 60 * 1000],
+      ['1h', 60 * 60 * 1000],
+      ['24h', 24 * 60 * 60 * 1000],
+      ['30d', 30 * 24 * 60 * 60 * 1000],
+      ['3600', 60 * 60 * 1000],
+      [' 5 m ', 5 * 60 * 1000],
+    ])('should read %j as %d ms', (value, milliseconds) => {
+      expect(Duration.parse(value).milliseconds).toBe(milliseconds);
+    });
+
+    it.each(['1.5h', '-1h', '15 minutes', '2w', 'h'])(
+      'should reject %j',
+      (value) => {
+        expect(() => Duration.parse(value)).toThrow(
+          `Invalid duration "${value}"`,
+        );
+      },
+    );
+
+    it('should reject an empty value', () => {
+      expect(() => Duration.parse('')).toThrow('Invalid duration ""');
+    });
+  });
+
+  it.each([
+    ['15m', 900],
+    ['1h', 3600],
+    ['30d', 2592000],
+    ['90', 90],
+  ])('should give %j as %d seconds', (value, seconds) => {
+    expect(Duration.parse(value).seconds).toBe(seconds);
+  });
+
+  it('should count from the given moment', () => {
+    const start = new Date('2026-01-31T12:00:00Z');
+
+    expect(Duration.parse('1h').from(start)).toEqual(
+      new Date('2026-01-31T13:00:00Z'),
+    );
+    expect(Duration.parse('30d').from(start)).toEqual(
+      new Date('2026-03-02T12:00:00Z'),
+    );
+  });
+
+  it.each([
+    ['1s', '1 second', '1s'],
+    ['15m', '15 minutes', '15m'],
+    ['1h', '1 hour', '1h'],
+    ['24h', '24 hours', '24h'],
+    ['1d', '1 day', '1d'],
+    ['3600', '3600 seconds', '3600s'],
+  ])('should describe %j as %j and %j', (value, phrase, text) => {
+    const duration = Duration.parse(value);
+
+    expect(duration.humanize()).toBe(phrase);
+    expect(duration.toString()).toBe(text);
+  });
+});
@@ -0,0 +1,57 @@
+const UNITS = {
+  s: { milliseconds: 1000, name: 'second' },
+  m: { milliseconds: 60 * 1000, name: 'minute' },
+  h: { milliseconds: 60 * 60 * 1000, name: 'hour' },
+  d: { milliseconds: 24 * 60 * 60 * 1000, name: 'day' },
+} as const;
+
+type Unit = keyof typeof UNITS;
+
+const DURATION_PATTERN = /^(\d+)\s*([smhd])?$/;
+
+/**
+ * A length of time from configuration, written as a whole number with an
+ * `s`, `m`, `h` or `d` suffix (`15m`, `1h`, `30d`). Bare numbers are seconds,
+ * which is what jsonwebtoken makes of a numeric `expiresIn`.
+ */
+export class Duration {
+  private constructor(
+    readonly milliseconds: number,
+    private readonly amount: number,
+    private readonly unit: Unit,
+  ) {}
+
+  static parse(value: string): Duration {
+    const match = DURATION_PATTERN.exec(value.trim());
+    if (!match) {
+      throw new Error(
+        `Invalid duration "${value}", expected a number with an optional s, m, h or d suffix such as 15m, 1h or 30d`,
+      );
+    }
+
+    const amount = parseInt(match[1], 10);
+    const unit = (match[2] ?? 's') as Unit;
+
+    return new Duration(amount * UNITS[unit].milliseconds, amount, unit);
+  }
+
+  /** Whole seconds, for JWT `expiresIn` and Redis TTLs. */
+  get seconds() {
+    return Math.floor(this.milliseconds / 1000);
+  }
+
+  /** The moment this long after `start`. */
+  from(start: Date = new Date()) {
+    return new Date(start.getTime() + this.milliseconds);
+  }
+
+  /** Phrase for emails, such as "15 minutes" or "1 day". */
+  humanize() {
+    const { name } = UNITS[this.unit];
+    return `${this.amount} ${this.amount === 1 ? name : `${name}s`}`;
+  }
+
+  toString() {
+    return `${this.amount}${this.unit}`;
+  }
+}
@@ -0,0 +1,24 @@
+import { Module, Global } from '@nestjs/common';
+import { TokenHashService } from './token-hash.service';
+import { EncryptionService } from './encryption.service';
+import { JwtKeysService } from './jwt-keys.service';
+import { JwksController } from './jwks.controller';
+import { PasswordHasherService } from './password-hasher.service';
+
+@Global()
+@Module({
+  controllers: [JwksController],
+  providers: [
+    TokenHashService,
+    EncryptionService,
+    JwtKeysService,
+    PasswordHasherService,
+  ],
+  exports: [
+    TokenHashService,
+    EncryptionService,
+    JwtKeysService,
+    PasswordHasherService,
+  ],
+})
+export class CryptoModule {}
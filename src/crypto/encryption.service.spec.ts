@@ -0,0 +1,66 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EncryptionService } from './encryption.service';
+
+describe('EncryptionService', () => {
+  let service: EncryptionService;
+
+  const createService = async (key?: string) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EncryptionService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((name: string) =>
+              name === 'DATA_ENCRYPTION_KEY' ? key : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<EncryptionService>(EncryptionService);
+  };
+
+  beforeEach(async () => {
+    service = await createService('test-encryption-key');
+  });
+
+  it('should round-trip a secret', () => {
+    const encrypted = service.encrypt('JBSWY3DPEHPK3PXP');
+
+    expect(encrypted).toMatch(/^v1\./);
+    expect(encrypted).not.toContain('JBSWY3DPEHPK3PXP');
+    expect(service.decrypt(encrypted)).toBe('JBSWY3DPEHPK3PXP');
+  });
+
+  it('should use a fresh IV for every encryption', () => {
+    expect(service.encrypt('secret')).not.toBe(service.encrypt('secret'));
+  });
+
+  it('should reject tampered payloads', () => {
+    const [version, iv, tag, ciphertext] = service.encrypt('secret').split('.');
+    const tampered = [
+      version,
+      iv,
+      tag,
+      Buffer.from('public').toString('base64url'),
+    ].join('.');
+
+    expect(() => service.decrypt(ciphertext)).toThrow();
+    expect(() => service.decrypt(tampered)).toThrow();
+  });
+
+  it('should not decrypt with another key', async () => {
+    const otherService = await createService('another-key');
+
+    expect(() => otherService.decrypt(service.encrypt('secret'))).toThrow();
+  });
+
+  it('should refuse to start without a key', async () => {
+    await expect(createService(undefined)).rejects.toThrow(
+      'DATA_ENCRYPTION_KEY must be configured',
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const VERSION = 'v1';
+
+@Injectable()
+export class EncryptionService {
+  private readonly key: Buffer;
+
+  constructor(private readonly configService: ConfigService) {
+    const secret = this.configService.get<string>('DATA_ENCRYPTION_KEY');
+    if (!secret) {
+      throw new Error(
+        'DATA_ENCRYPTION_KEY must be configured to encrypt secrets at rest',
+      );
+    }
+    // Any passphrase works; it is stretched to the 256-bit key AES needs
+    this.key = createHash('sha256').update(secret).digest();
+  }
+
+  /**
+   * Encrypts a secret that has to be recovered later (unlike tokens, which
+   * are only ever compared and can be hashed). The result is
+   * `v1.<iv>.<auth tag>.<ciphertext>`, base64url encoded.
+   */
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, this.key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, 'utf8'),
+      cipher.final(),
+    ]);
+
+    return [
+      VERSION,
+      iv.toString('base64url'),
+      cipher.getAuthTag().toString('base64url'),
+      ciphertext.toString('base64url'),
+    ].join('.');
+  }
+
+  decrypt(payload: string): string {
+    const [version, iv, authTag, ciphertext] = payload.split('.');
+    if (version !== VERSION || !iv || !authTag || ciphertext === undefined) {
+      throw new Error('Unsupported encrypted payload');
+    }
+
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      this.key,
+      Buffer.from(iv, 'base64url'),
+    );
+    decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64url')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+}
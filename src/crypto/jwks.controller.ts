@@ -0,0 +1,27 @@
+import { Controller, Get, Header, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JwtKeysService } from './jwt-keys.service';
+
+/**
+ * Served outside the API prefix, at the path token verifiers expect.
+ */
+@ApiTags('Authentication')
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly jwtKeysService: JwtKeysService) {}
+
+  @Get('jwks.json')
+  @Header('Cache-Control', 'public, max-age=300')
+  @ApiOperation({
+    summary: 'Public keys that access tokens are signed with',
+    description:
+      'Pick the key by the `kid` header of the token. Keys being rotated in or out are listed alongside the current one.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'JSON Web Key Set',
+  })
+  getJwks() {
+    return this.jwtKeysService.jwks();
+  }
+}
@@ -0,0 +1,165 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  JsonWebKey,
+  KeyObject,
+} from 'crypto';
+
+/**
+ * Algorithms access tokens may be signed with. EdDSA is missing because
+ * jsonwebtoken, which both @nestjs/jwt and passport-jwt use, cannot do it.
+ */
+export const JWT_ALGORITHMS = ['RS256', 'ES256'] as const;
+
+export type JwtAlgorithm = (typeof JWT_ALGORITHMS)[number];
+
+export interface JwtVerificationKey {
+  kid: string;
+  algorithm: JwtAlgorithm;
+  publicKey: string;
+  jwk: JsonWebKey;
+}
+
+const PEM_BLOCK = /-----BEGIN [A-Z ]+-----[\s\S]+?-----END [A-Z ]+-----/g;
+
+/**
+ * Keys for access tokens. Tokens are signed with `JWT_PRIVATE_KEY` and carry
+ * its RFC 7638 thumbprint as `kid`; the public half of it and of every key in
+ * `JWT_VERIFICATION_KEYS` is accepted and published, which is what lets keys
+ * be rotated without signing anyone out.
+ */
+@Injectable()
+export class JwtKeysService {
+  private readonly privateKey: string;
+  private readonly signingKey: JwtVerificationKey;
+  private readonly verificationKeys = new Map<string, JwtVerificationKey>();
+
+  constructor(private readonly configService: ConfigService) {
+    const [privateKey] = this.readPem('JWT_PRIVATE_KEY');
+    if (!privateKey) {
+      throw new Error(
+        'JWT_PRIVATE_KEY must be configured to sign access tokens',
+      );
+    }
+
+    this.privateKey = privateKey;
+    this.signingKey = this.toVerificationKey(
+      this.parseKey('JWT_PRIVATE_KEY', () =>
+        createPublicKey(createPrivateKey(privateKey)),
+      ),
+    );
+    this.verificationKeys.set(this.signingKey.kid, this.signingKey);
+
+    for (const pem of this.readPem('JWT_VERIFICATION_KEYS')) {
+      const key = this.toVerificationKey(
+        this.parseKey('JWT_VERIFICATION_KEYS', () => createPublicKey(pem)),
+      );
+      this.verificationKeys.set(key.kid, key);
+    }
+  }
+
+  /** Options for `JwtService.signAsync` that sign with the current key. */
+  signOptions() {
+    return {
+      privateKey: this.privateKey,
+      algorithm: this.signingKey.algorithm,
+      keyid: this.signingKey.kid,
+    };
+  }
+
+  /**
+   * Finds the key a token claims to be signed with. Tokens without a known
+   * `kid` get nothing, so keys removed from the configuration stop working.
+   */
+  findVerificationKey(token: string): JwtVerificationKey | undefined {
+    const kid = this.decodeHeader(token)?.kid;
+
+    return typeof kid === 'string' ? this.verificationKeys.get(kid) : undefined;
+  }
+
+  /** Options for `JwtService.verifyAsync`; throws for unknown keys. */
+  verifyOptions(token: string) {
+    const key = this.findVerificationKey(token);
+    if (!key) {
+      throw new Error('Token is not signed with a known key');
+    }
+
+    return { publicKey: key.publicKey, algorithms: [key.algorithm] };
+  }
+
+  /** JSON Web Key Set for services that verify access tokens themselves. */
+  jwks() {
+    return {
+      keys: [...this.verificationKeys.values()].map((key) => key.jwk),
+    };
+  }
+
+  private toVerificationKey(publicKey: KeyObject): JwtVerificationKey {
+    const algorithm = this.algorithmFor(publicKey);
+    const jwk = publicKey.export({ format: 'jwk' });
+    const kid = this.thumbprint(jwk);
+
+    return {
+      kid,
+      algorithm,
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      jwk: { ...jwk, kid, alg: algorithm, use: 'sig' },
+    };
+  }
+
+  private parseKey(name: string, parse: () => KeyObject) {
+    try {
+      return parse();
+    } catch (error) {
+      throw new Error(`${name} holds an invalid PEM key: ${error.message}`);
+    }
+  }
+
+  private algorithmFor(key: KeyObject): JwtAlgorithm {
+    if (key.asymmetricKeyType === 'rsa') {
+      return 'RS256';
+    }
+    if (
+      key.asymmetricKeyType === 'ec' &&
+      key.asymmetricKeyDetails?.namedCurve === 'prime256v1'
+    ) {
+      return 'ES256';
+    }
+
+    throw new Error(
+      `Unsupported JWT key type ${key.asymmetricKeyType}, use an RSA or P-256 key`,
+    );
+  }
+
+  private thumbprint(jwk: JsonWebKey) {
+    // Required members only, in lexicographic order (RFC 7638 section 3.2)
+    const members =
+      jwk.kty === 'RSA'
+        ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+        : { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y };
+
+    return createHash('sha256')
+      .update(JSON.stringify(members))
+      .digest('base64url');
+  }
+
+  private decodeHeader(token: string): { kid?: unknown } | null {
+    try {
+      return JSON.parse(
+        Buffer.from(token.split('.')[0], 'base64url').toString('utf8'),
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  /** PEM blocks from a variable, which may hold `\n` escapes instead of newlines. */
+  private readPem(name: string) {
+    const value = this.configService.get<string>(name, '');
+
+    return value.replace(/\\n/g, '\n').match(PEM_BLOCK) ?? [];
+  }
+}
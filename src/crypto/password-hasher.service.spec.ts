@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as bcrypt from 'bcrypt';
+import { PasswordHasherService } from './password-hasher.service';
+import { authConfig, AuthConfig } from '../config/auth.config';
+
+describe('PasswordHasherService', () => {
+  // Low costs keep the suite fast; the comparisons are what matter here
+  const defaults: AuthConfig['passwordHashing'] = {
+    algorithm: 'argon2id',
+    argon2MemoryCost: 1024,
+    argon2TimeCost: 2,
+    argon2Parallelism: 1,
+    bcryptRounds: 4,
+  };
+
+  const createService = async (
+    passwordHashing: Partial<AuthConfig['passwordHashing']> = {},
+  ) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordHasherService,
+        {
+          provide: authConfig.KEY,
+          useValue: {
+            ...authConfig(),
+            passwordHashing: { ...defaults, ...passwordHashing },
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<PasswordHasherService>(PasswordHasherService);
+  };
+
+  it('should hash new passwords with Argon2id by default', async () => {
+    const service = await createService();
+
+    const hash = await service.hash('Password123!');
+
+    expect(hash).toMatch(/^\$argon2id\$v=19\$m=1024,t=2,p=1\$/);
+    await expect(service.verify('Password123!', hash)).resolves.toBe(true);
+    await expect(service.verify('wrong', hash)).resolves.toBe(false);
+    expect(service.needsRehash(hash)).toBe(false);
+  });
+
+  it('should keep verifying legacy bcrypt hashes and flag them for a rehash', async () => {
+    const service = await createService();
+    const legacy = await bcrypt.hash('Password123!', 4);
+
+    await expect(service.verify('Password123!', legacy)).resolves.toBe(true);
+    await expect(service.verify('wrong', legacy)).resolves.toBe(false);
+    expect(service.needsRehash(legacy)).toBe(true);
+  });
+
+  it('should flag Argon2id hashes made with other cost settings', async () => {
+    const before = await createService();
+    const hash = await before.hash('Password123!');
+
+    const raised = await createService({ argon2TimeCost: 3 });
+
+    await expect(raised.verify('Password123!', hash)).resolves.toBe(true);
+    expect(raised.needsRehash(hash)).toBe(true);
+  });
+
+  it('should hash with bcrypt when configured to', async () => {
+    const service = await createService({ algorithm: 'bcrypt' });
+
+    const hash = await service.hash('Password123!');
+
+    expect(hash).toMatch(/^\$2b\$04\$/);
+    await expect(service.verify('Password123!', hash)).resolves.toBe(true);
+    expect(service.needsRehash(hash)).toBe(false);
+    expect(service.needsRehash(await bcrypt.hash('Password123!', 5))).toBe(
+      true,
+    );
+  });
+
+  it('should refuse missing and unrecognized hashes', async () => {
+    const service = await createService();
+
+    await expect(service.verify('Password123!', null)).resolves.toBe(false);
+    await expect(service.verify('Password123!', 'Password123!')).resolves.toBe(
+      false,
+    );
+  });
+});
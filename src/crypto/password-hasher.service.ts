@@ -0,0 +1,120 @@
+import { Inject, Injectable } from '@nestjs/common';
+import * as argon2 from 'argon2';
+import * as bcrypt from 'bcrypt';
+import {
+  authConfig,
+  AuthConfig,
+  PasswordHashAlgorithm,
+} from '../config/auth.config';
+
+/** One password hashing scheme, identified by the prefix of its encoded hashes. */
+export interface PasswordHasher {
+  /** Whether `hash` was produced by this scheme. */
+  recognizes(hash: string): boolean;
+  hash(password: string): Promise<string>;
+  verify(password: string, hash: string): Promise<boolean>;
+  /** Whether `hash` was produced with other parameters than the configured ones. */
+  isOutdated(hash: string): boolean;
+}
+
+type HashingConfig = AuthConfig['passwordHashing'];
+
+export class Argon2idHasher implements PasswordHasher {
+  constructor(private readonly config: HashingConfig) {}
+
+  recognizes(hash: string) {
+    return hash.startsWith('$argon2');
+  }
+
+  hash(password: string) {
+    return argon2.hash(password, { type: argon2.argon2id, ...this.options() });
+  }
+
+  verify(password: string, hash: string) {
+    return argon2.verify(hash, password);
+  }
+
+  isOutdated(hash: string) {
+    // Argon2d and Argon2i hashes still verify, but are replaced with Argon2id
+    return (
+      !hash.startsWith('$argon2id$') || argon2.needsRehash(hash, this.options())
+    );
+  }
+
+  private options() {
+    return {
+      memoryCost: this.config.argon2MemoryCost,
+      timeCost: this.config.argon2TimeCost,
+      parallelism: this.config.argon2Parallelism,
+    };
+  }
+}
+
+export class BcryptHasher implements PasswordHasher {
+  constructor(private readonly config: HashingConfig) {}
+
+  recognizes(hash: string) {
+    return /^\$2[aby]\$/.test(hash);
+  }
+
+  hash(password: string) {
+    return bcrypt.hash(password, this.config.bcryptRounds);
+  }
+
+  verify(password: string, hash: string) {
+    return bcrypt.compare(password, hash);
+  }
+
+  isOutdated(hash: string) {
+    return bcrypt.getRounds(hash) !== this.config.bcryptRounds;
+  }
+}
+
+/**
+ * Hashes new passwords with `PASSWORD_HASH_ALGORITHM` (Argon2id unless
+ * configured otherwise) and verifies hashes from any supported scheme, so
+ * stored hashes can be upgraded one login at a time with `needsRehash`.
+ */
+@Injectable()
+export class PasswordHasherService {
+  private readonly hashers: Record<PasswordHashAlgorithm, PasswordHasher>;
+  private readonly preferred: PasswordHasher;
+
+  constructor(@Inject(authConfig.KEY) { passwordHashing }: AuthConfig) {
+    this.hashers = {
+      argon2id: new Argon2idHasher(passwordHashing),
+      bcrypt: new BcryptHasher(passwordHashing),
+    };
+    this.preferred = this.hashers[passwordHashing.algorithm];
+  }
+
+  hash(password: string): Promise<string> {
+    return this.preferred.hash(password);
+  }
+
+  /** False for hashes no configured scheme recognizes, rather than throwing. */
+  async verify(
+    password: string,
+    hash: string | null | undefined,
+  ): Promise<boolean> {
+    const hasher = hash && this.hasherFor(hash);
+    if (!hasher) {
+      return false;
+    }
+
+    return hasher.verify(password, hash);
+  }
+
+  /** Whether `hash` should be replaced with a fresh one from `hash()`. */
+  needsRehash(hash: string): boolean {
+    const hasher = this.hasherFor(hash);
+
+    return hasher !== this.preferred || hasher.isOutdated(hash);
+  }
+
+  private hasherFor(hash: string) {
+    return Object.values(this.hashers).find((hasher) =>
+      hasher.recognizes(hash),
+    );
+  }
+}
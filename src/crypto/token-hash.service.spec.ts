@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import {
+  TokenHashService,
+  TOKEN_HASH_PATTERN,
+  hashToken,
+} from './token-hash.service';
+
+describe('TokenHashService', () => {
+  let service: TokenHashService;
+
+  const createService = async (secret?: string) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TokenHashService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'TOKEN_HASH_SECRET' ? secret : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<TokenHashService>(TokenHashService);
+  };
+
+  beforeEach(async () => {
+    service = await createService('test-token-pepper');
+  });
+
+  describe('hash', () => {
+    it('should produce a keyed SHA-256 digest', () => {
+      const expected = createHmac('sha256', 'test-token-pepper')
+        .update('some-token')
+        .digest('base64url');
+
+      expect(service.hash('some-token')).toBe(expected);
+      expect(hashToken('some-token', 'test-token-pepper')).toBe(expected);
+    });
+
+    it('should be deterministic so hashes can be looked up', () => {
+      expect(service.hash('some-token')).toBe(service.hash('some-token'));
+      expect(service.hash('some-token')).not.toBe(service.hash('other-token'));
+    });
+
+    it('should depend on the secret', async () => {
+      const otherService = await createService('another-pepper');
+
+      expect(otherService.hash('some-token')).not.toBe(
+        service.hash('some-token'),
+      );
+    });
+
+    it('should be distinguishable from plaintext hex tokens', () => {
+      const plaintext = 'a'.repeat(64);
+
+      expect(service.hash(plaintext)).toMatch(TOKEN_HASH_PATTERN);
+      expect(plaintext).not.toMatch(TOKEN_HASH_PATTERN);
+    });
+  });
+
+  describe('matches', () => {
+    it('should accept the token the hash was made from', () => {
+      const storedHash = service.hash('some-token');
+
+      expect(service.matches('some-token', storedHash)).toBe(true);
+    });
+
+    it('should reject other tokens', () => {
+      const storedHash = service.hash('some-token');
+
+      expect(service.matches('other-token', storedHash)).toBe(false);
+    });
+
+    it('should reject missing or malformed hashes', () => {
+      expect(service.matches('some-token', null)).toBe(false);
+      expect(service.matches('some-token', 'short')).toBe(false);
+    });
+  });
+
+  it('should refuse to start without a secret', async () => {
+    await expect(createService(undefined)).rejects.toThrow(
+      'TOKEN_HASH_SECRET must be configured',
+    );
+  });
+});
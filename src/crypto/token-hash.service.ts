@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Keyed SHA-256 digest of a token, base64url encoded (43 characters).
+ * Exported for scripts that run outside the Nest container.
+ */
+export function hashToken(token: string, secret: string): string {
+  return createHmac('sha256', secret).update(token).digest('base64url');
+}
+
+export const TOKEN_HASH_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+@Injectable()
+export class TokenHashService {
+  private readonly secret: string;
+
+  constructor(private readonly configService: ConfigService) {
+    const secret = this.configService.get<string>('TOKEN_HASH_SECRET');
+    if (!secret) {
+      throw new Error(
+        'TOKEN_HASH_SECRET must be configured to store tokens at rest',
+      );
+    }
+    this.secret = secret;
+  }
+
+  /**
+   * Hashes a bearer token (refresh, verification, reset...) for storage.
+   * Tokens are high-entropy random values, so a single keyed hash is
+   * enough: lookups stay indexable and a leaked table is useless without
+   * the server-side secret.
+   */
+  hash(token: string): string {
+    return hashToken(token, this.secret);
+  }
+
+  matches(token: string, storedHash: string | null | undefined): boolean {
+    if (!storedHash) {
+      return false;
+    }
+
+    const expected = Buffer.from(storedHash);
+    const actual = Buffer.from(this.hash(token));
+
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { DataExportService } from './data-export.service';
+import { DataExportDto } from './dto/data-export.dto';
+import { DownloadDataExportDto } from './dto/download-data-export.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  CurrentUser,
+  CurrentUserData,
+} from '../auth/decorators/current-user.decorator';
+import {
+  ClientInfo,
+  ClientInfoData,
+} from '../auth/decorators/client-info.decorator';
+import { DenyImpersonation } from '../auth/decorators/deny-impersonation.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+
+@ApiTags('Users')
+@UseGuards(JwtAuthGuard)
+@Controller('users')
+export class DataExportController {
+  constructor(private readonly dataExportService: DataExportService) {}
+
+  @Post('me/export')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @DenyImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Request a copy of all account data',
+    description:
+      'The archive is built in the background and a download link is emailed once it is ready.',
+  })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'Export queued',
+    type: DataExportDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'An export is already being prepared',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized',
+  })
+  async request(
+    @CurrentUser() user: CurrentUserData,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.dataExportService.request(user.id, client);
+  }
+
+  @Get('me/export')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List data exports of the current user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Data exports, newest first',
+    type: [DataExportDto],
+  })
+  async findAll(@CurrentUser() user: CurrentUserData) {
+    return this.dataExportService.findAllForUser(user.id);
+  }
+
+  @Get('exports/download')
+  @Public()
+  @ApiOperation({ summary: 'Download a data export from its emailed link' })
+  @ApiProduces('application/gzip')
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Gzipped JSON archive of the account data',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Data export not found or expired',
+  })
+  async download(@Query() query: DownloadDataExportDto) {
+    const { archive, fileName } = await this.dataExportService.findDownload(
+      query.token,
+    );
+
+    return new StreamableFile(archive, {
+      type: 'application/gzip',
+      disposition: `attachment; filename="${fileName}"`,
+    });
+  }
+}
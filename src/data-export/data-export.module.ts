@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { DataExportService } from './data-export.service';
+import { DataExportProcessor } from './data-export.processor';
+import { DataExportController } from './data-export.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { EmailModule } from '../email/email.module';
+import { SecurityEventsModule } from '../security-events/security-events.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    EmailModule,
+    SecurityEventsModule,
+    BullModule.registerQueue({
+      name: 'data-export',
+      defaultJobOptions: {
+        removeOnComplete: true,
+        removeOnFail: false,
+      },
+    }),
+  ],
+  controllers: [DataExportController],
+  providers: [DataExportService, DataExportProcessor],
+  exports: [DataExportService],
+})
+export class DataExportModule {}
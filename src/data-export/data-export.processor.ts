@@ -0,0 +1,34 @@
+import { OnQueueFailed, Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { DataExportService } from './data-export.service';
+
+@Processor('data-export')
+export class DataExportProcessor {
+  private readonly logger = new Logger(DataExportProcessor.name);
+
+  constructor(private readonly dataExportService: DataExportService) {}
+
+  @Process('build')
+  async handleBuild(job: Job<{ exportId: string }>) {
+    await this.dataExportService.build(job.data.exportId);
+  }
+
+  @Process('prune')
+  async handlePrune() {
+    const pruned = await this.dataExportService.pruneExpired();
+    if (pruned > 0) {
+      this.logger.log(`Removed ${pruned} expired data exports`);
+    }
+  }
+
+  @OnQueueFailed()
+  async handleFailed(job: Job<{ exportId?: string }>, error: Error) {
+    this.logger.error(`Data export job ${job.id} failed:`, error);
+
+    // Only give up on the export once Bull has no retries left
+    if (job.data.exportId && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+      await this.dataExportService.markFailed(job.data.exportId);
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { getQueueToken } from '@nestjs/bull';
+import { gunzipSync } from 'zlib';
+import { DataExportService } from './data-export.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { EmailService } from '../email/email.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { authConfig } from '../config/auth.config';
+
+describe('DataExportService', () => {
+  let service: DataExportService;
+  let prismaService: PrismaService;
+  let emailService: EmailService;
+  let securityEventsService: SecurityEventsService;
+  let queue: { add: jest.Mock };
+
+  const userId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const user = {
+    id: userId,
+    email: 'test@example.com',
+    name: 'Test User',
+  };
+
+  const pendingExport = {
+    id: 'export-123',
+    userId,
+    status: 'PENDING',
+    user,
+  };
+
+  beforeEach(async () => {
+    queue = { add: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataExportService,
+        { provide: authConfig.KEY, useValue: authConfig() },
+        {
+          provide: PrismaService,
+          useValue: {
+            dataExport: {
+              create: jest.fn((args) => ({
+                id: 'export-123',
+                status: 'PENDING',
+                ...args.data,
+              })),
+              findFirst: jest.fn(),
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+              update: jest.fn(),
+              updateMany: jest.fn(),
+            },
+            user: {
+              findUniqueOrThrow: jest.fn().mockResolvedValue({
+                ...user,
+                preferences: { theme: 'dark' },
+                sessions: [{ id: 'session-1' }],
+                passkeys: [],
+                identities: [],
+                accessTokens: [],
+                securityEvents: [],
+                emailChanges: [],
+                knownDevices: [],
+              }),
+            },
+          },
+        },
+        {
+          provide: getQueueToken('data-export'),
+          useValue: queue,
+        },
+        {
+          provide: TokenHashService,
+          useValue: {
+            hash: jest.fn((token: string) => `hashed-${token}`),
+          },
+        },
+        {
+          provide: EmailService,
+          useValue: {
+            sendDataExportReadyEmail: jest.fn(),
+          },
+        },
+        {
+          provide: SecurityEventsService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DataExportService>(DataExportService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    emailService = module.get<EmailService>(EmailService);
+    securityEventsService = module.get<SecurityEventsService>(
+      SecurityEventsService,
+    );
+  });
+
+  describe('request', () => {
+    it('should queue the export and record the request', async () => {
+      const result = await service.request(userId);
+
+      expect(result).toMatchObject({ id: 'export-123', status: 'PENDING' });
+      expect(queue.add).toHaveBeenCalledWith(
+        'build',
+        { exportId: 'export-123' },
+        expect.any(Object),
+      );
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId, type: 'DATA_EXPORT_REQUESTED' }),
+      );
+    });
+
+    it('should refuse a second export while one is pending', async () => {
+      jest
+        .spyOn(prismaService.dataExport, 'findFirst')
+        .mockResolvedValue(pendingExport as any);
+
+      await expect(service.request(userId)).rejects.toThrow(ConflictException);
+      expect(queue.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('build', () => {
+    it('should store a gzipped archive and email its link', async () => {
+      jest
+        .spyOn(prismaService.dataExport, 'findUnique')
+        .mockResolvedValue(pendingExport as any);
+
+      await service.build('export-123');
+
+      const { data } = (prismaService.dataExport.update as jest.Mock).mock
+        .calls[0][0];
+      const archive = JSON.parse(gunzipSync(data.archive).toString());
+      expect(archive).toMatchObject({
+        profile: { id: userId, email: 'test@example.com' },
+        preferences: { theme: 'dark' },
+        sessions: [{ id: 'session-1' }],
+      });
+
+      expect(prismaService.dataExport.update).toHaveBeenCalledWith({
+        where: { id: 'export-123' },
+        data: expect.objectContaining({
+          status: 'READY',
+          archive: expect.any(Buffer),
+          downloadTokenHash: expect.stringMatching(/^hashed-/),
+        }),
+      });
+      expect(emailService.sendDataExportReadyEmail).toHaveBeenCalledWith(
+        'test@example.com',
+        'Test User',
+        expect.any(String),
+        expect.any(Date),
+      );
+    });
+
+    it('should leave the export pending when the email cannot be queued', async () => {
+      jest
+        .spyOn(prismaService.dataExport, 'findUnique')
+        .mockResolvedValue(pendingExport as any);
+      jest
+        .spyOn(emailService, 'sendDataExportReadyEmail')
+        .mockRejectedValue(new Error('Queue error'));
+
+      // Bull retries the job, which still finds the export pending
+      await expect(service.build('export-123')).rejects.toThrow('Queue error');
+      expect(prismaService.dataExport.update).not.toHaveBeenCalled();
+    });
+
+    it('should skip exports that are no longer pending', async () => {
+      jest
+        .spyOn(prismaService.dataExport, 'findUnique')
+        .mockResolvedValue({ ...pendingExport, status: 'READY' } as any);
+
+      await service.build('export-123');
+
+      expect(prismaService.dataExport.update).not.toHaveBeenCalled();
+      expect(emailService.sendDataExportReadyEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findDownload', () => {
+    it('should resolve the token to the archive', async () => {
+      jest.spyOn(prismaService.dataExport, 'findUnique').mockResolvedValue({
+        archive: Buffer.from('archive'),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        createdAt: new Date('2024-01-15T10:30:00Z'),
+      } as any);
+
+      const result = await service.findDownload('download-token');
+
+      expect(prismaService.dataExport.findUnique).toHaveBeenCalledWith({
+        where: { downloadTokenHash: 'hashed-download-token' },
+      });
+      expect(result).toEqual({
+        archive: Buffer.from('archive'),
+        fileName: 'data-export-2024-01-15.json.gz',
+      });
+    });
+
+    it('should throw NotFoundException for expired links', async () => {
+      jest.spyOn(prismaService.dataExport, 'findUnique').mockResolvedValue({
+        archive: Buffer.from('archive'),
+        expiresAt: new Date(Date.now() - 1000),
+        createdAt: new Date(),
+      } as any);
+
+      await expect(service.findDownload('download-token')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('pruneExpired', () => {
+    it('should delete expired archives and forget their links', async () => {
+      jest
+        .spyOn(prismaService.dataExport, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+
+      await expect(service.pruneExpired()).resolves.toBe(1);
+
+      expect(prismaService.dataExport.updateMany).toHaveBeenCalledWith({
+        where: { archive: { not: null }, expiresAt: { lte: expect.any(Date) } },
+        data: { archive: null, downloadTokenHash: null },
+      });
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import {
+  Inject,
+  Injectable,
+  HttpException,
+  ConflictException,
+  NotFoundException,
+  InternalServerErrorException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { randomBytes } from 'crypto';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+import { PrismaService } from '../prisma/prisma.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { EmailService } from '../email/email.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { ClientInfoData } from '../auth/decorators/client-info.decorator';
+import { authConfig, AuthConfig } from '../config/auth.config';
+
+const gzipAsync = promisify(gzip);
+
+const DATA_EXPORT_SELECT = {
+  id: true,
+  status: true,
+  expiresAt: true,
+  completedAt: true,
+  createdAt: true,
+};
+
+@Injectable()
+export class DataExportService implements OnModuleInit {
+  private readonly logger = new Logger(DataExportService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @InjectQueue('data-export') private readonly dataExportQueue: Queue,
+    private readonly tokenHashService: TokenHashService,
+    private readonly emailService: EmailService,
+    private readonly securityEventsService: SecurityEventsService,
+    @Inject(authConfig.KEY) private readonly authConfig: AuthConfig,
+  ) {}
+
+  async onModuleInit() {
+    // Archives hold personal data, so they are deleted as soon as the link expires
+    await this.dataExportQueue.add(
+      'prune',
+      {},
+      { repeat: { cron: '0 * * * *' }, jobId: 'prune-expired-exports' },
+    );
+  }
+
+  /**
+   * Queues a new export. The archive is built in the background and the
+   * download link is sent by email once it is ready.
+   */
+  async request(userId: string, client?: ClientInfoData) {
+    try {
+      const pending = await this.prisma.dataExport.findFirst({
+        where: { userId, status: 'PENDING' },
+      });
+      if (pending) {
+        throw new ConflictException('A data export is already being prepared');
+      }
+
+      const dataExport = await this.prisma.dataExport.create({
+        data: { userId },
+        select: DATA_EXPORT_SELECT,
+      });
+
+      await this.dataExportQueue.add(
+        'build',
+        { exportId: dataExport.id },
+        {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 2000,
+          },
+        },
+      );
+
+      await this.securityEventsService.record({
+        userId,
+        type: 'DATA_EXPORT_REQUESTED',
+        client,
+        metadata: { exportId: dataExport.id },
+      });
+
+      return dataExport;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to request data export');
+    }
+  }
+
+  async findAllForUser(userId: string) {
+    try {
+      return await this.prisma.dataExport.findMany({
+        where: { userId },
+        select: DATA_EXPORT_SELECT,
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      throw new InternalServerErrorException('Failed to list data exports');
+    }
+  }
+
+  /**
+   * Builds the archive for a pending export and emails its download link.
+   * Archives are kept in the database, so any instance can serve them.
+   * Called from the queue, so errors are left to Bull to retry.
+   */
+  async build(exportId: string) {
+    const dataExport = await this.prisma.dataExport.findUnique({
+      where: { id: exportId },
+      include: { user: true },
+    });
+    if (!dataExport || dataExport.status !== 'PENDING') {
+      return;
+    }
+
+    const { user } = dataExport;
+    const archive = await gzipAsync(
+      JSON.stringify(await this.collect(user.id), null, 2),
+    );
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = this.authConfig.dataExportExpiry.from(new Date());
+
+    // Queued before the export is marked ready, so a failure here is retried
+    // with a new link. Only the token of the attempt that ends up READY works.
+    await this.emailService.sendDataExportReadyEmail(
+      user.email,
+      user.name || '',
+      token,
+      expiresAt,
+    );
+
+    await this.prisma.dataExport.update({
+      where: { id: exportId },
+      data: {
+        status: 'READY',
+        archive,
+        downloadTokenHash: this.tokenHashService.hash(token),
+        expiresAt,
+        completedAt: new Date(),
+      },
+    });
+
+    this.logger.log(`Data export ${exportId} ready for user ${user.id}`);
+  }
+
+  async markFailed(exportId: string) {
+    await this.prisma.dataExport.updateMany({
+      where: { id: exportId, status: 'PENDING' },
+      data: { status: 'FAILED', completedAt: new Date() },
+    });
+  }
+
+  /**
+   * Resolves a download link to the archive it points at.
+   */
+  async findDownload(token: string) {
+    try {
+      const dataExport = await this.prisma.dataExport.findUnique({
+        where: { downloadTokenHash: this.tokenHashService.hash(token) },
+      });
+
+      if (
+        !dataExport?.archive ||
+        !dataExport.expiresAt ||
+        dataExport.expiresAt <= new Date()
+      ) {
+        throw new NotFoundException('Data export not found or expired');
+      }
+
+      const date = dataExport.createdAt.toISOString().slice(0, 10);
+      return {
+        archive: dataExport.archive,
+        fileName: `data-export-${date}.json.gz`,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to find data export');
+    }
+  }
+
+  async pruneExpired() {
+    const { count } = await this.prisma.dataExport.updateMany({
+      where: { archive: { not: null }, expiresAt: { lte: new Date() } },
+      data: { archive: null, downloadTokenHash: null },
+    });
+
+    return count;
+  }
+
+  /**
+   * Everything held about the user. This service stores no content of its
+   * own beyond the account, so new per-user tables belong here too.
+   */
+  private async collect(userId: string) {
+    const {
+      sessions,
+      passkeys,
+      identities,
+      accessTokens,
+      securityEvents,
+      emailChanges,
+      knownDevices,
+      preferences,
+      ...profile
+    } = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        emailVerified: true,
+        role: true,
+        mfaEnabled: true,
+        mfaEnabledAt: true,
+        lastLogin: true,
+        createdAt: true,
+        updatedAt: true,
+        preferences: true,
+        sessions: {
+          select: {
+            id: true,
+            label: true,
+            platform: true,
+            userAgent: true,
+            ipAddress: true,
+            createdAt: true,
+            lastUsedAt: true,
+            expiresAt: true,
+          },
+        },
+        passkeys: {
+          select: {
+            id: true,
+            name: true,
+            deviceType: true,
+            backedUp: true,
+            createdAt: true,
+            lastUsedAt: true,
+          },
+        },
+        identities: {
+          select: {
+            provider: true,
+            email: true,
+            createdAt: true,
+            lastUsedAt: true,
+          },
+        },
+        accessTokens: {
+          select: {
+            id: true,
+            name: true,
+            tokenPrefix: true,
+            scopes: true,
+            expiresAt: true,
+            lastUsedAt: true,
+            lastUsedIp: true,
+            createdAt: true,
+          },
+        },
+        securityEvents: {
+          select: {
+            type: true,
+            outcome: true,
+            ipAddress: true,
+            userAgent: true,
+            metadata: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'desc' },
+        },
+        emailChanges: {
+          select: {
+            oldEmail: true,
+            newEmail: true,
+            confirmedAt: true,
+            revertedAt: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'desc' },
+        },
+        knownDevices: {
+          select: {
+            userAgent: true,
+            ipAddress: true,
+            location: true,
+            firstSeenAt: true,
+            lastSeenAt: true,
+          },
+          orderBy: { lastSeenAt: 'desc' },
+        },
+      },
+    });
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile,
+      preferences,
+      sessions,
+      passkeys,
+      identities,
+      accessTokens,
+      securityEvents,
+      emailChanges,
+      knownDevices,
+    };
+  }
+}
@@ -0,0 +1,25 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DataExportStatus } from '@prisma/client';
+
+export class DataExportDto {
+  @ApiProperty({
+    example: '5c1e9a3b-7d2f-4e6a-8b0c-1f4d7a9e2b63',
+    description: 'Export unique identifier',
+  })
+  id: string;
+
+  @ApiProperty({ enum: DataExportStatus, example: 'PENDING' })
+  status: DataExportStatus;
+
+  @ApiPropertyOptional({
+    example: '2024-01-22T10:30:00Z',
+    description: 'When the download link stops working, once ready',
+  })
+  expiresAt: Date | null;
+
+  @ApiPropertyOptional({ example: '2024-01-15T10:31:00Z' })
+  completedAt: Date | null;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00Z' })
+  createdAt: Date;
+}
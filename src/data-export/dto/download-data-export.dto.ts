@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class DownloadDataExportDto {
+  @ApiProperty({
+    example: 'Qm9ndXMgZG93bmxvYWQgdG9rZW4gZm9yIGRvY3M',
+    description: 'Token from the link in the export email',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Download token is required' })
+  token: string;
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+
+export class RequestEmailChangeDto {
+  @ApiProperty({
+    example: 'john.smith@example.com',
+    description: 'Address to switch to once it is confirmed',
+  })
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @IsNotEmpty({ message: 'New email is required' })
+  newEmail: string;
+
+  @ApiProperty({
+    example: 'Password123!',
+    description: 'Current password, re-entered to confirm',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Password is required' })
+  password: string;
+}
@@ -0,0 +1,123 @@
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+import { EmailChangeService } from './email-change.service';
+import { RequestEmailChangeDto } from './dto/request-email-change.dto';
+import { EmailChangeTokenDto } from './dto/email-change-token.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  CurrentUser,
+  CurrentUserData,
+} from '../auth/decorators/current-user.decorator';
+import {
+  ClientInfo,
+  ClientInfoData,
+} from '../auth/decorators/client-info.decorator';
+import { DenyImpersonation } from '../auth/decorators/deny-impersonation.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+
+@ApiTags('Users')
+@UseGuards(JwtAuthGuard)
+@Controller('users')
+export class EmailChangeController {
+  constructor(private readonly emailChangeService: EmailChangeService) {}
+
+  @Post('me/email')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @DenyImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Change the email address of the current account',
+    description:
+      'The new address receives a confirmation link and the current one a link to undo the change. The email is only switched once confirmed.',
+  })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'Confirmation link sent to the new address',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Same address as the current one or no password set',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Invalid password',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Email already in use',
+  })
+  @ApiBody({ type: RequestEmailChangeDto })
+  async request(
+    @CurrentUser() user: CurrentUserData,
+    @Body() requestEmailChangeDto: RequestEmailChangeDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.emailChangeService.request(
+      user.id,
+      requestEmailChangeDto.newEmail,
+      requestEmailChangeDto.password,
+      client,
+    );
+  }
+
+  @Post('email-change/confirm')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm a new email address from its link' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Email address changed',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid or expired confirmation link',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Email already in use',
+  })
+  @ApiBody({ type: EmailChangeTokenDto })
+  async confirm(
+    @Body() emailChangeTokenDto: EmailChangeTokenDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.emailChangeService.confirm(emailChangeTokenDto.token, client);
+  }
+
+  @Post('email-change/revert')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Undo an email change from the link sent to the previous address',
+    description:
+      'Cancels a pending change, or restores the previous address and signs out every session if it was already confirmed.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Email change cancelled or reverted',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid or expired link',
+  })
+  @ApiBody({ type: EmailChangeTokenDto })
+  async revert(
+    @Body() emailChangeTokenDto: EmailChangeTokenDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.emailChangeService.revert(emailChangeTokenDto.token, client);
+  }
+}
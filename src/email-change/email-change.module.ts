@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { EmailChangeService } from './email-change.service';
+import { EmailChangeController } from './email-change.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { UsersModule } from '../users/users.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { PersonalAccessTokensModule } from '../personal-access-tokens/personal-access-tokens.module';
+import { EmailModule } from '../email/email.module';
+import { SecurityEventsModule } from '../security-events/security-events.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    UsersModule,
+    SessionsModule,
+    PersonalAccessTokensModule,
+    EmailModule,
+    SecurityEventsModule,
+  ],
+  controllers: [EmailChangeController],
+  providers: [EmailChangeService],
+})
+export class EmailChangeModule {}
@@ -0,0 +1,376 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EmailChangeService } from './email-change.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { UsersService } from '../users/users.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { PersonalAccessTokensService } from '../personal-access-tokens/personal-access-tokens.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { PasswordHasherService } from '../crypto/password-hasher.service';
+import { EmailService } from '../email/email.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { authConfig } from '../config/auth.config';
+
+describe('EmailChangeService', () => {
+  let service: EmailChangeService;
+  let prismaService: PrismaService;
+  let usersService: UsersService;
+  let sessionsService: SessionsService;
+  let personalAccessTokensService: PersonalAccessTokensService;
+  let emailService: EmailService;
+  let securityEventsService: SecurityEventsService;
+  let passwordHasher: PasswordHasherService;
+
+  const userId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const mockUser = {
+    id: userId,
+    email: 'test@example.com',
+    name: 'Test User',
+    passwordHash: 'hashedPassword',
+  };
+
+  const pendingChange = {
+    id: 'change-123',
+    userId,
+    oldEmail: 'test@example.com',
+    newEmail: 'new@example.com',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    revertExpiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    confirmedAt: null,
+    revertedAt: null,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailChangeService,
+        { provide: authConfig.KEY, useValue: authConfig() },
+        {
+          provide: PrismaService,
+          useValue: {
+            emailChangeRequest: {
+              create: jest.fn(),
+              findUnique: jest.fn(),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+              deleteMany: jest.fn(),
+            },
+            user: {
+              update: jest.fn().mockResolvedValue(mockUser),
+            },
+          },
+        },
+        {
+          provide: UsersService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue(mockUser),
+            findByEmail: jest.fn().mockResolvedValue(null),
+            clearPassword: jest.fn(),
+            setPasswordResetToken: jest.fn(),
+          },
+        },
+        {
+          provide: SessionsService,
+          useValue: {
+            revokeAll: jest.fn(),
+          },
+        },
+        {
+          provide: PersonalAccessTokensService,
+          useValue: {
+            revokeAll: jest.fn(),
+          },
+        },
+        {
+          provide: TokenHashService,
+          useValue: {
+            hash: jest.fn((token: string) => `hashed-${token}`),
+          },
+        },
+        {
+          provide: EmailService,
+          useValue: {
+            sendEmailChangeConfirmationEmail: jest.fn(),
+            sendSecurityAlertEmail: jest.fn(),
+            sendPasswordResetEmail: jest.fn(),
+          },
+        },
+        {
+          provide: SecurityEventsService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+          },
+        },
+        {
+          provide: PasswordHasherService,
+          useValue: {
+            verify: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<EmailChangeService>(EmailChangeService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    usersService = module.get<UsersService>(UsersService);
+    sessionsService = module.get<SessionsService>(SessionsService);
+    personalAccessTokensService = module.get<PersonalAccessTokensService>(
+      PersonalAccessTokensService,
+    );
+    emailService = module.get<EmailService>(EmailService);
+    securityEventsService = module.get<SecurityEventsService>(
+      SecurityEventsService,
+    );
+    passwordHasher = module.get<PasswordHasherService>(PasswordHasherService);
+  });
+
+  describe('request', () => {
+    it('should email both addresses without touching the account', async () => {
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+
+      await service.request(userId, 'New@Example.com', 'Password123!');
+
+      expect(prismaService.emailChangeRequest.deleteMany).toHaveBeenCalledWith({
+        where: { userId, confirmedAt: null, revertedAt: null },
+      });
+      expect(prismaService.emailChangeRequest.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId,
+          oldEmail: 'test@example.com',
+          newEmail: 'new@example.com',
+          confirmTokenHash: expect.stringMatching(/^hashed-/),
+          revertTokenHash: expect.stringMatching(/^hashed-/),
+        }),
+      });
+      expect(
+        emailService.sendEmailChangeConfirmationEmail,
+      ).toHaveBeenCalledWith(
+        'new@example.com',
+        'Test User',
+        expect.any(String),
+      );
+      expect(emailService.sendSecurityAlertEmail).toHaveBeenCalledWith(
+        'test@example.com',
+        'Test User',
+        expect.objectContaining({
+          actionUrl: expect.stringContaining('/revert-email-change?token='),
+        }),
+      );
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId, type: 'EMAIL_CHANGE_REQUESTED' }),
+      );
+      expect(prismaService.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException for a wrong password', async () => {
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        service.request(userId, 'new@example.com', 'wrong'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prismaService.emailChangeRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException for the current address', async () => {
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+
+      await expect(
+        service.request(userId, 'TEST@example.com', 'Password123!'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw ConflictException if the address is taken', async () => {
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+      jest
+        .spyOn(usersService, 'findByEmail')
+        .mockResolvedValue({ id: 'other-user' } as any);
+
+      await expect(
+        service.request(userId, 'new@example.com', 'Password123!'),
+      ).rejects.toThrow(ConflictException);
+      expect(
+        emailService.sendEmailChangeConfirmationEmail,
+      ).not.toHaveBeenCalled();
+      expect(emailService.sendSecurityAlertEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirm', () => {
+    it('should switch the email and keep it verified', async () => {
+      jest
+        .spyOn(prismaService.emailChangeRequest, 'findUnique')
+        .mockResolvedValue(pendingChange as any);
+
+      const result = await service.confirm('confirm-token');
+
+      expect(prismaService.emailChangeRequest.findUnique).toHaveBeenCalledWith({
+        where: { confirmTokenHash: 'hashed-confirm-token' },
+      });
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: userId },
+        data: {
+          email: 'new@example.com',
+          emailVerified: true,
+          emailVerificationTokenHash: null,
+          emailVerificationExpires: null,
+        },
+      });
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId, type: 'EMAIL_CHANGED' }),
+      );
+      expect(result.email).toBe('new@example.com');
+    });
+
+    it('should reject expired links', async () => {
+      jest
+        .spyOn(prismaService.emailChangeRequest, 'findUnique')
+        .mockResolvedValue({
+          ...pendingChange,
+          expiresAt: new Date(Date.now() - 1000),
+        } as any);
+
+      await expect(service.confirm('confirm-token')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prismaService.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a link that was already used', async () => {
+      jest
+        .spyOn(prismaService.emailChangeRequest, 'findUnique')
+        .mockResolvedValue(pendingChange as any);
+      jest
+        .spyOn(prismaService.emailChangeRequest, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(service.confirm('confirm-token')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prismaService.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revert', () => {
+    it('should only cancel a change that was not confirmed', async () => {
+      jest
+        .spyOn(prismaService.emailChangeRequest, 'findUnique')
+        .mockResolvedValue(pendingChange as any);
+
+      const result = await service.revert('revert-token');
+
+      expect(result.message).toBe('Email change cancelled');
+      expect(prismaService.user.update).not.toHaveBeenCalled();
+      expect(sessionsService.revokeAll).not.toHaveBeenCalled();
+      expect(personalAccessTokensService.revokeAll).not.toHaveBeenCalled();
+      expect(usersService.clearPassword).not.toHaveBeenCalled();
+    });
+
+    it('should restore the old address and sign out everywhere', async () => {
+      jest
+        .spyOn(prismaService.emailChangeRequest, 'findUnique')
+        .mockResolvedValue({
+          ...pendingChange,
+          confirmedAt: new Date(),
+        } as any);
+
+      await service.revert('revert-token');
+
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: userId },
+        data: {
+          email: 'test@example.com',
+          emailVerified: true,
+          emailVerificationTokenHash: null,
+          emailVerificationExpires: null,
+        },
+      });
+      expect(sessionsService.revokeAll).toHaveBeenCalledWith(userId);
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId, type: 'EMAIL_CHANGE_REVERTED' }),
+      );
+    });
+
+    it('should revoke personal access tokens of a confirmed change', async () => {
+      jest
+        .spyOn(prismaService.emailChangeRequest, 'findUnique')
+        .mockResolvedValue({
+          ...pendingChange,
+          confirmedAt: new Date(),
+        } as any);
+
+      await service.revert('revert-token');
+
+      expect(personalAccessTokensService.revokeAll).toHaveBeenCalledWith(
+        userId,
+      );
+    });
+
+    it('should remove the password and email a reset link to the restored address', async () => {
+      jest
+        .spyOn(prismaService.emailChangeRequest, 'findUnique')
+        .mockResolvedValue({
+          ...pendingChange,
+          confirmedAt: new Date(),
+        } as any);
+
+      const result = await service.revert('revert-token');
+
+      expect(result.message).toContain('link to set a new password');
+      expect(usersService.clearPassword).toHaveBeenCalledWith(userId);
+      const [, resetToken] = (usersService.setPasswordResetToken as jest.Mock)
+        .mock.calls[0];
+      expect(usersService.setPasswordResetToken).toHaveBeenCalledWith(
+        userId,
+        expect.stringMatching(/^[0-9a-f]{64}$/),
+        expect.any(Date),
+      );
+      expect(emailService.sendPasswordResetEmail).toHaveBeenCalledWith(
+        mockUser.email,
+        mockUser.name,
+        mockUser.email,
+        resetToken,
+      );
+    });
+
+    it('should throw ConflictException if the old address was taken', async () => {
+      jest
+        .spyOn(prismaService.emailChangeRequest, 'findUnique')
+        .mockResolvedValue({
+          ...pendingChange,
+          confirmedAt: new Date(),
+        } as any);
+      jest
+        .spyOn(usersService, 'findByEmail')
+        .mockResolvedValue({ id: 'other-user' } as any);
+
+      await expect(service.revert('revert-token')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(prismaService.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject links past the revert window', async () => {
+      jest
+        .spyOn(prismaService.emailChangeRequest, 'findUnique')
+        .mockResolvedValue({
+          ...pendingChange,
+          revertExpiresAt: new Date(Date.now() - 1000),
+        } as any);
+
+      await expect(service.revert('revert-token')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import {
+  Inject,
+  Injectable,
+  HttpException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { UsersService } from '../users/users.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { PersonalAccessTokensService } from '../personal-access-tokens/personal-access-tokens.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { PasswordHasherService } from '../crypto/password-hasher.service';
+import { EmailService } from '../email/email.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { ClientInfoData } from '../auth/decorators/client-info.decorator';
+import { authConfig, AuthConfig } from '../config/auth.config';
+
+@Injectable()
+export class EmailChangeService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
+    private readonly personalAccessTokensService: PersonalAccessTokensService,
+    private readonly tokenHashService: TokenHashService,
+    private readonly passwordHasher: PasswordHasherService,
+    private readonly emailService: EmailService,
+    private readonly securityEventsService: SecurityEventsService,
+    private readonly configService: ConfigService,
+    @Inject(authConfig.KEY) private readonly authConfig: AuthConfig,
+  ) {}
+
+  /**
+   * Starts an email change. The account keeps its current address until the
+   * new one is confirmed, and the current address is told about the change
+   * with a link to undo it.
+   */
+  async request(
+    userId: string,
+    newEmail: string,
+    password: string,
+    client?: ClientInfoData,
+  ) {
+    try {
+      const user = await this.usersService.findById(userId);
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      if (!user.passwordHash) {
+        throw new BadRequestException(
+          'No password is set for this account, use forgot password to create one',
+        );
+      }
+      if (!(await this.passwordHasher.verify(password, user.passwordHash))) {
+        throw new ForbiddenException('Invalid password');
+      }
+
+      const normalizedEmail = newEmail.toLowerCase();
+      if (normalizedEmail === user.email) {
+        throw new BadRequestException(
+          'New email must be different from the current one',
+        );
+      }
+      if (await this.usersService.findByEmail(normalizedEmail)) {
+        throw new ConflictException('Email already in use');
+      }
+
+      const confirmToken = randomBytes(32).toString('hex');
+      const revertToken = randomBytes(32).toString('hex');
+      const expiresAt = this.authConfig.emailChangeExpiry.from(new Date());
+
+      // Only the latest request can be confirmed
+      await this.prisma.emailChangeRequest.deleteMany({
+        where: { userId, confirmedAt: null, revertedAt: null },
+      });
+      await this.prisma.emailChangeRequest.create({
+        data: {
+          userId,
+          oldEmail: user.email,
+          newEmail: normalizedEmail,
+          confirmTokenHash: this.tokenHashService.hash(confirmToken),
+          revertTokenHash: this.tokenHashService.hash(revertToken),
+          expiresAt,
+          revertExpiresAt: this.authConfig.emailChangeRevertExpiry.from(
+            new Date(),
+          ),
+        },
+      });
+
+      const baseUrl = this.configService.get<string>(
+        'FRONTEND_URL',
+        'http://localhost:3000',
+      );
+      await this.emailService.sendEmailChangeConfirmationEmail(
+        normalizedEmail,
+        user.name || '',
+        confirmToken,
+      );
+      await this.emailService.sendSecurityAlertEmail(
+        user.email,
+        user.name || '',
+        {
+          subject: 'Your email address is being changed',
+          heading: 'Email address change requested',
+          message:
+            'Someone asked to change the email address of your account. The change takes effect once the new address is confirmed. If this was not you, keep your current address and reset your password.',
+          details: [{ label: 'New email', value: normalizedEmail }],
+          actionUrl: `${baseUrl}/revert-email-change?token=${revertToken}`,
+          actionText: 'Keep My Current Email',
+        },
+      );
+
+      await this.securityEventsService.record({
+        userId,
+        type: 'EMAIL_CHANGE_REQUESTED',
+        client,
+        metadata: { newEmail: normalizedEmail },
+      });
+
+      return {
+        message: 'A confirmation link has been sent to the new email address',
+        expiresAt,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to request email change');
+    }
+  }
+
+  /**
+   * Switches the account to the new address. Following the link proves
+   * ownership of it, so the account stays verified.
+   */
+  async confirm(token: string, client?: ClientInfoData) {
+    try {
+      const confirmTokenHash = this.tokenHashService.hash(token);
+      const change = await this.prisma.emailChangeRequest.findUnique({
+        where: { confirmTokenHash },
+      });
+      if (
+        !change ||
+        change.confirmedAt ||
+        change.revertedAt ||
+        change.expiresAt <= new Date()
+      ) {
+        throw new BadRequestException('Invalid or expired confirmation link');
+      }
+
+      // The address may have been registered since the request was made
+      if (await this.usersService.findByEmail(change.newEmail)) {
+        throw new ConflictException('Email already in use');
+      }
+
+      // Conditional on confirmedAt so two clicks racing each other cannot both pass
+      const { count } = await this.prisma.emailChangeRequest.updateMany({
+        where: { confirmTokenHash, confirmedAt: null, revertedAt: null },
+        data: {
+          confirmedAt: new Date(),
+          revertExpiresAt: this.authConfig.emailChangeRevertExpiry.from(
+            new Date(),
+          ),
+        },
+      });
+      if (count !== 1) {
+        throw new BadRequestException('Invalid or expired confirmation link');
+      }
+
+      await this.prisma.user.update({
+        where: { id: change.userId },
+        data: {
+          email: change.newEmail,
+          emailVerified: true,
+          emailVerificationTokenHash: null,
+          emailVerificationExpires: null,
+        },
+      });
+
+      await this.securityEventsService.record({
+        userId: change.userId,
+        type: 'EMAIL_CHANGED',
+        client,
+        metadata: { oldEmail: change.oldEmail, newEmail: change.newEmail },
+      });
+
+      return { message: 'Email address changed', email: change.newEmail };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to confirm email change');
+    }
+  }
+
+  /**
+   * Undoes a change from the link sent to the previous address. Before
+   * confirmation this only cancels the request; afterwards the old address
+   * is restored and the account is locked down as for a disputed sign-in,
+   * since whoever made the change knew the password and may still be
+   * signed in: every session and personal access token is revoked, and the
+   * password is removed with a reset link sent to the restored address.
+   */
+  async revert(token: string, client?: ClientInfoData) {
+    try {
+      const revertTokenHash = this.tokenHashService.hash(token);
+      const change = await this.prisma.emailChangeRequest.findUnique({
+        where: { revertTokenHash },
+      });
+      if (
+        !change ||
+        change.revertedAt ||
+        change.revertExpiresAt <= new Date()
+      ) {
+        throw new BadRequestException('Invalid or expired link');
+      }
+
+      if (change.confirmedAt) {
+        const owner = await this.usersService.findByEmail(change.oldEmail);
+        if (owner && owner.id !== change.userId) {
+          throw new ConflictException('Email already in use');
+        }
+      }
+
+      const { count } = await this.prisma.emailChangeRequest.updateMany({
+        where: { revertTokenHash, revertedAt: null },
+        data: { revertedAt: new Date() },
+      });
+      if (count !== 1) {
+        throw new BadRequestException('Invalid or expired link');
+      }
+
+      if (change.confirmedAt) {
+        const user = await this.prisma.user.update({
+          where: { id: change.userId },
+          data: {
+            email: change.oldEmail,
+            emailVerified: true,
+            emailVerificationTokenHash: null,
+            emailVerificationExpires: null,
+          },
+        });
+        await this.prisma.emailChangeRequest.deleteMany({
+          where: { userId: change.userId, confirmedAt: null, revertedAt: null },
+        });
+        await this.sessionsService.revokeAll(change.userId);
+        await this.personalAccessTokensService.revokeAll(change.userId);
+        await this.usersService.clearPassword(change.userId);
+
+        const resetToken = randomBytes(32).toString('hex');
+        await this.usersService.setPasswordResetToken(
+          change.userId,
+          resetToken,
+          this.authConfig.passwordResetExpiry.from(new Date()),
+        );
+        await this.emailService.sendPasswordResetEmail(
+          user.email,
+          user.name || '',
+          user.email,
+          resetToken,
+        );
+      }
+
+      await this.securityEventsService.record({
+        userId: change.userId,
+        type: 'EMAIL_CHANGE_REVERTED',
+        client,
+        metadata: {
+          oldEmail: change.oldEmail,
+          newEmail: change.newEmail,
+          confirmed: !!change.confirmedAt,
+        },
+      });
+
+      return change.confirmedAt
+        ? {
+            message:
+              'Your previous email address has been restored and all sessions were signed out. Check your email for a link to set a new password.',
+            email: change.oldEmail,
+          }
+        : { message: 'Email change cancelled', email: change.oldEmail };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to revert email change');
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { Process, Processor } from '@nestjs/bull';
-import { Logger } from '@nestjs/common';
+import { Inject, Logger } from '@nestjs/common';
 import { Job } from 'bull';
 import { ConfigService } from '@nestjs/config';
 import * as handlebars from 'handlebars';
@@ -7,6 +7,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { SendEmailDto } from './dto/send-email.dto';
 import { SESProvider } from './providers/ses.provider';
+import { SecurityAlert } from './email.service';
+import { authConfig, AuthConfig } from '../config/auth.config';
 
 @Processor('email')
 export class EmailProcessor {
@@ -14,7 +16,10 @@ export class EmailProcessor {
   private sesProvider: SESProvider;
   private compiledTemplates: Map<string, handlebars.TemplateDelegate> = new Map();
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(authConfig.KEY) private readonly authConfig: AuthConfig,
+  ) {
     this.sesProvider = new SESProvider(configService);
     this.loadTemplates();
     this.verifyEmailService();
@@ -30,7 +35,7 @@ export class EmailProcessor {
   }
 
   private loadTemplates() {
-    const templateFiles = ['verify-email.hbs', 'reset-password.hbs'];
+    const templateFiles = ['verify-email.hbs', 'reset-password.hbs', 'magic-link.hbs', 'confirm-email-change.hbs', 'data-export-ready.hbs', 'security-alert.hbs'];
 
     // Try multiple possible locations due to NestJS build path variations
     const possibleDirs = [
@@ -134,7 +139,7 @@ export class EmailProcessor {
       const emailHtml = compiledTemplate({
         name,
         verificationUrl,
-        expiresIn: this.configService.get<string>('EMAIL_VERIFICATION_EXPIRY', '24 hours'),
+        expiresIn: this.authConfig.emailVerificationExpiry.humanize(),
         currentYear: new Date().getFullYear(),
         appName: this.configService.get<string>('APP_NAME', 'From Article to Audio'),
       });
@@ -179,7 +184,7 @@ export class EmailProcessor {
         name,
         email,
         resetUrl,
-        expiresIn: this.configService.get<string>('PASSWORD_RESET_EXPIRY', '1 hour'),
+        expiresIn: this.authConfig.passwordResetExpiry.humanize(),
         currentYear: new Date().getFullYear(),
         appName: this.configService.get<string>('APP_NAME', 'From Article to Audio'),
       });
@@ -204,4 +209,175 @@ export class EmailProcessor {
       throw error;
     }
   }
+
+  @Process('magic-link')
+  async handleMagicLink(job: Job<{
+    to: string;
+    name: string;
+    loginUrl: string;
+  }>) {
+    const { to, name, loginUrl } = job.data;
+
+    try {
+      const compiledTemplate = this.compiledTemplates.get('magic-link');
+      if (!compiledTemplate) {
+        throw new Error('Magic link email template not found');
+      }
+
+      const emailHtml = compiledTemplate({
+        name,
+        loginUrl,
+        expiresIn: this.authConfig.magicLinkExpiry.humanize(),
+        currentYear: new Date().getFullYear(),
+        appName: this.configService.get<string>('APP_NAME', 'From Article to Audio'),
+      });
+
+      const result = await this.sesProvider.sendEmail({
+        to,
+        subject: 'Your Sign-In Link',
+        html: emailHtml,
+      });
+
+      if (result) {
+        this.logger.log(`Magic link email sent to ${to}. MessageId: ${result.MessageId}`);
+        return {
+          messageId: result.MessageId,
+          status: 'sent',
+          type: 'magic-link',
+          timestamp: new Date().toISOString(),
+        };
+      }
+    } catch (error) {
+      this.logger.error(`Failed to send magic link email to ${to}:`, error);
+      throw error;
+    }
+  }
+
+  @Process('confirm-email-change')
+  async handleConfirmEmailChange(job: Job<{
+    to: string;
+    name: string;
+    confirmUrl: string;
+  }>) {
+    const { to, name, confirmUrl } = job.data;
+
+    try {
+      const compiledTemplate = this.compiledTemplates.get('confirm-email-change');
+      if (!compiledTemplate) {
+        throw new Error('Email change confirmation template not found');
+      }
+
+      const emailHtml = compiledTemplate({
+        name,
+        confirmUrl,
+        expiresIn: this.authConfig.emailChangeExpiry.humanize(),
+        currentYear: new Date().getFullYear(),
+        appName: this.configService.get<string>('APP_NAME', 'From Article to Audio'),
+      });
+
+      const result = await this.sesProvider.sendEmail({
+        to,
+        subject: 'Confirm Your New Email Address',
+        html: emailHtml,
+      });
+
+      if (result) {
+        this.logger.log(`Email change confirmation sent to ${to}. MessageId: ${result.MessageId}`);
+        return {
+          messageId: result.MessageId,
+          status: 'sent',
+          type: 'confirm-email-change',
+          timestamp: new Date().toISOString(),
+        };
+      }
+    } catch (error) {
+      this.logger.error(`Failed to send email change confirmation to ${to}:`, error);
+      throw error;
+    }
+  }
+
+  @Process('data-export-ready')
+  async handleDataExportReady(job: Job<{
+    to: string;
+    name: string;
+    downloadUrl: string;
+    availableUntil: string;
+  }>) {
+    const { to, name, downloadUrl, availableUntil } = job.data;
+
+    try {
+      const compiledTemplate = this.compiledTemplates.get('data-export-ready');
+      if (!compiledTemplate) {
+        throw new Error('Data export email template not found');
+      }
+
+      const emailHtml = compiledTemplate({
+        name,
+        downloadUrl,
+        availableUntil,
+        currentYear: new Date().getFullYear(),
+        appName: this.configService.get<string>('APP_NAME', 'From Article to Audio'),
+      });
+
+      const result = await this.sesProvider.sendEmail({
+        to,
+        subject: 'Your Data Export Is Ready',
+        html: emailHtml,
+      });
+
+      if (result) {
+        this.logger.log(`Data export email sent to ${to}. MessageId: ${result.MessageId}`);
+        return {
+          messageId: result.MessageId,
+          status: 'sent',
+          type: 'data-export-ready',
+          timestamp: new Date().toISOString(),
+        };
+      }
+    } catch (error) {
+      this.logger.error(`Failed to send data export email to ${to}:`, error);
+      throw error;
+    }
+  }
+
+  @Process('security-alert')
+  async handleSecurityAlert(job: Job<SecurityAlert & {
+    to: string;
+    name: string;
+  }>) {
+    const { to, name, subject, ...alert } = job.data;
+
+    try {
+      const compiledTemplate = this.compiledTemplates.get('security-alert');
+      if (!compiledTemplate) {
+        throw new Error('Security alert email template not found');
+      }
+
+      const emailHtml = compiledTemplate({
+        ...alert,
+        name,
+        currentYear: new Date().getFullYear(),
+        appName: this.configService.get<string>('APP_NAME', 'From Article to Audio'),
+      });
+
+      const result = await this.sesProvider.sendEmail({
+        to,
+        subject,
+        html: emailHtml,
+      });
+
+      if (result) {
+        this.logger.log(`Security alert email sent to ${to}. MessageId: ${result.MessageId}`);
+        return {
+          messageId: result.MessageId,
+          status: 'sent',
+          type: 'security-alert',
+          timestamp: new Date().toISOString(),
+        };
+      }
+    } catch (error) {
+      this.logger.error(`Failed to send security alert email to ${to}:`, error);
+      throw error;
+    }
+  }
 }
\ No newline at end of file
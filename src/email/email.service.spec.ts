@@ -224,6 +224,142 @@ describe('EmailService', () => {
     });
   });
 
+  describe('sendMagicLinkEmail', () => {
+    it('should successfully queue a magic link email', async () => {
+      jest.spyOn(emailQueue, 'add').mockResolvedValue(mockJob as any);
+
+      const result = await service.sendMagicLinkEmail('test@example.com', 'Test User', 'magic-token');
+
+      expect(result).toEqual({
+        jobId: mockJob.id,
+        status: 'queued',
+      });
+      expect(emailQueue.add).toHaveBeenCalledWith(
+        'magic-link',
+        {
+          to: 'test@example.com',
+          name: 'Test User',
+          loginUrl: 'http://localhost:3000/magic-link?token=magic-token',
+        },
+        expect.objectContaining({ attempts: 3 }),
+      );
+    });
+
+    it('should handle queue errors', async () => {
+      const error = new Error('Queue error');
+      jest.spyOn(emailQueue, 'add').mockRejectedValue(error);
+
+      await expect(
+        service.sendMagicLinkEmail('test@example.com', 'Test User', 'magic-token'),
+      ).rejects.toThrow(error);
+    });
+  });
+
+  describe('sendEmailChangeConfirmationEmail', () => {
+    it('should successfully queue an email change confirmation', async () => {
+      jest.spyOn(emailQueue, 'add').mockResolvedValue(mockJob as any);
+
+      const result = await service.sendEmailChangeConfirmationEmail('new@example.com', 'Test User', 'confirm-token');
+
+      expect(result).toEqual({
+        jobId: mockJob.id,
+        status: 'queued',
+      });
+      expect(emailQueue.add).toHaveBeenCalledWith(
+        'confirm-email-change',
+        {
+          to: 'new@example.com',
+          name: 'Test User',
+          confirmUrl: 'http://localhost:3000/confirm-email-change?token=confirm-token',
+        },
+        expect.objectContaining({ attempts: 3 }),
+      );
+    });
+
+    it('should handle queue errors', async () => {
+      const error = new Error('Queue error');
+      jest.spyOn(emailQueue, 'add').mockRejectedValue(error);
+
+      await expect(
+        service.sendEmailChangeConfirmationEmail('new@example.com', 'Test User', 'confirm-token'),
+      ).rejects.toThrow(error);
+    });
+  });
+
+  describe('sendDataExportReadyEmail', () => {
+    const expiresAt = new Date('2024-01-22T10:30:00Z');
+
+    it('should successfully queue a data export email', async () => {
+      jest.spyOn(emailQueue, 'add').mockResolvedValue(mockJob as any);
+
+      const result = await service.sendDataExportReadyEmail('test@example.com', 'Test User', 'download-token', expiresAt);
+
+      expect(result).toEqual({
+        jobId: mockJob.id,
+        status: 'queued',
+      });
+      expect(emailQueue.add).toHaveBeenCalledWith(
+        'data-export-ready',
+        {
+          to: 'test@example.com',
+          name: 'Test User',
+          downloadUrl: 'http://localhost:3000/download-export?token=download-token',
+          availableUntil: 'Mon, 22 Jan 2024 10:30:00 GMT',
+        },
+        expect.objectContaining({ attempts: 3 }),
+      );
+    });
+
+    it('should handle queue errors', async () => {
+      const error = new Error('Queue error');
+      jest.spyOn(emailQueue, 'add').mockRejectedValue(error);
+
+      await expect(
+        service.sendDataExportReadyEmail('test@example.com', 'Test User', 'download-token', expiresAt),
+      ).rejects.toThrow(error);
+    });
+  });
+
+  describe('sendSecurityAlertEmail', () => {
+    const alert = {
+      subject: 'Suspicious activity on your account',
+      heading: 'We signed you out',
+      message: 'A sign-in token was reused.',
+      details: [{ label: 'IP address', value: '203.0.113.42' }],
+      actionUrl: 'http://localhost:3000/forgot-password',
+      actionText: 'Reset Password',
+    };
+
+    it('should successfully queue a security alert email', async () => {
+      jest.spyOn(emailQueue, 'add').mockResolvedValue(mockJob as any);
+
+      const result = await service.sendSecurityAlertEmail('test@example.com', 'Test User', alert);
+
+      expect(result).toEqual({
+        jobId: mockJob.id,
+        status: 'queued',
+      });
+      expect(emailQueue.add).toHaveBeenCalledWith(
+        'security-alert',
+        {
+          to: 'test@example.com',
+          name: 'Test User',
+          ...alert,
+        },
+        expect.objectContaining({ attempts: 3 }),
+      );
+    });
+
+    it('should handle queue errors', async () => {
+      const error = new Error('Queue error');
+      jest.spyOn(emailQueue, 'add').mockRejectedValue(error);
+
+      await expect(
+        service.sendSecurityAlertEmail('test@example.com', 'Test User', alert),
+      ).rejects.toThrow(error);
+    });
+  });
+
   describe('getJobStatus', () => {
     it('should get job status successfully', async () => {
       const jobId = '123';
@@ -4,6 +4,15 @@ import { Queue } from 'bull';
 import { SendEmailDto } from './dto/send-email.dto';
 import { ConfigService } from '@nestjs/config';
 
+export interface SecurityAlert {
+  subject: string;
+  heading: string;
+  message: string;
+  details?: Array<{ label: string; value: string }>;
+  actionUrl?: string;
+  actionText?: string;
+}
+
 @Injectable()
 export class EmailService {
   private readonly logger = new Logger(EmailService.name);
@@ -90,6 +99,120 @@ export class EmailService {
     }
   }
 
+  async sendMagicLinkEmail(to: string, name: string, token: string) {
+    try {
+      const baseUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000');
+      const loginUrl = `${baseUrl}/magic-link?token=${token}`;
+
+      const job = await this.emailQueue.add(
+        'magic-link',
+        {
+          to,
+          name,
+          loginUrl,
+        },
+        {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 2000,
+          },
+        },
+      );
+
+      this.logger.log(`Magic link email job queued with ID: ${job.id}`);
+      return { jobId: job.id, status: 'queued' };
+    } catch (error) {
+      this.logger.error('Failed to queue magic link email:', error);
+      throw error;
+    }
+  }
+
+  async sendEmailChangeConfirmationEmail(to: string, name: string, token: string) {
+    try {
+      const baseUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000');
+      const confirmUrl = `${baseUrl}/confirm-email-change?token=${token}`;
+
+      const job = await this.emailQueue.add(
+        'confirm-email-change',
+        {
+          to,
+          name,
+          confirmUrl,
+        },
+        {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 2000,
+          },
+        },
+      );
+
+      this.logger.log(`Email change confirmation job queued with ID: ${job.id}`);
+      return { jobId: job.id, status: 'queued' };
+    } catch (error) {
+      this.logger.error('Failed to queue email change confirmation:', error);
+      throw error;
+    }
+  }
+
+  async sendDataExportReadyEmail(to: string, name: string, token: string, expiresAt: Date) {
+    try {
+      const baseUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000');
+      const downloadUrl = `${baseUrl}/download-export?token=${token}`;
+
+      const job = await this.emailQueue.add(
+        'data-export-ready',
+        {
+          to,
+          name,
+          downloadUrl,
+          availableUntil: expiresAt.toUTCString(),
+        },
+        {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 2000,
+          },
+        },
+      );
+
+      this.logger.log(`Data export email job queued with ID: ${job.id}`);
+      return { jobId: job.id, status: 'queued' };
+    } catch (error) {
+      this.logger.error('Failed to queue data export email:', error);
+      throw error;
+    }
+  }
+
+  async sendSecurityAlertEmail(to: string, name: string, alert: SecurityAlert) {
+    try {
+      const job = await this.emailQueue.add(
+        'security-alert',
+        {
+          to,
+          name,
+          ...alert,
+        },
+        {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 2000,
+          },
+        },
+      );
+
+      this.logger.log(`Security alert email job queued with ID: ${job.id}`);
+      return { jobId: job.id, status: 'queued' };
+    } catch (error) {
+      this.logger.error('Failed to queue security alert email:', error);
+      throw error;
+    }
+  }
+
   async getJobStatus(jobId: string | number) {
     try {
       const job = await this.emailQueue.getJob(jobId);
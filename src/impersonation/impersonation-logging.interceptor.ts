@@ -0,0 +1,31 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { CurrentUserData } from '../auth/decorators/current-user.decorator';
+
+/**
+ * Logs every request made with an impersonation token, so that what an
+ * admin did while acting as a user can be traced afterwards.
+ */
+@Injectable()
+export class ImpersonationLoggingInterceptor implements NestInterceptor {
+  private readonly logger = new Logger('Impersonation');
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest();
+    const user: CurrentUserData | undefined = request.user;
+
+    if (user?.impersonatorId) {
+      this.logger.log(
+        `[impersonation ${user.impersonationId}] ${user.impersonatorId} as ${user.id}: ${request.method} ${request.originalUrl}`,
+      );
+    }
+
+    return next.handle();
+  }
+}
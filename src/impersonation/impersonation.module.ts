@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { JwtModule } from '@nestjs/jwt';
+import { ImpersonationService } from './impersonation.service';
+import { ImpersonationLoggingInterceptor } from './impersonation-logging.interceptor';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule, JwtModule.register({})],
+  providers: [
+    ImpersonationService,
+    { provide: APP_INTERCEPTOR, useClass: ImpersonationLoggingInterceptor },
+  ],
+  exports: [ImpersonationService],
+})
+export class ImpersonationModule {}
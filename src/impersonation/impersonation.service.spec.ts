@@ -0,0 +1,216 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { generateKeyPairSync } from 'crypto';
+import { ImpersonationService } from './impersonation.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { JwtKeysService } from '../crypto/jwt-keys.service';
+import { authConfig } from '../config/auth.config';
+
+describe('ImpersonationService', () => {
+  let service: ImpersonationService;
+  let prismaService: PrismaService;
+  let jwtService: JwtService;
+  let jwtKeysService: JwtKeysService;
+
+  const signingKey = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    .privateKey.export({ type: 'pkcs8', format: 'pem' })
+    .toString();
+
+  const targetUser = {
+    id: 'target-123',
+    email: 'target@example.com',
+    name: 'Target User',
+    role: 'USER' as const,
+  };
+
+  const activeSession = {
+    id: 'impersonation-123',
+    actorId: 'admin-123',
+    targetUserId: targetUser.id,
+    endedAt: null,
+    expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+    actor: { role: 'ADMIN' as const, suspendedAt: null },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImpersonationService,
+        {
+          provide: PrismaService,
+          useValue: {
+            impersonationSession: {
+              create: jest.fn(),
+              findMany: jest.fn(),
+              findUnique: jest.fn(),
+              updateMany: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: JwtService,
+          useValue: new JwtService(),
+        },
+        JwtKeysService,
+        { provide: authConfig.KEY, useValue: authConfig() },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) =>
+              key === 'JWT_PRIVATE_KEY' ? signingKey : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImpersonationService>(ImpersonationService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    jwtService = module.get<JwtService>(JwtService);
+    jwtKeysService = module.get<JwtKeysService>(JwtKeysService);
+  });
+
+  describe('start', () => {
+    it('should issue a token naming both the user and the admin', async () => {
+      const result = await service.start(
+        'admin-123',
+        targetUser,
+        'Reproducing an empty listening queue',
+        { ipAddress: '203.0.113.7', userAgent: 'Admin console' },
+      );
+
+      const payload = await jwtService.verifyAsync(
+        result.accessToken,
+        jwtKeysService.verifyOptions(result.accessToken),
+      );
+      expect(payload).toMatchObject({
+        sub: targetUser.id,
+        act: { sub: 'admin-123' },
+        jti: result.impersonationId,
+      });
+      expect(payload.sid).toBeUndefined();
+      expect(result.expiresAt.getTime()).toBe(payload.exp * 1000);
+      expect(prismaService.impersonationSession.create).toHaveBeenCalledWith({
+        data: {
+          id: result.impersonationId,
+          actorId: 'admin-123',
+          targetUserId: targetUser.id,
+          reason: 'Reproducing an empty listening queue',
+          expiresAt: result.expiresAt,
+          ipAddress: '203.0.113.7',
+          userAgent: 'Admin console',
+        },
+      });
+    });
+
+    it('should default to a 15 minute lifetime', async () => {
+      const result = await service.start('admin-123', targetUser, 'Debugging');
+
+      const minutes = (result.expiresAt.getTime() - Date.now()) / 60000;
+      expect(Math.round(minutes)).toBe(15);
+    });
+
+    it('should throw InternalServerErrorException on database error', async () => {
+      jest
+        .spyOn(prismaService.impersonationSession, 'create')
+        .mockRejectedValue(new Error('Database error'));
+
+      await expect(
+        service.start('admin-123', targetUser, 'Debugging'),
+      ).rejects.toThrow(InternalServerErrorException);
+    });
+  });
+
+  describe('end', () => {
+    it('should only end sessions that are still running', async () => {
+      jest
+        .spyOn(prismaService.impersonationSession, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+
+      await service.end('impersonation-123', 'admin-123');
+
+      expect(
+        prismaService.impersonationSession.updateMany,
+      ).toHaveBeenCalledWith({
+        where: {
+          id: 'impersonation-123',
+          endedAt: null,
+          expiresAt: { gt: expect.any(Date) },
+        },
+        data: { endedAt: expect.any(Date) },
+      });
+    });
+
+    it('should throw NotFoundException when nothing was ended', async () => {
+      jest
+        .spyOn(prismaService.impersonationSession, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.end('impersonation-123', 'admin-123'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('isActive', () => {
+    const findSession = (overrides: Record<string, unknown> = {}) =>
+      jest
+        .spyOn(prismaService.impersonationSession, 'findUnique')
+        .mockResolvedValue({ ...activeSession, ...overrides } as any);
+
+    it('should accept a running session of the same admin', async () => {
+      findSession();
+
+      await expect(
+        service.isActive('impersonation-123', 'admin-123'),
+      ).resolves.toBe(true);
+    });
+
+    it('should reject ended or expired sessions', async () => {
+      findSession({ endedAt: new Date() });
+      await expect(
+        service.isActive('impersonation-123', 'admin-123'),
+      ).resolves.toBe(false);
+
+      findSession({ expiresAt: new Date(Date.now() - 1000) });
+      await expect(
+        service.isActive('impersonation-123', 'admin-123'),
+      ).resolves.toBe(false);
+    });
+
+    it('should reject tokens naming another admin', async () => {
+      findSession();
+
+      await expect(
+        service.isActive('impersonation-123', 'admin-456'),
+      ).resolves.toBe(false);
+    });
+
+    it('should reject sessions of admins who lost the permission', async () => {
+      findSession({ actor: { role: 'SUPPORT', suspendedAt: null } });
+      await expect(
+        service.isActive('impersonation-123', 'admin-123'),
+      ).resolves.toBe(false);
+
+      findSession({ actor: { role: 'ADMIN', suspendedAt: new Date() } });
+      await expect(
+        service.isActive('impersonation-123', 'admin-123'),
+      ).resolves.toBe(false);
+    });
+
+    it('should reject unknown sessions', async () => {
+      jest
+        .spyOn(prismaService.impersonationSession, 'findUnique')
+        .mockResolvedValue(null);
+
+      await expect(service.isActive('unknown', 'admin-123')).resolves.toBe(
+        false,
+      );
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  Inject,
+  Injectable,
+  HttpException,
+  NotFoundException,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { User } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { JwtKeysService } from '../crypto/jwt-keys.service';
+import { ClientInfoData } from '../auth/decorators/client-info.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { hasPermission } from '../auth/permissions';
+import { authConfig, AuthConfig } from '../config/auth.config';
+
+const USER_SUMMARY_SELECT = { id: true, email: true, name: true };
+
+@Injectable()
+export class ImpersonationService {
+  private readonly logger = new Logger(ImpersonationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwtService: JwtService,
+    private readonly jwtKeysService: JwtKeysService,
+    @Inject(authConfig.KEY) private readonly authConfig: AuthConfig,
+  ) {}
+
+  /**
+   * Opens an impersonation session and issues an access token for it.
+   * There is no refresh token: once it expires the admin starts a new one.
+   */
+  async start(
+    actorId: string,
+    user: Pick<User, 'id' | 'email' | 'name' | 'role'>,
+    reason: string,
+    client?: ClientInfoData,
+  ) {
+    try {
+      const id = randomUUID();
+      const expiry = this.authConfig.impersonationTokenExpiry;
+
+      const payload: JwtPayload = {
+        sub: user.id,
+        email: user.email,
+        name: user.name || '',
+        role: user.role,
+        jti: id,
+        act: { sub: actorId },
+      };
+
+      const accessToken = await this.jwtService.signAsync(payload, {
+        ...this.jwtKeysService.signOptions(),
+        expiresIn: expiry.seconds,
+      });
+      const { exp } = this.jwtService.decode<{ exp: number }>(accessToken);
+      const expiresAt = new Date(exp * 1000);
+
+      await this.prisma.impersonationSession.create({
+        data: {
+          id,
+          actorId,
+          targetUserId: user.id,
+          reason,
+          expiresAt,
+          ipAddress: client?.ipAddress,
+          userAgent: client?.userAgent,
+        },
+      });
+
+      this.logger.log(
+        `Impersonation ${id} started by ${actorId} for user ${user.id}`,
+      );
+
+      return {
+        impersonationId: id,
+        accessToken,
+        tokenType: 'Bearer',
+        expiresIn: expiry.toString(),
+        expiresAt,
+      };
+    } catch (error) {
+      throw new InternalServerErrorException('Failed to start impersonation');
+    }
+  }
+
+  async findActive() {
+    try {
+      return await this.prisma.impersonationSession.findMany({
+        where: { endedAt: null, expiresAt: { gt: new Date() } },
+        select: {
+          id: true,
+          reason: true,
+          actor: { select: USER_SUMMARY_SELECT },
+          targetUser: { select: USER_SUMMARY_SELECT },
+          expiresAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      throw new InternalServerErrorException(
+        'Failed to list impersonation sessions',
+      );
+    }
+  }
+
+  async end(id: string, endedBy: string) {
+    try {
+      const { count } = await this.prisma.impersonationSession.updateMany({
+        where: { id, endedAt: null, expiresAt: { gt: new Date() } },
+        data: { endedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new NotFoundException('Impersonation session not found');
+      }
+
+      this.logger.log(`Impersonation ${id} ended by ${endedBy}`);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to end impersonation');
+    }
+  }
+
+  /**
+   * Whether a token issued for this session may still be used. Besides the
+   * session itself, the admin behind it must still be allowed to impersonate.
+   */
+  async isActive(id: string, actorId: string): Promise<boolean> {
+    const session = await this.prisma.impersonationSession.findUnique({
+      where: { id },
+      include: { actor: { select: { role: true, suspendedAt: true } } },
+    });
+
+    return (
+      !!session &&
+      !session.endedAt &&
+      session.expiresAt > new Date() &&
+      session.actorId === actorId &&
+      !!session.actor &&
+      !session.actor.suspendedAt &&
+      hasPermission(session.actor.role, 'users:impersonate')
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class DisputeLoginDto {
+  @ApiProperty({
+    example: 'a1b2c3d4e5f6...',
+    description: 'Token from the "this wasn\'t me" link in a new sign-in alert',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Token is required' })
+  token: string;
+}
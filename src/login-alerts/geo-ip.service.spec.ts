@@ -0,0 +1,97 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { open } from 'maxmind';
+import { GeoIpService } from './geo-ip.service';
+import { authConfig } from '../config/auth.config';
+
+jest.mock('maxmind', () => ({
+  open: jest.fn(),
+}));
+
+jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+describe('GeoIpService', () => {
+  const reader = { get: jest.fn() };
+
+  const createService = async (geoIpDatabasePath: string | null) => {
+    const config = authConfig();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GeoIpService,
+        {
+          provide: authConfig.KEY,
+          useValue: {
+            ...config,
+            loginAlerts: { ...config.loginAlerts, geoIpDatabasePath },
+          },
+        },
+      ],
+    }).compile();
+
+    const service = module.get<GeoIpService>(GeoIpService);
+    await service.onModuleInit();
+
+    return service;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (open as jest.Mock).mockResolvedValue(reader);
+  });
+
+  it('should describe an address from the database', async () => {
+    reader.get.mockReturnValue({
+      city: { names: { en: 'Porto' } },
+      subdivisions: [{ names: { en: 'Porto District' } }],
+      country: { names: { en: 'Portugal' } },
+    });
+    const service = await createService('/var/lib/geoip/City.mmdb');
+
+    expect(service.enabled).toBe(true);
+    expect(service.locate('203.0.113.42')).toBe(
+      'Porto, Porto District, Portugal',
+    );
+    expect(open).toHaveBeenCalledWith('/var/lib/geoip/City.mmdb');
+  });
+
+  it('should fall back to the parts the database knows', async () => {
+    reader.get.mockReturnValue({ country: { names: { en: 'Portugal' } } });
+    const service = await createService('/var/lib/geoip/City.mmdb');
+
+    expect(service.locate('203.0.113.42')).toBe('Portugal');
+  });
+
+  it('should look up IPv4-mapped addresses as IPv4', async () => {
+    reader.get.mockReturnValue(null);
+    const service = await createService('/var/lib/geoip/City.mmdb');
+
+    expect(service.locate('::ffff:203.0.113.42')).toBeNull();
+    expect(reader.get).toHaveBeenCalledWith('203.0.113.42');
+  });
+
+  it('should not locate addresses the reader rejects', async () => {
+    reader.get.mockImplementation(() => {
+      throw new Error('Invalid IP address');
+    });
+    const service = await createService('/var/lib/geoip/City.mmdb');
+
+    expect(service.locate('not-an-ip')).toBeNull();
+    expect(Logger.prototype.error).toHaveBeenCalled();
+  });
+
+  it('should be disabled without a database', async () => {
+    const service = await createService(null);
+
+    expect(service.enabled).toBe(false);
+    expect(service.locate('203.0.113.42')).toBeNull();
+    expect(open).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to start with a database it cannot open', async () => {
+    (open as jest.Mock).mockRejectedValue(new Error('ENOENT'));
+
+    await expect(createService('/missing/City.mmdb')).rejects.toThrow(
+      'GEOIP_DATABASE_PATH points to /missing/City.mmdb',
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { CityResponse, open, Reader } from 'maxmind';
+import { authConfig, AuthConfig } from '../config/auth.config';
+
+/**
+ * Approximate location of an IP address, read from a local MaxMind City
+ * database so no address is sent to a third party. Without a database every
+ * address is unknown.
+ */
+@Injectable()
+export class GeoIpService implements OnModuleInit {
+  private readonly logger = new Logger(GeoIpService.name);
+  private readonly databasePath: string | null;
+  private reader: Reader<CityResponse> | null = null;
+
+  constructor(@Inject(authConfig.KEY) { loginAlerts }: AuthConfig) {
+    this.databasePath = loginAlerts.geoIpDatabasePath;
+  }
+
+  async onModuleInit() {
+    if (!this.databasePath) {
+      return;
+    }
+
+    try {
+      this.reader = await open<CityResponse>(this.databasePath);
+    } catch (error) {
+      throw new Error(
+        `GEOIP_DATABASE_PATH points to ${this.databasePath}, which is not a readable GeoIP database: ${error.message}`,
+      );
+    }
+  }
+
+  get enabled() {
+    return this.reader !== null;
+  }
+
+  /** "City, Region, Country" with whatever parts the database knows, or null. */
+  locate(ipAddress?: string): string | null {
+    if (!this.reader || !ipAddress) {
+      return null;
+    }
+
+    try {
+      // Express reports IPv4 clients of dual-stack sockets as IPv4-mapped IPv6
+      const result = this.reader.get(ipAddress.replace(/^::ffff:/, ''));
+      const parts = [
+        result?.city?.names.en,
+        result?.subdivisions?.[0]?.names.en,
+        result?.country?.names.en,
+      ].filter(Boolean);
+
+      return parts.length > 0 ? parts.join(', ') : null;
+    } catch (error) {
+      this.logger.error(`Failed to locate ${ipAddress}:`, error);
+      return null;
+    }
+  }
+}
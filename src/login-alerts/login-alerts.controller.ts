@@ -0,0 +1,37 @@
+import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { LoginAlertsService } from './login-alerts.service';
+import { DisputeLoginDto } from './dto/dispute-login.dto';
+import {
+  ClientInfo,
+  ClientInfoData,
+} from '../auth/decorators/client-info.decorator';
+
+@ApiTags('Authentication')
+@Controller('auth/login-dispute')
+export class LoginAlertsController {
+  constructor(private readonly loginAlertsService: LoginAlertsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Report a sign-in from a new device as not yours',
+    description:
+      'Follows the link of a new sign-in alert. Signs out every session, removes the current password and emails a link to set a new one.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sessions signed out and password reset email sent',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid or expired link',
+  })
+  @ApiBody({ type: DisputeLoginDto })
+  async dispute(
+    @Body() disputeLoginDto: DisputeLoginDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.loginAlertsService.dispute(disputeLoginDto.token, client);
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { LoginAlertsService } from './login-alerts.service';
+import { LoginAlertsController } from './login-alerts.controller';
+import { GeoIpService } from './geo-ip.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { UsersModule } from '../users/users.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { EmailModule } from '../email/email.module';
+import { SecurityEventsModule } from '../security-events/security-events.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    UsersModule,
+    SessionsModule,
+    EmailModule,
+    SecurityEventsModule,
+  ],
+  controllers: [LoginAlertsController],
+  providers: [LoginAlertsService, GeoIpService],
+  exports: [LoginAlertsService],
+})
+export class LoginAlertsModule {}
@@ -0,0 +1,471 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoginAlertsService } from './login-alerts.service';
+import { GeoIpService } from './geo-ip.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { UsersService } from '../users/users.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { EmailService } from '../email/email.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { authConfig } from '../config/auth.config';
+
+jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+describe('LoginAlertsService', () => {
+  let service: LoginAlertsService;
+  let prismaService: PrismaService;
+  let usersService: UsersService;
+  let sessionsService: SessionsService;
+  let emailService: EmailService;
+  let securityEventsService: SecurityEventsService;
+
+  const userId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const mockUser = {
+    id: userId,
+    email: 'test@example.com',
+    name: 'Test User',
+  };
+
+  const client = {
+    ipAddress: '203.0.113.42',
+    userAgent: 'Mozilla/5.0 Chrome/120.0',
+  };
+
+  const disputedDevice = {
+    id: 'device-123',
+    userId,
+    ipAddress: '203.0.113.42',
+    userAgent: 'Mozilla/5.0 Chrome/120.0',
+    location: 'Lisbon, Portugal',
+    disputeExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    firstSeenAt: new Date(Date.now() - 10 * 60 * 1000),
+    user: mockUser,
+  };
+
+  const sentAlert = () =>
+    (emailService.sendSecurityAlertEmail as jest.Mock).mock.calls[0][2];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginAlertsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            knownDevice: {
+              findUnique: jest.fn().mockResolvedValue(null),
+              count: jest.fn().mockResolvedValue(1),
+              create: jest.fn(),
+              update: jest.fn(),
+              deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+            },
+            personalAccessToken: {
+              deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+            },
+            webAuthnCredential: {
+              deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+            },
+            userIdentity: {
+              deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+            },
+            mfaRecoveryCode: {
+              deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+            },
+            user: {
+              updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+            },
+            $transaction: jest.fn((operations: Promise<unknown>[]) =>
+              Promise.all(operations),
+            ),
+          },
+        },
+        {
+          provide: UsersService,
+          useValue: {
+            clearPassword: jest.fn(),
+            setPasswordResetToken: jest.fn(),
+          },
+        },
+        {
+          provide: SessionsService,
+          useValue: {
+            revokeAll: jest.fn().mockResolvedValue(3),
+            describeDevice: jest.fn().mockReturnValue({
+              platform: 'Windows',
+              label: 'Chrome on Windows',
+            }),
+          },
+        },
+        {
+          provide: TokenHashService,
+          useValue: {
+            hash: jest.fn((token: string) => `hashed-${token}`),
+          },
+        },
+        {
+          provide: EmailService,
+          useValue: {
+            sendSecurityAlertEmail: jest.fn(),
+            sendPasswordResetEmail: jest.fn(),
+          },
+        },
+        {
+          provide: SecurityEventsService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+        {
+          provide: GeoIpService,
+          useValue: {
+            locate: jest.fn().mockReturnValue('Lisbon, Portugal'),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+          },
+        },
+        { provide: authConfig.KEY, useValue: authConfig() },
+      ],
+    }).compile();
+
+    service = module.get<LoginAlertsService>(LoginAlertsService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    usersService = module.get<UsersService>(UsersService);
+    sessionsService = module.get<SessionsService>(SessionsService);
+    emailService = module.get<EmailService>(EmailService);
+    securityEventsService = module.get<SecurityEventsService>(
+      SecurityEventsService,
+    );
+  });
+
+  describe('checkSignIn', () => {
+    it('should only refresh a device the user has signed in from before', async () => {
+      jest
+        .spyOn(prismaService.knownDevice, 'findUnique')
+        .mockResolvedValue({ id: 'device-123' } as any);
+
+      await expect(service.checkSignIn(mockUser, client)).resolves.toBe(false);
+
+      expect(prismaService.knownDevice.findUnique).toHaveBeenCalledWith({
+        where: {
+          userId_fingerprint: {
+            userId,
+            fingerprint: 'hashed-Chrome on Windows|203.0.113.42',
+          },
+        },
+        select: { id: true },
+      });
+      expect(prismaService.knownDevice.update).toHaveBeenCalledWith({
+        where: { id: 'device-123' },
+        data: { lastSeenAt: expect.any(Date) },
+      });
+      expect(emailService.sendSecurityAlertEmail).not.toHaveBeenCalled();
+    });
+
+    it('should remember the first device of an account without an alert', async () => {
+      jest.spyOn(prismaService.knownDevice, 'count').mockResolvedValue(0);
+
+      await expect(service.checkSignIn(mockUser, client)).resolves.toBe(false);
+
+      expect(prismaService.knownDevice.create).toHaveBeenCalledWith({
+        data: {
+          userId,
+          fingerprint: 'hashed-Chrome on Windows|203.0.113.42',
+          userAgent: client.userAgent,
+          ipAddress: client.ipAddress,
+          location: 'Lisbon, Portugal',
+        },
+      });
+      expect(emailService.sendSecurityAlertEmail).not.toHaveBeenCalled();
+    });
+
+    it('should alert on a new device with a link to dispute it', async () => {
+      await expect(service.checkSignIn(mockUser, client)).resolves.toBe(true);
+
+      const { data } = (prismaService.knownDevice.create as jest.Mock).mock
+        .calls[0][0];
+      expect(data.disputeTokenHash).toMatch(/^hashed-[0-9a-f]{64}$/);
+      // LOGIN_DISPUTE_EXPIRY defaults to 7d
+      const window = data.disputeExpiresAt.getTime() - Date.now();
+      expect(window).toBeGreaterThan(7 * 24 * 60 * 60 * 1000 - 60 * 1000);
+      expect(window).toBeLessThanOrEqual(7 * 24 * 60 * 60 * 1000);
+
+      expect(emailService.sendSecurityAlertEmail).toHaveBeenCalledWith(
+        mockUser.email,
+        mockUser.name,
+        expect.objectContaining({
+          subject: 'New sign-in to your account',
+          actionText: "This Wasn't Me",
+        }),
+      );
+      const token = data.disputeTokenHash.replace('hashed-', '');
+      expect(sentAlert().actionUrl).toBe(
+        `http://localhost:3000/login-dispute?token=${token}`,
+      );
+      expect(sentAlert().details).toEqual(
+        expect.arrayContaining([
+          { label: 'Device', value: 'Chrome on Windows' },
+          { label: 'IP address', value: '203.0.113.42' },
+          { label: 'Location', value: 'Lisbon, Portugal' },
+        ]),
+      );
+    });
+
+    it('should tell a different network apart from the same browser', async () => {
+      await service.checkSignIn(mockUser, {
+        ...client,
+        ipAddress: '198.51.100.7',
+      });
+
+      expect(prismaService.knownDevice.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId_fingerprint: {
+              userId,
+              fingerprint: 'hashed-Chrome on Windows|198.51.100.7',
+            },
+          },
+        }),
+      );
+    });
+
+    it('should never fail the sign-in', async () => {
+      jest
+        .spyOn(emailService, 'sendSecurityAlertEmail')
+        .mockRejectedValue(new Error('Queue unavailable'));
+
+      await expect(service.checkSignIn(mockUser, client)).resolves.toBe(false);
+      expect(Logger.prototype.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('sendLockoutAlert', () => {
+    it('should tell the owner until when the account is locked', async () => {
+      const lockedUntil = new Date(Date.now() + 15 * 60 * 1000);
+
+      await service.sendLockoutAlert(mockUser, client, lockedUntil);
+
+      expect(emailService.sendSecurityAlertEmail).toHaveBeenCalledWith(
+        mockUser.email,
+        mockUser.name,
+        expect.objectContaining({
+          subject: 'Your account has been locked',
+          actionUrl: 'http://localhost:3000/forgot-password',
+        }),
+      );
+      expect(sentAlert().details).toContainEqual({
+        label: 'Locked until',
+        value: lockedUntil.toUTCString(),
+      });
+    });
+
+    it('should swallow email errors', async () => {
+      jest
+        .spyOn(emailService, 'sendSecurityAlertEmail')
+        .mockRejectedValue(new Error('Queue unavailable'));
+
+      await expect(
+        service.sendLockoutAlert(mockUser, client, new Date()),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('dispute', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(prismaService.knownDevice, 'findUnique')
+        .mockResolvedValue(disputedDevice as any);
+    });
+
+    it('should sign out everywhere and force a password reset', async () => {
+      const result = await service.dispute('dispute-token', client);
+
+      expect(result.message).toContain('All sessions were signed out');
+      expect(prismaService.knownDevice.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'device-123', disputeTokenHash: 'hashed-dispute-token' },
+      });
+      expect(sessionsService.revokeAll).toHaveBeenCalledWith(userId);
+      expect(usersService.clearPassword).toHaveBeenCalledWith(userId);
+
+      const [, resetToken, expiresAt] = (
+        usersService.setPasswordResetToken as jest.Mock
+      ).mock.calls[0];
+      expect(usersService.setPasswordResetToken).toHaveBeenCalledWith(
+        userId,
+        expect.stringMatching(/^[0-9a-f]{64}$/),
+        expect.any(Date),
+      );
+      // PASSWORD_RESET_EXPIRY defaults to 1h
+      expect(expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(
+        60 * 60 * 1000,
+      );
+      expect(emailService.sendPasswordResetEmail).toHaveBeenCalledWith(
+        mockUser.email,
+        mockUser.name,
+        mockUser.email,
+        resetToken,
+      );
+
+      expect(securityEventsService.record).toHaveBeenCalledWith({
+        userId,
+        type: 'LOGIN_DISPUTED',
+        client,
+        metadata: {
+          ipAddress: disputedDevice.ipAddress,
+          userAgent: disputedDevice.userAgent,
+          location: disputedDevice.location,
+          revokedSessions: 3,
+          revokedAccessTokens: 0,
+          removedPasskeys: 0,
+          removedIdentities: 0,
+          mfaDisabled: false,
+        },
+      });
+    });
+
+    it('should revoke every personal access token', async () => {
+      jest
+        .spyOn(prismaService.personalAccessToken, 'deleteMany')
+        .mockResolvedValue({ count: 2 });
+
+      await service.dispute('dispute-token');
+
+      expect(prismaService.personalAccessToken.deleteMany).toHaveBeenCalledWith(
+        { where: { userId } },
+      );
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: expect.objectContaining({ revokedAccessTokens: 2 }),
+        }),
+      );
+    });
+
+    it('should remove passkeys added since the disputed sign-in', async () => {
+      jest
+        .spyOn(prismaService.webAuthnCredential, 'deleteMany')
+        .mockResolvedValue({ count: 1 });
+
+      await service.dispute('dispute-token');
+
+      expect(prismaService.webAuthnCredential.deleteMany).toHaveBeenCalledWith({
+        where: { userId, createdAt: { gte: disputedDevice.firstSeenAt } },
+      });
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: expect.objectContaining({ removedPasskeys: 1 }),
+        }),
+      );
+    });
+
+    it('should unlink providers linked since the disputed sign-in', async () => {
+      await service.dispute('dispute-token');
+
+      expect(prismaService.userIdentity.deleteMany).toHaveBeenCalledWith({
+        where: { userId, createdAt: { gte: disputedDevice.firstSeenAt } },
+      });
+    });
+
+    it('should turn off two-factor set up since the disputed sign-in', async () => {
+      jest
+        .spyOn(prismaService.user, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+
+      await service.dispute('dispute-token');
+
+      expect(prismaService.mfaRecoveryCode.deleteMany).toHaveBeenCalledWith({
+        where: {
+          userId,
+          user: { mfaEnabledAt: { gte: disputedDevice.firstSeenAt } },
+        },
+      });
+      expect(prismaService.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: userId,
+          mfaEnabledAt: { gte: disputedDevice.firstSeenAt },
+        },
+        data: {
+          mfaEnabled: false,
+          mfaSecret: null,
+          mfaEnabledAt: null,
+          mfaLastUsedStep: null,
+        },
+      });
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: expect.objectContaining({ mfaDisabled: true }),
+        }),
+      );
+    });
+
+    it('should clear the password before issuing the reset token', async () => {
+      const order: string[] = [];
+      (usersService.clearPassword as jest.Mock).mockImplementation(async () => {
+        order.push('clear');
+      });
+      (usersService.setPasswordResetToken as jest.Mock).mockImplementation(
+        async () => {
+          order.push('reset');
+        },
+      );
+
+      await service.dispute('dispute-token');
+
+      expect(order).toEqual(['clear', 'reset']);
+    });
+
+    it('should refuse unknown links', async () => {
+      jest
+        .spyOn(prismaService.knownDevice, 'findUnique')
+        .mockResolvedValue(null);
+
+      await expect(service.dispute('unknown-token')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(sessionsService.revokeAll).not.toHaveBeenCalled();
+    });
+
+    it('should refuse expired links', async () => {
+      jest.spyOn(prismaService.knownDevice, 'findUnique').mockResolvedValue({
+        ...disputedDevice,
+        disputeExpiresAt: new Date(Date.now() - 1000),
+      } as any);
+
+      await expect(service.dispute('dispute-token')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should only act on the first of two racing clicks', async () => {
+      jest
+        .spyOn(prismaService.knownDevice, 'deleteMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(service.dispute('dispute-token')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(sessionsService.revokeAll).not.toHaveBeenCalled();
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+      expect(usersService.clearPassword).not.toHaveBeenCalled();
+    });
+
+    it('should throw InternalServerErrorException on database errors', async () => {
+      jest
+        .spyOn(prismaService.knownDevice, 'findUnique')
+        .mockRejectedValue(new Error('Database error'));
+
+      await expect(service.dispute('dispute-token')).rejects.toThrow(
+        InternalServerErrorException,
+      );
+    });
+  });
+});
@@ -0,0 +1,299 @@
+import {
+  Inject,
+  Injectable,
+  HttpException,
+  BadRequestException,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { UsersService } from '../users/users.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { EmailService } from '../email/email.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { ClientInfoData } from '../auth/decorators/client-info.decorator';
+import { authConfig, AuthConfig } from '../config/auth.config';
+import { GeoIpService } from './geo-ip.service';
+
+interface AlertRecipient {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+@Injectable()
+export class LoginAlertsService {
+  private readonly logger = new Logger(LoginAlertsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
+    private readonly tokenHashService: TokenHashService,
+    private readonly emailService: EmailService,
+    private readonly securityEventsService: SecurityEventsService,
+    private readonly geoIpService: GeoIpService,
+    private readonly configService: ConfigService,
+    @Inject(authConfig.KEY) private readonly authConfig: AuthConfig,
+  ) {}
+
+  /**
+   * Remembers the device a user just signed in from and emails them when it
+   * is one they have not used before. The first device of an account is
+   * remembered silently, since there is nothing to compare it with. Failures
+   * are logged rather than thrown, so an alert never fails the sign-in.
+   *
+   * Returns whether an alert was sent.
+   */
+  async checkSignIn(user: AlertRecipient, client?: ClientInfoData) {
+    try {
+      const fingerprint = this.fingerprint(client);
+      const known = await this.prisma.knownDevice.findUnique({
+        where: { userId_fingerprint: { userId: user.id, fingerprint } },
+        select: { id: true },
+      });
+      if (known) {
+        await this.prisma.knownDevice.update({
+          where: { id: known.id },
+          data: { lastSeenAt: new Date() },
+        });
+        return false;
+      }
+
+      const isFirstDevice =
+        (await this.prisma.knownDevice.count({
+          where: { userId: user.id },
+        })) === 0;
+      const location = this.geoIpService.locate(client?.ipAddress);
+      const disputeToken = isFirstDevice
+        ? null
+        : randomBytes(32).toString('hex');
+
+      await this.prisma.knownDevice.create({
+        data: {
+          userId: user.id,
+          fingerprint,
+          userAgent: client?.userAgent,
+          ipAddress: client?.ipAddress,
+          location,
+          ...(disputeToken && {
+            disputeTokenHash: this.tokenHashService.hash(disputeToken),
+            disputeExpiresAt: this.authConfig.loginAlerts.disputeExpiry.from(
+              new Date(),
+            ),
+          }),
+        },
+      });
+
+      if (!disputeToken) {
+        return false;
+      }
+
+      await this.emailService.sendSecurityAlertEmail(
+        user.email,
+        user.name || '',
+        {
+          subject: 'New sign-in to your account',
+          heading: 'New sign-in to your account',
+          message:
+            'Your account was just signed in to from a device or network it has not been used from before. If this was you, there is nothing to do. If not, sign out every session and reset your password now.',
+          details: this.describeClient(client, location),
+          actionUrl: `${this.frontendUrl()}/login-dispute?token=${disputeToken}`,
+          actionText: "This Wasn't Me",
+        },
+      );
+
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Failed to check the sign-in of user ${user.id} for a new device:`,
+        error,
+      );
+      return false;
+    }
+  }
+
+  /** Tells the owner their account was locked after too many failed attempts. */
+  async sendLockoutAlert(
+    user: AlertRecipient,
+    client: ClientInfoData | undefined,
+    lockedUntil: Date,
+  ) {
+    try {
+      await this.emailService.sendSecurityAlertEmail(
+        user.email,
+        user.name || '',
+        {
+          subject: 'Your account has been locked',
+          heading: 'Your account has been locked',
+          message:
+            'Too many failed sign-in attempts were made on your account, so it has been locked for a while. If these attempts were not yours, reset your password once the lock is lifted.',
+          details: [
+            ...this.describeClient(
+              client,
+              this.geoIpService.locate(client?.ipAddress),
+            ),
+            { label: 'Locked until', value: lockedUntil.toUTCString() },
+          ],
+          actionUrl: `${this.frontendUrl()}/forgot-password`,
+          actionText: 'Reset Password',
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send the lockout alert of user ${user.id}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * The "this wasn't me" link of a new sign-in alert. Signs out every
+   * session, revokes personal access tokens, drops sign-in methods added
+   * since the disputed sign-in, removes the password so it cannot be used
+   * again, and emails a reset link to set a new one. The device is
+   * forgotten, so signing in from it again raises a new alert.
+   */
+  async dispute(token: string, client?: ClientInfoData) {
+    try {
+      const disputeTokenHash = this.tokenHashService.hash(token);
+      const device = await this.prisma.knownDevice.findUnique({
+        where: { disputeTokenHash },
+        include: { user: { select: { id: true, email: true, name: true } } },
+      });
+      if (
+        !device ||
+        !device.disputeExpiresAt ||
+        device.disputeExpiresAt <= new Date()
+      ) {
+        throw new BadRequestException('Invalid or expired link');
+      }
+
+      // Conditional on the token so two clicks racing each other cannot both pass
+      const { count } = await this.prisma.knownDevice.deleteMany({
+        where: { id: device.id, disputeTokenHash },
+      });
+      if (count !== 1) {
+        throw new BadRequestException('Invalid or expired link');
+      }
+
+      const { user } = device;
+      const revokedSessions = await this.sessionsService.revokeAll(user.id);
+      const removedCredentials = await this.removeCredentialsSince(
+        user.id,
+        device.firstSeenAt,
+      );
+      await this.usersService.clearPassword(user.id);
+
+      const resetToken = randomBytes(32).toString('hex');
+      await this.usersService.setPasswordResetToken(
+        user.id,
+        resetToken,
+        this.authConfig.passwordResetExpiry.from(new Date()),
+      );
+      await this.emailService.sendPasswordResetEmail(
+        user.email,
+        user.name || '',
+        user.email,
+        resetToken,
+      );
+
+      await this.securityEventsService.record({
+        userId: user.id,
+        type: 'LOGIN_DISPUTED',
+        client,
+        metadata: {
+          ipAddress: device.ipAddress,
+          userAgent: device.userAgent,
+          location: device.location,
+          revokedSessions,
+          ...removedCredentials,
+        },
+      });
+
+      return {
+        message:
+          'All sessions were signed out. Check your email for a link to set a new password.',
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to dispute sign-in');
+    }
+  }
+
+  /**
+   * Whoever signed in could have added a way back in, so every personal
+   * access token goes, along with passkeys, linked providers and two-factor
+   * set up since. Older ones are left to the owner.
+   */
+  private async removeCredentialsSince(userId: string, since: Date) {
+    const sinceFilter = { gte: since };
+    const [tokens, passkeys, identities, , mfa] =
+      await this.prisma.$transaction([
+        this.prisma.personalAccessToken.deleteMany({ where: { userId } }),
+        this.prisma.webAuthnCredential.deleteMany({
+          where: { userId, createdAt: sinceFilter },
+        }),
+        this.prisma.userIdentity.deleteMany({
+          where: { userId, createdAt: sinceFilter },
+        }),
+        this.prisma.mfaRecoveryCode.deleteMany({
+          where: { userId, user: { mfaEnabledAt: sinceFilter } },
+        }),
+        this.prisma.user.updateMany({
+          where: { id: userId, mfaEnabledAt: sinceFilter },
+          data: {
+            mfaEnabled: false,
+            mfaSecret: null,
+            mfaEnabledAt: null,
+            mfaLastUsedStep: null,
+          },
+        }),
+      ]);
+
+    return {
+      revokedAccessTokens: tokens.count,
+      removedPasskeys: passkeys.count,
+      removedIdentities: identities.count,
+      mfaDisabled: mfa.count === 1,
+    };
+  }
+
+  /**
+   * Browser and platform rather than the full user agent, so a browser
+   * update does not make a known device look new.
+   */
+  private fingerprint(client?: ClientInfoData) {
+    const { label } = this.sessionsService.describeDevice(client?.userAgent);
+
+    return this.tokenHashService.hash(
+      `${label || client?.userAgent || ''}|${client?.ipAddress || ''}`,
+    );
+  }
+
+  private describeClient(
+    client: ClientInfoData | undefined,
+    location: string | null,
+  ) {
+    const { label } = this.sessionsService.describeDevice(client?.userAgent);
+
+    return [
+      { label: 'Device', value: label || client?.userAgent || 'Unknown' },
+      { label: 'IP address', value: client?.ipAddress || 'Unknown' },
+      { label: 'Location', value: location || 'Unknown' },
+      { label: 'Time', value: new Date().toUTCString() },
+    ];
+  }
+
+  private frontendUrl() {
+    return this.configService.get<string>(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+  }
+}
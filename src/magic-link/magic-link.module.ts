@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { MagicLinkService } from './magic-link.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { EmailModule } from '../email/email.module';
+import { SessionsModule } from '../sessions/sessions.module';
+
+@Module({
+  imports: [PrismaModule, EmailModule, SessionsModule],
+  providers: [MagicLinkService],
+  exports: [MagicLinkService],
+})
+export class MagicLinkModule {}
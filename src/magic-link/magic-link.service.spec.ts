@@ -0,0 +1,268 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  InternalServerErrorException,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { MagicLinkService } from './magic-link.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { EmailService } from '../email/email.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { authConfig } from '../config/auth.config';
+
+jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+describe('MagicLinkService', () => {
+  let service: MagicLinkService;
+  let prismaService: PrismaService;
+  let emailService: EmailService;
+  let sessionsService: SessionsService;
+
+  const mockUser = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    email: 'test@example.com',
+    name: 'Test User',
+    passwordHash: 'hashedPassword',
+    emailVerified: true,
+  };
+
+  const storedLink = {
+    id: 'link-123',
+    userId: mockUser.id,
+    email: mockUser.email,
+    tokenHash: 'hashed-token-123',
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    usedAt: null,
+    createdAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MagicLinkService,
+        { provide: authConfig.KEY, useValue: authConfig() },
+        {
+          provide: PrismaService,
+          useValue: {
+            user: {
+              findUnique: jest.fn(),
+              create: jest.fn((args) => ({ id: 'new-user', ...args.data })),
+              update: jest.fn((args) => ({ ...mockUser, ...args.data })),
+            },
+            magicLinkToken: {
+              create: jest.fn(),
+              findFirst: jest.fn(),
+              findUnique: jest.fn(),
+              updateMany: jest.fn(),
+              deleteMany: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: TokenHashService,
+          useValue: {
+            hash: jest.fn((token: string) => `hashed-${token}`),
+          },
+        },
+        {
+          provide: EmailService,
+          useValue: {
+            sendMagicLinkEmail: jest.fn(),
+          },
+        },
+        {
+          provide: SessionsService,
+          useValue: {
+            revokeAll: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MagicLinkService>(MagicLinkService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    emailService = module.get<EmailService>(EmailService);
+    sessionsService = module.get<SessionsService>(SessionsService);
+
+    jest.clearAllMocks();
+  });
+
+  describe('send', () => {
+    it('should store a hashed token and email the plain one', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(mockUser as any);
+
+      await service.send('Test@Example.com');
+
+      const { data } = (prismaService.magicLinkToken.create as jest.Mock).mock
+        .calls[0][0];
+      const token = (emailService.sendMagicLinkEmail as jest.Mock).mock
+        .calls[0][2];
+
+      expect(data).toMatchObject({
+        userId: mockUser.id,
+        email: 'test@example.com',
+        tokenHash: `hashed-${token}`,
+      });
+      expect(data.expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(
+        15 * 60 * 1000,
+      );
+      expect(emailService.sendMagicLinkEmail).toHaveBeenCalledWith(
+        'test@example.com',
+        'Test User',
+        token,
+      );
+    });
+
+    it('should invalidate earlier unused links for the address', async () => {
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(null);
+
+      await service.send('new@example.com');
+
+      expect(prismaService.magicLinkToken.deleteMany).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { email: 'new@example.com', usedAt: null },
+            { expiresAt: { lt: expect.any(Date) } },
+          ],
+        },
+      });
+    });
+
+    it('should send links to addresses without an account', async () => {
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(null);
+
+      await service.send('new@example.com');
+
+      expect(prismaService.magicLinkToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: undefined,
+          email: 'new@example.com',
+        }),
+      });
+      expect(emailService.sendMagicLinkEmail).toHaveBeenCalled();
+    });
+
+    it('should not send another link to an address within a minute', async () => {
+      jest
+        .spyOn(prismaService.magicLinkToken, 'findFirst')
+        .mockResolvedValue(storedLink);
+
+      await service.send('Test@Example.com');
+
+      expect(prismaService.magicLinkToken.findFirst).toHaveBeenCalledWith({
+        where: {
+          email: 'test@example.com',
+          createdAt: { gt: expect.any(Date) },
+        },
+        select: { id: true },
+      });
+      expect(prismaService.magicLinkToken.deleteMany).not.toHaveBeenCalled();
+      expect(prismaService.magicLinkToken.create).not.toHaveBeenCalled();
+      expect(emailService.sendMagicLinkEmail).not.toHaveBeenCalled();
+    });
+
+    it('should throw InternalServerErrorException when the email cannot be queued', async () => {
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(null);
+      jest
+        .spyOn(emailService, 'sendMagicLinkEmail')
+        .mockRejectedValue(new Error('Queue error'));
+
+      await expect(service.send('new@example.com')).rejects.toThrow(
+        InternalServerErrorException,
+      );
+    });
+  });
+
+  describe('consume', () => {
+    it('should mark the link used and return its user', async () => {
+      jest
+        .spyOn(prismaService.magicLinkToken, 'findUnique')
+        .mockResolvedValue(storedLink);
+      jest
+        .spyOn(prismaService.magicLinkToken, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(mockUser as any);
+
+      const user = await service.consume('token-123');
+
+      expect(user).toBe(mockUser);
+      expect(prismaService.magicLinkToken.updateMany).toHaveBeenCalledWith({
+        where: {
+          tokenHash: 'hashed-token-123',
+          usedAt: null,
+          expiresAt: { gt: expect.any(Date) },
+        },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('should create a verified account without a password on first use', async () => {
+      jest
+        .spyOn(prismaService.magicLinkToken, 'findUnique')
+        .mockResolvedValue({ ...storedLink, userId: null });
+      jest
+        .spyOn(prismaService.magicLinkToken, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(null);
+
+      await service.consume('token-123');
+
+      expect(prismaService.user.create).toHaveBeenCalledWith({
+        data: { email: mockUser.email, emailVerified: true },
+      });
+    });
+
+    it('should drop the password and sessions of an unverified account', async () => {
+      jest
+        .spyOn(prismaService.magicLinkToken, 'findUnique')
+        .mockResolvedValue(storedLink);
+      jest
+        .spyOn(prismaService.magicLinkToken, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue({ ...mockUser, emailVerified: false } as any);
+
+      const user = await service.consume('token-123');
+
+      expect(user.emailVerified).toBe(true);
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: expect.objectContaining({ passwordHash: null }),
+      });
+      expect(sessionsService.revokeAll).toHaveBeenCalledWith(mockUser.id);
+    });
+
+    it('should reject used or expired links', async () => {
+      jest
+        .spyOn(prismaService.magicLinkToken, 'findUnique')
+        .mockResolvedValue(storedLink);
+      jest
+        .spyOn(prismaService.magicLinkToken, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(service.consume('token-123')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(prismaService.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown tokens', async () => {
+      jest
+        .spyOn(prismaService.magicLinkToken, 'findUnique')
+        .mockResolvedValue(null);
+      jest
+        .spyOn(prismaService.magicLinkToken, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(service.consume('unknown')).rejects.toThrow(
+        'Invalid or expired sign-in link',
+      );
+    });
+  });
+});
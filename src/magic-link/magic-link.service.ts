@@ -0,0 +1,151 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  HttpException,
+  UnauthorizedException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { User } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { EmailService } from '../email/email.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { authConfig, AuthConfig } from '../config/auth.config';
+
+const MAGIC_LINK_RESEND_INTERVAL = 60 * 1000;
+
+@Injectable()
+export class MagicLinkService {
+  private readonly logger = new Logger(MagicLinkService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tokenHashService: TokenHashService,
+    private readonly emailService: EmailService,
+    private readonly sessionsService: SessionsService,
+    @Inject(authConfig.KEY) private readonly authConfig: AuthConfig,
+  ) {}
+
+  /**
+   * Emails a one-time sign-in link. Unknown addresses get a link too: the
+   * account is created when the link is used, so listeners coming from a
+   * newsletter never have to pick a password.
+   *
+   * Anyone can ask for a link to any address, so at most one is sent per
+   * address every minute, however many clients ask. Requests in between
+   * are dropped silently and the earlier link keeps working.
+   */
+  async send(email: string) {
+    try {
+      const normalizedEmail = email.toLowerCase();
+
+      const recentLink = await this.prisma.magicLinkToken.findFirst({
+        where: {
+          email: normalizedEmail,
+          createdAt: { gt: new Date(Date.now() - MAGIC_LINK_RESEND_INTERVAL) },
+        },
+        select: { id: true },
+      });
+      if (recentLink) {
+        return;
+      }
+
+      const user = await this.prisma.user.findUnique({
+        where: { email: normalizedEmail },
+      });
+
+      const token = randomBytes(32).toString('hex');
+
+      // Only the latest link works, and expired ones are cleaned up on the way
+      await this.prisma.magicLinkToken.deleteMany({
+        where: {
+          OR: [
+            { email: normalizedEmail, usedAt: null },
+            { expiresAt: { lt: new Date() } },
+          ],
+        },
+      });
+
+      await this.prisma.magicLinkToken.create({
+        data: {
+          userId: user?.id,
+          email: normalizedEmail,
+          tokenHash: this.tokenHashService.hash(token),
+          expiresAt: this.authConfig.magicLinkExpiry.from(new Date()),
+        },
+      });
+
+      await this.emailService.sendMagicLinkEmail(
+        normalizedEmail,
+        user?.name || '',
+        token,
+      );
+    } catch (error) {
+      this.logger.error('Failed to send magic link:', error);
+      throw new InternalServerErrorException('Failed to send sign-in link');
+    }
+  }
+
+  /**
+   * Burns the token and returns the user it signs in, creating the account
+   * for first-time visitors. Following the link proves ownership of the
+   * address, so the email is verified as a side effect.
+   */
+  async consume(token: string): Promise<User> {
+    try {
+      const tokenHash = this.tokenHashService.hash(token);
+
+      const magicLink = await this.prisma.magicLinkToken.findUnique({
+        where: { tokenHash },
+      });
+
+      // Conditional on usedAt so two clicks racing each other cannot both pass
+      const { count } = await this.prisma.magicLinkToken.updateMany({
+        where: { tokenHash, usedAt: null, expiresAt: { gt: new Date() } },
+        data: { usedAt: new Date() },
+      });
+
+      if (!magicLink || count !== 1) {
+        throw new UnauthorizedException('Invalid or expired sign-in link');
+      }
+
+      const user = await this.prisma.user.findUnique({
+        where: { email: magicLink.email },
+      });
+
+      if (!user) {
+        return await this.prisma.user.create({
+          data: { email: magicLink.email, emailVerified: true },
+        });
+      }
+
+      if (user.emailVerified) {
+        return user;
+      }
+
+      // Whoever registered the unverified account never proved they own the
+      // address, so their password and sessions do not survive the claim
+      const claimed = await this.prisma.user.update({
+        where: { id: user.id },
+        data: {
+          emailVerified: true,
+          emailVerificationTokenHash: null,
+          emailVerificationExpires: null,
+          passwordHash: null,
+          passwordResetTokenHash: null,
+          passwordResetExpires: null,
+        },
+      });
+      await this.sessionsService.revokeAll(user.id);
+
+      return claimed;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to use sign-in link');
+    }
+  }
+}
@@ -1,17 +1,28 @@
 import { NestFactory } from '@nestjs/core';
 import { ConfigService } from '@nestjs/config';
 import { ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
   const configService = app.get(ConfigService);
   const port = configService.get('PORT') || 5000;
   
+  // Behind a load balancer every request comes from the proxy, so take the
+  // client IP from X-Forwarded-For, trusting only the configured hops
+  const trustProxy = configService.get<string>('TRUST_PROXY');
+  if (trustProxy) {
+    app.set(
+      'trust proxy',
+      /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy,
+    );
+  }
+
   // Set global API prefix with version
   const apiVersion = configService.get('API_VERSION', 'v1');
-  app.setGlobalPrefix(`api/${apiVersion}`);
+  app.setGlobalPrefix(`api/${apiVersion}`, { exclude: ['.well-known/jwks.json'] });
   
   // Enable CORS
   app.enableCors({
@@ -19,6 +30,9 @@ async function bootstrap() {
     credentials: true,
   });
   
+  // Preference updates are sent as JSON merge patches
+  app.useBodyParser('json', { type: ['application/json', 'application/merge-patch+json'] });
+  
   // Global validation pipe
   app.useGlobalPipes(
     new ValidationPipe({
@@ -37,6 +51,7 @@ async function bootstrap() {
     .setDescription('API documentation for From Article to Audio backend - Version 1')
     .setVersion('1.0')
     .addBearerAuth()
+    .addApiKey({ type: 'apiKey', name: 'X-API-Key', in: 'header' }, 'api-key')
     .addServer(`/api/${apiVersion}`)
     .build();
   
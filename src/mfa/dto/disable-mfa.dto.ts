@@ -0,0 +1,31 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+
+export class DisableMfaDto {
+  @ApiPropertyOptional({
+    example: 'Password123!',
+    description:
+      'Current password, re-entered to confirm. Only accounts without a password may leave it out',
+  })
+  @ValidateIf((dto: DisableMfaDto) => dto.code === undefined)
+  @IsString()
+  @IsNotEmpty({ message: 'Password or code is required' })
+  password?: string;
+
+  @ApiPropertyOptional({
+    example: '123456',
+    description:
+      'Code from the authenticator app, or a recovery code. Required for accounts without a password, and checked too when given with one',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty({ message: 'Code must not be empty' })
+  @MaxLength(20)
+  code?: string;
+}
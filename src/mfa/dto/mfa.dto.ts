@@ -0,0 +1,41 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class MfaStatusDto {
+  @ApiProperty({
+    example: true,
+    description: 'Whether two-factor authentication is on',
+  })
+  enabled: boolean;
+
+  @ApiPropertyOptional({
+    example: '2024-01-15T10:30:00Z',
+    description: 'When two-factor authentication was turned on',
+  })
+  enabledAt: Date | null;
+
+  @ApiProperty({ example: 8, description: 'Unused recovery codes left' })
+  recoveryCodesRemaining: number;
+}
+
+export class MfaEnrollmentDto {
+  @ApiProperty({
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+    description: 'Base32 secret for manual entry in an authenticator app',
+  })
+  secret: string;
+
+  @ApiProperty({
+    example:
+      'otpauth://totp/FATA:john.doe%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=FATA',
+    description: 'otpauth URI to render as a QR code',
+  })
+  otpauthUri: string;
+}
+
+export class MfaRecoveryCodesDto {
+  @ApiProperty({
+    example: ['ABCDE-FGHIJ', 'KLMNO-PQRST'],
+    description: 'Single-use recovery codes. They are only shown once.',
+  })
+  recoveryCodes: string[];
+}
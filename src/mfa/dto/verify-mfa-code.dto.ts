@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+export class VerifyMfaCodeDto {
+  @ApiProperty({
+    example: '123456',
+    description: '6-digit code from the authenticator app',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Code is required' })
+  @Matches(/^\d{6}$/, { message: 'Code must be 6 digits' })
+  code: string;
+}
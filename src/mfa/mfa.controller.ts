@@ -0,0 +1,131 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+import { MfaService } from './mfa.service';
+import { VerifyMfaCodeDto } from './dto/verify-mfa-code.dto';
+import { DisableMfaDto } from './dto/disable-mfa.dto';
+import {
+  MfaEnrollmentDto,
+  MfaRecoveryCodesDto,
+  MfaStatusDto,
+} from './dto/mfa.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  CurrentUser,
+  CurrentUserData,
+} from '../auth/decorators/current-user.decorator';
+import {
+  ClientInfo,
+  ClientInfoData,
+} from '../auth/decorators/client-info.decorator';
+import { DenyImpersonation } from '../auth/decorators/deny-impersonation.decorator';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+
+@ApiTags('Two-Factor Authentication')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@DenyImpersonation()
+@Controller('auth/mfa')
+export class MfaController {
+  constructor(private readonly mfaService: MfaService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get two-factor authentication status' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Two-factor authentication status',
+    type: MfaStatusDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized',
+  })
+  async getStatus(@CurrentUser() user: CurrentUserData) {
+    return this.mfaService.getStatus(user.id);
+  }
+
+  @Post('enroll')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start two-factor enrollment' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Secret and otpauth URI for the authenticator app',
+    type: MfaEnrollmentDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Two-factor authentication is already enabled',
+  })
+  async startEnrollment(@CurrentUser() user: CurrentUserData) {
+    return this.mfaService.startEnrollment(user.id);
+  }
+
+  @Post('enroll/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm enrollment with a first code' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Two-factor authentication enabled',
+    type: MfaRecoveryCodesDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid code or enrollment not started',
+  })
+  @ApiBody({ type: VerifyMfaCodeDto })
+  async confirmEnrollment(
+    @CurrentUser() user: CurrentUserData,
+    @Body() verifyMfaCodeDto: VerifyMfaCodeDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    const { recoveryCodes } = await this.mfaService.confirmEnrollment(
+      user.id,
+      verifyMfaCodeDto.code,
+      client,
+    );
+
+    return {
+      message: 'Two-factor authentication enabled successfully',
+      recoveryCodes,
+    };
+  }
+
+  @Post('disable')
+  @RateLimit('mfaDisable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Disable two-factor authentication' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Two-factor authentication disabled',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Invalid password or code, or account locked',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many attempts from this client',
+  })
+  @ApiBody({ type: DisableMfaDto })
+  async disable(
+    @CurrentUser() user: CurrentUserData,
+    @Body() disableMfaDto: DisableMfaDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    await this.mfaService.disable(user.id, disableMfaDto, client);
+    return { message: 'Two-factor authentication disabled successfully' };
+  }
+}
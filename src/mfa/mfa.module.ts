@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MfaService } from './mfa.service';
+import { MfaController } from './mfa.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { EmailModule } from '../email/email.module';
+import { SecurityEventsModule } from '../security-events/security-events.module';
+import { UsersModule } from '../users/users.module';
+import { LoginAlertsModule } from '../login-alerts/login-alerts.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    EmailModule,
+    SecurityEventsModule,
+    UsersModule,
+    LoginAlertsModule,
+  ],
+  controllers: [MfaController],
+  providers: [MfaService],
+  exports: [MfaService],
+})
+export class MfaModule {}
@@ -0,0 +1,544 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { MfaService, RECOVERY_CODE_COUNT } from './mfa.service';
+import { generateTotp, getTimeStep } from './totp';
+import { PrismaService } from '../prisma/prisma.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { EncryptionService } from '../crypto/encryption.service';
+import { PasswordHasherService } from '../crypto/password-hasher.service';
+import { EmailService } from '../email/email.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { UsersService } from '../users/users.service';
+import { LoginAlertsService } from '../login-alerts/login-alerts.service';
+
+jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+describe('MfaService', () => {
+  let service: MfaService;
+  let prismaService: PrismaService;
+  let emailService: EmailService;
+  let securityEventsService: SecurityEventsService;
+  let passwordHasher: PasswordHasherService;
+  let usersService: UsersService;
+  let loginAlertsService: LoginAlertsService;
+
+  const secret = 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP';
+
+  const mockUser = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    email: 'test@example.com',
+    name: 'Test User',
+    passwordHash: 'hashedPassword',
+    mfaEnabled: false,
+    mfaSecret: null as string | null,
+    mfaEnabledAt: null as Date | null,
+    mfaLastUsedStep: null as number | null,
+  };
+
+  const enabledUser = {
+    ...mockUser,
+    mfaEnabled: true,
+    mfaSecret: `encrypted:${secret}`,
+    mfaEnabledAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        {
+          provide: PrismaService,
+          useValue: {
+            user: {
+              findUnique: jest.fn(),
+              update: jest.fn((args) => args),
+              updateMany: jest.fn(),
+            },
+            mfaRecoveryCode: {
+              count: jest.fn(),
+              createMany: jest.fn((args) => args),
+              deleteMany: jest.fn((args) => args),
+              updateMany: jest.fn(),
+            },
+            $transaction: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) =>
+              key === 'APP_NAME' ? 'FATA' : defaultValue,
+            ),
+          },
+        },
+        {
+          provide: TokenHashService,
+          useValue: {
+            hash: jest.fn((token: string) => `hashed:${token}`),
+          },
+        },
+        {
+          provide: EncryptionService,
+          useValue: {
+            encrypt: jest.fn((value: string) => `encrypted:${value}`),
+            decrypt: jest.fn((value: string) =>
+              value.replace('encrypted:', ''),
+            ),
+          },
+        },
+        {
+          provide: EmailService,
+          useValue: {
+            sendSecurityAlertEmail: jest.fn(),
+          },
+        },
+        {
+          provide: SecurityEventsService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+        {
+          provide: PasswordHasherService,
+          useValue: {
+            verify: jest.fn(),
+          },
+        },
+        {
+          provide: UsersService,
+          useValue: {
+            isAccountLocked: jest.fn().mockResolvedValue(false),
+            incrementLoginAttempts: jest.fn().mockResolvedValue(null),
+            resetLoginAttempts: jest.fn(),
+          },
+        },
+        {
+          provide: LoginAlertsService,
+          useValue: {
+            sendLockoutAlert: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    emailService = module.get<EmailService>(EmailService);
+    securityEventsService = module.get<SecurityEventsService>(
+      SecurityEventsService,
+    );
+    passwordHasher = module.get<PasswordHasherService>(PasswordHasherService);
+    usersService = module.get<UsersService>(UsersService);
+    loginAlertsService = module.get<LoginAlertsService>(LoginAlertsService);
+
+    jest.clearAllMocks();
+  });
+
+  describe('getStatus', () => {
+    it('should report the number of unused recovery codes', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(enabledUser as any);
+      jest.spyOn(prismaService.mfaRecoveryCode, 'count').mockResolvedValue(7);
+
+      const result = await service.getStatus(mockUser.id);
+
+      expect(result).toEqual({
+        enabled: true,
+        enabledAt: enabledUser.mfaEnabledAt,
+        recoveryCodesRemaining: 7,
+      });
+      expect(prismaService.mfaRecoveryCode.count).toHaveBeenCalledWith({
+        where: { userId: mockUser.id, usedAt: null },
+      });
+    });
+  });
+
+  describe('startEnrollment', () => {
+    it('should store an encrypted pending secret and return the otpauth URI', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(mockUser as any);
+
+      const result = await service.startEnrollment(mockUser.id);
+
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(result.otpauthUri).toBe(
+        `otpauth://totp/FATA%3Atest%40example.com?secret=${result.secret}&issuer=FATA&algorithm=SHA1&digits=6&period=30`,
+      );
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          mfaSecret: `encrypted:${result.secret}`,
+          mfaLastUsedStep: null,
+        },
+      });
+    });
+
+    it('should refuse when two-factor is already enabled', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(enabledUser as any);
+
+      await expect(service.startEnrollment(mockUser.id)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(prismaService.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmEnrollment', () => {
+    const pendingUser = { ...mockUser, mfaSecret: `encrypted:${secret}` };
+
+    it('should enable two-factor and return single-use recovery codes', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(pendingUser as any);
+
+      const { recoveryCodes } = await service.confirmEnrollment(
+        mockUser.id,
+        generateTotp(secret),
+      );
+
+      expect(recoveryCodes).toHaveLength(RECOVERY_CODE_COUNT);
+      expect(new Set(recoveryCodes).size).toBe(RECOVERY_CODE_COUNT);
+      recoveryCodes.forEach((code) =>
+        expect(code).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/),
+      );
+
+      expect(prismaService.mfaRecoveryCode.createMany).toHaveBeenCalledWith({
+        data: recoveryCodes.map((code) => ({
+          userId: mockUser.id,
+          codeHash: `hashed:${code.replace('-', '')}`,
+        })),
+      });
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          mfaEnabled: true,
+          mfaEnabledAt: expect.any(Date),
+          mfaLastUsedStep: expect.any(Number),
+        },
+      });
+      expect(prismaService.$transaction).toHaveBeenCalled();
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id, type: 'MFA_ENABLED' }),
+      );
+    });
+
+    it('should reject a wrong code', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(pendingUser as any);
+      const wrongCode = generateTotp(secret, getTimeStep() + 5);
+
+      await expect(
+        service.confirmEnrollment(mockUser.id, wrongCode),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should require enrollment to have been started', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(mockUser as any);
+
+      await expect(
+        service.confirmEnrollment(mockUser.id, '123456'),
+      ).rejects.toThrow('Two-factor enrollment has not been started');
+    });
+  });
+
+  describe('disable', () => {
+    it('should require the current password', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(enabledUser as any);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        service.disable(mockUser.id, { password: 'wrong' }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should clear the secret and recovery codes and alert the user', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(enabledUser as any);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+
+      await service.disable(mockUser.id, { password: 'Password123!' });
+
+      expect(prismaService.mfaRecoveryCode.deleteMany).toHaveBeenCalledWith({
+        where: { userId: mockUser.id },
+      });
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: {
+          mfaEnabled: false,
+          mfaSecret: null,
+          mfaEnabledAt: null,
+          mfaLastUsedStep: null,
+        },
+      });
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'MFA_DISABLED' }),
+      );
+      expect(emailService.sendSecurityAlertEmail).toHaveBeenCalledWith(
+        mockUser.email,
+        mockUser.name,
+        expect.objectContaining({
+          subject: 'Two-factor authentication was turned off',
+        }),
+      );
+    });
+
+    it('should reject users without two-factor', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(mockUser as any);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+
+      await expect(
+        service.disable(mockUser.id, { password: 'Password123!' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should count a wrong password towards the lockout', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(enabledUser as any);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(false);
+      const lockedUntil = new Date(Date.now() + 15 * 60 * 1000);
+      jest
+        .spyOn(usersService, 'incrementLoginAttempts')
+        .mockResolvedValue(lockedUntil);
+
+      await expect(
+        service.disable(mockUser.id, { password: 'wrong' }),
+      ).rejects.toThrow('Invalid password');
+
+      expect(usersService.incrementLoginAttempts).toHaveBeenCalledWith(
+        mockUser.email,
+      );
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'ACCOUNT_LOCKED' }),
+      );
+      expect(loginAlertsService.sendLockoutAlert).toHaveBeenCalledWith(
+        enabledUser,
+        undefined,
+        lockedUntil,
+      );
+    });
+
+    it('should refuse locked accounts', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(enabledUser as any);
+      jest.spyOn(usersService, 'isAccountLocked').mockResolvedValue(true);
+
+      await expect(
+        service.disable(mockUser.id, { password: 'Password123!' }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(passwordHasher.verify).not.toHaveBeenCalled();
+    });
+
+    it('should not accept a code alone when the account has a password', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(enabledUser as any);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        service.disable(mockUser.id, { code: generateTotp(secret) }),
+      ).rejects.toThrow('Invalid password');
+      expect(prismaService.user.updateMany).not.toHaveBeenCalled();
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should also check a code given with the password', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(enabledUser as any);
+      (passwordHasher.verify as jest.Mock).mockResolvedValue(true);
+      jest
+        .spyOn(prismaService.mfaRecoveryCode, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.disable(mockUser.id, {
+          password: 'Password123!',
+          code: 'ABCDE-FGHIJ',
+        }),
+      ).rejects.toThrow('Invalid two-factor code');
+      expect(usersService.incrementLoginAttempts).toHaveBeenCalled();
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should accept a current TOTP code from an account without a password', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue({ ...enabledUser, passwordHash: null } as any);
+      jest
+        .spyOn(prismaService.user, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+
+      await service.disable(mockUser.id, { code: generateTotp(secret) });
+
+      expect(passwordHasher.verify).not.toHaveBeenCalled();
+      expect(usersService.resetLoginAttempts).toHaveBeenCalledWith(
+        mockUser.email,
+      );
+      expect(prismaService.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ mfaEnabled: false }),
+        }),
+      );
+    });
+
+    it('should accept a recovery code from an account without a password', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue({ ...enabledUser, passwordHash: null } as any);
+      jest
+        .spyOn(prismaService.mfaRecoveryCode, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+
+      await service.disable(mockUser.id, { code: 'ABCDE-FGHIJ' });
+
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'MFA_RECOVERY_CODE_USED' }),
+      );
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'MFA_DISABLED' }),
+      );
+    });
+
+    it('should require a code from an account without a password', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue({ ...enabledUser, passwordHash: null } as any);
+
+      await expect(service.disable(mockUser.id, {})).rejects.toThrow(
+        'A two-factor code is required',
+      );
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid code', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue({ ...enabledUser, passwordHash: null } as any);
+      jest
+        .spyOn(prismaService.mfaRecoveryCode, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.disable(mockUser.id, { code: 'ABCDE-FGHIJ' }),
+      ).rejects.toThrow('Invalid two-factor code');
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyLoginCode', () => {
+    it('should accept a current TOTP code once', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(enabledUser as any);
+      jest
+        .spyOn(prismaService.user, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+
+      const result = await service.verifyLoginCode(
+        mockUser.id,
+        generateTotp(secret),
+      );
+
+      expect(result).toBe(true);
+      expect(prismaService.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: mockUser.id,
+          OR: [
+            { mfaLastUsedStep: null },
+            { mfaLastUsedStep: { lt: expect.any(Number) } },
+          ],
+        },
+        data: { mfaLastUsedStep: expect.any(Number) },
+      });
+    });
+
+    it('should reject a replayed TOTP code', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(enabledUser as any);
+      jest
+        .spyOn(prismaService.user, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      const result = await service.verifyLoginCode(
+        mockUser.id,
+        generateTotp(secret),
+      );
+
+      expect(result).toBe(false);
+    });
+
+    it('should consume a recovery code regardless of formatting', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(enabledUser as any);
+      jest
+        .spyOn(prismaService.mfaRecoveryCode, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+
+      const result = await service.verifyLoginCode(mockUser.id, 'abcde-fghij');
+
+      expect(result).toBe(true);
+      expect(prismaService.mfaRecoveryCode.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: mockUser.id,
+          codeHash: 'hashed:ABCDEFGHIJ',
+          usedAt: null,
+        },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'MFA_RECOVERY_CODE_USED' }),
+      );
+    });
+
+    it('should reject used or unknown recovery codes', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(enabledUser as any);
+      jest
+        .spyOn(prismaService.mfaRecoveryCode, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      const result = await service.verifyLoginCode(mockUser.id, 'ABCDE-FGHIJ');
+
+      expect(result).toBe(false);
+      expect(securityEventsService.record).not.toHaveBeenCalled();
+    });
+
+    it('should reject users without two-factor', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(mockUser as any);
+
+      const result = await service.verifyLoginCode(
+        mockUser.id,
+        generateTotp(secret),
+      );
+
+      expect(result).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,413 @@
+import {
+  Injectable,
+  Logger,
+  HttpException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { EncryptionService } from '../crypto/encryption.service';
+import { PasswordHasherService } from '../crypto/password-hasher.service';
+import { EmailService } from '../email/email.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { UsersService } from '../users/users.service';
+import { LoginAlertsService } from '../login-alerts/login-alerts.service';
+import { ClientInfoData } from '../auth/decorators/client-info.decorator';
+import {
+  base32Encode,
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from './totp';
+import { DisableMfaDto } from './dto/disable-mfa.dto';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+@Injectable()
+export class MfaService {
+  private readonly logger = new Logger(MfaService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly tokenHashService: TokenHashService,
+    private readonly encryptionService: EncryptionService,
+    private readonly passwordHasher: PasswordHasherService,
+    private readonly emailService: EmailService,
+    private readonly securityEventsService: SecurityEventsService,
+    private readonly usersService: UsersService,
+    private readonly loginAlertsService: LoginAlertsService,
+  ) {}
+
+  async getStatus(userId: string) {
+    try {
+      const user = await this.findUser(userId);
+      const recoveryCodesRemaining = await this.prisma.mfaRecoveryCode.count({
+        where: { userId, usedAt: null },
+      });
+
+      return {
+        enabled: user.mfaEnabled,
+        enabledAt: user.mfaEnabledAt,
+        recoveryCodesRemaining: user.mfaEnabled ? recoveryCodesRemaining : 0,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to get two-factor status');
+    }
+  }
+
+  /**
+   * Generates a new secret and keeps it pending until the user proves their
+   * authenticator app produces matching codes. Starting over replaces any
+   * previous pending secret.
+   */
+  async startEnrollment(userId: string) {
+    try {
+      const user = await this.findUser(userId);
+
+      if (user.mfaEnabled) {
+        throw new ConflictException(
+          'Two-factor authentication is already enabled',
+        );
+      }
+
+      const secret = generateTotpSecret();
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          mfaSecret: this.encryptionService.encrypt(secret),
+          mfaLastUsedStep: null,
+        },
+      });
+
+      const issuer = this.configService.get<string>('APP_NAME', 'FATA');
+
+      return {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email, issuer),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to start two-factor enrollment',
+      );
+    }
+  }
+
+  async confirmEnrollment(
+    userId: string,
+    code: string,
+    client?: ClientInfoData,
+  ) {
+    try {
+      const user = await this.findUser(userId);
+
+      if (user.mfaEnabled) {
+        throw new ConflictException(
+          'Two-factor authentication is already enabled',
+        );
+      }
+      if (!user.mfaSecret) {
+        throw new BadRequestException(
+          'Two-factor enrollment has not been started',
+        );
+      }
+
+      const step = verifyTotp(
+        this.encryptionService.decrypt(user.mfaSecret),
+        code,
+      );
+      if (step === null) {
+        throw new BadRequestException('Invalid verification code');
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+
+      await this.prisma.$transaction([
+        this.prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+        this.prisma.mfaRecoveryCode.createMany({
+          data: recoveryCodes.map((recoveryCode) => ({
+            userId,
+            codeHash: this.hashRecoveryCode(recoveryCode),
+          })),
+        }),
+        this.prisma.user.update({
+          where: { id: userId },
+          data: {
+            mfaEnabled: true,
+            mfaEnabledAt: new Date(),
+            mfaLastUsedStep: step,
+          },
+        }),
+      ]);
+
+      await this.securityEventsService.record({
+        userId,
+        type: 'MFA_ENABLED',
+        client,
+      });
+
+      return { recoveryCodes };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to confirm two-factor enrollment',
+      );
+    }
+  }
+
+  /**
+   * Confirmed with the password, plus a code if one is given. Only accounts
+   * that sign in with passkeys or sign-in links and have no password confirm
+   * with a code alone. Failures count towards the login lockout, as guessing
+   * here is as good as guessing at login.
+   */
+  async disable(
+    userId: string,
+    disableMfaDto: DisableMfaDto,
+    client?: ClientInfoData,
+  ) {
+    try {
+      const user = await this.findUser(userId);
+
+      if (!user.mfaEnabled || !user.mfaSecret) {
+        throw new BadRequestException(
+          'Two-factor authentication is not enabled',
+        );
+      }
+
+      if (await this.usersService.isAccountLocked(user.email)) {
+        throw new ForbiddenException(
+          'Account is locked due to multiple failed login attempts. Please try again later.',
+        );
+      }
+
+      if (user.passwordHash) {
+        const isPasswordValid = await this.passwordHasher.verify(
+          disableMfaDto.password ?? '',
+          user.passwordHash,
+        );
+        if (!isPasswordValid) {
+          await this.registerFailedAttempt(user, client);
+          throw new ForbiddenException('Invalid password');
+        }
+      } else if (disableMfaDto.code === undefined) {
+        throw new ForbiddenException('A two-factor code is required');
+      }
+
+      if (disableMfaDto.code !== undefined) {
+        const isCodeValid = await this.consumeCode(
+          user.id,
+          user.mfaSecret,
+          disableMfaDto.code,
+          client,
+        );
+        if (!isCodeValid) {
+          await this.registerFailedAttempt(user, client);
+          throw new ForbiddenException('Invalid two-factor code');
+        }
+      }
+
+      await this.usersService.resetLoginAttempts(user.email);
+
+      await this.prisma.$transaction([
+        this.prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+        this.prisma.user.update({
+          where: { id: userId },
+          data: {
+            mfaEnabled: false,
+            mfaSecret: null,
+            mfaEnabledAt: null,
+            mfaLastUsedStep: null,
+          },
+        }),
+      ]);
+
+      await this.securityEventsService.record({
+        userId,
+        type: 'MFA_DISABLED',
+        client,
+      });
+      await this.sendDisabledAlert(user, client);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to disable two-factor authentication',
+      );
+    }
+  }
+
+  /**
+   * Second login step. Accepts either a code from the authenticator app or
+   * one of the recovery codes; both can only be used once.
+   */
+  async verifyLoginCode(userId: string, code: string, client?: ClientInfoData) {
+    try {
+      const user = await this.findUser(userId);
+
+      if (!user.mfaEnabled || !user.mfaSecret) {
+        return false;
+      }
+
+      return await this.consumeCode(user.id, user.mfaSecret, code, client);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to verify two-factor code',
+      );
+    }
+  }
+
+  private async consumeCode(
+    userId: string,
+    encryptedSecret: string,
+    code: string,
+    client?: ClientInfoData,
+  ) {
+    const normalized = code.replace(/[\s-]/g, '').toUpperCase();
+
+    if (/^\d{6}$/.test(normalized)) {
+      return this.consumeTotp(userId, encryptedSecret, normalized);
+    }
+
+    const consumed = await this.consumeRecoveryCode(userId, normalized);
+    if (consumed) {
+      await this.securityEventsService.record({
+        userId,
+        type: 'MFA_RECOVERY_CODE_USED',
+        client,
+      });
+    }
+
+    return consumed;
+  }
+
+  private async consumeTotp(
+    userId: string,
+    encryptedSecret: string,
+    code: string,
+  ) {
+    const step = verifyTotp(
+      this.encryptionService.decrypt(encryptedSecret),
+      code,
+    );
+    if (step === null) {
+      return false;
+    }
+
+    // Remember the step so an intercepted code cannot be replayed within its window
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+      },
+      data: { mfaLastUsedStep: step },
+    });
+
+    return count === 1;
+  }
+
+  private async consumeRecoveryCode(userId: string, code: string) {
+    const { count } = await this.prisma.mfaRecoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: this.hashRecoveryCode(code),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    return count === 1;
+  }
+
+  private async registerFailedAttempt(
+    user: { id: string; email: string; name: string | null },
+    client?: ClientInfoData,
+  ) {
+    const lockedUntil = await this.usersService.incrementLoginAttempts(
+      user.email,
+    );
+    if (lockedUntil) {
+      await this.securityEventsService.record({
+        userId: user.id,
+        type: 'ACCOUNT_LOCKED',
+        client,
+        metadata: { method: 'mfa_disable' },
+      });
+      await this.loginAlertsService.sendLockoutAlert(user, client, lockedUntil);
+    }
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  /** Ten characters of base32 (50 bits), shown as XXXXX-XXXXX. */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = base32Encode(randomBytes(7)).slice(0, 10);
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string) {
+    return this.tokenHashService.hash(code.replace(/[\s-]/g, '').toUpperCase());
+  }
+
+  private async sendDisabledAlert(
+    user: { id: string; email: string; name: string | null },
+    client?: ClientInfoData,
+  ) {
+    try {
+      const baseUrl = this.configService.get<string>(
+        'FRONTEND_URL',
+        'http://localhost:3000',
+      );
+      await this.emailService.sendSecurityAlertEmail(
+        user.email,
+        user.name || '',
+        {
+          subject: 'Two-factor authentication was turned off',
+          heading: 'Two-factor authentication disabled',
+          message:
+            'Two-factor authentication was just turned off for your account. If you did not do this, reset your password and turn it back on.',
+          details: [
+            { label: 'IP address', value: client?.ipAddress || 'Unknown' },
+            { label: 'Device', value: client?.userAgent || 'Unknown' },
+            { label: 'Time', value: new Date().toUTCString() },
+          ],
+          actionUrl: `${baseUrl}/forgot-password`,
+          actionText: 'Reset Password',
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue two-factor disabled alert for user ${user.id}:`,
+        error,
+      );
+    }
+  }
+}
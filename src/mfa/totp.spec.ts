@@ -0,0 +1,85 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  getTimeStep,
+  verifyTotp,
+} from './totp';
+
+describe('totp', () => {
+  // RFC 6238 appendix B test secret ("12345678901234567890")
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should match the RFC 4648 test vectors', () => {
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+      expect(base32Decode('MZXW6YTBOI======').toString()).toBe('foobar');
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ])('should match the RFC 6238 vector at %i', (seconds, code) => {
+      expect(generateTotp(rfcSecret, getTimeStep(seconds * 1000))).toBe(code);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1_700_000_000_000;
+
+    it('should accept the current code and return its time step', () => {
+      const step = getTimeStep(now);
+
+      expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, step), 1, now)).toBe(
+        step,
+      );
+    });
+
+    it('should tolerate one step of clock drift', () => {
+      const step = getTimeStep(now);
+
+      expect(
+        verifyTotp(rfcSecret, generateTotp(rfcSecret, step - 1), 1, now),
+      ).toBe(step - 1);
+      expect(
+        verifyTotp(rfcSecret, generateTotp(rfcSecret, step + 2), 1, now),
+      ).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(rfcSecret, '12345', 1, now)).toBeNull();
+      expect(verifyTotp(rfcSecret, 'abcdef', 1, now)).toBeNull();
+    });
+  });
+
+  it('should generate 160-bit secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Decode(secret)).toHaveLength(20);
+  });
+
+  it('should build an otpauth URI understood by authenticator apps', () => {
+    const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'john@example.com', 'FATA');
+
+    expect(uri).toBe(
+      'otpauth://totp/FATA%3Ajohn%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=FATA&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
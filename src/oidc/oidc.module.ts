@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { OidcService } from './oidc.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { EmailModule } from '../email/email.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { SecurityEventsModule } from '../security-events/security-events.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    EmailModule,
+    SessionsModule,
+    SecurityEventsModule,
+    // ID tokens are verified with the provider's published keys, not a local secret
+    JwtModule.register({}),
+  ],
+  providers: [OidcService],
+  exports: [OidcService],
+})
+export class OidcModule {}
@@ -0,0 +1,404 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import {
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, generateKeyPairSync } from 'crypto';
+import { OidcService } from './oidc.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { EmailService } from '../email/email.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+
+jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+describe('OidcService', () => {
+  let service: OidcService;
+  let prismaService: PrismaService;
+  let emailService: EmailService;
+  let sessionsService: SessionsService;
+  let securityEventsService: SecurityEventsService;
+  let fetchMock: jest.SpyInstance;
+
+  const issuer = 'https://accounts.example.com';
+  const clientId = 'client-123';
+  const signingKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const foreignKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwtService = new JwtService();
+
+  const storedRequest = {
+    id: 'request-123',
+    provider: 'google',
+    stateHash: 'hashed-state-123',
+    nonce: 'nonce-123',
+    codeVerifier: 'verifier-123',
+    redirectUri: 'http://localhost:3000/auth/oidc/google/callback',
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    createdAt: new Date(),
+  };
+
+  const mockUser = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    email: 'test@example.com',
+    name: 'Test User',
+    passwordHash: 'hashedPassword',
+    emailVerified: true,
+  };
+
+  const signIdToken = (
+    claims: Record<string, unknown> = {},
+    privateKey = signingKey.privateKey,
+  ) =>
+    jwtService.sign(
+      {
+        sub: 'google-subject-1',
+        nonce: 'nonce-123',
+        email: 'test@example.com',
+        email_verified: true,
+        name: 'Test User',
+        ...claims,
+      },
+      {
+        privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+        algorithm: 'RS256',
+        keyid: 'key-1',
+        issuer,
+        expiresIn: '5m',
+        ...(claims.aud ? {} : { audience: clientId }),
+      },
+    );
+
+  /** Serves discovery, JWKS and the token endpoint of the fake issuer. */
+  const mockIssuer = (tokenResponse: { status?: number; body: object }) => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url === `${issuer}/.well-known/openid-configuration`) {
+        return new Response(
+          JSON.stringify({
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            jwks_uri: `${issuer}/jwks`,
+          }),
+        );
+      }
+      if (url === `${issuer}/jwks`) {
+        return new Response(
+          JSON.stringify({
+            keys: [
+              {
+                ...signingKey.publicKey.export({ format: 'jwk' }),
+                kid: 'key-1',
+                use: 'sig',
+              },
+            ],
+          }),
+        );
+      }
+      if (url === `${issuer}/token`) {
+        return new Response(JSON.stringify(tokenResponse.body), {
+          status: tokenResponse.status ?? 200,
+        });
+      }
+      return new Response('Not found', { status: 404 });
+    });
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcService,
+        { provide: JwtService, useValue: jwtService },
+        {
+          provide: PrismaService,
+          useValue: {
+            oidcAuthorizationRequest: {
+              create: jest.fn(),
+              findUnique: jest.fn(),
+              deleteMany: jest.fn(() => ({ count: 1 })),
+            },
+            userIdentity: {
+              findUnique: jest.fn(),
+              create: jest.fn(),
+              update: jest.fn(),
+            },
+            user: {
+              findUnique: jest.fn(),
+              create: jest.fn((args) => ({ id: 'new-user', ...args.data })),
+              update: jest.fn((args) => ({ ...mockUser, ...args.data })),
+            },
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => {
+              const config = {
+                OIDC_PROVIDERS: 'google',
+                OIDC_GOOGLE_ISSUER: issuer,
+                OIDC_GOOGLE_CLIENT_ID: clientId,
+                OIDC_GOOGLE_CLIENT_SECRET: 'client-secret',
+                FRONTEND_URL: 'http://localhost:3000',
+              };
+              return config[key] || defaultValue;
+            }),
+          },
+        },
+        {
+          provide: TokenHashService,
+          useValue: {
+            hash: jest.fn((token: string) => `hashed-${token}`),
+          },
+        },
+        {
+          provide: EmailService,
+          useValue: {
+            sendSecurityAlertEmail: jest.fn(),
+          },
+        },
+        {
+          provide: SessionsService,
+          useValue: {
+            revokeAll: jest.fn(),
+          },
+        },
+        {
+          provide: SecurityEventsService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OidcService>(OidcService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    emailService = module.get<EmailService>(EmailService);
+    sessionsService = module.get<SessionsService>(SessionsService);
+    securityEventsService = module.get<SecurityEventsService>(
+      SecurityEventsService,
+    );
+
+    jest.clearAllMocks();
+    fetchMock = jest.spyOn(global, 'fetch');
+    mockIssuer({ body: { id_token: signIdToken() } });
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  describe('getProviders', () => {
+    it('should skip providers without an issuer or client id', () => {
+      jest
+        .spyOn(service['configService'], 'get')
+        .mockImplementation((key: string, defaultValue?: any) => {
+          const config = {
+            OIDC_PROVIDERS: 'google, apple',
+            OIDC_GOOGLE_ISSUER: issuer,
+            OIDC_GOOGLE_CLIENT_ID: clientId,
+          };
+          return config[key] || defaultValue;
+        });
+
+      expect(service.getProviders().map(({ key }) => key)).toEqual(['google']);
+    });
+  });
+
+  describe('createAuthorizationUrl', () => {
+    it('should build a PKCE authorization request and store its secrets', async () => {
+      const { authorizationUrl, state } =
+        await service.createAuthorizationUrl('google');
+
+      const url = new URL(authorizationUrl);
+      const stored = (
+        prismaService.oidcAuthorizationRequest.create as jest.Mock
+      ).mock.calls[0][0].data;
+
+      expect(url.origin + url.pathname).toBe(`${issuer}/authorize`);
+      expect(url.searchParams.get('client_id')).toBe(clientId);
+      expect(url.searchParams.get('state')).toBe(state);
+      expect(url.searchParams.get('nonce')).toBe(stored.nonce);
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(url.searchParams.get('code_challenge')).toBe(
+        createHash('sha256').update(stored.codeVerifier).digest('base64url'),
+      );
+      expect(stored.stateHash).toBe(`hashed-${state}`);
+      expect(stored.redirectUri).toBe(storedRequest.redirectUri);
+    });
+
+    it('should throw NotFoundException for unknown providers', async () => {
+      await expect(service.createAuthorizationUrl('myspace')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('authenticate', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(prismaService.oidcAuthorizationRequest, 'findUnique')
+        .mockResolvedValue(storedRequest);
+      jest
+        .spyOn(prismaService.userIdentity, 'findUnique')
+        .mockResolvedValue(null);
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(null);
+    });
+
+    it('should send the code verifier with the code exchange', async () => {
+      await service.authenticate('google', 'code-123', 'state-123');
+
+      const [, init] = fetchMock.mock.calls.find(
+        ([url]) => url === `${issuer}/token`,
+      );
+      const body = new URLSearchParams(init.body.toString());
+
+      expect(body.get('code')).toBe('code-123');
+      expect(body.get('code_verifier')).toBe('verifier-123');
+      expect(body.get('redirect_uri')).toBe(storedRequest.redirectUri);
+    });
+
+    it('should create a verified account without a password for a new email', async () => {
+      const user = await service.authenticate(
+        'google',
+        'code-123',
+        'state-123',
+      );
+
+      expect(prismaService.user.create).toHaveBeenCalledWith({
+        data: {
+          email: 'test@example.com',
+          name: 'Test User',
+          emailVerified: true,
+          identities: {
+            create: expect.objectContaining({
+              provider: 'google',
+              subject: 'google-subject-1',
+            }),
+          },
+        },
+      });
+      expect(user.passwordHash).toBeUndefined();
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'IDENTITY_LINKED' }),
+      );
+    });
+
+    it('should return the linked user for a known identity', async () => {
+      jest
+        .spyOn(prismaService.userIdentity, 'findUnique')
+        .mockResolvedValue({ id: 'identity-123', user: mockUser } as any);
+
+      const user = await service.authenticate(
+        'google',
+        'code-123',
+        'state-123',
+      );
+
+      expect(user).toBe(mockUser);
+      expect(prismaService.user.create).not.toHaveBeenCalled();
+      expect(prismaService.userIdentity.create).not.toHaveBeenCalled();
+    });
+
+    it('should link the identity to an existing account with the same verified email', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue(mockUser as any);
+
+      const user = await service.authenticate(
+        'google',
+        'code-123',
+        'state-123',
+      );
+
+      expect(user).toBe(mockUser);
+      expect(prismaService.userIdentity.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: mockUser.id,
+          provider: 'google',
+          subject: 'google-subject-1',
+        }),
+      });
+      expect(prismaService.user.update).not.toHaveBeenCalled();
+      expect(emailService.sendSecurityAlertEmail).toHaveBeenCalledWith(
+        mockUser.email,
+        mockUser.name,
+        expect.objectContaining({ heading: 'New sign-in method' }),
+      );
+    });
+
+    it('should drop the password and sessions of an unverified account before linking', async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue({ ...mockUser, emailVerified: false } as any);
+
+      await service.authenticate('google', 'code-123', 'state-123');
+
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: expect.objectContaining({
+          emailVerified: true,
+          passwordHash: null,
+        }),
+      });
+      expect(sessionsService.revokeAll).toHaveBeenCalledWith(mockUser.id);
+    });
+
+    it('should not link when the provider did not verify the email', async () => {
+      mockIssuer({
+        body: { id_token: signIdToken({ email_verified: false }) },
+      });
+
+      await expect(
+        service.authenticate('google', 'code-123', 'state-123'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(prismaService.user.findUnique).not.toHaveBeenCalled();
+      expect(prismaService.user.create).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['a different nonce', () => signIdToken({ nonce: 'another-nonce' })],
+      ['another audience', () => signIdToken({ aud: 'another-client' })],
+      ['an unknown key', () => signIdToken({}, foreignKey.privateKey)],
+    ])('should reject ID tokens with %s', async (_, idToken) => {
+      mockIssuer({ body: { id_token: idToken() } });
+
+      await expect(
+        service.authenticate('google', 'code-123', 'state-123'),
+      ).rejects.toThrow('Invalid ID token from the identity provider');
+    });
+
+    it('should reject codes the provider refuses', async () => {
+      mockIssuer({ status: 400, body: { error: 'invalid_grant' } });
+
+      await expect(
+        service.authenticate('google', 'code-123', 'state-123'),
+      ).rejects.toThrow('The identity provider rejected the sign-in');
+    });
+
+    it('should not accept a state twice', async () => {
+      jest
+        .spyOn(prismaService.oidcAuthorizationRequest, 'deleteMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.authenticate('google', 'code-123', 'state-123'),
+      ).rejects.toThrow('Invalid or expired sign-in request');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should not accept a state issued for another provider', async () => {
+      jest
+        .spyOn(prismaService.oidcAuthorizationRequest, 'findUnique')
+        .mockResolvedValue({ ...storedRequest, provider: 'apple' });
+
+      await expect(
+        service.authenticate('google', 'code-123', 'state-123'),
+      ).rejects.toThrow('Invalid or expired sign-in request');
+    });
+  });
+});
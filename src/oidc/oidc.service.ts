@@ -0,0 +1,553 @@
+import {
+  Injectable,
+  Logger,
+  HttpException,
+  NotFoundException,
+  UnauthorizedException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { User } from '@prisma/client';
+import { createHash, createPublicKey, JsonWebKey, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { EmailService } from '../email/email.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { ClientInfoData } from '../auth/decorators/client-info.decorator';
+
+const AUTHORIZATION_REQUEST_TTL_MS = 10 * 60 * 1000;
+const DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS = ['RS256', 'ES256'] as const;
+
+export interface OidcProviderConfig {
+  key: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+  redirectUri: string;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface IdTokenClaims {
+  sub: string;
+  nonce?: string;
+  aud: string | string[];
+  azp?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+}
+
+@Injectable()
+export class OidcService {
+  private readonly logger = new Logger(OidcService.name);
+  private readonly discoveryCache = new Map<
+    string,
+    { metadata: ProviderMetadata; fetchedAt: number }
+  >();
+  private readonly jwksCache = new Map<string, JsonWebKey[]>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService,
+    private readonly tokenHashService: TokenHashService,
+    private readonly emailService: EmailService,
+    private readonly sessionsService: SessionsService,
+    private readonly securityEventsService: SecurityEventsService,
+  ) {}
+
+  /**
+   * Providers are declared with OIDC_PROVIDERS=google,apple and configured
+   * through OIDC_<KEY>_ISSUER, OIDC_<KEY>_CLIENT_ID and so on.
+   */
+  getProviders(): OidcProviderConfig[] {
+    const keys = this.configService.get<string>('OIDC_PROVIDERS', '');
+
+    return keys
+      .split(',')
+      .map((key) => key.trim().toLowerCase())
+      .filter(Boolean)
+      .map((key) => this.readProviderConfig(key))
+      .filter((provider): provider is OidcProviderConfig => !!provider);
+  }
+
+  /**
+   * Starts an authorization code flow with PKCE. The state, nonce and code
+   * verifier stay on the server; the browser only carries the state.
+   */
+  async createAuthorizationUrl(providerKey: string) {
+    try {
+      const provider = this.getProvider(providerKey);
+      const metadata = await this.discover(provider);
+
+      const state = randomBytes(32).toString('base64url');
+      const nonce = randomBytes(32).toString('base64url');
+      const codeVerifier = randomBytes(32).toString('base64url');
+      const codeChallenge = createHash('sha256')
+        .update(codeVerifier)
+        .digest('base64url');
+
+      // Abandoned flows are cleaned up opportunistically
+      await this.prisma.oidcAuthorizationRequest.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+      });
+
+      await this.prisma.oidcAuthorizationRequest.create({
+        data: {
+          provider: provider.key,
+          stateHash: this.tokenHashService.hash(state),
+          nonce,
+          codeVerifier,
+          redirectUri: provider.redirectUri,
+          expiresAt: new Date(Date.now() + AUTHORIZATION_REQUEST_TTL_MS),
+        },
+      });
+
+      const url = new URL(metadata.authorization_endpoint);
+      url.search = new URLSearchParams({
+        response_type: 'code',
+        client_id: provider.clientId,
+        redirect_uri: provider.redirectUri,
+        scope: provider.scopes,
+        state,
+        nonce,
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+      }).toString();
+
+      return { authorizationUrl: url.toString(), state };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error(`Failed to start sign-in with ${providerKey}:`, error);
+      throw new InternalServerErrorException(
+        'Failed to start sign-in with the identity provider',
+      );
+    }
+  }
+
+  /**
+   * Completes the flow started by createAuthorizationUrl and returns the
+   * local user for the provider identity, linking or creating it as needed.
+   */
+  async authenticate(
+    providerKey: string,
+    code: string,
+    state: string,
+    client?: ClientInfoData,
+  ) {
+    try {
+      const provider = this.getProvider(providerKey);
+
+      const request = await this.consumeAuthorizationRequest(
+        provider.key,
+        state,
+      );
+      if (!request) {
+        throw new UnauthorizedException('Invalid or expired sign-in request');
+      }
+
+      const metadata = await this.discover(provider);
+      const idToken = await this.exchangeCode(
+        provider,
+        metadata,
+        code,
+        request.codeVerifier,
+        request.redirectUri,
+      );
+      const claims = await this.verifyIdToken(
+        provider,
+        metadata,
+        idToken,
+        request.nonce,
+      );
+
+      return await this.resolveUser(provider, claims, client);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error(
+        `Failed to complete sign-in with ${providerKey}:`,
+        error,
+      );
+      throw new InternalServerErrorException(
+        'Failed to complete sign-in with the identity provider',
+      );
+    }
+  }
+
+  /**
+   * Identities are matched by provider subject first. A new identity is
+   * linked to an existing account only through an email address the
+   * provider vouches for.
+   */
+  private async resolveUser(
+    provider: OidcProviderConfig,
+    claims: IdTokenClaims,
+    client?: ClientInfoData,
+  ): Promise<User> {
+    const identity = await this.prisma.userIdentity.findUnique({
+      where: {
+        provider_subject: { provider: provider.key, subject: claims.sub },
+      },
+      include: { user: true },
+    });
+
+    if (identity) {
+      await this.prisma.userIdentity.update({
+        where: { id: identity.id },
+        data: { lastUsedAt: new Date(), email: claims.email ?? identity.email },
+      });
+      return identity.user;
+    }
+
+    const emailVerified =
+      claims.email_verified === true || claims.email_verified === 'true';
+    if (!claims.email || !emailVerified) {
+      throw new UnauthorizedException(
+        'The identity provider did not confirm an email address for this account',
+      );
+    }
+
+    const email = claims.email.toLowerCase();
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (!existingUser) {
+      const user = await this.prisma.user.create({
+        data: {
+          email,
+          name: claims.name,
+          emailVerified: true,
+          identities: {
+            create: {
+              provider: provider.key,
+              subject: claims.sub,
+              email,
+              lastUsedAt: new Date(),
+            },
+          },
+        },
+      });
+
+      await this.securityEventsService.record({
+        userId: user.id,
+        type: 'IDENTITY_LINKED',
+        client,
+        metadata: { provider: provider.key, accountCreated: true },
+      });
+
+      return user;
+    }
+
+    let user = existingUser;
+
+    // Whoever registered an unverified account never proved they own the
+    // address, so the password they chose and their sessions are dropped
+    // before the verified owner gets in
+    if (!existingUser.emailVerified) {
+      user = await this.prisma.user.update({
+        where: { id: existingUser.id },
+        data: {
+          emailVerified: true,
+          emailVerificationTokenHash: null,
+          emailVerificationExpires: null,
+          passwordHash: null,
+          passwordResetTokenHash: null,
+          passwordResetExpires: null,
+        },
+      });
+      await this.sessionsService.revokeAll(existingUser.id);
+    }
+
+    await this.prisma.userIdentity.create({
+      data: {
+        userId: user.id,
+        provider: provider.key,
+        subject: claims.sub,
+        email,
+        lastUsedAt: new Date(),
+      },
+    });
+
+    await this.securityEventsService.record({
+      userId: user.id,
+      type: 'IDENTITY_LINKED',
+      client,
+      metadata: { provider: provider.key, accountCreated: false },
+    });
+    await this.sendLinkedAlert(user, provider, client);
+
+    return user;
+  }
+
+  private getProvider(providerKey: string) {
+    const provider = this.getProviders().find(
+      ({ key }) => key === providerKey.toLowerCase(),
+    );
+
+    if (!provider) {
+      throw new NotFoundException('Unknown identity provider');
+    }
+
+    return provider;
+  }
+
+  private readProviderConfig(key: string): OidcProviderConfig | null {
+    const prefix = `OIDC_${key.toUpperCase()}`;
+    const issuer = this.configService.get<string>(`${prefix}_ISSUER`);
+    const clientId = this.configService.get<string>(`${prefix}_CLIENT_ID`);
+
+    if (!issuer || !clientId) {
+      this.logger.warn(
+        `Identity provider "${key}" is missing ${prefix}_ISSUER or ${prefix}_CLIENT_ID and is disabled`,
+      );
+      return null;
+    }
+
+    const frontendUrl = this.configService.get<string>(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+
+    return {
+      key,
+      issuer: issuer.replace(/\/$/, ''),
+      clientId,
+      clientSecret: this.configService.get<string>(`${prefix}_CLIENT_SECRET`),
+      scopes: this.configService.get<string>(
+        `${prefix}_SCOPES`,
+        'openid email profile',
+      ),
+      redirectUri: this.configService.get<string>(
+        `${prefix}_REDIRECT_URI`,
+        `${frontendUrl}/auth/oidc/${key}/callback`,
+      ),
+    };
+  }
+
+  private async discover(provider: OidcProviderConfig) {
+    const cached = this.discoveryCache.get(provider.key);
+    if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_TTL_MS) {
+      return cached.metadata;
+    }
+
+    const metadata = await this.fetchJson<ProviderMetadata>(
+      `${provider.issuer}/.well-known/openid-configuration`,
+    );
+
+    if (metadata.issuer.replace(/\/$/, '') !== provider.issuer) {
+      throw new Error(
+        `Discovery document of ${provider.key} is for issuer ${metadata.issuer}`,
+      );
+    }
+
+    this.discoveryCache.set(provider.key, { metadata, fetchedAt: Date.now() });
+
+    return metadata;
+  }
+
+  private async exchangeCode(
+    provider: OidcProviderConfig,
+    metadata: ProviderMetadata,
+    code: string,
+    codeVerifier: string,
+    redirectUri: string,
+  ) {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: provider.clientId,
+      code_verifier: codeVerifier,
+    });
+    if (provider.clientSecret) {
+      body.set('client_secret', provider.clientSecret);
+    }
+
+    const response = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body,
+    });
+
+    const result = (await response.json().catch(() => ({}))) as {
+      id_token?: string;
+      error?: string;
+    };
+
+    if (!response.ok || !result.id_token) {
+      this.logger.warn(
+        `Code exchange with ${provider.key} failed: ${result.error || response.status}`,
+      );
+      throw new UnauthorizedException(
+        'The identity provider rejected the sign-in',
+      );
+    }
+
+    return result.id_token;
+  }
+
+  private async verifyIdToken(
+    provider: OidcProviderConfig,
+    metadata: ProviderMetadata,
+    idToken: string,
+    nonce: string,
+  ) {
+    const invalid = () =>
+      new UnauthorizedException('Invalid ID token from the identity provider');
+
+    const header = this.decodeHeader(idToken);
+    if (!header) {
+      throw invalid();
+    }
+
+    const jwk = await this.findSigningKey(metadata.jwks_uri, header.kid);
+    if (!jwk) {
+      throw invalid();
+    }
+
+    let claims: IdTokenClaims;
+    try {
+      claims = await this.jwtService.verifyAsync<IdTokenClaims>(idToken, {
+        publicKey: createPublicKey({ key: jwk, format: 'jwk' })
+          .export({ type: 'spki', format: 'pem' })
+          .toString(),
+        algorithms: [...ID_TOKEN_ALGORITHMS],
+        issuer: [provider.issuer, `${provider.issuer}/`],
+        audience: provider.clientId,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `ID token from ${provider.key} rejected: ${error.message}`,
+      );
+      throw invalid();
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (audiences.length > 1 && claims.azp !== provider.clientId) {
+      throw invalid();
+    }
+
+    if (!claims.sub || claims.nonce !== nonce) {
+      throw invalid();
+    }
+
+    return claims;
+  }
+
+  /** Looks the key up by `kid`, refetching once in case the provider rotated its keys. */
+  private async findSigningKey(jwksUri: string, kid?: string) {
+    const pick = (keys: JsonWebKey[]) =>
+      keys.find(
+        (key) => (!kid || key.kid === kid) && (!key.use || key.use === 'sig'),
+      );
+
+    const cached = this.jwksCache.get(jwksUri);
+    const cachedKey = cached && pick(cached);
+    if (cachedKey) {
+      return cachedKey;
+    }
+
+    const { keys } = await this.fetchJson<{ keys: JsonWebKey[] }>(jwksUri);
+    this.jwksCache.set(jwksUri, keys);
+
+    return pick(keys);
+  }
+
+  private decodeHeader(token: string): { alg?: string; kid?: string } | null {
+    try {
+      return JSON.parse(
+        Buffer.from(token.split('.')[0], 'base64url').toString('utf8'),
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`GET ${url} returned ${response.status}`);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /** Returns the stored request once; a second call with the same state gets null. */
+  private async consumeAuthorizationRequest(provider: string, state: string) {
+    const stateHash = this.tokenHashService.hash(state);
+
+    const request = await this.prisma.oidcAuthorizationRequest.findUnique({
+      where: { stateHash },
+    });
+
+    if (!request || request.provider !== provider) {
+      return null;
+    }
+
+    const { count } = await this.prisma.oidcAuthorizationRequest.deleteMany({
+      where: { id: request.id },
+    });
+
+    if (count !== 1 || request.expiresAt < new Date()) {
+      return null;
+    }
+
+    return request;
+  }
+
+  private async sendLinkedAlert(
+    user: { id: string; email: string; name: string | null },
+    provider: OidcProviderConfig,
+    client?: ClientInfoData,
+  ) {
+    try {
+      const baseUrl = this.configService.get<string>(
+        'FRONTEND_URL',
+        'http://localhost:3000',
+      );
+      await this.emailService.sendSecurityAlertEmail(
+        user.email,
+        user.name || '',
+        {
+          subject: 'A new sign-in method was added to your account',
+          heading: 'New sign-in method',
+          message: `You can now sign in to your account with ${provider.key}. If you did not do this, reset your password and contact support.`,
+          details: [
+            { label: 'Provider', value: provider.key },
+            { label: 'IP address', value: client?.ipAddress || 'Unknown' },
+            { label: 'Device', value: client?.userAgent || 'Unknown' },
+            { label: 'Time', value: new Date().toUTCString() },
+          ],
+          actionUrl: `${baseUrl}/forgot-password`,
+          actionText: 'Reset Password',
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue sign-in method alert for user ${user.id}:`,
+        error,
+      );
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { BreachedPasswordService } from './breached-password.service';
+import { authConfig } from '../config/auth.config';
+
+jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+describe('BreachedPasswordService', () => {
+  let directory: string;
+
+  const sha1 = (password: string) =>
+    createHash('sha1').update(password).digest('hex').toUpperCase();
+
+  const createService = async (breachedPasswordsPath: string | null) => {
+    const config = authConfig();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BreachedPasswordService,
+        {
+          provide: authConfig.KEY,
+          useValue: {
+            ...config,
+            passwordPolicy: { ...config.passwordPolicy, breachedPasswordsPath },
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<BreachedPasswordService>(BreachedPasswordService);
+  };
+
+  beforeAll(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'breached-passwords-'));
+
+    // "Password123!" is in the corpus, next to an unrelated suffix
+    const digest = sha1('Password123!');
+    writeFileSync(
+      path.join(directory, `${digest.slice(0, 5)}.txt`),
+      `0000000000000000000000000000000000A:3\r\n${digest.slice(5)}:42\r\n`,
+    );
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should find passwords listed in their range file', async () => {
+    const service = await createService(directory);
+
+    expect(service.enabled).toBe(true);
+    await expect(service.isBreached('Password123!')).resolves.toBe(true);
+  });
+
+  it('should pass passwords whose range has no file', async () => {
+    const service = await createService(directory);
+
+    await expect(service.isBreached('Blue-Kettle-42')).resolves.toBe(false);
+  });
+
+  it('should let passwords through when a range cannot be read', async () => {
+    const unreadable = mkdtempSync(path.join(tmpdir(), 'breached-passwords-'));
+    mkdirSync(path.join(unreadable, `${sha1('Password123!').slice(0, 5)}.txt`));
+    const service = await createService(unreadable);
+
+    await expect(service.isBreached('Password123!')).resolves.toBe(false);
+    expect(Logger.prototype.error).toHaveBeenCalled();
+
+    rmSync(unreadable, { recursive: true, force: true });
+  });
+
+  it('should be disabled without a corpus', async () => {
+    const service = await createService(null);
+
+    expect(service.enabled).toBe(false);
+    await expect(service.isBreached('Password123!')).resolves.toBe(false);
+  });
+
+  it('should refuse to start with a corpus path that does not exist', async () => {
+    await expect(
+      createService(path.join(directory, 'missing')),
+    ).rejects.toThrow('BREACHED_PASSWORDS_PATH points to');
+  });
+});
@@ -0,0 +1,67 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { existsSync, promises as fs } from 'fs';
+import * as path from 'path';
+import { authConfig, AuthConfig } from '../config/auth.config';
+
+/**
+ * Looks passwords up in a local copy of a breached-password corpus, laid out
+ * the way the Have I Been Pwned downloader writes it: one `<prefix>.txt` file
+ * per first five hex digits of the SHA-1, each line a `<suffix>:<count>`.
+ * Only the range file a password falls in is read, so the corpus stays on disk.
+ */
+@Injectable()
+export class BreachedPasswordService {
+  private readonly logger = new Logger(BreachedPasswordService.name);
+  private readonly directory: string | null;
+
+  constructor(@Inject(authConfig.KEY) { passwordPolicy }: AuthConfig) {
+    this.directory = passwordPolicy.breachedPasswordsPath;
+    if (this.directory && !existsSync(this.directory)) {
+      throw new Error(
+        `BREACHED_PASSWORDS_PATH points to ${this.directory}, which does not exist`,
+      );
+    }
+  }
+
+  get enabled() {
+    return this.directory !== null;
+  }
+
+  /**
+   * A missing range file means no known breach. Unreadable files are logged
+   * and let through, so a broken corpus does not stop every password change.
+   */
+  async isBreached(password: string): Promise<boolean> {
+    if (!this.directory) {
+      return false;
+    }
+
+    const digest = createHash('sha1')
+      .update(password)
+      .digest('hex')
+      .toUpperCase();
+    const prefix = digest.slice(0, 5);
+    const suffix = digest.slice(5);
+
+    let range: string;
+    try {
+      range = await fs.readFile(
+        path.join(this.directory, `${prefix}.txt`),
+        'utf8',
+      );
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        this.logger.error(
+          `Failed to read breached password range ${prefix}:`,
+          error,
+        );
+      }
+      return false;
+    }
+
+    return range
+      .split('\n')
+      .some((line) => line.split(':')[0].trim().toUpperCase() === suffix);
+  }
+}
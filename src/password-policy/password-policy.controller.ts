@@ -0,0 +1,23 @@
+import { Controller, Get, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { PasswordPolicyService } from './password-policy.service';
+
+@ApiTags('Authentication')
+@Controller('auth/password-policy')
+export class PasswordPolicyController {
+  constructor(private readonly passwordPolicyService: PasswordPolicyService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Rules new passwords must meet',
+    description:
+      'Registration, password reset and password change refuse passwords that break these rules with a 400 whose `violations` list each broken rule by name.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The password policy in force',
+  })
+  getPolicy() {
+    return this.passwordPolicyService.describe();
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PasswordPolicyController } from './password-policy.controller';
+import { PasswordPolicyService } from './password-policy.service';
+import { BreachedPasswordService } from './breached-password.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [PasswordPolicyController],
+  providers: [PasswordPolicyService, BreachedPasswordService],
+  exports: [PasswordPolicyService],
+})
+export class PasswordPolicyModule {}
@@ -0,0 +1,249 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PasswordPolicyService } from './password-policy.service';
+import { BreachedPasswordService } from './breached-password.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PasswordHasherService } from '../crypto/password-hasher.service';
+import { authConfig, AuthConfig } from '../config/auth.config';
+
+describe('PasswordPolicyService', () => {
+  let prismaService: PrismaService;
+  let passwordHasher: PasswordHasherService;
+  let breachedPasswordService: BreachedPasswordService;
+
+  const context = { email: 'jane.doe@example.com', name: 'Jane Doe' };
+
+  const createService = async (
+    passwordPolicy: Partial<AuthConfig['passwordPolicy']> = {},
+  ) => {
+    const config = authConfig();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordPolicyService,
+        {
+          provide: authConfig.KEY,
+          useValue: {
+            ...config,
+            passwordPolicy: { ...config.passwordPolicy, ...passwordPolicy },
+          },
+        },
+        {
+          provide: PrismaService,
+          useValue: {
+            user: {
+              findUnique: jest
+                .fn()
+                .mockResolvedValue({ passwordHash: 'current-hash' }),
+            },
+            passwordHistory: {
+              findMany: jest
+                .fn()
+                .mockResolvedValue([
+                  { passwordHash: 'previous-hash' },
+                  { passwordHash: 'older-hash' },
+                ]),
+            },
+          },
+        },
+        {
+          provide: PasswordHasherService,
+          useValue: {
+            verify: jest.fn().mockResolvedValue(false),
+          },
+        },
+        {
+          provide: BreachedPasswordService,
+          useValue: {
+            enabled: true,
+            isBreached: jest.fn().mockResolvedValue(false),
+          },
+        },
+      ],
+    }).compile();
+
+    prismaService = module.get<PrismaService>(PrismaService);
+    passwordHasher = module.get<PasswordHasherService>(PasswordHasherService);
+    breachedPasswordService = module.get<BreachedPasswordService>(
+      BreachedPasswordService,
+    );
+
+    return module.get<PasswordPolicyService>(PasswordPolicyService);
+  };
+
+  const rules = async (
+    service: PasswordPolicyService,
+    password: string,
+    passwordContext: Parameters<PasswordPolicyService['validate']>[1] = context,
+  ) =>
+    (await service.validate(password, passwordContext)).map(
+      (violation) => violation.rule,
+    );
+
+  it('should accept a password that meets every rule', async () => {
+    const service = await createService();
+
+    await expect(service.validate('Blue-Kettle-42', context)).resolves.toEqual(
+      [],
+    );
+  });
+
+  it('should report each broken rule separately', async () => {
+    const service = await createService();
+
+    await expect(service.validate('abc', context)).resolves.toEqual([
+      {
+        rule: 'minLength',
+        message: 'Password must be at least 8 characters long',
+      },
+      {
+        rule: 'uppercase',
+        message: 'Password must contain at least 1 uppercase letter',
+      },
+      { rule: 'digit', message: 'Password must contain at least 1 number' },
+      {
+        rule: 'symbol',
+        message: 'Password must contain at least 1 special character',
+      },
+    ]);
+  });
+
+  it.each([
+    ['alllowercase1!', 'uppercase'],
+    ['ALLUPPERCASE1!', 'lowercase'],
+    ['NoNumbers!', 'digit'],
+    ['NoSpecialChar1', 'symbol'],
+  ])('should refuse %j for a missing %s', async (password, rule) => {
+    const service = await createService();
+
+    await expect(rules(service, password)).resolves.toEqual([rule]);
+  });
+
+  it('should only require the configured character classes', async () => {
+    const service = await createService({ requiredCharacterClasses: [] });
+
+    await expect(rules(service, 'correct horse battery')).resolves.toEqual([]);
+  });
+
+  it('should count characters rather than UTF-16 code units', async () => {
+    const service = await createService({ maxLength: 10 });
+
+    await expect(rules(service, 'Aa1!🔑🔑🔑🔑🔑🔑')).resolves.toEqual([]);
+    await expect(rules(service, 'Aa1!🔑🔑🔑🔑🔑🔑🔑')).resolves.toEqual([
+      'maxLength',
+    ]);
+  });
+
+  it('should refuse passwords containing the name or email address', async () => {
+    const service = await createService();
+
+    await expect(rules(service, 'Jane.Doe-2024!')).resolves.toEqual([
+      'personalInfo',
+    ]);
+    await expect(rules(service, 'Doe-Kettle-42')).resolves.toEqual([
+      'personalInfo',
+    ]);
+  });
+
+  it('should ignore parts of a name too short to matter', async () => {
+    const service = await createService();
+
+    await expect(
+      rules(service, 'Blue-Al-Kettle-42', { email: 'al@example.com' }),
+    ).resolves.toEqual([]);
+  });
+
+  it('should refuse configured banned words regardless of case', async () => {
+    const service = await createService({ bannedWords: ['Fata'] });
+
+    await expect(service.validate('FATA-Kettle-42', context)).resolves.toEqual([
+      { rule: 'bannedWord', message: 'Password must not contain "fata"' },
+    ]);
+  });
+
+  it('should refuse the current and previous passwords of an account', async () => {
+    const service = await createService({ historySize: 3 });
+    (passwordHasher.verify as jest.Mock).mockImplementation(
+      async (_password: string, hash: string) => hash === 'older-hash',
+    );
+
+    await expect(
+      service.validate('Blue-Kettle-42', { ...context, userId: 'user-123' }),
+    ).resolves.toEqual([
+      {
+        rule: 'history',
+        message: 'Password must not be one of your last 3 passwords',
+      },
+    ]);
+    expect(prismaService.passwordHistory.findMany).toHaveBeenCalledWith({
+      where: { userId: 'user-123' },
+      orderBy: { createdAt: 'desc' },
+      take: 2,
+      select: { passwordHash: true },
+    });
+    expect(passwordHasher.verify).toHaveBeenCalledWith(
+      'Blue-Kettle-42',
+      'current-hash',
+    );
+  });
+
+  it('should skip the history without an account or when it is disabled', async () => {
+    const service = await createService();
+    await service.validate('Blue-Kettle-42', context);
+
+    const disabled = await createService({ historySize: 0 });
+    await disabled.validate('Blue-Kettle-42', {
+      ...context,
+      userId: 'user-123',
+    });
+
+    expect(prismaService.passwordHistory.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should refuse breached passwords', async () => {
+    const service = await createService();
+    (breachedPasswordService.isBreached as jest.Mock).mockResolvedValue(true);
+
+    await expect(rules(service, 'Blue-Kettle-42')).resolves.toEqual([
+      'breached',
+    ]);
+  });
+
+  it('should not hash passwords over the maximum length', async () => {
+    const service = await createService({ maxLength: 16 });
+
+    await expect(
+      rules(service, 'Blue-Kettle-42'.repeat(100), {
+        ...context,
+        userId: 'user-123',
+      }),
+    ).resolves.toEqual(['maxLength']);
+    expect(passwordHasher.verify).not.toHaveBeenCalled();
+    expect(breachedPasswordService.isBreached).not.toHaveBeenCalled();
+  });
+
+  it('should throw the violations alongside their messages', async () => {
+    const service = await createService();
+
+    const error = await service
+      .assertValid('NoNumbers!', context)
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(BadRequestException);
+    expect(error.getResponse()).toEqual({
+      statusCode: 400,
+      error: 'Bad Request',
+      message: ['Password must contain at least 1 number'],
+      violations: [
+        { rule: 'digit', message: 'Password must contain at least 1 number' },
+      ],
+    });
+  });
+
+  it('should refuse a minimum length above the maximum', async () => {
+    await expect(
+      createService({ minLength: 20, maxLength: 16 }),
+    ).rejects.toThrow(
+      'PASSWORD_MIN_LENGTH must not be greater than PASSWORD_MAX_LENGTH',
+    );
+  });
+});
@@ -0,0 +1,211 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { PasswordHasherService } from '../crypto/password-hasher.service';
+import { BreachedPasswordService } from './breached-password.service';
+import { authConfig, AuthConfig, CharacterClass } from '../config/auth.config';
+
+export type PasswordPolicyRule =
+  | 'minLength'
+  | 'maxLength'
+  | CharacterClass
+  | 'personalInfo'
+  | 'bannedWord'
+  | 'history'
+  | 'breached';
+
+export interface PasswordPolicyViolation {
+  rule: PasswordPolicyRule;
+  message: string;
+}
+
+export interface PasswordPolicyContext {
+  email: string;
+  name?: string | null;
+  /** Set when the account exists, so its previous passwords are refused. */
+  userId?: string;
+}
+
+const CHARACTER_CLASS_RULES: Record<
+  CharacterClass,
+  { pattern: RegExp; description: string }
+> = {
+  lowercase: { pattern: /\p{Ll}/u, description: 'lowercase letter' },
+  uppercase: { pattern: /\p{Lu}/u, description: 'uppercase letter' },
+  digit: { pattern: /\p{Nd}/u, description: 'number' },
+  symbol: { pattern: /[^\p{L}\p{N}]/u, description: 'special character' },
+};
+
+// Shorter parts of a name or address ("al", "jo") would refuse too much
+const MIN_PERSONAL_WORD_LENGTH = 3;
+
+/**
+ * Rules every new password must meet, wherever it is set. Each broken rule is
+ * reported separately, so clients can show a checklist instead of one message.
+ */
+@Injectable()
+export class PasswordPolicyService {
+  private readonly policy: AuthConfig['passwordPolicy'];
+  private readonly bannedWords: string[];
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly passwordHasher: PasswordHasherService,
+    private readonly breachedPasswordService: BreachedPasswordService,
+    @Inject(authConfig.KEY) { passwordPolicy }: AuthConfig,
+  ) {
+    if (passwordPolicy.minLength > passwordPolicy.maxLength) {
+      throw new Error(
+        'PASSWORD_MIN_LENGTH must not be greater than PASSWORD_MAX_LENGTH',
+      );
+    }
+
+    this.policy = passwordPolicy;
+    this.bannedWords = passwordPolicy.bannedWords.map((word) =>
+      word.toLowerCase(),
+    );
+  }
+
+  /** The rules in force, for clients to show before anything is submitted. */
+  describe() {
+    return {
+      minLength: this.policy.minLength,
+      maxLength: this.policy.maxLength,
+      requiredCharacterClasses: this.policy.requiredCharacterClasses,
+      historySize: this.policy.historySize,
+      breachScreening: this.breachedPasswordService.enabled,
+    };
+  }
+
+  async validate(
+    password: string,
+    context: PasswordPolicyContext,
+  ): Promise<PasswordPolicyViolation[]> {
+    const violations: PasswordPolicyViolation[] = [];
+    // Code points, so characters outside the BMP count once
+    const length = [...password].length;
+
+    if (length < this.policy.minLength) {
+      violations.push({
+        rule: 'minLength',
+        message: `Password must be at least ${this.policy.minLength} characters long`,
+      });
+    }
+    if (length > this.policy.maxLength) {
+      violations.push({
+        rule: 'maxLength',
+        message: `Password must be at most ${this.policy.maxLength} characters long`,
+      });
+    }
+
+    for (const characterClass of this.policy.requiredCharacterClasses) {
+      const { pattern, description } = CHARACTER_CLASS_RULES[characterClass];
+      if (!pattern.test(password)) {
+        violations.push({
+          rule: characterClass,
+          message: `Password must contain at least 1 ${description}`,
+        });
+      }
+    }
+
+    const lowered = password.toLowerCase();
+    if (this.personalWords(context).some((word) => lowered.includes(word))) {
+      violations.push({
+        rule: 'personalInfo',
+        message: 'Password must not contain your name or email address',
+      });
+    }
+    for (const word of this.bannedWords) {
+      if (lowered.includes(word)) {
+        violations.push({
+          rule: 'bannedWord',
+          message: `Password must not contain "${word}"`,
+        });
+      }
+    }
+
+    // Both checks below hash the password; an oversized one is refused without them
+    if (length > this.policy.maxLength) {
+      return violations;
+    }
+
+    if (
+      context.userId &&
+      (await this.wasUsedBefore(context.userId, password))
+    ) {
+      violations.push({
+        rule: 'history',
+        message: `Password must not be one of your last ${this.policy.historySize} passwords`,
+      });
+    }
+    if (await this.breachedPasswordService.isBreached(password)) {
+      violations.push({
+        rule: 'breached',
+        message:
+          'Password has appeared in a data breach, please choose a different one',
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * Throws a 400 listing every broken rule. `message` holds the texts, like a
+   * validation error would; `violations` pairs each with the rule it breaks.
+   */
+  async assertValid(password: string, context: PasswordPolicyContext) {
+    const violations = await this.validate(password, context);
+    if (violations.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: violations.map((violation) => violation.message),
+        violations,
+      });
+    }
+  }
+
+  /** The current password and the ones before it that history still refuses. */
+  private async wasUsedBefore(userId: string, password: string) {
+    if (this.policy.historySize === 0) {
+      return false;
+    }
+
+    const [user, previous] = await Promise.all([
+      this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { passwordHash: true },
+      }),
+      this.prisma.passwordHistory.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: this.policy.historySize - 1,
+        select: { passwordHash: true },
+      }),
+    ]);
+
+    const hashes = [
+      user?.passwordHash,
+      ...previous.map((entry) => entry.passwordHash),
+    ];
+    for (const hash of hashes) {
+      if (await this.passwordHasher.verify(password, hash)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private personalWords({ email, name }: PasswordPolicyContext) {
+    const [localPart] = email.toLowerCase().split('@');
+    const words = [
+      localPart,
+      ...localPart.split(/[^\p{L}\p{N}]+/u),
+      ...(name ?? '').toLowerCase().split(/[^\p{L}\p{N}]+/u),
+    ];
+
+    return [...new Set(words)].filter(
+      (word) => word.length >= MIN_PERSONAL_WORD_LENGTH,
+    );
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Scopes a personal access token can be granted. A route only accepts
+ * tokens when it opts in with `@AllowApiKey(...)` naming the scopes it
+ * needs; every other route stays limited to interactive sessions.
+ */
+export const ACCESS_TOKEN_SCOPES = ['profile:read', 'profile:write'] as const;
+
+export type AccessTokenScope = (typeof ACCESS_TOKEN_SCOPES)[number];
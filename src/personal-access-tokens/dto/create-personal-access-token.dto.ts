@@ -0,0 +1,48 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ACCESS_TOKEN_SCOPES, AccessTokenScope } from '../access-token-scopes';
+
+export class CreatePersonalAccessTokenDto {
+  @ApiProperty({
+    example: 'Zapier article import',
+    description: 'Name that reminds you what the token is used for',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100, { message: 'Name must be at most 100 characters long' })
+  name: string;
+
+  @ApiProperty({
+    example: ['profile:read'],
+    description: 'Permissions granted to the token',
+    enum: ACCESS_TOKEN_SCOPES,
+    isArray: true,
+  })
+  @IsArray()
+  @ArrayNotEmpty({ message: 'At least one scope is required' })
+  @ArrayUnique()
+  @IsIn(ACCESS_TOKEN_SCOPES, { each: true, message: 'Unknown scope' })
+  scopes: AccessTokenScope[];
+
+  @ApiPropertyOptional({
+    example: 90,
+    description: 'Days until the token expires (1-365, defaults to 90)',
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(365)
+  expiresInDays?: number;
+}
@@ -0,0 +1,56 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class PersonalAccessTokenDto {
+  @ApiProperty({
+    example: '7d8e2c1a-4b5f-4c3e-9a1d-2f6b8e0c4a77',
+    description: 'Token unique identifier',
+  })
+  id: string;
+
+  @ApiProperty({ example: 'Zapier article import', description: 'Token name' })
+  name: string;
+
+  @ApiProperty({
+    example: 'fata_pat_Xk3q',
+    description: 'First characters of the token, to tell tokens apart',
+  })
+  tokenPrefix: string;
+
+  @ApiProperty({
+    example: ['profile:read'],
+    description: 'Permissions granted to the token',
+  })
+  scopes: string[];
+
+  @ApiProperty({
+    example: '2024-04-14T10:30:00Z',
+    description: 'When the token stops working',
+  })
+  expiresAt: Date;
+
+  @ApiPropertyOptional({
+    example: '2024-01-15T10:30:00Z',
+    description: 'Last time the token was used',
+  })
+  lastUsedAt: Date | null;
+
+  @ApiPropertyOptional({
+    example: '192.168.1.1',
+    description: 'IP address the token was last used from',
+  })
+  lastUsedIp: string | null;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00Z',
+    description: 'When the token was created',
+  })
+  createdAt: Date;
+}
+
+export class CreatedPersonalAccessTokenDto extends PersonalAccessTokenDto {
+  @ApiProperty({
+    example: 'fata_pat_Xk3qL0v9...',
+    description: 'The token itself. It is only shown once, store it safely',
+  })
+  token: string;
+}
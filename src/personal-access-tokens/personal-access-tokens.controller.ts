@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { CreatePersonalAccessTokenDto } from './dto/create-personal-access-token.dto';
+import {
+  CreatedPersonalAccessTokenDto,
+  PersonalAccessTokenDto,
+} from './dto/personal-access-token.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  CurrentUser,
+  CurrentUserData,
+} from '../auth/decorators/current-user.decorator';
+import {
+  ClientInfo,
+  ClientInfoData,
+} from '../auth/decorators/client-info.decorator';
+import { DenyImpersonation } from '../auth/decorators/deny-impersonation.decorator';
+
+@ApiTags('Personal access tokens')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@DenyImpersonation()
+@Controller('auth/tokens')
+export class PersonalAccessTokensController {
+  constructor(
+    private readonly personalAccessTokensService: PersonalAccessTokensService,
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a personal access token' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Token created. The token value is not shown again',
+    type: CreatedPersonalAccessTokenDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized',
+  })
+  @ApiBody({ type: CreatePersonalAccessTokenDto })
+  async create(
+    @CurrentUser() user: CurrentUserData,
+    @Body() createDto: CreatePersonalAccessTokenDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.personalAccessTokensService.create(user.id, createDto, client);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List personal access tokens of the current user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Personal access tokens, newest first',
+    type: [PersonalAccessTokenDto],
+  })
+  async findAll(@CurrentUser() user: CurrentUserData) {
+    return this.personalAccessTokensService.findAllForUser(user.id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke a personal access token' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Token revoked',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Personal access token not found',
+  })
+  async remove(
+    @CurrentUser() user: CurrentUserData,
+    @Param('id', ParseUUIDPipe) id: string,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    await this.personalAccessTokensService.remove(user.id, id, client);
+    return { message: 'Personal access token revoked successfully' };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { PersonalAccessTokensController } from './personal-access-tokens.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SecurityEventsModule } from '../security-events/security-events.module';
+
+@Module({
+  imports: [PrismaModule, SecurityEventsModule],
+  controllers: [PersonalAccessTokensController],
+  providers: [PersonalAccessTokensService],
+  exports: [PersonalAccessTokensService],
+})
+export class PersonalAccessTokensModule {}
@@ -0,0 +1,249 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  InternalServerErrorException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  ACCESS_TOKEN_PREFIX,
+  PersonalAccessTokensService,
+} from './personal-access-tokens.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+
+describe('PersonalAccessTokensService', () => {
+  let service: PersonalAccessTokensService;
+  let prismaService: PrismaService;
+  let securityEventsService: SecurityEventsService;
+
+  const userId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const storedToken = {
+    id: 'token-123',
+    userId,
+    name: 'CI script',
+    tokenPrefix: 'fata_pat_abcd',
+    tokenHash: 'hashed-fata_pat_abcd',
+    scopes: ['profile:read'],
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    lastUsedAt: null,
+    lastUsedIp: null,
+    createdAt: new Date(),
+    user: {
+      id: userId,
+      email: 'test@example.com',
+      name: 'Test User',
+      emailVerified: true,
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PersonalAccessTokensService,
+        {
+          provide: PrismaService,
+          useValue: {
+            personalAccessToken: {
+              create: jest.fn((args) => ({ id: 'token-123', ...args.data })),
+              findMany: jest.fn(),
+              findUnique: jest.fn(),
+              updateMany: jest.fn(),
+              deleteMany: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: TokenHashService,
+          useValue: {
+            hash: jest.fn((token: string) => `hashed-${token}`),
+          },
+        },
+        {
+          provide: SecurityEventsService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PersonalAccessTokensService>(
+      PersonalAccessTokensService,
+    );
+    prismaService = module.get<PrismaService>(PrismaService);
+    securityEventsService = module.get<SecurityEventsService>(
+      SecurityEventsService,
+    );
+
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should return the plain token once and store its hash', async () => {
+      const result = await service.create(userId, {
+        name: 'CI script',
+        scopes: ['profile:read'],
+      });
+
+      expect(result.token.startsWith(ACCESS_TOKEN_PREFIX)).toBe(true);
+
+      const { data } = (prismaService.personalAccessToken.create as jest.Mock)
+        .mock.calls[0][0];
+      expect(data).toMatchObject({
+        userId,
+        name: 'CI script',
+        scopes: ['profile:read'],
+        tokenHash: `hashed-${result.token}`,
+        tokenPrefix: result.token.slice(0, ACCESS_TOKEN_PREFIX.length + 4),
+      });
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId, type: 'ACCESS_TOKEN_CREATED' }),
+      );
+    });
+
+    it('should expire after the requested number of days', async () => {
+      await service.create(userId, {
+        name: 'CI script',
+        scopes: ['profile:read'],
+        expiresInDays: 7,
+      });
+
+      const { data } = (prismaService.personalAccessToken.create as jest.Mock)
+        .mock.calls[0][0];
+      const days = (data.expiresAt.getTime() - Date.now()) / 86400000;
+      expect(Math.round(days)).toBe(7);
+    });
+
+    it('should default to 90 days', async () => {
+      await service.create(userId, {
+        name: 'CI script',
+        scopes: ['profile:read'],
+      });
+
+      const { data } = (prismaService.personalAccessToken.create as jest.Mock)
+        .mock.calls[0][0];
+      const days = (data.expiresAt.getTime() - Date.now()) / 86400000;
+      expect(Math.round(days)).toBe(90);
+    });
+
+    it('should throw InternalServerErrorException on database error', async () => {
+      jest
+        .spyOn(prismaService.personalAccessToken, 'create')
+        .mockRejectedValue(new Error('Database error'));
+
+      await expect(
+        service.create(userId, { name: 'CI script', scopes: ['profile:read'] }),
+      ).rejects.toThrow(InternalServerErrorException);
+    });
+  });
+
+  describe('findAllForUser', () => {
+    it('should never select the token hash', async () => {
+      await service.findAllForUser(userId);
+
+      const args = (prismaService.personalAccessToken.findMany as jest.Mock)
+        .mock.calls[0][0];
+      expect(args.where).toEqual({ userId });
+      expect(args.select).not.toHaveProperty('tokenHash');
+    });
+  });
+
+  describe('remove', () => {
+    it("should only delete the user's own token", async () => {
+      jest
+        .spyOn(prismaService.personalAccessToken, 'deleteMany')
+        .mockResolvedValue({ count: 1 });
+
+      await service.remove(userId, 'token-123');
+
+      expect(prismaService.personalAccessToken.deleteMany).toHaveBeenCalledWith(
+        { where: { id: 'token-123', userId } },
+      );
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId, type: 'ACCESS_TOKEN_REVOKED' }),
+      );
+    });
+
+    it('should throw NotFoundException for unknown tokens', async () => {
+      jest
+        .spyOn(prismaService.personalAccessToken, 'deleteMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(service.remove(userId, 'other')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(securityEventsService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAll', () => {
+    it('should delete every token of the user', async () => {
+      jest
+        .spyOn(prismaService.personalAccessToken, 'deleteMany')
+        .mockResolvedValue({ count: 2 });
+
+      await expect(service.revokeAll(userId)).resolves.toBe(2);
+      expect(prismaService.personalAccessToken.deleteMany).toHaveBeenCalledWith(
+        { where: { userId } },
+      );
+    });
+  });
+
+  describe('validate', () => {
+    it('should look the token up by hash and record the use', async () => {
+      jest
+        .spyOn(prismaService.personalAccessToken, 'findUnique')
+        .mockResolvedValue(storedToken as any);
+
+      const result = await service.validate('fata_pat_abcd', '10.0.0.1');
+
+      expect(result).toBe(storedToken);
+      expect(prismaService.personalAccessToken.findUnique).toHaveBeenCalledWith(
+        {
+          where: { tokenHash: 'hashed-fata_pat_abcd' },
+          include: { user: true },
+        },
+      );
+      expect(prismaService.personalAccessToken.updateMany).toHaveBeenCalledWith(
+        {
+          where: {
+            id: 'token-123',
+            OR: [
+              { lastUsedAt: null },
+              { lastUsedAt: { lt: expect.any(Date) } },
+            ],
+          },
+          data: { lastUsedAt: expect.any(Date), lastUsedIp: '10.0.0.1' },
+        },
+      );
+    });
+
+    it('should reject expired tokens', async () => {
+      jest
+        .spyOn(prismaService.personalAccessToken, 'findUnique')
+        .mockResolvedValue({
+          ...storedToken,
+          expiresAt: new Date(Date.now() - 1000),
+        } as any);
+
+      await expect(service.validate('fata_pat_abcd')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(
+        prismaService.personalAccessToken.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown tokens', async () => {
+      jest
+        .spyOn(prismaService.personalAccessToken, 'findUnique')
+        .mockResolvedValue(null);
+
+      await expect(service.validate('fata_pat_unknown')).rejects.toThrow(
+        'Invalid or expired access token',
+      );
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  Injectable,
+  HttpException,
+  NotFoundException,
+  UnauthorizedException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { ClientInfoData } from '../auth/decorators/client-info.decorator';
+import { CreatePersonalAccessTokenDto } from './dto/create-personal-access-token.dto';
+
+/** Lets the API key strategy tell these apart from JWTs in a Bearer header. */
+export const ACCESS_TOKEN_PREFIX = 'fata_pat_';
+
+const DEFAULT_EXPIRY_DAYS = 90;
+
+// Scripts can hit the API many times a second; one write a minute is plenty
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const ACCESS_TOKEN_SELECT = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  createdAt: true,
+};
+
+@Injectable()
+export class PersonalAccessTokensService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tokenHashService: TokenHashService,
+    private readonly securityEventsService: SecurityEventsService,
+  ) {}
+
+  /**
+   * Creates a token and returns it in plain text. Only its hash is kept,
+   * so this is the one chance the user has to copy it.
+   */
+  async create(
+    userId: string,
+    dto: CreatePersonalAccessTokenDto,
+    client?: ClientInfoData,
+  ) {
+    try {
+      const token = ACCESS_TOKEN_PREFIX + randomBytes(32).toString('base64url');
+      const expiresAt = new Date();
+      expiresAt.setDate(
+        expiresAt.getDate() + (dto.expiresInDays ?? DEFAULT_EXPIRY_DAYS),
+      );
+
+      const accessToken = await this.prisma.personalAccessToken.create({
+        data: {
+          userId,
+          name: dto.name,
+          tokenPrefix: token.slice(0, ACCESS_TOKEN_PREFIX.length + 4),
+          tokenHash: this.tokenHashService.hash(token),
+          scopes: dto.scopes,
+          expiresAt,
+        },
+        select: ACCESS_TOKEN_SELECT,
+      });
+
+      await this.securityEventsService.record({
+        userId,
+        type: 'ACCESS_TOKEN_CREATED',
+        client,
+        metadata: { accessTokenId: accessToken.id, scopes: dto.scopes },
+      });
+
+      return { ...accessToken, token };
+    } catch (error) {
+      throw new InternalServerErrorException(
+        'Failed to create personal access token',
+      );
+    }
+  }
+
+  async findAllForUser(userId: string) {
+    try {
+      return await this.prisma.personalAccessToken.findMany({
+        where: { userId },
+        select: ACCESS_TOKEN_SELECT,
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      throw new InternalServerErrorException(
+        'Failed to list personal access tokens',
+      );
+    }
+  }
+
+  async remove(userId: string, accessTokenId: string, client?: ClientInfoData) {
+    try {
+      const { count } = await this.prisma.personalAccessToken.deleteMany({
+        where: { id: accessTokenId, userId },
+      });
+
+      if (count === 0) {
+        throw new NotFoundException('Personal access token not found');
+      }
+
+      await this.securityEventsService.record({
+        userId,
+        type: 'ACCESS_TOKEN_REVOKED',
+        client,
+        metadata: { accessTokenId },
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to revoke personal access token',
+      );
+    }
+  }
+
+  /** Revokes every token of the user, returning how many there were. */
+  async revokeAll(userId: string) {
+    const { count } = await this.prisma.personalAccessToken.deleteMany({
+      where: { userId },
+    });
+
+    return count;
+  }
+
+  /**
+   * Resolves a presented token to its owner and records the use.
+   */
+  async validate(token: string, ipAddress?: string) {
+    try {
+      const accessToken = await this.prisma.personalAccessToken.findUnique({
+        where: { tokenHash: this.tokenHashService.hash(token) },
+        include: { user: true },
+      });
+
+      const now = new Date();
+      if (!accessToken || accessToken.expiresAt <= now) {
+        throw new UnauthorizedException('Invalid or expired access token');
+      }
+
+      await this.prisma.personalAccessToken.updateMany({
+        where: {
+          id: accessToken.id,
+          OR: [
+            { lastUsedAt: null },
+            {
+              lastUsedAt: {
+                lt: new Date(now.getTime() - LAST_USED_RESOLUTION_MS),
+              },
+            },
+          ],
+        },
+        data: { lastUsedAt: now, lastUsedIp: ipAddress },
+      });
+
+      return accessToken;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to validate personal access token',
+      );
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { ExecutionContext, Inject, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  ThrottlerModuleOptions,
+  ThrottlerOptionsFactory,
+} from '@nestjs/throttler';
+import { RedisService } from '../redis/redis.service';
+import { authConfig, AuthConfig } from '../config/auth.config';
+import { RedisThrottlerStorage } from './redis-throttler.storage';
+import { RATE_LIMIT_POLICY_KEY, RateLimitPolicy } from './rate-limit.decorator';
+
+type RateLimitRule = AuthConfig['rateLimits']['default']['perIp'];
+
+/** The email a request targets, before validation has run. */
+export function targetEmail(req: Record<string, any>): string | null {
+  const email = req.body?.email ?? req.query?.email;
+
+  return typeof email === 'string' && email.trim()
+    ? email.trim().toLowerCase()
+    : null;
+}
+
+/**
+ * Two throttlers resolve their limits from the policy of the route: the
+ * `default` one counts by client IP on every route, the `email` one by the
+ * targeted email on routes whose policy sets a per-email limit.
+ */
+@Injectable()
+export class RateLimitOptionsFactory implements ThrottlerOptionsFactory {
+  constructor(
+    private readonly redis: RedisService,
+    private readonly reflector: Reflector,
+    @Inject(authConfig.KEY) private readonly authConfig: AuthConfig,
+  ) {}
+
+  createThrottlerOptions(): ThrottlerModuleOptions {
+    return {
+      storage: new RedisThrottlerStorage(this.redis),
+      throttlers: [
+        {
+          name: 'default',
+          limit: (context) => this.policyOf(context).perIp.limit,
+          ttl: (context) => this.policyOf(context).perIp.ttl.milliseconds,
+        },
+        {
+          name: 'email',
+          limit: (context) => this.perEmailOf(context).limit,
+          ttl: (context) => this.perEmailOf(context).ttl.milliseconds,
+          getTracker: (req) => targetEmail(req) ?? '',
+          skipIf: (context) =>
+            !this.policyOf(context).perEmail ||
+            !targetEmail(context.switchToHttp().getRequest()),
+        },
+      ],
+    };
+  }
+
+  private policyOf(context: ExecutionContext): {
+    perIp: RateLimitRule;
+    perEmail?: RateLimitRule;
+  } {
+    const policy =
+      this.reflector.getAllAndOverride<RateLimitPolicy | undefined>(
+        RATE_LIMIT_POLICY_KEY,
+        [context.getHandler(), context.getClass()],
+      ) ?? 'default';
+
+    return this.authConfig.rateLimits[policy];
+  }
+
+  private perEmailOf(context: ExecutionContext) {
+    const { perIp, perEmail } = this.policyOf(context);
+
+    // skipIf passes over routes without a per-email limit before this is read
+    return perEmail ?? perIp;
+  }
+}
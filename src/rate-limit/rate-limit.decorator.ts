@@ -0,0 +1,17 @@
+import { SetMetadata } from '@nestjs/common';
+import { AuthConfig } from '../config/auth.config';
+
+export const RATE_LIMIT_POLICY_KEY = 'rateLimitPolicy';
+
+export type RateLimitPolicy = Exclude<
+  keyof AuthConfig['rateLimits'],
+  'enabled'
+>;
+
+/**
+ * Applies one of the rate limit policies of the auth config instead of the
+ * default one. Policies with a per-email limit also count requests by the
+ * `email` of the body or query string, whichever IP they come from.
+ */
+export const RateLimit = (policy: RateLimitPolicy) =>
+  SetMetadata(RATE_LIMIT_POLICY_KEY, policy);
@@ -0,0 +1,194 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  getOptionsToken,
+  getStorageToken,
+  ThrottlerException,
+} from '@nestjs/throttler';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitOptionsFactory } from './rate-limit-options.factory';
+import { RateLimit } from './rate-limit.decorator';
+import { RedisService } from '../redis/redis.service';
+import { authConfig, AuthConfig } from '../config/auth.config';
+
+jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+class TestController {
+  @RateLimit('login')
+  login() {}
+
+  profile() {}
+}
+
+describe('RateLimitGuard', () => {
+  let storage: { increment: jest.Mock };
+  let res: { header: jest.Mock };
+
+  const allowed = {
+    totalHits: 1,
+    timeToExpire: 60,
+    isBlocked: false,
+    timeToBlockExpire: 0,
+  };
+
+  const createGuard = async (config: AuthConfig = authConfig()) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimitGuard,
+        RateLimitOptionsFactory,
+        Reflector,
+        {
+          provide: getOptionsToken(),
+          useFactory: (factory: RateLimitOptionsFactory) =>
+            factory.createThrottlerOptions(),
+          inject: [RateLimitOptionsFactory],
+        },
+        { provide: getStorageToken(), useValue: storage },
+        { provide: RedisService, useValue: {} },
+        { provide: authConfig.KEY, useValue: config },
+      ],
+    }).compile();
+
+    const guard = module.get<RateLimitGuard>(RateLimitGuard);
+    await guard.onModuleInit();
+
+    return guard;
+  };
+
+  const contextFor = (
+    handler: keyof TestController,
+    req: Record<string, any> = {},
+  ): ExecutionContext =>
+    ({
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+      switchToHttp: () => ({
+        getRequest: () => ({ ip: '203.0.113.42', headers: {}, ...req }),
+        getResponse: () => res,
+      }),
+    }) as unknown as ExecutionContext;
+
+  /** [key, ttl, limit, blockDuration, throttler] of each hit. */
+  const hits = () => storage.increment.mock.calls;
+
+  beforeEach(() => {
+    storage = { increment: jest.fn().mockResolvedValue(allowed) };
+    res = { header: jest.fn() };
+  });
+
+  it('should count routes without a policy by IP under the default limit', async () => {
+    const guard = await createGuard();
+
+    await expect(guard.canActivate(contextFor('profile'))).resolves.toBe(true);
+
+    // RATE_LIMIT defaults to 100/1m
+    expect(hits()).toEqual([
+      [expect.any(String), 60 * 1000, 100, 60 * 1000, 'default'],
+    ]);
+    expect(res.header).toHaveBeenCalledWith('X-RateLimit-Limit', 100);
+    expect(res.header).toHaveBeenCalledWith('X-RateLimit-Remaining', 99);
+    expect(res.header).toHaveBeenCalledWith('X-RateLimit-Reset', 60);
+  });
+
+  it('should count a policy route by IP and by the targeted email', async () => {
+    const guard = await createGuard();
+
+    await guard.canActivate(
+      contextFor('login', { body: { email: 'Jane@Example.com' } }),
+    );
+
+    // RATE_LIMIT_LOGIN defaults to 10/1m, RATE_LIMIT_LOGIN_PER_EMAIL to 10/15m
+    expect(hits()).toEqual([
+      [expect.any(String), 60 * 1000, 10, 60 * 1000, 'default'],
+      [expect.any(String), 15 * 60 * 1000, 10, 15 * 60 * 1000, 'email'],
+    ]);
+    expect(res.header).toHaveBeenCalledWith('X-RateLimit-Limit-email', 10);
+  });
+
+  it('should share the email count between IPs and letter cases', async () => {
+    const guard = await createGuard();
+
+    await guard.canActivate(
+      contextFor('login', { body: { email: 'Jane@Example.com' } }),
+    );
+    await guard.canActivate(
+      contextFor('login', {
+        ip: '198.51.100.7',
+        body: { email: ' jane@example.com' },
+      }),
+    );
+
+    const [, firstEmail, , secondEmail] = hits().map(([key]) => key);
+    expect(secondEmail).toBe(firstEmail);
+    expect(hits()[2][0]).not.toBe(hits()[0][0]);
+  });
+
+  it('should read the email from the query string', async () => {
+    const guard = await createGuard();
+
+    await guard.canActivate(
+      contextFor('login', { query: { email: 'jane@example.com' } }),
+    );
+
+    expect(hits().map(([, , , , throttler]) => throttler)).toEqual([
+      'default',
+      'email',
+    ]);
+  });
+
+  it('should only count by IP when no email is given', async () => {
+    const guard = await createGuard();
+
+    await guard.canActivate(contextFor('login', { body: { email: 42 } }));
+
+    expect(hits()).toHaveLength(1);
+  });
+
+  it('should refuse blocked requests with Retry-After', async () => {
+    const guard = await createGuard();
+    storage.increment.mockImplementation(
+      async (
+        _key: string,
+        _ttl: number,
+        _limit: number,
+        _blockDuration: number,
+        throttler: string,
+      ) =>
+        throttler === 'email'
+          ? {
+              totalHits: 11,
+              timeToExpire: 900,
+              isBlocked: true,
+              timeToBlockExpire: 840,
+            }
+          : allowed,
+    );
+
+    await expect(
+      guard.canActivate(
+        contextFor('login', { body: { email: 'jane@example.com' } }),
+      ),
+    ).rejects.toThrow(ThrottlerException);
+    expect(res.header).toHaveBeenCalledWith('Retry-After', 840);
+  });
+
+  it('should let requests through when the counters cannot be reached', async () => {
+    const guard = await createGuard();
+    storage.increment.mockRejectedValue(new Error('Connection is closed.'));
+
+    await expect(guard.canActivate(contextFor('profile'))).resolves.toBe(true);
+    expect(Logger.prototype.error).toHaveBeenCalled();
+  });
+
+  it('should not count anything when rate limiting is off', async () => {
+    const config = authConfig();
+    const guard = await createGuard({
+      ...config,
+      rateLimits: { ...config.rateLimits, enabled: false },
+    });
+
+    await expect(guard.canActivate(contextFor('login'))).resolves.toBe(true);
+    expect(storage.increment).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  ExecutionContext,
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  InjectThrottlerOptions,
+  InjectThrottlerStorage,
+  ThrottlerGuard,
+  ThrottlerLimitDetail,
+  ThrottlerModuleOptions,
+  ThrottlerRequest,
+  ThrottlerStorage,
+} from '@nestjs/throttler';
+import { authConfig, AuthConfig } from '../config/auth.config';
+
+/**
+ * Applied to every route. Besides the `X-RateLimit-*` headers of the
+ * throttler, a refused request always gets a plain `Retry-After`, whichever
+ * throttler refused it. Requests are let through if Redis cannot be reached,
+ * so an outage of the counters does not take every route down with it.
+ */
+@Injectable()
+export class RateLimitGuard extends ThrottlerGuard {
+  private readonly logger = new Logger(RateLimitGuard.name);
+
+  constructor(
+    @InjectThrottlerOptions() options: ThrottlerModuleOptions,
+    @InjectThrottlerStorage() storageService: ThrottlerStorage,
+    reflector: Reflector,
+    @Inject(authConfig.KEY) private readonly authConfig: AuthConfig,
+  ) {
+    super(options, storageService, reflector);
+  }
+
+  protected async shouldSkip() {
+    return !this.authConfig.rateLimits.enabled;
+  }
+
+  protected async handleRequest(requestProps: ThrottlerRequest) {
+    try {
+      return await super.handleRequest(requestProps);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error('Failed to check the rate limit:', error);
+      return true;
+    }
+  }
+
+  protected async throwThrottlingException(
+    context: ExecutionContext,
+    throttlerLimitDetail: ThrottlerLimitDetail,
+  ) {
+    const { res } = this.getRequestResponse(context);
+    res.header('Retry-After', throttlerLimitDetail.timeToBlockExpire);
+
+    await super.throwThrottlingException(context, throttlerLimitDetail);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { ThrottlerModule } from '@nestjs/throttler';
+import { RateLimitOptionsFactory } from './rate-limit-options.factory';
+import { RateLimitGuard } from './rate-limit.guard';
+
+@Module({
+  imports: [
+    ThrottlerModule.forRootAsync({ useClass: RateLimitOptionsFactory }),
+  ],
+  providers: [{ provide: APP_GUARD, useClass: RateLimitGuard }],
+})
+export class RateLimitModule {}
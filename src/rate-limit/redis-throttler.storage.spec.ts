@@ -0,0 +1,59 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RedisThrottlerStorage } from './redis-throttler.storage';
+import { RedisService } from '../redis/redis.service';
+
+describe('RedisThrottlerStorage', () => {
+  let redis: { eval: jest.Mock };
+  let storage: RedisThrottlerStorage;
+
+  beforeEach(async () => {
+    redis = { eval: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RedisThrottlerStorage,
+        { provide: RedisService, useValue: redis },
+      ],
+    }).compile();
+
+    storage = module.get<RedisThrottlerStorage>(RedisThrottlerStorage);
+  });
+
+  it('should count the hit in one script, keyed by throttler', async () => {
+    redis.eval.mockResolvedValue([3, 42500, 0, 0]);
+
+    await expect(
+      storage.increment('tracker-key', 60000, 10, 60000, 'email'),
+    ).resolves.toEqual({
+      totalHits: 3,
+      timeToExpire: 43,
+      isBlocked: false,
+      timeToBlockExpire: 0,
+    });
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      2,
+      'throttler:email:tracker-key',
+      'throttler:email:tracker-key:blocked',
+      60000,
+      10,
+      60000,
+    );
+  });
+
+  it('should report a block in whole seconds', async () => {
+    redis.eval.mockResolvedValue([11, 900000, 1, 899001]);
+
+    await expect(
+      storage.increment('tracker-key', 60000, 10, 900000, 'default'),
+    ).resolves.toMatchObject({ isBlocked: true, timeToBlockExpire: 900 });
+  });
+
+  it('should let Redis errors through to the guard', async () => {
+    redis.eval.mockRejectedValue(new Error('Connection is closed.'));
+
+    await expect(
+      storage.increment('tracker-key', 60000, 10, 60000, 'default'),
+    ).rejects.toThrow('Connection is closed.');
+  });
+});
@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common';
+import { ThrottlerStorage } from '@nestjs/throttler';
+import { RedisService } from '../redis/redis.service';
+
+const KEY_PREFIX = 'throttler:';
+
+/**
+ * Counts a hit in a fixed window and blocks the key once it goes over the
+ * limit. While blocked no hits are counted, and the window starts afresh once
+ * the block lifts, as with the in-memory storage of @nestjs/throttler.
+ *
+ * KEYS: hits, block. ARGV: ttl (ms), limit, block duration (ms).
+ * Returns hits, window time left (ms), 1 if blocked, block time left (ms).
+ */
+const INCREMENT_SCRIPT = `
+local blockTtl = redis.call('PTTL', KEYS[2])
+if blockTtl > 0 then
+  return { tonumber(ARGV[2]) + 1, blockTtl, 1, blockTtl }
+end
+
+local hits = redis.call('INCR', KEYS[1])
+if hits == 1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+local ttl = redis.call('PTTL', KEYS[1])
+
+if hits > tonumber(ARGV[2]) then
+  redis.call('SET', KEYS[2], '1', 'PX', ARGV[3])
+  redis.call('DEL', KEYS[1])
+  return { hits, ttl, 1, tonumber(ARGV[3]) }
+end
+
+return { hits, ttl, 0, 0 }
+`;
+
+/**
+ * Rate limit counters kept in Redis, so every instance of the app shares
+ * them. The check and the increment run as one script, so concurrent
+ * requests cannot both slip under the limit.
+ */
+@Injectable()
+export class RedisThrottlerStorage implements ThrottlerStorage {
+  constructor(private readonly redis: RedisService) {}
+
+  async increment(
+    key: string,
+    ttl: number,
+    limit: number,
+    blockDuration: number,
+    throttlerName: string,
+  ) {
+    const hitsKey = `${KEY_PREFIX}${throttlerName}:${key}`;
+    const [totalHits, timeToExpire, isBlocked, timeToBlockExpire] =
+      (await this.redis.eval(
+        INCREMENT_SCRIPT,
+        2,
+        hitsKey,
+        `${hitsKey}:blocked`,
+        ttl,
+        limit,
+        blockDuration,
+      )) as [number, number, number, number];
+
+    // The guard reports both times in seconds, as Retry-After expects
+    return {
+      totalHits,
+      timeToExpire: Math.ceil(timeToExpire / 1000),
+      isBlocked: isBlocked === 1,
+      timeToBlockExpire: Math.ceil(timeToBlockExpire / 1000),
+    };
+  }
+}
@@ -0,0 +1,27 @@
+import { Inject, Injectable, OnModuleDestroy } from '@nestjs/common';
+import { BullRootModuleOptions, getSharedConfigToken } from '@nestjs/bull';
+import Redis from 'ioredis';
+
+/**
+ * Redis client for application state, connected to the server configured for
+ * Bull. It keeps a connection of its own since Bull holds its clients in
+ * blocking commands.
+ */
+@Injectable()
+export class RedisService extends Redis implements OnModuleDestroy {
+  constructor(
+    @Inject(getSharedConfigToken()) { url, redis }: BullRootModuleOptions,
+  ) {
+    const connection = url ?? redis;
+
+    if (typeof connection === 'string') {
+      super(connection);
+    } else {
+      super({ ...connection });
+    }
+  }
+
+  async onModuleDestroy() {
+    await this.quit();
+  }
+}
@@ -0,0 +1,37 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { SecurityEventOutcome, SecurityEventType } from '@prisma/client';
+
+export class ListSecurityEventsQueryDto {
+  @ApiPropertyOptional({
+    enum: SecurityEventType,
+    description: 'Only events of this type',
+  })
+  @IsEnum(SecurityEventType)
+  @IsOptional()
+  type?: SecurityEventType;
+
+  @ApiPropertyOptional({
+    enum: SecurityEventOutcome,
+    description: 'Only successful or only failed attempts',
+  })
+  @IsEnum(SecurityEventOutcome)
+  @IsOptional()
+  outcome?: SecurityEventOutcome;
+
+  @ApiPropertyOptional({
+    description: 'nextCursor from the previous page',
+  })
+  @IsUUID('4', { message: 'Invalid cursor' })
+  @IsOptional()
+  cursor?: string;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: 100, default: 20 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SecurityEventDto } from './security-event.dto';
+
+export class SecurityEventPageDto {
+  @ApiProperty({ type: [SecurityEventDto] })
+  data: SecurityEventDto[];
+
+  @ApiProperty({
+    example: '0b8f1f5e-1c1a-4a57-9b8e-7f0c6a3d2e11',
+    description: 'Cursor for the next page, null on the last page',
+    nullable: true,
+  })
+  nextCursor: string | null;
+}
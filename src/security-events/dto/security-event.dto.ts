@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SecurityEventOutcome, SecurityEventType } from '@prisma/client';
+
+export class SecurityEventDto {
+  @ApiProperty({
+    example: '0b8f1f5e-1c1a-4a57-9b8e-7f0c6a3d2e11',
+    description: 'Event unique identifier',
+  })
+  id: string;
+
+  @ApiPropertyOptional({
+    example: '0b8f1f5e-1c1a-4a57-9b8e-7f0c6a3d2e11',
+    description:
+      'Account the event belongs to, null for failed logins with an unknown email',
+  })
+  userId: string | null;
+
+  @ApiProperty({ enum: SecurityEventType, example: 'LOGIN' })
+  type: SecurityEventType;
+
+  @ApiProperty({
+    enum: SecurityEventOutcome,
+    example: 'FAILURE',
+    description: 'Whether the attempt the event records succeeded',
+  })
+  outcome: SecurityEventOutcome;
+
+  @ApiPropertyOptional({
+    example: '203.0.113.42',
+    description: 'IP address the request came from',
+  })
+  ipAddress: string | null;
+
+  @ApiPropertyOptional({
+    example:
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
+    description: 'User agent of the request',
+  })
+  userAgent: string | null;
+
+  @ApiPropertyOptional({
+    example: { method: 'password', reason: 'invalid_password' },
+    description: 'Details that depend on the event type',
+  })
+  metadata: Record<string, unknown> | null;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00Z',
+    description: 'When the event happened',
+  })
+  createdAt: Date;
+}
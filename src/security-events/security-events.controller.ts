@@ -0,0 +1,45 @@
+import { Controller, Get, Query, UseGuards, HttpStatus } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SecurityEventsService } from './security-events.service';
+import { ListSecurityEventsQueryDto } from './dto/list-security-events-query.dto';
+import { SecurityEventPageDto } from './dto/security-event-page.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  CurrentUser,
+  CurrentUserData,
+} from '../auth/decorators/current-user.decorator';
+
+@ApiTags('Users')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('users/me/security-events')
+export class SecurityEventsController {
+  constructor(private readonly securityEventsService: SecurityEventsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List security events of the current user',
+    description:
+      'Sign-ins (including failed ones), lockouts, password resets and other changes to the account, newest first.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'A page of security events',
+    type: SecurityEventPageDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized',
+  })
+  async findAll(
+    @CurrentUser() user: CurrentUserData,
+    @Query() query: ListSecurityEventsQueryDto,
+  ) {
+    return this.securityEventsService.findAllForUser(user.id, query);
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { SecurityEventsService } from './security-events.service';
+import { SecurityEventsProcessor } from './security-events.processor';
+import { SecurityEventsController } from './security-events.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    BullModule.registerQueue({
+      name: 'security-events',
+      defaultJobOptions: {
+        removeOnComplete: true,
+        removeOnFail: false,
+      },
+    }),
+  ],
+  controllers: [SecurityEventsController],
+  providers: [SecurityEventsService, SecurityEventsProcessor],
+  exports: [SecurityEventsService],
+})
+export class SecurityEventsModule {}
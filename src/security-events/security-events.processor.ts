@@ -0,0 +1,18 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { SecurityEventsService } from './security-events.service';
+
+@Processor('security-events')
+export class SecurityEventsProcessor {
+  private readonly logger = new Logger(SecurityEventsProcessor.name);
+
+  constructor(private readonly securityEventsService: SecurityEventsService) {}
+
+  @Process('prune')
+  async handlePrune() {
+    const pruned = await this.securityEventsService.pruneExpired();
+    if (pruned > 0) {
+      this.logger.log(`Removed ${pruned} security events past their retention`);
+    }
+  }
+}
@@ -0,0 +1,252 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { InternalServerErrorException, Logger } from '@nestjs/common';
+import { getQueueToken } from '@nestjs/bull';
+import { SecurityEventsService } from './security-events.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { authConfig } from '../config/auth.config';
+
+jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+describe('SecurityEventsService', () => {
+  let service: SecurityEventsService;
+  let prismaService: PrismaService;
+  let queue: { add: jest.Mock };
+
+  const userId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const mockEvent = {
+    id: 'event-123',
+    userId,
+    type: 'REFRESH_TOKEN_REUSE' as const,
+    outcome: 'SUCCESS' as const,
+    ipAddress: '203.0.113.42',
+    userAgent: 'curl/8.0',
+    metadata: { sessionId: 'session-123' },
+    createdAt: new Date(),
+  };
+
+  const eventRow = (id: string) => ({ ...mockEvent, id });
+
+  const findManyArgs = () =>
+    (prismaService.securityEvent.findMany as jest.Mock).mock.calls[0][0];
+
+  beforeEach(async () => {
+    queue = { add: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SecurityEventsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            securityEvent: {
+              create: jest.fn(),
+              findMany: jest.fn().mockResolvedValue([]),
+              deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+            },
+          },
+        },
+        {
+          provide: getQueueToken('security-events'),
+          useValue: queue,
+        },
+        { provide: authConfig.KEY, useValue: authConfig() },
+      ],
+    }).compile();
+
+    service = module.get<SecurityEventsService>(SecurityEventsService);
+    prismaService = module.get<PrismaService>(PrismaService);
+  });
+
+  describe('onModuleInit', () => {
+    it('should schedule the hourly prune', async () => {
+      await service.onModuleInit();
+
+      expect(queue.add).toHaveBeenCalledWith(
+        'prune',
+        {},
+        { repeat: { cron: '0 * * * *' }, jobId: 'prune-security-events' },
+      );
+    });
+  });
+
+  describe('record', () => {
+    it('should persist the event with client metadata', async () => {
+      jest
+        .spyOn(prismaService.securityEvent, 'create')
+        .mockResolvedValue(mockEvent);
+
+      const result = await service.record({
+        userId: mockEvent.userId,
+        type: 'REFRESH_TOKEN_REUSE',
+        client: { ipAddress: '203.0.113.42', userAgent: 'curl/8.0' },
+        metadata: { sessionId: 'session-123' },
+      });
+
+      expect(result).toEqual(mockEvent);
+      expect(prismaService.securityEvent.create).toHaveBeenCalledWith({
+        data: {
+          userId: mockEvent.userId,
+          type: 'REFRESH_TOKEN_REUSE',
+          outcome: undefined,
+          ipAddress: '203.0.113.42',
+          userAgent: 'curl/8.0',
+          metadata: { sessionId: 'session-123' },
+        },
+      });
+    });
+
+    it('should persist failed attempts', async () => {
+      await service.record({
+        type: 'LOGIN',
+        outcome: 'FAILURE',
+        metadata: { reason: 'unknown_email', email: 'nobody@example.com' },
+      });
+
+      expect(prismaService.securityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: undefined,
+          type: 'LOGIN',
+          outcome: 'FAILURE',
+        }),
+      });
+    });
+
+    it('should swallow database errors', async () => {
+      jest
+        .spyOn(prismaService.securityEvent, 'create')
+        .mockRejectedValue(new Error('Database error'));
+
+      await expect(
+        service.record({ type: 'REFRESH_TOKEN_REUSE' }),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('findAllForUser', () => {
+    it('should only return events of the user, newest first', async () => {
+      await service.findAllForUser(userId, {});
+
+      expect(findManyArgs()).toMatchObject({
+        where: { userId },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 21,
+      });
+    });
+
+    it('should filter by type and outcome', async () => {
+      await service.findAllForUser(userId, {
+        type: 'LOGIN',
+        outcome: 'FAILURE',
+      });
+
+      expect(findManyArgs().where).toEqual({
+        userId,
+        type: 'LOGIN',
+        outcome: 'FAILURE',
+      });
+    });
+
+    it('should return a cursor when there are more events', async () => {
+      jest
+        .spyOn(prismaService.securityEvent, 'findMany')
+        .mockResolvedValue([eventRow('a'), eventRow('b'), eventRow('c')]);
+
+      const result = await service.findAllForUser(userId, { limit: 2 });
+
+      expect(result.data.map((event) => event.id)).toEqual(['a', 'b']);
+      expect(result.nextCursor).toBe('b');
+    });
+
+    it('should continue after the cursor', async () => {
+      jest
+        .spyOn(prismaService.securityEvent, 'findMany')
+        .mockResolvedValue([eventRow('c')]);
+
+      const result = await service.findAllForUser(userId, { cursor: 'b' });
+
+      expect(findManyArgs()).toMatchObject({
+        cursor: { id: 'b' },
+        skip: 1,
+      });
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('should throw InternalServerErrorException on database errors', async () => {
+      jest
+        .spyOn(prismaService.securityEvent, 'findMany')
+        .mockRejectedValue(new Error('Database error'));
+
+      await expect(service.findAllForUser(userId, {})).rejects.toThrow(
+        InternalServerErrorException,
+      );
+    });
+  });
+
+  describe('search', () => {
+    it('should search every account without filters', async () => {
+      await service.search({});
+
+      expect(findManyArgs().where).toEqual({
+        userId: undefined,
+        type: undefined,
+        outcome: undefined,
+        ipAddress: undefined,
+      });
+    });
+
+    it('should combine the filters', async () => {
+      const from = new Date('2024-01-01T00:00:00Z');
+      const to = new Date('2024-01-31T23:59:59Z');
+
+      await service.search({
+        userId,
+        type: 'ACCOUNT_LOCKED',
+        outcome: 'SUCCESS',
+        ipAddress: '203.0.113.42',
+        from,
+        to,
+        limit: 50,
+      });
+
+      expect(findManyArgs()).toMatchObject({
+        where: {
+          userId,
+          type: 'ACCOUNT_LOCKED',
+          outcome: 'SUCCESS',
+          ipAddress: '203.0.113.42',
+          createdAt: { gte: from, lte: to },
+        },
+        take: 51,
+      });
+    });
+
+    it('should accept an open-ended date range', async () => {
+      const from = new Date('2024-01-01T00:00:00Z');
+
+      await service.search({ from });
+
+      expect(findManyArgs().where.createdAt).toEqual({
+        gte: from,
+        lte: undefined,
+      });
+    });
+  });
+
+  describe('pruneExpired', () => {
+    it('should delete events older than the retention period', async () => {
+      jest
+        .spyOn(prismaService.securityEvent, 'deleteMany')
+        .mockResolvedValue({ count: 4 });
+
+      await expect(service.pruneExpired()).resolves.toBe(4);
+
+      // SECURITY_EVENT_RETENTION defaults to 365d
+      const { lt } = (prismaService.securityEvent.deleteMany as jest.Mock).mock
+        .calls[0][0].where.createdAt;
+      const retention = Date.now() - lt.getTime();
+      expect(retention).toBeGreaterThanOrEqual(365 * 24 * 60 * 60 * 1000);
+      expect(retention).toBeLessThan(365 * 24 * 60 * 60 * 1000 + 60 * 1000);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import {
+  Prisma,
+  SecurityEventOutcome,
+  SecurityEventType,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ClientInfoData } from '../auth/decorators/client-info.decorator';
+import { authConfig, AuthConfig } from '../config/auth.config';
+import { ListSecurityEventsQueryDto } from './dto/list-security-events-query.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+const SECURITY_EVENT_SELECT = {
+  id: true,
+  userId: true,
+  type: true,
+  outcome: true,
+  ipAddress: true,
+  userAgent: true,
+  metadata: true,
+  createdAt: true,
+};
+
+export interface RecordSecurityEventData {
+  userId?: string;
+  type: SecurityEventType;
+  /** Defaults to SUCCESS; failed attempts are recorded too. */
+  outcome?: SecurityEventOutcome;
+  client?: ClientInfoData;
+  metadata?: Prisma.InputJsonObject;
+}
+
+export interface SearchSecurityEventsFilter extends ListSecurityEventsQueryDto {
+  userId?: string;
+  ipAddress?: string;
+  from?: Date;
+  to?: Date;
+}
+
+@Injectable()
+export class SecurityEventsService implements OnModuleInit {
+  private readonly logger = new Logger(SecurityEventsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @InjectQueue('security-events')
+    private readonly securityEventsQueue: Queue,
+    @Inject(authConfig.KEY) private readonly authConfig: AuthConfig,
+  ) {}
+
+  async onModuleInit() {
+    await this.securityEventsQueue.add(
+      'prune',
+      {},
+      { repeat: { cron: '0 * * * *' }, jobId: 'prune-security-events' },
+    );
+  }
+
+  /**
+   * Persists a security event. Failures are logged rather than thrown so
+   * that auditing never changes the outcome of the request being audited.
+   */
+  async record(data: RecordSecurityEventData) {
+    try {
+      return await this.prisma.securityEvent.create({
+        data: {
+          userId: data.userId,
+          type: data.type,
+          outcome: data.outcome,
+          ipAddress: data.client?.ipAddress,
+          userAgent: data.client?.userAgent,
+          metadata: data.metadata,
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record security event ${data.type}:`, error);
+      return null;
+    }
+  }
+
+  /** Activity on the user's own account, most recent first. */
+  async findAllForUser(userId: string, query: ListSecurityEventsQueryDto) {
+    return this.paginate(
+      { userId, type: query.type, outcome: query.outcome },
+      query,
+    );
+  }
+
+  /**
+   * Events across every account, including failed logins for emails that
+   * match none, which only carry the attempted email in their metadata.
+   */
+  async search(filter: SearchSecurityEventsFilter) {
+    return this.paginate(
+      {
+        userId: filter.userId,
+        type: filter.type,
+        outcome: filter.outcome,
+        ipAddress: filter.ipAddress,
+        ...((filter.from || filter.to) && {
+          createdAt: { gte: filter.from, lte: filter.to },
+        }),
+      },
+      filter,
+    );
+  }
+
+  /** Deletes events older than SECURITY_EVENT_RETENTION. */
+  async pruneExpired() {
+    const { count } = await this.prisma.securityEvent.deleteMany({
+      where: {
+        createdAt: {
+          lt: new Date(
+            Date.now() - this.authConfig.securityEventRetention.milliseconds,
+          ),
+        },
+      },
+    });
+
+    return count;
+  }
+
+  private async paginate(
+    where: Prisma.SecurityEventWhereInput,
+    { cursor, limit = DEFAULT_PAGE_SIZE }: ListSecurityEventsQueryDto,
+  ) {
+    try {
+      const events = await this.prisma.securityEvent.findMany({
+        where,
+        select: SECURITY_EVENT_SELECT,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      const hasMore = events.length > limit;
+      const data = hasMore ? events.slice(0, limit) : events;
+
+      return {
+        data,
+        nextCursor: hasMore ? data[data.length - 1].id : null,
+      };
+    } catch (error) {
+      throw new InternalServerErrorException('Failed to list security events');
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AccessTokenDenyListService } from './access-token-deny-list.service';
+import { RedisService } from '../redis/redis.service';
+import { authConfig } from '../config/auth.config';
+import { Duration } from '../config/duration';
+
+describe('AccessTokenDenyListService', () => {
+  let pipeline: { set: jest.Mock; exec: jest.Mock };
+  let redis: { set: jest.Mock; exists: jest.Mock; pipeline: jest.Mock };
+
+  const createService = async (accessTokenExpiry = '15m') => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccessTokenDenyListService,
+        { provide: RedisService, useValue: redis },
+        {
+          provide: authConfig.KEY,
+          useValue: {
+            ...authConfig(),
+            accessTokenExpiry: Duration.parse(accessTokenExpiry),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<AccessTokenDenyListService>(AccessTokenDenyListService);
+  };
+
+  beforeEach(() => {
+    pipeline = { set: jest.fn(), exec: jest.fn().mockResolvedValue([]) };
+    redis = {
+      set: jest.fn(),
+      exists: jest.fn(),
+      pipeline: jest.fn().mockReturnValue(pipeline),
+    };
+  });
+
+  describe('denyToken', () => {
+    it('should keep the entry until the token expires', async () => {
+      const service = await createService();
+      const expiresAt = Math.floor(Date.now() / 1000) + 600;
+
+      await service.denyToken('token-123', expiresAt);
+
+      expect(redis.set).toHaveBeenCalledWith(
+        'access-token-deny:jti:token-123',
+        '1',
+        'EX',
+        expect.any(Number),
+      );
+      const ttl = redis.set.mock.calls[0][3];
+      expect(ttl).toBeGreaterThan(590);
+      expect(ttl).toBeLessThanOrEqual(600);
+    });
+
+    it('should skip tokens that have already expired', async () => {
+      const service = await createService();
+
+      await service.denyToken('token-123', Math.floor(Date.now() / 1000) - 1);
+
+      expect(redis.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('denySessions', () => {
+    it('should keep the entries for the access token lifetime', async () => {
+      const service = await createService('2h');
+
+      await service.denySessions(['session-1', 'session-2']);
+
+      expect(pipeline.set).toHaveBeenCalledWith(
+        'access-token-deny:sid:session-1',
+        '1',
+        'EX',
+        7200,
+      );
+      expect(pipeline.set).toHaveBeenCalledWith(
+        'access-token-deny:sid:session-2',
+        '1',
+        'EX',
+        7200,
+      );
+    });
+
+    it('should not call Redis without sessions', async () => {
+      const service = await createService();
+
+      await service.denySessions([]);
+
+      expect(redis.pipeline).not.toHaveBeenCalled();
+    });
+
+    it('should surface failed writes', async () => {
+      const service = await createService();
+      const error = new Error('READONLY');
+      pipeline.exec.mockResolvedValue([[error, null]]);
+
+      await expect(service.denySessions(['session-1'])).rejects.toMatchObject({
+        message: 'Failed to deny sessions',
+        cause: error,
+      });
+    });
+  });
+
+  describe('isDenied', () => {
+    it('should check both the token and its session', async () => {
+      const service = await createService();
+      redis.exists.mockResolvedValue(1);
+
+      await expect(
+        service.isDenied({ jti: 'token-123', sid: 'session-1' }),
+      ).resolves.toBe(true);
+      expect(redis.exists).toHaveBeenCalledWith(
+        'access-token-deny:jti:token-123',
+        'access-token-deny:sid:session-1',
+      );
+    });
+
+    it('should accept tokens without either claim', async () => {
+      const service = await createService();
+
+      await expect(service.isDenied({})).resolves.toBe(false);
+      expect(redis.exists).not.toHaveBeenCalled();
+    });
+  });
+});
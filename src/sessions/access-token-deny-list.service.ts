@@ -0,0 +1,65 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { RedisService } from '../redis/redis.service';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { authConfig, AuthConfig } from '../config/auth.config';
+
+const TOKEN_KEY_PREFIX = 'access-token-deny:jti:';
+const SESSION_KEY_PREFIX = 'access-token-deny:sid:';
+
+/**
+ * Access tokens revoked before they expire. Tokens are refused by their `jti`
+ * or by the session (`sid`) they were issued for, and every entry expires once
+ * the tokens it blocks would have, so the list only holds live revocations.
+ */
+@Injectable()
+export class AccessTokenDenyListService {
+  constructor(
+    private readonly redis: RedisService,
+    @Inject(authConfig.KEY) private readonly authConfig: AuthConfig,
+  ) {}
+
+  /** Refuses a single token until its `exp` (in seconds since the epoch). */
+  async denyToken(tokenId: string, expiresAt: number) {
+    const ttl = expiresAt - Math.floor(Date.now() / 1000);
+    if (ttl <= 0) {
+      return;
+    }
+
+    await this.redis.set(TOKEN_KEY_PREFIX + tokenId, '1', 'EX', ttl);
+  }
+
+  /** Refuses every access token issued for the sessions, for as long as one may still be valid. */
+  async denySessions(sessionIds: string[]) {
+    if (sessionIds.length === 0) {
+      return;
+    }
+
+    const pipeline = this.redis.pipeline();
+    for (const sessionId of sessionIds) {
+      pipeline.set(
+        SESSION_KEY_PREFIX + sessionId,
+        '1',
+        'EX',
+        this.authConfig.accessTokenExpiry.seconds,
+      );
+    }
+
+    const failed = (await pipeline.exec())?.find(([error]) => error);
+    if (failed) {
+      throw new Error('Failed to deny sessions', { cause: failed[0] });
+    }
+  }
+
+  async isDenied(payload: Pick<JwtPayload, 'jti' | 'sid'>) {
+    const keys = [
+      payload.jti && TOKEN_KEY_PREFIX + payload.jti,
+      payload.sid && SESSION_KEY_PREFIX + payload.sid,
+    ].filter((key): key is string => !!key);
+
+    if (keys.length === 0) {
+      return false;
+    }
+
+    return (await this.redis.exists(...keys)) > 0;
+  }
+}
@@ -0,0 +1,58 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SessionDto {
+  @ApiProperty({
+    example: '0b8f1f5e-1c1a-4a57-9b8e-7f0c6a3d2e11',
+    description: 'Session unique identifier',
+  })
+  id: string;
+
+  @ApiPropertyOptional({
+    example: 'Chrome on macOS',
+    description: 'Human readable device label',
+  })
+  label: string | null;
+
+  @ApiPropertyOptional({
+    example: 'macOS',
+    description: 'Device platform derived from the user agent',
+  })
+  platform: string | null;
+
+  @ApiPropertyOptional({
+    example:
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
+    description: 'User agent of the last request made with this session',
+  })
+  userAgent: string | null;
+
+  @ApiPropertyOptional({
+    example: '203.0.113.42',
+    description: 'IP address of the last request made with this session',
+  })
+  ipAddress: string | null;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00Z',
+    description: 'Session creation timestamp',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    example: '2024-01-16T08:12:00Z',
+    description: 'Last time the session was used to refresh tokens',
+  })
+  lastUsedAt: Date;
+
+  @ApiProperty({
+    example: '2024-02-14T10:30:00Z',
+    description: 'Session expiry timestamp',
+  })
+  expiresAt: Date;
+
+  @ApiProperty({
+    example: true,
+    description: 'Whether this is the session making the request',
+  })
+  current: boolean;
+}
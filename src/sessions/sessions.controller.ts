@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Get,
+  Delete,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SessionsService } from './sessions.service';
+import { SessionDto } from './dto/session.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  CurrentUser,
+  CurrentUserData,
+} from '../auth/decorators/current-user.decorator';
+import { DenyImpersonation } from '../auth/decorators/deny-impersonation.decorator';
+
+@ApiTags('Sessions')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('auth/sessions')
+export class SessionsController {
+  constructor(private readonly sessionsService: SessionsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List active sessions of the current user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Active sessions, most recently used first',
+    type: [SessionDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized',
+  })
+  async findAll(@CurrentUser() user: CurrentUserData) {
+    return this.sessionsService.findAllForUser(user.id, user.sessionId);
+  }
+
+  @Delete('others')
+  @DenyImpersonation()
+  @ApiOperation({ summary: 'Log out everywhere except the current device' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'All other sessions revoked',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized',
+  })
+  async revokeOthers(@CurrentUser() user: CurrentUserData) {
+    const revoked = user.sessionId
+      ? await this.sessionsService.revokeOthers(user.id, user.sessionId)
+      : await this.sessionsService.revokeAll(user.id);
+
+    return { message: 'Other sessions revoked successfully', revoked };
+  }
+
+  @Delete(':id')
+  @DenyImpersonation()
+  @ApiOperation({ summary: 'Revoke a specific session' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Session revoked',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Session not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized',
+  })
+  async revoke(
+    @CurrentUser() user: CurrentUserData,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.sessionsService.revoke(user.id, id);
+    return { message: 'Session revoked successfully' };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SessionsService } from './sessions.service';
+import { SessionsController } from './sessions.controller';
+import { AccessTokenDenyListService } from './access-token-deny-list.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [SessionsController],
+  providers: [SessionsService, AccessTokenDenyListService],
+  exports: [SessionsService, AccessTokenDenyListService],
+})
+export class SessionsModule {}
@@ -0,0 +1,394 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  NotFoundException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { SessionsService } from './sessions.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { AccessTokenDenyListService } from './access-token-deny-list.service';
+import { authConfig } from '../config/auth.config';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  let prismaService: PrismaService;
+  let accessTokenDenyList: AccessTokenDenyListService;
+
+  const userId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const mockSession = {
+    id: 'session-123',
+    userId,
+    refreshTokenHash: 'hashed:refresh-token',
+    expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+    createdAt: new Date(),
+    userAgent:
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36',
+    ipAddress: '203.0.113.42',
+    platform: 'macOS',
+    label: 'Chrome on macOS',
+    lastUsedAt: new Date(),
+    previousRefreshTokenHash: null,
+    rotatedAt: null,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        { provide: authConfig.KEY, useValue: authConfig() },
+        {
+          provide: TokenHashService,
+          useValue: {
+            hash: jest.fn((token: string) => `hashed:${token}`),
+            matches: jest.fn(
+              (token: string, hash: string) => `hashed:${token}` === hash,
+            ),
+          },
+        },
+        {
+          provide: AccessTokenDenyListService,
+          useValue: {
+            denySessions: jest.fn(),
+          },
+        },
+        {
+          provide: PrismaService,
+          useValue: {
+            session: {
+              create: jest.fn(),
+              findFirst: jest.fn(),
+              findMany: jest.fn(),
+              updateMany: jest.fn(),
+              deleteMany: jest.fn(),
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    accessTokenDenyList = module.get<AccessTokenDenyListService>(
+      AccessTokenDenyListService,
+    );
+
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store the session with device metadata', async () => {
+      jest
+        .spyOn(prismaService.session, 'create')
+        .mockResolvedValue(mockSession);
+
+      await service.create({
+        id: mockSession.id,
+        userId,
+        refreshToken: 'refresh-token',
+        client: {
+          userAgent: mockSession.userAgent,
+          ipAddress: mockSession.ipAddress,
+        },
+      });
+
+      expect(prismaService.session.create).toHaveBeenCalledWith({
+        data: {
+          id: mockSession.id,
+          userId,
+          refreshTokenHash: 'hashed:refresh-token',
+          expiresAt: expect.any(Date),
+          userAgent: mockSession.userAgent,
+          ipAddress: mockSession.ipAddress,
+          platform: 'macOS',
+          label: 'Chrome on macOS',
+        },
+      });
+    });
+
+    it('should expire the session with its refresh token', async () => {
+      jest
+        .spyOn(prismaService.session, 'create')
+        .mockResolvedValue(mockSession);
+
+      await service.create({ userId, refreshToken: 'refresh-token' });
+
+      // JWT_REFRESH_EXPIRATION defaults to 30d
+      const { expiresAt } = (prismaService.session.create as jest.Mock).mock
+        .calls[0][0].data;
+      expect(expiresAt.getTime() - Date.now()).toBeGreaterThan(
+        30 * 24 * 60 * 60 * 1000 - 60 * 1000,
+      );
+      expect(expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(
+        30 * 24 * 60 * 60 * 1000,
+      );
+    });
+
+    it('should prefer an explicit label over the derived one', async () => {
+      jest
+        .spyOn(prismaService.session, 'create')
+        .mockResolvedValue(mockSession);
+
+      await service.create({
+        userId,
+        refreshToken: 'refresh-token',
+        client: { userAgent: mockSession.userAgent },
+        label: 'Work laptop',
+      });
+
+      expect(prismaService.session.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          label: 'Work laptop',
+          platform: 'macOS',
+        }),
+      });
+    });
+
+    it('should handle database errors', async () => {
+      jest
+        .spyOn(prismaService.session, 'create')
+        .mockRejectedValue(new Error('Database error'));
+
+      await expect(
+        service.create({ userId, refreshToken: 'refresh-token' }),
+      ).rejects.toThrow(InternalServerErrorException);
+    });
+  });
+
+  describe('findActive', () => {
+    it('should only match unexpired sessions of the user', async () => {
+      jest
+        .spyOn(prismaService.session, 'findFirst')
+        .mockResolvedValue(mockSession);
+
+      const result = await service.findActive(userId, mockSession.id);
+
+      expect(result).toEqual(mockSession);
+      expect(prismaService.session.findFirst).toHaveBeenCalledWith({
+        where: {
+          id: mockSession.id,
+          userId,
+          expiresAt: { gt: expect.any(Date) },
+        },
+      });
+    });
+  });
+
+  describe('isCurrentRefreshToken', () => {
+    it('should compare the token against the stored hash', () => {
+      expect(service.isCurrentRefreshToken(mockSession, 'refresh-token')).toBe(
+        true,
+      );
+      expect(service.isCurrentRefreshToken(mockSession, 'rotated-token')).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('isJustRotatedRefreshToken', () => {
+    const rotatedSession = (secondsAgo: number) => ({
+      ...mockSession,
+      previousRefreshTokenHash: 'hashed:rotated-token',
+      rotatedAt: new Date(Date.now() - secondsAgo * 1000),
+    });
+
+    it('should recognise the replaced token within the grace window', () => {
+      expect(
+        service.isJustRotatedRefreshToken(rotatedSession(1), 'rotated-token'),
+      ).toBe(true);
+      expect(
+        service.isJustRotatedRefreshToken(rotatedSession(1), 'other-token'),
+      ).toBe(false);
+    });
+
+    it('should not recognise it once the grace window has passed', () => {
+      expect(
+        service.isJustRotatedRefreshToken(rotatedSession(60), 'rotated-token'),
+      ).toBe(false);
+    });
+
+    it('should not recognise anything on a session that was never rotated', () => {
+      expect(
+        service.isJustRotatedRefreshToken(mockSession, 'rotated-token'),
+      ).toBe(false);
+    });
+  });
+
+  describe('rotate', () => {
+    it('should swap the refresh token and touch lastUsedAt', async () => {
+      jest
+        .spyOn(prismaService.session, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+
+      const result = await service.rotate(
+        mockSession.id,
+        'old-token',
+        'new-token',
+        { ipAddress: '198.51.100.7' },
+      );
+
+      expect(result).toBe(true);
+      expect(prismaService.session.updateMany).toHaveBeenCalledWith({
+        where: { id: mockSession.id, refreshTokenHash: 'hashed:old-token' },
+        data: {
+          refreshTokenHash: 'hashed:new-token',
+          previousRefreshTokenHash: 'hashed:old-token',
+          rotatedAt: expect.any(Date),
+          lastUsedAt: expect.any(Date),
+          ipAddress: '198.51.100.7',
+        },
+      });
+    });
+
+    it('should return false if the token was already rotated', async () => {
+      jest
+        .spyOn(prismaService.session, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      const result = await service.rotate(
+        mockSession.id,
+        'old-token',
+        'new-token',
+      );
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('findAllForUser', () => {
+    it('should flag the current session', async () => {
+      const otherSession = { ...mockSession, id: 'session-456' };
+      jest
+        .spyOn(prismaService.session, 'findMany')
+        .mockResolvedValue([mockSession, otherSession]);
+
+      const result = await service.findAllForUser(userId, mockSession.id);
+
+      expect(result.map((session) => [session.id, session.current])).toEqual([
+        ['session-123', true],
+        ['session-456', false],
+      ]);
+      expect(prismaService.session.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId, expiresAt: { gt: expect.any(Date) } },
+          orderBy: { lastUsedAt: 'desc' },
+        }),
+      );
+    });
+  });
+
+  describe('revoke', () => {
+    it('should delete the session owned by the user', async () => {
+      jest
+        .spyOn(prismaService.session, 'deleteMany')
+        .mockResolvedValue({ count: 1 });
+
+      await service.revoke(userId, mockSession.id);
+
+      expect(prismaService.session.deleteMany).toHaveBeenCalledWith({
+        where: { id: mockSession.id, userId },
+      });
+      expect(accessTokenDenyList.denySessions).toHaveBeenCalledWith([
+        mockSession.id,
+      ]);
+    });
+
+    it('should throw NotFoundException for unknown or foreign sessions', async () => {
+      jest
+        .spyOn(prismaService.session, 'deleteMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(service.revoke(userId, 'session-999')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(accessTokenDenyList.denySessions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeOthers', () => {
+    it('should delete every session except the current one', async () => {
+      jest
+        .spyOn(prismaService.session, 'findMany')
+        .mockResolvedValue([
+          { id: 'session-456' },
+          { id: 'session-789' },
+        ] as any);
+      jest
+        .spyOn(prismaService.session, 'deleteMany')
+        .mockResolvedValue({ count: 2 });
+
+      const result = await service.revokeOthers(userId, mockSession.id);
+
+      expect(result).toBe(2);
+      expect(prismaService.session.deleteMany).toHaveBeenCalledWith({
+        where: { userId, id: { not: mockSession.id } },
+      });
+      expect(accessTokenDenyList.denySessions).toHaveBeenCalledWith([
+        'session-456',
+        'session-789',
+      ]);
+    });
+  });
+
+  describe('revokeAll', () => {
+    it('should delete every session of the user', async () => {
+      jest
+        .spyOn(prismaService.session, 'findMany')
+        .mockResolvedValue([{ id: mockSession.id }] as any);
+      jest
+        .spyOn(prismaService.session, 'deleteMany')
+        .mockResolvedValue({ count: 1 });
+
+      const result = await service.revokeAll(userId);
+
+      expect(result).toBe(1);
+      expect(prismaService.session.deleteMany).toHaveBeenCalledWith({
+        where: { userId },
+      });
+      expect(accessTokenDenyList.denySessions).toHaveBeenCalledWith([
+        mockSession.id,
+      ]);
+    });
+
+    it('should fail when the access tokens cannot be revoked', async () => {
+      jest.spyOn(prismaService.session, 'findMany').mockResolvedValue([]);
+      jest
+        .spyOn(prismaService.session, 'deleteMany')
+        .mockResolvedValue({ count: 0 });
+      jest
+        .spyOn(accessTokenDenyList, 'denySessions')
+        .mockRejectedValue(new Error('Connection is closed.'));
+
+      await expect(service.revokeAll(userId)).rejects.toThrow(
+        InternalServerErrorException,
+      );
+    });
+  });
+
+  describe('describeDevice', () => {
+    it.each([
+      [
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+        'iOS',
+        'Safari on iOS',
+      ],
+      [
+        'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Mobile Safari/537.36',
+        'Android',
+        'Chrome on Android',
+      ],
+      [
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:128.0) Gecko/20100101 Firefox/128.0',
+        'Windows',
+        'Firefox on Windows',
+      ],
+      ['okhttp/4.12.0', undefined, undefined],
+    ])('should describe %s', (userAgent, platform, label) => {
+      expect(service.describeDevice(userAgent)).toEqual({ platform, label });
+    });
+
+    it('should return nothing without a user agent', () => {
+      expect(service.describeDevice(undefined)).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { AccessTokenDenyListService } from './access-token-deny-list.service';
+import { authConfig, AuthConfig } from '../config/auth.config';
+import { ClientInfoData } from '../auth/decorators/client-info.decorator';
+
+export interface CreateSessionData {
+  id?: string;
+  userId: string;
+  refreshToken: string;
+  client?: ClientInfoData;
+  label?: string;
+}
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/i, 'iOS'],
+  [/Android/i, 'Android'],
+  [/Windows/i, 'Windows'],
+  [/Macintosh|Mac OS X/i, 'macOS'],
+  [/CrOS/i, 'ChromeOS'],
+  [/Linux/i, 'Linux'],
+];
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const SESSION_SELECT = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  platform: true,
+  label: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+};
+
+@Injectable()
+export class SessionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tokenHashService: TokenHashService,
+    private readonly accessTokenDenyList: AccessTokenDenyListService,
+    @Inject(authConfig.KEY) private readonly authConfig: AuthConfig,
+  ) {}
+
+  async create(data: CreateSessionData) {
+    try {
+      const { platform, label } = this.describeDevice(data.client?.userAgent);
+      // Refresh tokens are only honoured while their session exists
+      const expiresAt = this.authConfig.refreshTokenExpiry.from(new Date());
+
+      return await this.prisma.session.create({
+        data: {
+          id: data.id,
+          userId: data.userId,
+          refreshTokenHash: this.tokenHashService.hash(data.refreshToken),
+          expiresAt,
+          userAgent: data.client?.userAgent,
+          ipAddress: data.client?.ipAddress,
+          platform,
+          label: data.label || label,
+        },
+      });
+    } catch (error) {
+      throw new InternalServerErrorException('Failed to create session');
+    }
+  }
+
+  async findActive(userId: string, sessionId: string) {
+    try {
+      return await this.prisma.session.findFirst({
+        where: {
+          id: sessionId,
+          userId,
+          expiresAt: {
+            gt: new Date(),
+          },
+        },
+      });
+    } catch (error) {
+      throw new InternalServerErrorException('Failed to find session');
+    }
+  }
+
+  isCurrentRefreshToken(session: { refreshTokenHash: string }, refreshToken: string) {
+    return this.tokenHashService.matches(refreshToken, session.refreshTokenHash);
+  }
+
+  /** Whether the token was replaced within the grace window, as when two tabs refresh at once. */
+  isJustRotatedRefreshToken(
+    session: {
+      previousRefreshTokenHash: string | null;
+      rotatedAt: Date | null;
+    },
+    refreshToken: string,
+  ) {
+    if (!session.previousRefreshTokenHash || !session.rotatedAt) {
+      return false;
+    }
+
+    const graceEndsAt = this.authConfig.refreshTokenReuseGrace.from(
+      session.rotatedAt,
+    );
+    return (
+      graceEndsAt > new Date() &&
+      this.tokenHashService.matches(
+        refreshToken,
+        session.previousRefreshTokenHash,
+      )
+    );
+  }
+
+  /**
+   * Swaps the refresh token of a session in place so that the device
+   * metadata survives rotation. The replaced token is kept in the same
+   * update, so a concurrent refresh can never see the new token without it.
+   * Returns false if the token was already rotated by a concurrent request.
+   */
+  async rotate(
+    sessionId: string,
+    currentRefreshToken: string,
+    newRefreshToken: string,
+    client?: ClientInfoData,
+  ) {
+    try {
+      const currentRefreshTokenHash =
+        this.tokenHashService.hash(currentRefreshToken);
+      const now = new Date();
+
+      const { count } = await this.prisma.session.updateMany({
+        where: {
+          id: sessionId,
+          refreshTokenHash: currentRefreshTokenHash,
+        },
+        data: {
+          refreshTokenHash: this.tokenHashService.hash(newRefreshToken),
+          previousRefreshTokenHash: currentRefreshTokenHash,
+          rotatedAt: now,
+          lastUsedAt: now,
+          ...(client?.userAgent && { userAgent: client.userAgent }),
+          ...(client?.ipAddress && { ipAddress: client.ipAddress }),
+        },
+      });
+
+      return count === 1;
+    } catch (error) {
+      throw new InternalServerErrorException('Failed to rotate session');
+    }
+  }
+
+  async findAllForUser(userId: string, currentSessionId?: string) {
+    try {
+      const sessions = await this.prisma.session.findMany({
+        where: {
+          userId,
+          expiresAt: {
+            gt: new Date(),
+          },
+        },
+        select: SESSION_SELECT,
+        orderBy: { lastUsedAt: 'desc' },
+      });
+
+      return sessions.map((session) => ({
+        ...session,
+        current: session.id === currentSessionId,
+      }));
+    } catch (error) {
+      throw new InternalServerErrorException('Failed to list sessions');
+    }
+  }
+
+  async revoke(userId: string, sessionId: string) {
+    try {
+      const { count } = await this.prisma.session.deleteMany({
+        where: { id: sessionId, userId },
+      });
+
+      if (count === 0) {
+        throw new NotFoundException('Session not found');
+      }
+
+      await this.accessTokenDenyList.denySessions([sessionId]);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to revoke session');
+    }
+  }
+
+  async revokeOthers(userId: string, currentSessionId: string) {
+    try {
+      const where = { userId, id: { not: currentSessionId } };
+      const sessions = await this.prisma.session.findMany({
+        where,
+        select: { id: true },
+      });
+      const { count } = await this.prisma.session.deleteMany({ where });
+
+      await this.accessTokenDenyList.denySessions(
+        sessions.map((session) => session.id),
+      );
+
+      return count;
+    } catch (error) {
+      throw new InternalServerErrorException('Failed to revoke sessions');
+    }
+  }
+
+  async revokeAll(userId: string) {
+    try {
+      const sessions = await this.prisma.session.findMany({
+        where: { userId },
+        select: { id: true },
+      });
+      const { count } = await this.prisma.session.deleteMany({
+        where: { userId },
+      });
+
+      await this.accessTokenDenyList.denySessions(
+        sessions.map((session) => session.id),
+      );
+
+      return count;
+    } catch (error) {
+      throw new InternalServerErrorException('Failed to revoke sessions');
+    }
+  }
+
+  describeDevice(userAgent?: string): { platform?: string; label?: string } {
+    if (!userAgent) {
+      return {};
+    }
+
+    const platform = PLATFORMS.find(([pattern]) =>
+      pattern.test(userAgent),
+    )?.[1];
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && platform) {
+      return { platform, label: `${browser} on ${platform}` };
+    }
+
+    return { platform, label: platform || browser };
+  }
+}
@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { THEMES, Theme } from '../user-preferences';
+
+export class NotificationPreferencesDto {
+  @ApiProperty({ example: true, description: 'Account and product emails' })
+  email: boolean;
+
+  @ApiProperty({ example: true, description: 'Push notifications' })
+  push: boolean;
+
+  @ApiProperty({ example: false, description: 'Marketing emails' })
+  marketing: boolean;
+}
+
+export class PreferencesDto {
+  @ApiProperty({
+    example: 1,
+    description: 'Schema version of the preferences document',
+  })
+  version: number;
+
+  @ApiProperty({ example: 'system', enum: THEMES })
+  theme: Theme;
+
+  @ApiProperty({ type: NotificationPreferencesDto })
+  notifications: NotificationPreferencesDto;
+
+  @ApiProperty({
+    example: 'en-US-Neural2-F',
+    description: 'Voice used for new audio, or null for the default voice',
+    nullable: true,
+    type: String,
+  })
+  defaultVoice: string | null;
+
+  @ApiProperty({ example: 1.25, description: 'Playback speed multiplier' })
+  playbackSpeed: number;
+
+  @ApiProperty({ example: 'en-US', description: 'BCP 47 language tag' })
+  locale: string;
+
+  @ApiProperty({ example: 'Europe/Berlin', description: 'IANA time zone' })
+  timezone: string;
+}
@@ -0,0 +1,85 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsLocale,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  PLAYBACK_SPEED_MAX,
+  PLAYBACK_SPEED_MIN,
+  THEMES,
+  Theme,
+} from '../user-preferences';
+
+export class UpdateNotificationPreferencesDto {
+  @ApiPropertyOptional({ example: true, nullable: true })
+  @IsBoolean()
+  @IsOptional()
+  email?: boolean | null;
+
+  @ApiPropertyOptional({ example: false, nullable: true })
+  @IsBoolean()
+  @IsOptional()
+  push?: boolean | null;
+
+  @ApiPropertyOptional({ example: false, nullable: true })
+  @IsBoolean()
+  @IsOptional()
+  marketing?: boolean | null;
+}
+
+/**
+ * JSON merge patch of the preferences: absent keys are left alone and
+ * `null` resets a key to its default.
+ */
+export class UpdatePreferencesDto {
+  @ApiPropertyOptional({ example: 'dark', enum: THEMES, nullable: true })
+  @IsIn(THEMES, { message: `Theme must be one of: ${THEMES.join(', ')}` })
+  @IsOptional()
+  theme?: Theme | null;
+
+  @ApiPropertyOptional({
+    type: UpdateNotificationPreferencesDto,
+    nullable: true,
+  })
+  @ValidateNested()
+  @Type(() => UpdateNotificationPreferencesDto)
+  @IsOptional()
+  notifications?: UpdateNotificationPreferencesDto | null;
+
+  @ApiPropertyOptional({ example: 'en-US-Neural2-F', nullable: true })
+  @IsString()
+  @MaxLength(100, { message: 'Voice must be at most 100 characters long' })
+  @IsOptional()
+  defaultVoice?: string | null;
+
+  @ApiPropertyOptional({ example: 1.25, nullable: true })
+  @IsNumber()
+  @Min(PLAYBACK_SPEED_MIN, {
+    message: `Playback speed must be at least ${PLAYBACK_SPEED_MIN}`,
+  })
+  @Max(PLAYBACK_SPEED_MAX, {
+    message: `Playback speed must be at most ${PLAYBACK_SPEED_MAX}`,
+  })
+  @IsOptional()
+  playbackSpeed?: number | null;
+
+  @ApiPropertyOptional({ example: 'de-DE', nullable: true })
+  @IsLocale({ message: 'Locale must be a valid language tag' })
+  @IsOptional()
+  locale?: string | null;
+
+  @ApiPropertyOptional({ example: 'Europe/Berlin', nullable: true })
+  @IsTimeZone({ message: 'Timezone must be a valid IANA time zone' })
+  @IsOptional()
+  timezone?: string | null;
+}
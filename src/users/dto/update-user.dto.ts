@@ -1,5 +1,5 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsOptional, MinLength, IsEmail } from 'class-validator';
+import { IsString, IsOptional, MinLength } from 'class-validator';
 
 export class UpdateUserDto {
   @ApiPropertyOptional({
@@ -10,12 +10,4 @@ export class UpdateUserDto {
   @IsOptional()
   @MinLength(2, { message: 'Name must be at least 2 characters long' })
   name?: string;
-
-  @ApiPropertyOptional({
-    example: 'john.smith@example.com',
-    description: 'User email address',
-  })
-  @IsEmail({}, { message: 'Please provide a valid email address' })
-  @IsOptional()
-  email?: string;
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { Exclude, Expose } from 'class-transformer';
+import { Role } from '@prisma/client';
 
 @Exclude()
 export class UserDto {
@@ -31,6 +32,14 @@ export class UserDto {
   @Expose()
   emailVerified: boolean;
 
+  @ApiProperty({
+    example: 'USER',
+    description: 'Role that determines what the user may access',
+    enum: Role,
+  })
+  @Expose()
+  role: Role;
+
   @ApiProperty({
     example: '2024-01-15T10:30:00Z',
     description: 'Account creation timestamp',
@@ -46,12 +55,15 @@ export class UserDto {
   updatedAt: Date;
 
   // Exclude sensitive fields
-  passwordHash: string;
-  emailVerificationToken?: string;
-  passwordResetToken?: string;
+  passwordHash?: string | null;
+  emailVerificationTokenHash?: string;
+  emailVerificationExpires?: Date;
+  passwordResetTokenHash?: string;
   passwordResetExpires?: Date;
   failedLoginAttempts?: number;
   lockedUntil?: Date;
+  mfaSecret?: string;
+  mfaLastUsedStep?: number;
 
   constructor(partial: Partial<UserDto>) {
     Object.assign(this, partial);
@@ -0,0 +1,133 @@
+/**
+ * Shape of `User.preferences`. The column is plain JSON, so every read goes
+ * through `normalizePreferences` and bumping the version means teaching it
+ * how to upgrade the previous shape.
+ */
+export const PREFERENCES_VERSION = 1;
+
+export const THEMES = ['light', 'dark', 'system'] as const;
+
+export type Theme = (typeof THEMES)[number];
+
+export const PLAYBACK_SPEED_MIN = 0.5;
+export const PLAYBACK_SPEED_MAX = 3;
+
+export type NotificationPreferences = {
+  email: boolean;
+  push: boolean;
+  marketing: boolean;
+};
+
+export type UserPreferences = {
+  version: number;
+  theme: Theme;
+  notifications: NotificationPreferences;
+  defaultVoice: string | null;
+  playbackSpeed: number;
+  locale: string;
+  timezone: string;
+};
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  version: PREFERENCES_VERSION,
+  theme: 'system',
+  notifications: {
+    email: true,
+    push: true,
+    marketing: false,
+  },
+  defaultVoice: null,
+  playbackSpeed: 1,
+  locale: 'en-US',
+  timezone: 'UTC',
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads stored preferences into the current shape, falling back to the
+ * defaults for anything missing or unusable. Unversioned documents predate
+ * the schema and kept a single `notifications` flag.
+ */
+export function normalizePreferences(stored: unknown): UserPreferences {
+  const preferences = isObject(stored) ? stored : {};
+
+  const notifications =
+    typeof preferences.notifications === 'boolean'
+      ? {
+          ...DEFAULT_PREFERENCES.notifications,
+          email: preferences.notifications,
+          push: preferences.notifications,
+        }
+      : {
+          ...DEFAULT_PREFERENCES.notifications,
+          ...pickBooleans(preferences.notifications),
+        };
+
+  return {
+    version: PREFERENCES_VERSION,
+    theme: THEMES.includes(preferences.theme as Theme)
+      ? (preferences.theme as Theme)
+      : DEFAULT_PREFERENCES.theme,
+    notifications,
+    defaultVoice:
+      typeof preferences.defaultVoice === 'string'
+        ? preferences.defaultVoice
+        : DEFAULT_PREFERENCES.defaultVoice,
+    playbackSpeed:
+      typeof preferences.playbackSpeed === 'number' &&
+      preferences.playbackSpeed >= PLAYBACK_SPEED_MIN &&
+      preferences.playbackSpeed <= PLAYBACK_SPEED_MAX
+        ? preferences.playbackSpeed
+        : DEFAULT_PREFERENCES.playbackSpeed,
+    locale:
+      typeof preferences.locale === 'string'
+        ? preferences.locale
+        : DEFAULT_PREFERENCES.locale,
+    timezone:
+      typeof preferences.timezone === 'string'
+        ? preferences.timezone
+        : DEFAULT_PREFERENCES.timezone,
+  };
+}
+
+/**
+ * Applies a JSON merge patch (RFC 7396): objects merge recursively, `null`
+ * removes a key and anything else replaces it. Keys left `undefined` by the
+ * validation pipe count as absent.
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) {
+    return patch;
+  }
+
+  const result: JsonObject = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+
+  return result;
+}
+
+function pickBooleans(value: unknown) {
+  if (!isObject(value)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([key, flag]) =>
+        key in DEFAULT_PREFERENCES.notifications && typeof flag === 'boolean',
+    ),
+  );
+}
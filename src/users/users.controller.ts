@@ -0,0 +1,114 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  UseGuards,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiBody,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { UsersService } from './users.service';
+import { UserDto } from './dto/user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { PreferencesDto } from './dto/preferences.dto';
+import { UpdatePreferencesDto } from './dto/update-preferences.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  CurrentUser,
+  CurrentUserData,
+} from '../auth/decorators/current-user.decorator';
+import { AllowApiKey } from '../auth/decorators/allow-api-key.decorator';
+
+@ApiTags('Users')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@UseGuards(JwtAuthGuard)
+@Controller('users/me')
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @Get()
+  @AllowApiKey('profile:read')
+  @ApiOperation({ summary: 'Get the profile of the current user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Current user profile',
+    type: UserDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized',
+  })
+  async getProfile(@CurrentUser() user: CurrentUserData) {
+    return this.usersService.findProfile(user.id);
+  }
+
+  @Patch()
+  @AllowApiKey('profile:write')
+  @ApiOperation({
+    summary: 'Update the profile of the current user',
+    description:
+      'The email address is changed through `POST /users/me/email` instead.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Profile updated',
+    type: UserDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input',
+  })
+  @ApiBody({ type: UpdateUserDto })
+  async updateProfile(
+    @CurrentUser() user: CurrentUserData,
+    @Body() updateUserDto: UpdateUserDto,
+  ) {
+    return this.usersService.update(user.id, updateUserDto);
+  }
+
+  @Get('preferences')
+  @AllowApiKey('profile:read')
+  @ApiOperation({ summary: 'Get the preferences of the current user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Preferences, with defaults filled in',
+    type: PreferencesDto,
+  })
+  async getPreferences(@CurrentUser() user: CurrentUserData) {
+    return this.usersService.getPreferences(user.id);
+  }
+
+  @Patch('preferences')
+  @AllowApiKey('profile:write')
+  @ApiConsumes('application/merge-patch+json', 'application/json')
+  @ApiOperation({
+    summary: 'Update the preferences of the current user',
+    description:
+      'JSON merge patch: only the keys sent are changed, nested objects are merged and `null` resets a key to its default.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Preferences after the patch',
+    type: PreferencesDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid preference value',
+  })
+  @ApiBody({ type: UpdatePreferencesDto })
+  async updatePreferences(
+    @CurrentUser() user: CurrentUserData,
+    @Body() updatePreferencesDto: UpdatePreferencesDto,
+  ) {
+    return this.usersService.updatePreferences(user.id, updatePreferencesDto);
+  }
+}
@@ -1,22 +1,21 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { ConfigService } from '@nestjs/config';
 import {
   ConflictException,
   NotFoundException,
   InternalServerErrorException,
 } from '@nestjs/common';
-import * as bcrypt from 'bcrypt';
 import { UsersService } from './users.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { PasswordHasherService } from '../crypto/password-hasher.service';
 import { UpdateUserDto } from './dto/update-user.dto';
-
-// Mock bcrypt
-jest.mock('bcrypt');
+import { DEFAULT_PREFERENCES } from './user-preferences';
+import { authConfig } from '../config/auth.config';
 
 describe('UsersService', () => {
   let service: UsersService;
   let prismaService: PrismaService;
-  let configService: ConfigService;
+  let passwordHasher: PasswordHasherService;
 
   const mockUser = {
     id: '123e4567-e89b-12d3-a456-426614174000',
@@ -24,29 +23,30 @@ describe('UsersService', () => {
     name: 'Test User',
     passwordHash: 'hashedPassword',
     emailVerified: true,
-    emailVerificationToken: null,
-    passwordResetToken: null,
+    emailVerificationTokenHash: null,
+    emailVerificationExpires: null,
+    passwordResetTokenHash: null,
     passwordResetExpires: null,
     failedLoginAttempts: 0,
     lockedUntil: null,
+    role: 'USER' as const,
+    suspendedAt: null,
+    scheduledDeletionAt: null,
     lastLogin: null,
     preferences: {},
+    mfaEnabled: false,
+    mfaSecret: null,
+    mfaEnabledAt: null,
+    mfaLastUsedStep: null,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
 
-  const mockSession = {
-    id: 'session-123',
-    userId: mockUser.id,
-    refreshToken: 'refresh-token',
-    expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-    createdAt: new Date(),
-  };
-
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         UsersService,
+        { provide: authConfig.KEY, useValue: authConfig() },
         {
           provide: PrismaService,
           useValue: {
@@ -55,24 +55,26 @@ describe('UsersService', () => {
               findUnique: jest.fn(),
               findFirst: jest.fn(),
               update: jest.fn(),
+              updateMany: jest.fn(),
             },
-            session: {
+            passwordHistory: {
+              findMany: jest.fn().mockResolvedValue([]),
               create: jest.fn(),
               deleteMany: jest.fn(),
             },
+            $transaction: jest.fn(),
+          },
+        },
+        {
+          provide: TokenHashService,
+          useValue: {
+            hash: jest.fn((token: string) => `hashed:${token}`),
           },
         },
         {
-          provide: ConfigService,
+          provide: PasswordHasherService,
           useValue: {
-            get: jest.fn((key: string, defaultValue?: any) => {
-              const config = {
-                BCRYPT_ROUNDS: '10',
-                MAX_LOGIN_ATTEMPTS: 5,
-                LOCK_TIME: '15m',
-              };
-              return config[key] || defaultValue;
-            }),
+            hash: jest.fn(),
           },
         },
       ],
@@ -80,7 +82,7 @@ describe('UsersService', () => {
 
     service = module.get<UsersService>(UsersService);
     prismaService = module.get<PrismaService>(PrismaService);
-    configService = module.get<ConfigService>(ConfigService);
+    passwordHasher = module.get<PasswordHasherService>(PasswordHasherService);
 
     jest.clearAllMocks();
   });
@@ -99,19 +101,27 @@ describe('UsersService', () => {
         name: createUserData.name,
         passwordHash: 'hashedPassword',
         emailVerified: false,
-        emailVerificationToken: null,
-        passwordResetToken: null,
+        emailVerificationTokenHash: null,
+        emailVerificationExpires: null,
+        passwordResetTokenHash: null,
         passwordResetExpires: null,
         failedLoginAttempts: 0,
         lockedUntil: null,
+        role: 'USER' as const,
+        suspendedAt: null,
+        scheduledDeletionAt: null,
         lastLogin: null,
         preferences: {},
+        mfaEnabled: false,
+        mfaSecret: null,
+        mfaEnabledAt: null,
+        mfaLastUsedStep: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
       jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(null);
-      (bcrypt.hash as jest.Mock).mockResolvedValue('hashedPassword');
+      (passwordHasher.hash as jest.Mock).mockResolvedValue('hashedPassword');
       jest.spyOn(prismaService.user, 'create').mockResolvedValue(expectedUser);
 
       const result = await service.create(createUserData);
@@ -120,7 +130,7 @@ describe('UsersService', () => {
       expect(prismaService.user.findUnique).toHaveBeenCalledWith({
         where: { email: createUserData.email.toLowerCase() },
       });
-      expect(bcrypt.hash).toHaveBeenCalledWith(createUserData.password, 10);
+      expect(passwordHasher.hash).toHaveBeenCalledWith(createUserData.password);
       expect(prismaService.user.create).toHaveBeenCalled();
     });
 
@@ -133,7 +143,7 @@ describe('UsersService', () => {
 
     it('should handle database errors', async () => {
       jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(null);
-      (bcrypt.hash as jest.Mock).mockResolvedValue('hashedPassword');
+      (passwordHasher.hash as jest.Mock).mockResolvedValue('hashedPassword');
       jest.spyOn(prismaService.user, 'create').mockRejectedValue(new Error('Database error'));
 
       await expect(service.create(createUserData)).rejects.toThrow(InternalServerErrorException);
@@ -230,16 +240,73 @@ describe('UsersService', () => {
       expect(prismaService.user.update).not.toHaveBeenCalled();
     });
 
-    it('should throw ConflictException if email already in use', async () => {
-      const updateWithEmail: UpdateUserDto = {
-        email: 'existing@example.com',
-      };
-      
-      jest.spyOn(prismaService.user, 'findUnique')
-        .mockResolvedValueOnce(mockUser) // findById
-        .mockResolvedValueOnce({ ...mockUser, id: 'different-id' }); // findByEmail
+    it('should only write the updatable profile fields', async () => {
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(mockUser);
+      jest.spyOn(prismaService.user, 'update').mockResolvedValue(mockUser);
+
+      await service.update(mockUser.id, updateUserDto);
+
+      expect(prismaService.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { name: 'Updated Name' } }),
+      );
+    });
+  });
+
+  describe('findProfile', () => {
+    it('should throw NotFoundException if user not found', async () => {
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(null);
 
-      await expect(service.update(mockUser.id, updateWithEmail)).rejects.toThrow(ConflictException);
+      await expect(service.findProfile('non-existent-id')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getPreferences', () => {
+    it('should fill in defaults and upgrade the legacy notifications flag', async () => {
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue({
+        preferences: { theme: 'dark', notifications: false },
+      } as any);
+
+      const result = await service.getPreferences(mockUser.id);
+
+      expect(result).toEqual({
+        ...DEFAULT_PREFERENCES,
+        theme: 'dark',
+        notifications: { email: false, push: false, marketing: false },
+      });
+    });
+  });
+
+  describe('updatePreferences', () => {
+    it('should merge the patch into the stored preferences', async () => {
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue({
+        preferences: {
+          ...DEFAULT_PREFERENCES,
+          theme: 'dark',
+          playbackSpeed: 1.5,
+          notifications: { email: false, push: true, marketing: false },
+        },
+      } as any);
+
+      const result = await service.updatePreferences(mockUser.id, {
+        notifications: { marketing: true },
+        playbackSpeed: null,
+      });
+
+      expect(result).toEqual({
+        ...DEFAULT_PREFERENCES,
+        theme: 'dark',
+        notifications: { email: false, push: true, marketing: true },
+      });
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
+        data: { preferences: result },
+      });
+    });
+
+    it('should throw NotFoundException if user not found', async () => {
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(null);
+
+      await expect(service.updatePreferences('non-existent-id', { theme: 'light' })).rejects.toThrow(NotFoundException);
       expect(prismaService.user.update).not.toHaveBeenCalled();
     });
   });
@@ -248,57 +315,109 @@ describe('UsersService', () => {
     it('should successfully update password', async () => {
       const newPassword = 'NewPassword123!';
       
-      (bcrypt.hash as jest.Mock).mockResolvedValue('newHashedPassword');
-      jest.spyOn(prismaService.user, 'update').mockResolvedValue(mockUser);
+      (passwordHasher.hash as jest.Mock).mockResolvedValue('newHashedPassword');
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(mockUser);
 
       const result = await service.updatePassword(mockUser.id, newPassword);
 
       expect(result.message).toBe('Password updated successfully');
-      expect(bcrypt.hash).toHaveBeenCalledWith(newPassword, 10);
+      expect(passwordHasher.hash).toHaveBeenCalledWith(newPassword);
       expect(prismaService.user.update).toHaveBeenCalledWith({
         where: { id: mockUser.id },
         data: {
           passwordHash: 'newHashedPassword',
-          passwordResetToken: null,
+          passwordResetTokenHash: null,
           passwordResetExpires: null,
         },
       });
+      expect(prismaService.$transaction).toHaveBeenCalled();
+    });
+
+    it('should move the replaced hash into a history of PASSWORD_HISTORY_SIZE - 1 entries', async () => {
+      (passwordHasher.hash as jest.Mock).mockResolvedValue('newHashedPassword');
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(mockUser);
+      (prismaService.passwordHistory.findMany as jest.Mock).mockResolvedValue([{ id: 'oldest' }]);
+
+      await service.updatePassword(mockUser.id, 'NewPassword123!');
+
+      expect(prismaService.passwordHistory.create).toHaveBeenCalledWith({
+        data: { userId: mockUser.id, passwordHash: 'hashedPassword' },
+      });
+      // Four kept with the default of 5, one of them the hash being replaced
+      expect(prismaService.passwordHistory.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: mockUser.id }, orderBy: { createdAt: 'desc' }, skip: 3 }),
+      );
+      expect(prismaService.passwordHistory.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['oldest'] } },
+      });
+    });
+
+    it('should not record a history entry for accounts without a password', async () => {
+      (passwordHasher.hash as jest.Mock).mockResolvedValue('newHashedPassword');
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue({ ...mockUser, passwordHash: null });
+
+      await service.updatePassword(mockUser.id, 'NewPassword123!');
+
+      expect(prismaService.passwordHistory.create).not.toHaveBeenCalled();
     });
 
     it('should handle database errors', async () => {
-      (bcrypt.hash as jest.Mock).mockResolvedValue('newHashedPassword');
-      jest.spyOn(prismaService.user, 'update').mockRejectedValue(new Error('Database error'));
+      (passwordHasher.hash as jest.Mock).mockResolvedValue('newHashedPassword');
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(mockUser);
+      jest.spyOn(prismaService, '$transaction').mockRejectedValue(new Error('Database error'));
 
       await expect(service.updatePassword(mockUser.id, 'newPassword')).rejects.toThrow(InternalServerErrorException);
     });
   });
 
-  describe('updateRefreshToken', () => {
-    it('should store refresh token in session', async () => {
-      const refreshToken = 'new-refresh-token';
-      
-      jest.spyOn(prismaService.session, 'create').mockResolvedValue(mockSession);
+  describe('clearPassword', () => {
+    it('should remove the password and keep it in the history', async () => {
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(mockUser);
 
-      await service.updateRefreshToken(mockUser.id, refreshToken);
+      await service.clearPassword(mockUser.id);
 
-      expect(prismaService.session.create).toHaveBeenCalledWith({
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: mockUser.id },
         data: {
-          userId: mockUser.id,
-          refreshToken,
-          expiresAt: expect.any(Date),
+          passwordHash: null,
+          passwordResetTokenHash: null,
+          passwordResetExpires: null,
         },
       });
+      expect(prismaService.passwordHistory.create).toHaveBeenCalledWith({
+        data: { userId: mockUser.id, passwordHash: 'hashedPassword' },
+      });
+      expect(passwordHasher.hash).not.toHaveBeenCalled();
+    });
+
+    it('should handle database errors', async () => {
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(mockUser);
+      jest.spyOn(prismaService, '$transaction').mockRejectedValue(new Error('Database error'));
+
+      await expect(service.clearPassword(mockUser.id)).rejects.toThrow(InternalServerErrorException);
     });
+  });
 
-    it('should delete all sessions on logout (null refresh token)', async () => {
-      jest.spyOn(prismaService.session, 'deleteMany').mockResolvedValue({ count: 1 });
+  describe('rehashPassword', () => {
+    it('should replace the hash it was given', async () => {
+      (passwordHasher.hash as jest.Mock).mockResolvedValue('upgradedHash');
+      (prismaService.user.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
 
-      await service.updateRefreshToken(mockUser.id, null);
+      const result = await service.rehashPassword(mockUser.id, 'hashedPassword', 'Password123!');
 
-      expect(prismaService.session.deleteMany).toHaveBeenCalledWith({
-        where: { userId: mockUser.id },
+      expect(result).toBe(true);
+      expect(passwordHasher.hash).toHaveBeenCalledWith('Password123!');
+      expect(prismaService.user.updateMany).toHaveBeenCalledWith({
+        where: { id: mockUser.id, passwordHash: 'hashedPassword' },
+        data: { passwordHash: 'upgradedHash' },
       });
-      expect(prismaService.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should leave a password changed in the meantime alone', async () => {
+      (passwordHasher.hash as jest.Mock).mockResolvedValue('upgradedHash');
+      (prismaService.user.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await expect(service.rehashPassword(mockUser.id, 'staleHash', 'Password123!')).resolves.toBe(false);
     });
   });
 
@@ -312,23 +431,28 @@ describe('UsersService', () => {
         where: { id: mockUser.id },
         data: {
           emailVerified: true,
-          emailVerificationToken: null,
+          emailVerificationTokenHash: null,
+          emailVerificationExpires: null,
         },
       });
     });
   });
 
   describe('setEmailVerificationToken', () => {
-    it('should set email verification token', async () => {
+    it('should set email verification token with expiry', async () => {
       const token = 'verification-token';
+      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
       
       jest.spyOn(prismaService.user, 'update').mockResolvedValue(mockUser);
 
-      await service.setEmailVerificationToken(mockUser.id, token);
+      await service.setEmailVerificationToken(mockUser.id, token, expiresAt);
 
       expect(prismaService.user.update).toHaveBeenCalledWith({
         where: { id: mockUser.id },
-        data: { emailVerificationToken: token },
+        data: {
+          emailVerificationTokenHash: `hashed:${token}`,
+          emailVerificationExpires: expiresAt,
+        },
       });
     });
   });
@@ -345,7 +469,7 @@ describe('UsersService', () => {
       expect(prismaService.user.update).toHaveBeenCalledWith({
         where: { id: mockUser.id },
         data: {
-          passwordResetToken: token,
+          passwordResetTokenHash: `hashed:${token}`,
           passwordResetExpires: expiresAt,
         },
       });
@@ -357,7 +481,7 @@ describe('UsersService', () => {
       const token = 'reset-token';
       const userWithToken = {
         ...mockUser,
-        passwordResetToken: token,
+        passwordResetTokenHash: `hashed:${token}`,
         passwordResetExpires: new Date(Date.now() + 3600000),
       };
       
@@ -368,7 +492,7 @@ describe('UsersService', () => {
       expect(result).toEqual(userWithToken);
       expect(prismaService.user.findFirst).toHaveBeenCalledWith({
         where: {
-          passwordResetToken: token,
+          passwordResetTokenHash: `hashed:${token}`,
           passwordResetExpires: {
             gt: expect.any(Date),
           },
@@ -390,7 +514,7 @@ describe('UsersService', () => {
       const token = 'verification-token';
       const userWithToken = {
         ...mockUser,
-        emailVerificationToken: token,
+        emailVerificationTokenHash: `hashed:${token}`,
       };
       
       jest.spyOn(prismaService.user, 'findFirst').mockResolvedValue(userWithToken);
@@ -400,7 +524,7 @@ describe('UsersService', () => {
       expect(result).toEqual(userWithToken);
       expect(prismaService.user.findFirst).toHaveBeenCalledWith({
         where: {
-          emailVerificationToken: token,
+          emailVerificationTokenHash: `hashed:${token}`,
         },
       });
     });
@@ -416,7 +540,7 @@ describe('UsersService', () => {
         failedLoginAttempts: 3,
       });
 
-      await service.incrementLoginAttempts(mockUser.email);
+      await expect(service.incrementLoginAttempts(mockUser.email)).resolves.toBeNull();
 
       expect(prismaService.user.update).toHaveBeenCalledWith({
         where: { email: mockUser.email.toLowerCase() },
@@ -437,7 +561,7 @@ describe('UsersService', () => {
         lockedUntil: expect.any(Date),
       });
 
-      await service.incrementLoginAttempts(mockUser.email);
+      const result = await service.incrementLoginAttempts(mockUser.email);
 
       expect(prismaService.user.update).toHaveBeenCalledWith({
         where: { email: mockUser.email.toLowerCase() },
@@ -446,12 +570,17 @@ describe('UsersService', () => {
           lockedUntil: expect.any(Date),
         },
       });
+      // LOCK_TIME defaults to 15m
+      const { lockedUntil } = (prismaService.user.update as jest.Mock).mock.calls[0][0].data;
+      expect(result).toBe(lockedUntil);
+      expect(lockedUntil.getTime() - Date.now()).toBeGreaterThan(14 * 60 * 1000);
+      expect(lockedUntil.getTime() - Date.now()).toBeLessThanOrEqual(15 * 60 * 1000);
     });
 
     it('should handle non-existent user gracefully', async () => {
       jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue(null);
 
-      await service.incrementLoginAttempts('nonexistent@example.com');
+      await expect(service.incrementLoginAttempts('nonexistent@example.com')).resolves.toBeNull();
 
       expect(prismaService.user.update).not.toHaveBeenCalled();
     });
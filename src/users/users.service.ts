@@ -1,4 +1,5 @@
 import {
+  Inject,
   Injectable,
   ConflictException,
   NotFoundException,
@@ -6,14 +7,19 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { UpdateUserDto } from './dto/update-user.dto';
-import * as bcrypt from 'bcrypt';
-import { ConfigService } from '@nestjs/config';
+import { UpdatePreferencesDto } from './dto/update-preferences.dto';
+import { applyMergePatch, normalizePreferences } from './user-preferences';
+import { TokenHashService } from '../crypto/token-hash.service';
+import { PasswordHasherService } from '../crypto/password-hasher.service';
+import { authConfig, AuthConfig } from '../config/auth.config';
 
 @Injectable()
 export class UsersService {
   constructor(
     private readonly prisma: PrismaService,
-    private readonly configService: ConfigService,
+    private readonly tokenHashService: TokenHashService,
+    private readonly passwordHasher: PasswordHasherService,
+    @Inject(authConfig.KEY) private readonly authConfig: AuthConfig,
   ) {}
 
   async create(data: {
@@ -27,8 +33,7 @@ export class UsersService {
         throw new ConflictException('User with this email already exists');
       }
 
-      const bcryptRounds = parseInt(this.configService.get<string>('BCRYPT_ROUNDS', '10'), 10);
-      const hashedPassword = await bcrypt.hash(data.password, bcryptRounds);
+      const hashedPassword = await this.passwordHasher.hash(data.password);
 
       const user = await this.prisma.user.create({
         data: {
@@ -42,6 +47,7 @@ export class UsersService {
           email: true,
           name: true,
           emailVerified: true,
+          role: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -92,24 +98,16 @@ export class UsersService {
         throw new NotFoundException('User not found');
       }
 
-      if (updateUserDto.email && updateUserDto.email !== user.email) {
-        const existingUser = await this.findByEmail(updateUserDto.email);
-        if (existingUser) {
-          throw new ConflictException('Email already in use');
-        }
-      }
-
+      // Email changes go through EmailChangeService so both addresses confirm them
       const updatedUser = await this.prisma.user.update({
         where: { id },
-        data: {
-          ...updateUserDto,
-          email: updateUserDto.email?.toLowerCase(),
-        },
+        data: updateUserDto,
         select: {
           id: true,
           email: true,
           name: true,
           emailVerified: true,
+          role: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -117,65 +115,167 @@ export class UsersService {
 
       return updatedUser;
     } catch (error) {
-      if (error instanceof NotFoundException || error instanceof ConflictException) {
+      if (error instanceof NotFoundException) {
         throw error;
       }
       throw new InternalServerErrorException('Failed to update user');
     }
   }
 
-  async updatePassword(id: string, newPassword: string) {
+  async findProfile(id: string) {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          emailVerified: true,
+          role: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
+
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      return user;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to find user');
+    }
+  }
+
+  async getPreferences(id: string) {
     try {
-      const bcryptRounds = parseInt(this.configService.get<string>('BCRYPT_ROUNDS', '10'), 10);
-      const hashedPassword = await bcrypt.hash(newPassword, bcryptRounds);
+      const user = await this.prisma.user.findUnique({
+        where: { id },
+        select: { preferences: true },
+      });
+
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      return normalizePreferences(user.preferences);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to get preferences');
+    }
+  }
+
+  async updatePreferences(id: string, patch: UpdatePreferencesDto) {
+    try {
+      const current = await this.getPreferences(id);
+      // Removed keys fall back to their defaults when normalized again
+      const preferences = normalizePreferences(applyMergePatch(current, patch));
 
       await this.prisma.user.update({
         where: { id },
-        data: {
-          passwordHash: hashedPassword,
-          passwordResetToken: null,
-          passwordResetExpires: null,
-        },
+        data: { preferences },
       });
 
+      return preferences;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to update preferences');
+    }
+  }
+
+  /**
+   * Sets a new password and moves the replaced hash into the password history,
+   * which keeps as many entries as the policy needs besides the current one.
+   */
+  async updatePassword(id: string, newPassword: string) {
+    try {
+      await this.replacePasswordHash(id, await this.passwordHasher.hash(newPassword));
+
       return { message: 'Password updated successfully' };
     } catch (error) {
       throw new InternalServerErrorException('Failed to update password');
     }
   }
 
-  async updateRefreshToken(id: string, refreshToken: string | null) {
+  /**
+   * Removes the password of an account that may have been taken over, so it
+   * can only be signed in to again through a password reset. The removed
+   * hash goes into the history, so the same password cannot be set again.
+   */
+  async clearPassword(id: string) {
     try {
-      if (refreshToken) {
-        // Store refresh token in session table
-        const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + 30); // 30 days expiry
-        
-        await this.prisma.session.create({
-          data: {
-            userId: id,
-            refreshToken,
-            expiresAt,
-          },
-        });
-      } else {
-        // Remove all sessions for user on logout
-        await this.prisma.session.deleteMany({
-          where: { userId: id },
-        });
-      }
+      await this.replacePasswordHash(id, null);
     } catch (error) {
-      throw new InternalServerErrorException('Failed to update refresh token');
+      throw new InternalServerErrorException('Failed to clear password');
     }
   }
 
+  private async replacePasswordHash(id: string, hashedPassword: string | null) {
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      select: { passwordHash: true },
+    });
+    const keep = Math.max(this.authConfig.passwordPolicy.historySize - 1, 0);
+    const replacedHash = keep > 0 ? user?.passwordHash : null;
+    const stale = await this.prisma.passwordHistory.findMany({
+      where: { userId: id },
+      orderBy: { createdAt: 'desc' },
+      skip: replacedHash ? keep - 1 : keep,
+      select: { id: true },
+    });
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id },
+        data: {
+          passwordHash: hashedPassword,
+          passwordResetTokenHash: null,
+          passwordResetExpires: null,
+        },
+      }),
+      ...(replacedHash
+        ? [
+            this.prisma.passwordHistory.create({
+              data: { userId: id, passwordHash: replacedHash },
+            }),
+          ]
+        : []),
+      this.prisma.passwordHistory.deleteMany({
+        where: { id: { in: stale.map((entry) => entry.id) } },
+      }),
+    ]);
+  }
+
+  /**
+   * Replaces a hash made with outdated settings. Only applies while the stored
+   * hash is still `currentHash`, so a password changed in the meantime stays.
+   */
+  async rehashPassword(id: string, currentHash: string, password: string) {
+    const hashedPassword = await this.passwordHasher.hash(password);
+
+    const { count } = await this.prisma.user.updateMany({
+      where: { id, passwordHash: currentHash },
+      data: { passwordHash: hashedPassword },
+    });
+
+    return count > 0;
+  }
+
   async setEmailVerified(id: string, verified: boolean) {
     try {
       await this.prisma.user.update({
         where: { id },
         data: { 
           emailVerified: verified,
-          emailVerificationToken: null,
+          emailVerificationTokenHash: null,
+          emailVerificationExpires: null,
         },
       });
     } catch (error) {
@@ -183,11 +283,14 @@ export class UsersService {
     }
   }
 
-  async setEmailVerificationToken(id: string, token: string) {
+  async setEmailVerificationToken(id: string, token: string, expiresAt: Date) {
     try {
       await this.prisma.user.update({
         where: { id },
-        data: { emailVerificationToken: token },
+        data: {
+          emailVerificationTokenHash: this.tokenHashService.hash(token),
+          emailVerificationExpires: expiresAt,
+        },
       });
     } catch (error) {
       throw new InternalServerErrorException('Failed to set email verification token');
@@ -199,7 +302,7 @@ export class UsersService {
       await this.prisma.user.update({
         where: { id },
         data: {
-          passwordResetToken: token,
+          passwordResetTokenHash: this.tokenHashService.hash(token),
           passwordResetExpires: expiresAt,
         },
       });
@@ -212,7 +315,7 @@ export class UsersService {
     try {
       const user = await this.prisma.user.findFirst({
         where: {
-          passwordResetToken: token,
+          passwordResetTokenHash: this.tokenHashService.hash(token),
           passwordResetExpires: {
             gt: new Date(),
           },
@@ -229,7 +332,7 @@ export class UsersService {
     try {
       const user = await this.prisma.user.findFirst({
         where: {
-          emailVerificationToken: token,
+          emailVerificationTokenHash: this.tokenHashService.hash(token),
         },
       });
 
@@ -239,17 +342,17 @@ export class UsersService {
     }
   }
 
-  async incrementLoginAttempts(email: string) {
+  /** Returns when the account is locked until if this attempt locked it, otherwise null. */
+  async incrementLoginAttempts(email: string): Promise<Date | null> {
     try {
       const user = await this.findByEmail(email);
-      if (!user) return;
+      if (!user) return null;
+
+      const { maxLoginAttempts, lockTime } = this.authConfig;
 
-      const maxAttempts = this.configService.get<number>('MAX_LOGIN_ATTEMPTS', 5);
-      const lockTimeMinutes = parseInt(this.configService.get<string>('LOCK_TIME', '15m'));
-      
       const attempts = (user.failedLoginAttempts || 0) + 1;
-      const lockedUntil = attempts >= maxAttempts
-        ? new Date(Date.now() + lockTimeMinutes * 60 * 1000)
+      const lockedUntil = attempts >= maxLoginAttempts
+        ? lockTime.from(new Date())
         : null;
 
       await this.prisma.user.update({
@@ -259,6 +362,8 @@ export class UsersService {
           lockedUntil,
         },
       });
+
+      return lockedUntil;
     } catch (error) {
       throw new InternalServerErrorException('Failed to update login attempts');
     }
@@ -0,0 +1,42 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class PasskeyDto {
+  @ApiProperty({
+    example: '0b8f1f5e-1c1a-4a57-9b8e-7f0c6a3d2e11',
+    description: 'Passkey unique identifier',
+  })
+  id: string;
+
+  @ApiProperty({ example: 'Chrome on macOS', description: 'Passkey name' })
+  name: string;
+
+  @ApiProperty({
+    example: 'multiDevice',
+    description: 'Whether the passkey is bound to one device or synced',
+  })
+  deviceType: string;
+
+  @ApiProperty({
+    example: true,
+    description: 'Whether the passkey is backed up',
+  })
+  backedUp: boolean;
+
+  @ApiProperty({
+    example: ['internal', 'hybrid'],
+    description: 'Transports reported by the authenticator',
+  })
+  transports: string[];
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00Z',
+    description: 'When the passkey was registered',
+  })
+  createdAt: Date;
+
+  @ApiPropertyOptional({
+    example: '2024-01-15T10:30:00Z',
+    description: 'Last time the passkey was used to sign in',
+  })
+  lastUsedAt: Date | null;
+}
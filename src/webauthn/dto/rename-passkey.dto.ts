@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class RenamePasskeyDto {
+  @ApiProperty({
+    example: 'YubiKey 5C',
+    description: 'New name for the passkey',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100, { message: 'Name must be at most 100 characters long' })
+  name: string;
+}
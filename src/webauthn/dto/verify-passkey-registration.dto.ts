@@ -0,0 +1,35 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import type { RegistrationResponseJSON } from '@simplewebauthn/server';
+
+export class VerifyPasskeyRegistrationDto {
+  @ApiProperty({
+    example: '0b8f1f5e-1c1a-4a57-9b8e-7f0c6a3d2e11',
+    description: 'Challenge id returned with the registration options',
+  })
+  @IsUUID('4', { message: 'Invalid challenge id' })
+  challengeId: string;
+
+  @ApiProperty({
+    description: 'Output of navigator.credentials.create() serialized as JSON',
+  })
+  @IsObject()
+  @IsNotEmpty({ message: 'Response is required' })
+  response: RegistrationResponseJSON;
+
+  @ApiPropertyOptional({
+    example: 'MacBook Touch ID',
+    description: 'Name for the passkey, derived from the device when omitted',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100, { message: 'Name must be at most 100 characters long' })
+  name?: string;
+}
@@ -0,0 +1,135 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+import { WebAuthnService } from './webauthn.service';
+import { VerifyPasskeyRegistrationDto } from './dto/verify-passkey-registration.dto';
+import { RenamePasskeyDto } from './dto/rename-passkey.dto';
+import { PasskeyDto } from './dto/passkey.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  CurrentUser,
+  CurrentUserData,
+} from '../auth/decorators/current-user.decorator';
+import {
+  ClientInfo,
+  ClientInfoData,
+} from '../auth/decorators/client-info.decorator';
+import { DenyImpersonation } from '../auth/decorators/deny-impersonation.decorator';
+
+@ApiTags('Passkeys')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@DenyImpersonation()
+@Controller('auth/webauthn')
+export class WebAuthnController {
+  constructor(private readonly webAuthnService: WebAuthnService) {}
+
+  @Post('register/options')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start registering a passkey' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Challenge id and options for navigator.credentials.create()',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized',
+  })
+  async registrationOptions(@CurrentUser() user: CurrentUserData) {
+    return this.webAuthnService.generateRegistrationOptions(user.id);
+  }
+
+  @Post('register/verify')
+  @ApiOperation({ summary: 'Finish registering a passkey' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Passkey registered',
+    type: PasskeyDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Invalid or expired challenge, or the attestation could not be verified',
+  })
+  @ApiBody({ type: VerifyPasskeyRegistrationDto })
+  async verifyRegistration(
+    @CurrentUser() user: CurrentUserData,
+    @Body() verifyDto: VerifyPasskeyRegistrationDto,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    return this.webAuthnService.verifyRegistration(
+      user.id,
+      verifyDto.challengeId,
+      verifyDto.response,
+      verifyDto.name,
+      client,
+    );
+  }
+
+  @Get('credentials')
+  @ApiOperation({ summary: 'List passkeys of the current user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Registered passkeys',
+    type: [PasskeyDto],
+  })
+  async findAll(@CurrentUser() user: CurrentUserData) {
+    return this.webAuthnService.findAllForUser(user.id);
+  }
+
+  @Patch('credentials/:id')
+  @ApiOperation({ summary: 'Rename a passkey' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Passkey renamed',
+    type: PasskeyDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Passkey not found',
+  })
+  @ApiBody({ type: RenamePasskeyDto })
+  async rename(
+    @CurrentUser() user: CurrentUserData,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() renameDto: RenamePasskeyDto,
+  ) {
+    return this.webAuthnService.rename(user.id, id, renameDto.name);
+  }
+
+  @Delete('credentials/:id')
+  @ApiOperation({ summary: 'Remove a passkey' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Passkey removed',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Passkey not found',
+  })
+  async remove(
+    @CurrentUser() user: CurrentUserData,
+    @Param('id', ParseUUIDPipe) id: string,
+    @ClientInfo() client: ClientInfoData,
+  ) {
+    await this.webAuthnService.remove(user.id, id, client);
+    return { message: 'Passkey removed successfully' };
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { WebAuthnService } from './webauthn.service';
+import { WebAuthnController } from './webauthn.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { SecurityEventsModule } from '../security-events/security-events.module';
+
+@Module({
+  imports: [PrismaModule, SessionsModule, SecurityEventsModule],
+  controllers: [WebAuthnController],
+  providers: [WebAuthnService],
+  exports: [WebAuthnService],
+})
+export class WebAuthnModule {}
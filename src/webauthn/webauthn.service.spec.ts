@@ -0,0 +1,390 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { WebAuthnService } from './webauthn.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+
+jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+
+const fixture = JSON.parse(
+  readFileSync(join(__dirname, '__fixtures__', 'passkey.json'), 'utf8'),
+);
+
+describe('WebAuthnService', () => {
+  let service: WebAuthnService;
+  let prismaService: PrismaService;
+  let securityEventsService: SecurityEventsService;
+
+  const userId = fixture.userId;
+
+  const storedChallenge = (
+    challenge: string,
+    ceremony: 'REGISTRATION' | 'AUTHENTICATION',
+    overrides: Record<string, unknown> = {},
+  ) => ({
+    id: 'challenge-123',
+    userId: ceremony === 'REGISTRATION' ? userId : null,
+    challenge,
+    ceremony,
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  const storedPasskey = {
+    id: 'passkey-123',
+    userId,
+    credentialId: fixture.credential.id,
+    publicKey: Buffer.from(fixture.credential.publicKey, 'base64url'),
+    counter: 0,
+    transports: ['internal', 'hybrid'],
+    deviceType: 'singleDevice',
+    backedUp: false,
+    name: 'Chrome on macOS',
+    createdAt: new Date(),
+    lastUsedAt: null,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebAuthnService,
+        {
+          provide: SessionsService,
+          useValue: {
+            describeDevice: jest.fn(() => ({ label: 'Chrome on macOS' })),
+          },
+        },
+        {
+          provide: PrismaService,
+          useValue: {
+            user: {
+              findUnique: jest.fn(),
+            },
+            webAuthnCredential: {
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+              create: jest.fn((args) => args.data),
+              updateMany: jest.fn(),
+              deleteMany: jest.fn(),
+            },
+            webAuthnChallenge: {
+              create: jest.fn(() => ({ id: 'challenge-123' })),
+              findUnique: jest.fn(),
+              deleteMany: jest.fn(() => ({ count: 1 })),
+            },
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => {
+              const config = {
+                APP_NAME: 'FATA',
+                WEBAUTHN_RP_ID: fixture.rpId,
+                FRONTEND_URL: fixture.origin,
+              };
+              return config[key] || defaultValue;
+            }),
+          },
+        },
+        {
+          provide: SecurityEventsService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebAuthnService>(WebAuthnService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    securityEventsService = module.get<SecurityEventsService>(
+      SecurityEventsService,
+    );
+
+    jest.clearAllMocks();
+  });
+
+  describe('generateRegistrationOptions', () => {
+    it('should exclude existing passkeys and store the challenge', async () => {
+      jest.spyOn(prismaService.user, 'findUnique').mockResolvedValue({
+        id: userId,
+        email: 'test@example.com',
+        name: 'Test User',
+        passkeys: [{ credentialId: 'existing-id', transports: ['usb'] }],
+      } as any);
+
+      const { challengeId, options } =
+        await service.generateRegistrationOptions(userId);
+
+      expect(challengeId).toBe('challenge-123');
+      expect(options.rp).toEqual({ name: 'FATA', id: fixture.rpId });
+      expect(options.user.name).toBe('test@example.com');
+      expect(options.excludeCredentials).toEqual([
+        expect.objectContaining({ id: 'existing-id', transports: ['usb'] }),
+      ]);
+      expect(options.authenticatorSelection).toMatchObject({
+        residentKey: 'required',
+        userVerification: 'required',
+      });
+      expect(prismaService.webAuthnChallenge.create).toHaveBeenCalledWith({
+        data: {
+          challenge: options.challenge,
+          ceremony: 'REGISTRATION',
+          userId,
+          expiresAt: expect.any(Date),
+        },
+      });
+    });
+  });
+
+  describe('verifyRegistration', () => {
+    it('should store the credential from a recorded attestation', async () => {
+      jest
+        .spyOn(prismaService.webAuthnChallenge, 'findUnique')
+        .mockResolvedValue(
+          storedChallenge(fixture.registration.challenge, 'REGISTRATION'),
+        );
+      jest
+        .spyOn(prismaService.webAuthnCredential, 'findUnique')
+        .mockResolvedValue(null);
+
+      await service.verifyRegistration(
+        userId,
+        'challenge-123',
+        fixture.registration.response,
+      );
+
+      expect(prismaService.webAuthnCredential.create).toHaveBeenCalledWith({
+        data: {
+          userId,
+          credentialId: fixture.credential.id,
+          publicKey: Buffer.from(fixture.credential.publicKey, 'base64url'),
+          counter: 0,
+          transports: ['internal', 'hybrid'],
+          deviceType: 'singleDevice',
+          backedUp: false,
+          name: 'Chrome on macOS',
+        },
+        select: expect.any(Object),
+      });
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId, type: 'PASSKEY_ADDED' }),
+      );
+    });
+
+    it('should reject a response signed over another challenge', async () => {
+      jest
+        .spyOn(prismaService.webAuthnChallenge, 'findUnique')
+        .mockResolvedValue(
+          storedChallenge('c29tZS1vdGhlci1jaGFsbGVuZ2U', 'REGISTRATION'),
+        );
+
+      await expect(
+        service.verifyRegistration(
+          userId,
+          'challenge-123',
+          fixture.registration.response,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.webAuthnCredential.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject challenges issued to another user', async () => {
+      jest
+        .spyOn(prismaService.webAuthnChallenge, 'findUnique')
+        .mockResolvedValue(
+          storedChallenge(fixture.registration.challenge, 'REGISTRATION', {
+            userId: 'another-user',
+          }),
+        );
+
+      await expect(
+        service.verifyRegistration(
+          userId,
+          'challenge-123',
+          fixture.registration.response,
+        ),
+      ).rejects.toThrow('Invalid or expired passkey challenge');
+    });
+
+    it('should reject expired challenges', async () => {
+      jest
+        .spyOn(prismaService.webAuthnChallenge, 'findUnique')
+        .mockResolvedValue(
+          storedChallenge(fixture.registration.challenge, 'REGISTRATION', {
+            expiresAt: new Date(Date.now() - 1000),
+          }),
+        );
+
+      await expect(
+        service.verifyRegistration(
+          userId,
+          'challenge-123',
+          fixture.registration.response,
+        ),
+      ).rejects.toThrow('Invalid or expired passkey challenge');
+    });
+  });
+
+  describe('verifyAuthentication', () => {
+    it('should verify a recorded assertion and advance the sign count', async () => {
+      jest
+        .spyOn(prismaService.webAuthnChallenge, 'findUnique')
+        .mockResolvedValue(
+          storedChallenge(fixture.authentication.challenge, 'AUTHENTICATION'),
+        );
+      jest
+        .spyOn(prismaService.webAuthnCredential, 'findUnique')
+        .mockResolvedValue(storedPasskey);
+      jest
+        .spyOn(prismaService.webAuthnCredential, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+
+      const result = await service.verifyAuthentication(
+        'challenge-123',
+        fixture.authentication.response,
+      );
+
+      expect(result).toEqual({ userId, passkeyId: storedPasskey.id });
+      expect(prismaService.webAuthnCredential.updateMany).toHaveBeenCalledWith({
+        where: { id: storedPasskey.id, counter: 0 },
+        data: { counter: 1, backedUp: false, lastUsedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject an assertion whose sign count did not increase', async () => {
+      jest
+        .spyOn(prismaService.webAuthnChallenge, 'findUnique')
+        .mockResolvedValue(
+          storedChallenge(
+            fixture.replayedAuthentication.challenge,
+            'AUTHENTICATION',
+          ),
+        );
+      jest
+        .spyOn(prismaService.webAuthnCredential, 'findUnique')
+        .mockResolvedValue({ ...storedPasskey, counter: 1 });
+
+      await expect(
+        service.verifyAuthentication(
+          'challenge-123',
+          fixture.replayedAuthentication.response,
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(
+        prismaService.webAuthnCredential.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should reject a tampered signature', async () => {
+      const { response } = fixture.authentication;
+      const signature = Buffer.from(response.response.signature, 'base64url');
+      signature[signature.length - 1] ^= 0xff;
+
+      jest
+        .spyOn(prismaService.webAuthnChallenge, 'findUnique')
+        .mockResolvedValue(
+          storedChallenge(fixture.authentication.challenge, 'AUTHENTICATION'),
+        );
+      jest
+        .spyOn(prismaService.webAuthnCredential, 'findUnique')
+        .mockResolvedValue(storedPasskey);
+
+      await expect(
+        service.verifyAuthentication('challenge-123', {
+          ...response,
+          response: {
+            ...response.response,
+            signature: signature.toString('base64url'),
+          },
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject unknown passkeys', async () => {
+      jest
+        .spyOn(prismaService.webAuthnChallenge, 'findUnique')
+        .mockResolvedValue(
+          storedChallenge(fixture.authentication.challenge, 'AUTHENTICATION'),
+        );
+      jest
+        .spyOn(prismaService.webAuthnCredential, 'findUnique')
+        .mockResolvedValue(null);
+
+      await expect(
+        service.verifyAuthentication(
+          'challenge-123',
+          fixture.authentication.response,
+        ),
+      ).rejects.toThrow('Unknown passkey');
+    });
+
+    it('should not accept a challenge twice', async () => {
+      jest
+        .spyOn(prismaService.webAuthnChallenge, 'findUnique')
+        .mockResolvedValue(
+          storedChallenge(fixture.authentication.challenge, 'AUTHENTICATION'),
+        );
+      jest
+        .spyOn(prismaService.webAuthnChallenge, 'deleteMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.verifyAuthentication(
+          'challenge-123',
+          fixture.authentication.response,
+        ),
+      ).rejects.toThrow('Invalid or expired passkey challenge');
+    });
+  });
+
+  describe('rename', () => {
+    it('should throw NotFoundException for passkeys of other users', async () => {
+      jest
+        .spyOn(prismaService.webAuthnCredential, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.rename(userId, 'passkey-999', 'New name'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the passkey and record the event', async () => {
+      jest
+        .spyOn(prismaService.webAuthnCredential, 'deleteMany')
+        .mockResolvedValue({ count: 1 });
+
+      await service.remove(userId, storedPasskey.id);
+
+      expect(prismaService.webAuthnCredential.deleteMany).toHaveBeenCalledWith({
+        where: { id: storedPasskey.id, userId },
+      });
+      expect(securityEventsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'PASSKEY_REMOVED' }),
+      );
+    });
+
+    it('should throw NotFoundException for unknown passkeys', async () => {
+      jest
+        .spyOn(prismaService.webAuthnCredential, 'deleteMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(service.remove(userId, 'passkey-999')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
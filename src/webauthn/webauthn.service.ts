@@ -0,0 +1,408 @@
+import {
+  Injectable,
+  Logger,
+  HttpException,
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { WebAuthnCeremony } from '@prisma/client';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { SecurityEventsService } from '../security-events/security-events.service';
+import { ClientInfoData } from '../auth/decorators/client-info.decorator';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+const PASSKEY_SELECT = {
+  id: true,
+  name: true,
+  deviceType: true,
+  backedUp: true,
+  transports: true,
+  createdAt: true,
+  lastUsedAt: true,
+};
+
+@Injectable()
+export class WebAuthnService {
+  private readonly logger = new Logger(WebAuthnService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly sessionsService: SessionsService,
+    private readonly securityEventsService: SecurityEventsService,
+  ) {}
+
+  async generateRegistrationOptions(userId: string) {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        include: {
+          passkeys: { select: { credentialId: true, transports: true } },
+        },
+      });
+
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      const options = await generateRegistrationOptions({
+        rpName:
+          this.configService.get<string>('WEBAUTHN_RP_NAME') ||
+          this.configService.get<string>('APP_NAME', 'FATA'),
+        rpID: this.rpId,
+        userName: user.email,
+        userDisplayName: user.name || user.email,
+        // Stable handle so password managers replace rather than duplicate passkeys
+        userID: Buffer.from(user.id),
+        attestationType: 'none',
+        excludeCredentials: user.passkeys.map((passkey) => ({
+          id: passkey.credentialId,
+          transports: passkey.transports as AuthenticatorTransportFuture[],
+        })),
+        authenticatorSelection: {
+          residentKey: 'required',
+          userVerification: 'required',
+        },
+      });
+
+      const challengeId = await this.storeChallenge(
+        options.challenge,
+        'REGISTRATION',
+        userId,
+      );
+
+      return { challengeId, options };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        'Failed to generate passkey registration options',
+      );
+    }
+  }
+
+  async verifyRegistration(
+    userId: string,
+    challengeId: string,
+    response: RegistrationResponseJSON,
+    name?: string,
+    client?: ClientInfoData,
+  ) {
+    try {
+      const challenge = await this.consumeChallenge(
+        challengeId,
+        'REGISTRATION',
+        userId,
+      );
+      if (!challenge) {
+        throw new BadRequestException('Invalid or expired passkey challenge');
+      }
+
+      let verification: Awaited<ReturnType<typeof verifyRegistrationResponse>>;
+      try {
+        verification = await verifyRegistrationResponse({
+          response,
+          expectedChallenge: challenge,
+          expectedOrigin: this.origins,
+          expectedRPID: this.rpId,
+          requireUserVerification: true,
+        });
+      } catch (error) {
+        this.logger.warn(
+          `Passkey registration rejected for user ${userId}: ${error.message}`,
+        );
+        throw new BadRequestException(
+          'Passkey registration could not be verified',
+        );
+      }
+
+      if (!verification.verified) {
+        throw new BadRequestException(
+          'Passkey registration could not be verified',
+        );
+      }
+
+      const { credential, credentialDeviceType, credentialBackedUp } =
+        verification.registrationInfo;
+
+      const existing = await this.prisma.webAuthnCredential.findUnique({
+        where: { credentialId: credential.id },
+      });
+      if (existing) {
+        throw new BadRequestException('This passkey is already registered');
+      }
+
+      const passkey = await this.prisma.webAuthnCredential.create({
+        data: {
+          userId,
+          credentialId: credential.id,
+          publicKey: Buffer.from(credential.publicKey),
+          counter: credential.counter,
+          transports:
+            credential.transports || response.response.transports || [],
+          deviceType: credentialDeviceType,
+          backedUp: credentialBackedUp,
+          name:
+            name ||
+            this.sessionsService.describeDevice(client?.userAgent).label ||
+            'Passkey',
+        },
+        select: PASSKEY_SELECT,
+      });
+
+      await this.securityEventsService.record({
+        userId,
+        type: 'PASSKEY_ADDED',
+        client,
+        metadata: { passkeyId: passkey.id },
+      });
+
+      return passkey;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to register passkey');
+    }
+  }
+
+  /**
+   * Options for a usernameless login: no credentials are listed, so the
+   * browser offers every discoverable passkey it holds for this site and
+   * the response reveals nothing about which accounts exist.
+   */
+  async generateAuthenticationOptions() {
+    try {
+      const options = await generateAuthenticationOptions({
+        rpID: this.rpId,
+        userVerification: 'required',
+      });
+
+      const challengeId = await this.storeChallenge(
+        options.challenge,
+        'AUTHENTICATION',
+      );
+
+      return { challengeId, options };
+    } catch (error) {
+      throw new InternalServerErrorException(
+        'Failed to generate passkey login options',
+      );
+    }
+  }
+
+  /**
+   * Verifies an assertion and returns the id of the user the passkey belongs
+   * to. The stored sign count must strictly increase (when the authenticator
+   * keeps one), otherwise the credential may have been cloned.
+   */
+  async verifyAuthentication(
+    challengeId: string,
+    response: AuthenticationResponseJSON,
+  ) {
+    try {
+      const challenge = await this.consumeChallenge(
+        challengeId,
+        'AUTHENTICATION',
+      );
+      if (!challenge) {
+        throw new UnauthorizedException('Invalid or expired passkey challenge');
+      }
+
+      const passkey = await this.prisma.webAuthnCredential.findUnique({
+        where: { credentialId: response.id },
+      });
+      if (!passkey) {
+        throw new UnauthorizedException('Unknown passkey');
+      }
+
+      let verification: Awaited<
+        ReturnType<typeof verifyAuthenticationResponse>
+      >;
+      try {
+        verification = await verifyAuthenticationResponse({
+          response,
+          expectedChallenge: challenge,
+          expectedOrigin: this.origins,
+          expectedRPID: this.rpId,
+          credential: {
+            id: passkey.credentialId,
+            publicKey: new Uint8Array(passkey.publicKey),
+            counter: passkey.counter,
+            transports: passkey.transports as AuthenticatorTransportFuture[],
+          },
+          requireUserVerification: true,
+        });
+      } catch (error) {
+        this.logger.warn(
+          `Passkey assertion rejected for passkey ${passkey.id}: ${error.message}`,
+        );
+        throw new UnauthorizedException('Passkey could not be verified');
+      }
+
+      if (!verification.verified) {
+        throw new UnauthorizedException('Passkey could not be verified');
+      }
+
+      const { newCounter, credentialBackedUp } =
+        verification.authenticationInfo;
+
+      // Conditional on the old counter so concurrent replays cannot both pass
+      const { count } = await this.prisma.webAuthnCredential.updateMany({
+        where: { id: passkey.id, counter: passkey.counter },
+        data: {
+          counter: newCounter,
+          backedUp: credentialBackedUp,
+          lastUsedAt: new Date(),
+        },
+      });
+      if (count !== 1) {
+        throw new UnauthorizedException('Passkey could not be verified');
+      }
+
+      return { userId: passkey.userId, passkeyId: passkey.id };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to verify passkey');
+    }
+  }
+
+  async findAllForUser(userId: string) {
+    try {
+      return await this.prisma.webAuthnCredential.findMany({
+        where: { userId },
+        select: PASSKEY_SELECT,
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      throw new InternalServerErrorException('Failed to list passkeys');
+    }
+  }
+
+  async rename(userId: string, passkeyId: string, name: string) {
+    try {
+      const { count } = await this.prisma.webAuthnCredential.updateMany({
+        where: { id: passkeyId, userId },
+        data: { name },
+      });
+
+      if (count === 0) {
+        throw new NotFoundException('Passkey not found');
+      }
+
+      return await this.prisma.webAuthnCredential.findUnique({
+        where: { id: passkeyId },
+        select: PASSKEY_SELECT,
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to rename passkey');
+    }
+  }
+
+  async remove(userId: string, passkeyId: string, client?: ClientInfoData) {
+    try {
+      const { count } = await this.prisma.webAuthnCredential.deleteMany({
+        where: { id: passkeyId, userId },
+      });
+
+      if (count === 0) {
+        throw new NotFoundException('Passkey not found');
+      }
+
+      await this.securityEventsService.record({
+        userId,
+        type: 'PASSKEY_REMOVED',
+        client,
+        metadata: { passkeyId },
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to remove passkey');
+    }
+  }
+
+  private get rpId() {
+    return this.configService.get<string>('WEBAUTHN_RP_ID', 'localhost');
+  }
+
+  private get origins() {
+    const origins =
+      this.configService.get<string>('WEBAUTHN_ORIGINS') ||
+      this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000');
+
+    return origins.split(',').map((origin) => origin.trim());
+  }
+
+  private async storeChallenge(
+    challenge: string,
+    ceremony: WebAuthnCeremony,
+    userId?: string,
+  ) {
+    // Abandoned ceremonies are cleaned up opportunistically
+    await this.prisma.webAuthnChallenge.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    const { id } = await this.prisma.webAuthnChallenge.create({
+      data: {
+        challenge,
+        ceremony,
+        userId,
+        expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+      },
+    });
+
+    return id;
+  }
+
+  /** Returns the challenge value once; a second call with the same id gets null. */
+  private async consumeChallenge(
+    challengeId: string,
+    ceremony: WebAuthnCeremony,
+    userId?: string,
+  ) {
+    const stored = await this.prisma.webAuthnChallenge.findUnique({
+      where: { id: challengeId },
+    });
+
+    if (
+      !stored ||
+      stored.ceremony !== ceremony ||
+      (userId && stored.userId !== userId)
+    ) {
+      return null;
+    }
+
+    const { count } = await this.prisma.webAuthnChallenge.deleteMany({
+      where: { id: challengeId },
+    });
+
+    if (count !== 1 || stored.expiresAt < new Date()) {
+      return null;
+    }
+
+    return stored.challenge;
+  }
+}
@@ -0,0 +1,200 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Role } from '@prisma/client';
+import * as request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { AppModule } from '../../src/app.module';
+import { PrismaService } from '../../src/prisma/prisma.service';
+
+describe('Admin impersonation (e2e)', () => {
+  let app: INestApplication;
+  let prismaService: PrismaService;
+  let hashedPassword: string;
+
+  const password = 'TestPassword123!';
+  const reason = 'Reproducing an empty listening queue';
+
+  const createUser = (email: string, data: Record<string, unknown> = {}) =>
+    prismaService.user.create({
+      data: {
+        email,
+        passwordHash: hashedPassword,
+        name: 'Impersonation Test User',
+        emailVerified: true,
+        ...data,
+      },
+    });
+
+  const loginAs = async (role: Role) => {
+    const email = `impersonation.${role.toLowerCase()}.test@example.com`;
+    await createUser(email, { role });
+
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .send({ email, password })
+      .expect(200);
+
+    return response.body.accessToken as string;
+  };
+
+  const impersonate = async (adminToken: string, userId: string) => {
+    const response = await request(app.getHttpServer())
+      .post(`/api/v1/admin/users/${userId}/impersonate`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ reason })
+      .expect(201);
+
+    return response.body as { impersonationId: string; accessToken: string };
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    prismaService = app.get<PrismaService>(PrismaService);
+    hashedPassword = await bcrypt.hash(password, 10);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prismaService.impersonationSession.deleteMany({});
+    await prismaService.adminAction.deleteMany({});
+    await prismaService.session.deleteMany({});
+    await prismaService.user.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+  });
+
+  it('should let admins act as a user', async () => {
+    const adminToken = await loginAs('ADMIN');
+    const user = await createUser('impersonated.test@example.com');
+
+    const { accessToken } = await impersonate(adminToken, user.id);
+
+    const response = await request(app.getHttpServer())
+      .get('/api/v1/auth/me')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    expect(response.body.email).toBe('impersonated.test@example.com');
+
+    const actions = await prismaService.adminAction.findMany({
+      where: { targetUserId: user.id },
+    });
+    expect(actions).toMatchObject([{ action: 'IMPERSONATE', reason }]);
+  });
+
+  it('should not let support staff impersonate', async () => {
+    const supportToken = await loginAs('SUPPORT');
+    const user = await createUser('impersonated.test@example.com');
+
+    await request(app.getHttpServer())
+      .post(`/api/v1/admin/users/${user.id}/impersonate`)
+      .set('Authorization', `Bearer ${supportToken}`)
+      .send({ reason })
+      .expect(403);
+  });
+
+  it('should not impersonate other staff members', async () => {
+    const adminToken = await loginAs('ADMIN');
+    const support = await createUser('impersonated.support.test@example.com', {
+      role: 'SUPPORT',
+    });
+
+    await request(app.getHttpServer())
+      .post(`/api/v1/admin/users/${support.id}/impersonate`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ reason })
+      .expect(403);
+  });
+
+  it('should block sensitive actions while impersonating', async () => {
+    const adminToken = await loginAs('ADMIN');
+    const user = await createUser('impersonated.test@example.com');
+    const { accessToken } = await impersonate(adminToken, user.id);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/mfa/enroll')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/tokens')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ name: 'Sneaky', scopes: ['profile:read'] })
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/users/me/cancel-deletion')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/logout')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(403);
+  });
+
+  it('should not carry admin access into the impersonation', async () => {
+    const adminToken = await loginAs('ADMIN');
+    const user = await createUser('impersonated.test@example.com');
+    const { accessToken } = await impersonate(adminToken, user.id);
+
+    await request(app.getHttpServer())
+      .get('/api/v1/admin/users')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(403);
+  });
+
+  it('should invalidate the token once the admin ends it', async () => {
+    const adminToken = await loginAs('ADMIN');
+    const user = await createUser('impersonated.test@example.com');
+    const { impersonationId, accessToken } = await impersonate(
+      adminToken,
+      user.id,
+    );
+
+    const active = await request(app.getHttpServer())
+      .get('/api/v1/admin/impersonations')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(active.body).toMatchObject([
+      { id: impersonationId, targetUser: { id: user.id }, reason },
+    ]);
+
+    await request(app.getHttpServer())
+      .delete(`/api/v1/admin/impersonations/${impersonationId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .get('/api/v1/auth/me')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(401);
+
+    await request(app.getHttpServer())
+      .delete(`/api/v1/admin/impersonations/${impersonationId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(404);
+  });
+});
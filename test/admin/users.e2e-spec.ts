@@ -0,0 +1,379 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Role } from '@prisma/client';
+import * as request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { AppModule } from '../../src/app.module';
+import { PrismaService } from '../../src/prisma/prisma.service';
+
+describe('Admin users (e2e)', () => {
+  let app: INestApplication;
+  let prismaService: PrismaService;
+  let hashedPassword: string;
+
+  const password = 'TestPassword123!';
+
+  const createUser = (email: string, data: Record<string, unknown> = {}) =>
+    prismaService.user.create({
+      data: {
+        email,
+        passwordHash: hashedPassword,
+        name: 'Admin Test User',
+        emailVerified: true,
+        ...data,
+      },
+    });
+
+  const loginAs = async (role: Role) => {
+    const email = `admin.${role.toLowerCase()}.test@example.com`;
+    await createUser(email, { role });
+
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .send({ email, password })
+      .expect(200);
+
+    return response.body.accessToken as string;
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    prismaService = app.get<PrismaService>(PrismaService);
+    hashedPassword = await bcrypt.hash(password, 10);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prismaService.session.deleteMany({});
+    await prismaService.user.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+  });
+
+  describe('access control', () => {
+    it('should no longer expose the public user listing', async () => {
+      await request(app.getHttpServer()).get('/api/v1/users').expect(404);
+    });
+
+    it('should reject anonymous callers', async () => {
+      await request(app.getHttpServer()).get('/api/v1/admin/users').expect(401);
+    });
+
+    it('should reject regular users', async () => {
+      const accessToken = await loginAs('USER');
+
+      await request(app.getHttpServer())
+        .get('/api/v1/admin/users')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should reject personal access tokens', async () => {
+      const accessToken = await loginAs('ADMIN');
+      const created = await request(app.getHttpServer())
+        .post('/api/v1/auth/tokens')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Script', scopes: ['profile:read'] })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .get('/api/v1/admin/users')
+        .set('X-API-Key', created.body.token)
+        .expect(403);
+    });
+
+    it('should let support staff read users', async () => {
+      const accessToken = await loginAs('SUPPORT');
+
+      await request(app.getHttpServer())
+        .get('/api/v1/admin/users')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+    });
+  });
+
+  describe('GET /api/v1/admin/users', () => {
+    let accessToken: string;
+
+    beforeEach(async () => {
+      accessToken = await loginAs('ADMIN');
+    });
+
+    const list = (query: Record<string, string | number | boolean>) =>
+      request(app.getHttpServer())
+        .get('/api/v1/admin/users')
+        .query({ search: 'list.test', ...query })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+    it('should page through users with a cursor', async () => {
+      for (const n of [1, 2, 3]) {
+        await createUser(`list.test${n}@example.com`, {
+          createdAt: new Date(Date.UTC(2024, 0, n)),
+        });
+      }
+
+      const first = await list({
+        limit: 2,
+        sortBy: 'createdAt',
+        sortOrder: 'asc',
+      });
+      expect(first.body.data.map((user) => user.email)).toEqual([
+        'list.test1@example.com',
+        'list.test2@example.com',
+      ]);
+      expect(first.body.nextCursor).toBeTruthy();
+
+      const second = await list({
+        limit: 2,
+        sortBy: 'createdAt',
+        sortOrder: 'asc',
+        cursor: first.body.nextCursor,
+      });
+      expect(second.body.data.map((user) => user.email)).toEqual([
+        'list.test3@example.com',
+      ]);
+      expect(second.body.nextCursor).toBeNull();
+    });
+
+    it('should return AdminUserDto-shaped records', async () => {
+      await createUser('list.test1@example.com');
+
+      const response = await list({});
+
+      expect(Object.keys(response.body.data[0]).sort()).toEqual([
+        'createdAt',
+        'email',
+        'emailVerified',
+        'id',
+        'lastLogin',
+        'name',
+        'role',
+        'updatedAt',
+      ]);
+    });
+
+    it('should sort by last sign-in with users who never signed in last', async () => {
+      await createUser('list.test.never@example.com');
+      await createUser('list.test.recent@example.com', {
+        lastLogin: new Date('2024-06-01'),
+      });
+      await createUser('list.test.earlier@example.com', {
+        lastLogin: new Date('2024-01-01'),
+      });
+
+      const response = await list({ sortBy: 'lastLogin', sortOrder: 'desc' });
+
+      expect(
+        response.body.data.map((user) => [user.email, user.lastLogin]),
+      ).toEqual([
+        ['list.test.recent@example.com', '2024-06-01T00:00:00.000Z'],
+        ['list.test.earlier@example.com', '2024-01-01T00:00:00.000Z'],
+        ['list.test.never@example.com', null],
+      ]);
+    });
+
+    it('should filter by verification and lockout', async () => {
+      await createUser('list.test.unverified@example.com', {
+        emailVerified: false,
+      });
+      await createUser('list.test.locked@example.com', {
+        lockedUntil: new Date(Date.now() + 60 * 60 * 1000),
+      });
+      await createUser('list.test.active@example.com');
+
+      const unverified = await list({ verified: false });
+      expect(unverified.body.data.map((user) => user.email)).toEqual([
+        'list.test.unverified@example.com',
+      ]);
+
+      const locked = await list({ locked: true });
+      expect(locked.body.data.map((user) => user.email)).toEqual([
+        'list.test.locked@example.com',
+      ]);
+    });
+
+    it('should filter by creation date range', async () => {
+      await createUser('list.test.old@example.com', {
+        createdAt: new Date('2023-06-01'),
+      });
+      await createUser('list.test.new@example.com', {
+        createdAt: new Date('2024-06-01'),
+      });
+
+      const response = await list({
+        createdFrom: '2024-01-01',
+        createdTo: '2024-12-31',
+      });
+
+      expect(response.body.data.map((user) => user.email)).toEqual([
+        'list.test.new@example.com',
+      ]);
+    });
+
+    it('should reject unknown sort fields', async () => {
+      await request(app.getHttpServer())
+        .get('/api/v1/admin/users')
+        .query({ sortBy: 'passwordHash' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+    });
+  });
+
+  describe('account actions', () => {
+    const target = {
+      email: 'action.target.test@example.com',
+    };
+    const reason = 'Confirmed with the user over the phone';
+
+    let accessToken: string;
+    let targetId: string;
+
+    const act = (action: string, token = accessToken) =>
+      request(app.getHttpServer())
+        .post(`/api/v1/admin/users/${targetId}/${action}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ reason });
+
+    const loginTarget = () =>
+      request(app.getHttpServer())
+        .post('/api/v1/auth/login')
+        .send({ email: target.email, password });
+
+    beforeEach(async () => {
+      accessToken = await loginAs('ADMIN');
+      targetId = (await createUser(target.email)).id;
+    });
+
+    it('should block login and existing tokens of a suspended user', async () => {
+      const login = await loginTarget().expect(200);
+
+      await act('suspend').expect(200);
+
+      await request(app.getHttpServer())
+        .get('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${login.body.accessToken}`)
+        .expect(401);
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .set('Authorization', `Bearer ${login.body.refreshToken}`)
+        .expect(403);
+      await loginTarget().expect(403);
+
+      await act('reactivate').expect(200);
+      await loginTarget().expect(200);
+    });
+
+    it('should record who took each action and why', async () => {
+      await act('suspend').expect(200);
+      await act('reactivate').expect(200);
+
+      const response = await request(app.getHttpServer())
+        .get(`/api/v1/admin/users/${targetId}/actions`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(2);
+      expect(response.body[0]).toMatchObject({
+        action: 'REACTIVATE',
+        reason,
+        actor: { email: 'admin.admin.test@example.com' },
+      });
+    });
+
+    it('should clear a lockout', async () => {
+      await prismaService.user.update({
+        where: { id: targetId },
+        data: {
+          failedLoginAttempts: 5,
+          lockedUntil: new Date(Date.now() + 60 * 60 * 1000),
+        },
+      });
+      await loginTarget().expect(403);
+
+      await act('unlock').expect(200);
+
+      await loginTarget().expect(200);
+    });
+
+    it('should mark the email verified', async () => {
+      await prismaService.user.update({
+        where: { id: targetId },
+        data: { emailVerified: false },
+      });
+
+      await act('verify-email').expect(200);
+
+      const user = await prismaService.user.findUnique({
+        where: { id: targetId },
+      });
+      expect(user!.emailVerified).toBe(true);
+    });
+
+    it('should revoke every session', async () => {
+      await loginTarget().expect(200);
+      await loginTarget().expect(200);
+
+      await act('revoke-sessions').expect(200);
+
+      expect(
+        await prismaService.session.count({ where: { userId: targetId } }),
+      ).toBe(0);
+    });
+
+    it('should require a reason', async () => {
+      await request(app.getHttpServer())
+        .post(`/api/v1/admin/users/${targetId}/unlock`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({})
+        .expect(400);
+    });
+
+    it('should let support unlock but not suspend', async () => {
+      const supportToken = await loginAs('SUPPORT');
+
+      await act('unlock', supportToken).expect(200);
+      await act('suspend', supportToken).expect(403);
+    });
+
+    it('should not let support act on an admin', async () => {
+      const supportToken = await loginAs('SUPPORT');
+      await prismaService.user.update({
+        where: { id: targetId },
+        data: { role: 'ADMIN' },
+      });
+
+      await act('revoke-sessions', supportToken).expect(403);
+    });
+
+    it('should return 404 for unknown users', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/admin/users/0b8f1f5e-1c1a-4a57-9b8e-7f0c6a3d2e11/unlock')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ reason })
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { AppModule } from '../../src/app.module';
+import { PrismaService } from '../../src/prisma/prisma.service';
+
+describe('Change Password (e2e)', () => {
+  let app: INestApplication;
+  let prismaService: PrismaService;
+
+  const testUser = {
+    email: 'change.test@example.com',
+    password: 'OldPassword123!',
+    name: 'Change Test User',
+  };
+
+  const login = async (password = testUser.password) => {
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .send({ email: testUser.email, password })
+      .expect(200);
+
+    return response.body.accessToken as string;
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    prismaService = app.get<PrismaService>(PrismaService);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prismaService.session.deleteMany({});
+    await prismaService.user.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+
+    await prismaService.user.create({
+      data: {
+        email: testUser.email,
+        passwordHash: await bcrypt.hash(testUser.password, 10),
+        name: testUser.name,
+        emailVerified: true,
+      },
+    });
+  });
+
+  describe('POST /api/v1/auth/change-password', () => {
+    it('should change the password', async () => {
+      const accessToken = await login();
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          currentPassword: testUser.password,
+          newPassword: 'NewPassword123!',
+        })
+        .expect(200);
+
+      await login('NewPassword123!');
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/login')
+        .send({ email: testUser.email, password: testUser.password })
+        .expect(401);
+    });
+
+    it('should sign out other sessions', async () => {
+      const otherAccessToken = await login();
+      const accessToken = await login();
+
+      const response = await request(app.getHttpServer())
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          currentPassword: testUser.password,
+          newPassword: 'NewPassword123!',
+        })
+        .expect(200);
+
+      expect(response.body.revokedSessions).toBe(1);
+      expect(await prismaService.session.count()).toBe(1);
+      await request(app.getHttpServer())
+        .get('/api/v1/users/me')
+        .set('Authorization', `Bearer ${otherAccessToken}`)
+        .expect(401);
+      await request(app.getHttpServer())
+        .get('/api/v1/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+    });
+
+    it('should keep other sessions when asked', async () => {
+      await login();
+      const accessToken = await login();
+
+      const response = await request(app.getHttpServer())
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          currentPassword: testUser.password,
+          newPassword: 'NewPassword123!',
+          revokeOtherSessions: false,
+        })
+        .expect(200);
+
+      expect(response.body.revokedSessions).toBe(0);
+      expect(await prismaService.session.count()).toBe(2);
+    });
+
+    it('should reject a wrong current password', async () => {
+      const accessToken = await login();
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          currentPassword: 'WrongPassword123!',
+          newPassword: 'NewPassword123!',
+        })
+        .expect(403);
+    });
+
+    it('should apply the registration password policy', async () => {
+      const accessToken = await login();
+
+      const response = await request(app.getHttpServer())
+        .post('/api/v1/auth/change-password')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          currentPassword: testUser.password,
+          newPassword: 'weak',
+        })
+        .expect(400);
+
+      expect(response.body.message).toContain(
+        'Password must be at least 8 characters long',
+      );
+      expect(response.body.violations).toContainEqual({
+        rule: 'minLength',
+        message: 'Password must be at least 8 characters long',
+      });
+    });
+
+    it('should refuse going back to a previous password', async () => {
+      const changePassword = async (
+        accessToken: string,
+        currentPassword: string,
+        newPassword: string,
+      ) =>
+        request(app.getHttpServer())
+          .post('/api/v1/auth/change-password')
+          .set('Authorization', `Bearer ${accessToken}`)
+          .send({ currentPassword, newPassword });
+
+      const changed = await changePassword(
+        await login(),
+        testUser.password,
+        'NewPassword123!',
+      );
+      expect(changed.status).toBe(200);
+
+      const response = await changePassword(
+        await login('NewPassword123!'),
+        'NewPassword123!',
+        testUser.password,
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.violations).toEqual([
+        expect.objectContaining({ rule: 'history' }),
+      ]);
+    });
+
+    it('should require authentication', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/change-password')
+        .send({
+          currentPassword: testUser.password,
+          newPassword: 'NewPassword123!',
+        })
+        .expect(401);
+    });
+  });
+});
@@ -5,11 +5,14 @@ import * as bcrypt from 'bcrypt';
 import { AppModule } from '../../src/app.module';
 import { PrismaService } from '../../src/prisma/prisma.service';
 import { JwtService } from '@nestjs/jwt';
+import { generateKeyPairSync } from 'crypto';
+import { JwtKeysService } from '../../src/crypto/jwt-keys.service';
 
 describe('JWT Authentication (e2e)', () => {
   let app: INestApplication;
   let prismaService: PrismaService;
   let jwtService: JwtService;
+  let jwtKeysService: JwtKeysService;
   
   const testUser = {
     email: 'jwt.test@example.com',
@@ -28,7 +31,7 @@ describe('JWT Authentication (e2e)', () => {
     }).compile();
 
     app = moduleFixture.createNestApplication();
-    app.setGlobalPrefix('api/v1');
+    app.setGlobalPrefix('api/v1', { exclude: ['.well-known/jwks.json'] });
     app.useGlobalPipes(
       new ValidationPipe({
         whitelist: true,
@@ -41,6 +44,7 @@ describe('JWT Authentication (e2e)', () => {
     
     prismaService = app.get<PrismaService>(PrismaService);
     jwtService = app.get<JwtService>(JwtService);
+    jwtKeysService = app.get<JwtKeysService>(JwtKeysService);
     
     // Hash password for test user
     hashedPassword = await bcrypt.hash(testUser.password, 10);
@@ -48,7 +52,7 @@ describe('JWT Authentication (e2e)', () => {
     // Generate expired token for testing
     expiredAccessToken = await jwtService.signAsync(
       { sub: 'expired-user-id', email: 'expired@example.com' },
-      { expiresIn: '0s', secret: process.env.JWT_SECRET || 'test-secret' }
+      { ...jwtKeysService.signOptions(), expiresIn: '0s' }
     );
   });
 
@@ -56,6 +60,12 @@ describe('JWT Authentication (e2e)', () => {
     await app.close();
   });
 
+  // Stands in for waiting out REFRESH_TOKEN_REUSE_GRACE
+  const endGraceWindow = () =>
+    prismaService.session.updateMany({
+      data: { rotatedAt: new Date(Date.now() - 60 * 1000) },
+    });
+
   beforeEach(async () => {
     // Clean up test data
     await prismaService.session.deleteMany({});
@@ -144,19 +154,46 @@ describe('JWT Authentication (e2e)', () => {
         .expect(401);
     });
 
-    it('should handle token from different secret', async () => {
-      const wrongSecretToken = await jwtService.signAsync(
+    it('should handle token from an unknown key', async () => {
+      const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const wrongKeyToken = await jwtService.signAsync(
         { sub: 'user-id', email: 'user@example.com' },
-        { expiresIn: '15m', secret: 'wrong-secret' }
+        {
+          ...jwtKeysService.signOptions(),
+          privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+          expiresIn: '15m',
+        }
       );
 
       await request(app.getHttpServer())
         .get('/api/v1/auth/me')
-        .set('Authorization', `Bearer ${wrongSecretToken}`)
+        .set('Authorization', `Bearer ${wrongKeyToken}`)
+        .expect(401);
+    });
+
+    it('should reject refresh tokens used as access tokens', async () => {
+      await request(app.getHttpServer())
+        .get('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${validRefreshToken}`)
         .expect(401);
     });
   });
 
+  describe('JWKS', () => {
+    it('should publish the key that verifies access tokens', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/.well-known/jwks.json')
+        .expect(200);
+
+      const [header] = validAccessToken.split('.');
+      const { kid } = JSON.parse(Buffer.from(header, 'base64url').toString());
+
+      expect(response.body.keys).toEqual(
+        expect.arrayContaining([expect.objectContaining({ kid, use: 'sig' })]),
+      );
+    });
+  });
+
   describe('Token Refresh', () => {
     it('should successfully refresh tokens with valid refresh token', async () => {
       const response = await request(app.getHttpServer())
@@ -220,6 +257,62 @@ describe('JWT Authentication (e2e)', () => {
         .expect(200);
     });
 
+    it('should revoke the whole token family when a rotated refresh token is reused', async () => {
+      const response1 = await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .set('Authorization', `Bearer ${validRefreshToken}`)
+        .expect(200);
+
+      await endGraceWindow();
+
+      // Replaying the rotated token is treated as theft
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .set('Authorization', `Bearer ${validRefreshToken}`)
+        .expect(403);
+
+      // The legitimate successor token is revoked along with it
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .set('Authorization', `Bearer ${response1.body.refreshToken}`)
+        .expect(403);
+
+      const user = await prismaService.user.findUnique({
+        where: { email: testUser.email },
+      });
+      const events = await prismaService.securityEvent.findMany({
+        where: { userId: user!.id, type: 'REFRESH_TOKEN_REUSE' },
+      });
+
+      expect(events).toHaveLength(1);
+    });
+
+    it('should leave other token families untouched when a token is reused', async () => {
+      const otherLogin = await request(app.getHttpServer())
+        .post('/api/v1/auth/login')
+        .send({
+          email: testUser.email,
+          password: testUser.password,
+        });
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .set('Authorization', `Bearer ${validRefreshToken}`)
+        .expect(200);
+
+      await endGraceWindow();
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .set('Authorization', `Bearer ${validRefreshToken}`)
+        .expect(403);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .set('Authorization', `Bearer ${otherLogin.body.refreshToken}`)
+        .expect(200);
+    });
+
     it('should handle concurrent refresh attempts', async () => {
       // Send multiple concurrent refresh requests
       const requests = Array(5).fill(null).map(() =>
@@ -237,6 +330,32 @@ describe('JWT Authentication (e2e)', () => {
       expect(successCount).toBe(1);
       expect(failureCount).toBe(4);
     });
+
+    it('should not take concurrent refreshes for token theft', async () => {
+      const responses = await Promise.all(
+        Array(5).fill(null).map(() =>
+          request(app.getHttpServer())
+            .post('/api/v1/auth/refresh')
+            .set('Authorization', `Bearer ${validRefreshToken}`)
+        ),
+      );
+      const winner = responses.find(r => r.status === 200)!;
+
+      // The session survives, so the tokens of the winning refresh keep working
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .set('Authorization', `Bearer ${winner.body.refreshToken}`)
+        .expect(200);
+
+      const user = await prismaService.user.findUnique({
+        where: { email: testUser.email },
+      });
+      const events = await prismaService.securityEvent.findMany({
+        where: { userId: user!.id, type: 'REFRESH_TOKEN_REUSE' },
+      });
+
+      expect(events).toHaveLength(0);
+    });
   });
 
   describe('Logout', () => {
@@ -253,11 +372,11 @@ describe('JWT Authentication (e2e)', () => {
         .set('Authorization', `Bearer ${validRefreshToken}`)
         .expect(403);
 
-      // Access token should still work until it expires
+      // Access token is refused without waiting for it to expire
       await request(app.getHttpServer())
         .get('/api/v1/auth/me')
         .set('Authorization', `Bearer ${validAccessToken}`)
-        .expect(200);
+        .expect(401);
     });
 
     it('should require authentication for logout', async () => {
@@ -273,11 +392,11 @@ describe('JWT Authentication (e2e)', () => {
         .set('Authorization', `Bearer ${validAccessToken}`)
         .expect(200);
 
-      // Second logout should also succeed (idempotent)
+      // The token was revoked by the first logout
       await request(app.getHttpServer())
         .post('/api/v1/auth/logout')
         .set('Authorization', `Bearer ${validAccessToken}`)
-        .expect(200);
+        .expect(401);
     });
   });
 
@@ -347,7 +466,7 @@ describe('JWT Authentication (e2e)', () => {
       });
 
       expect(sessions.length).toBeGreaterThan(0);
-      expect(sessions[0]).toHaveProperty('refreshToken');
+      expect(sessions[0]).toHaveProperty('refreshTokenHash');
       expect(sessions[0]).toHaveProperty('expiresAt');
     });
 
@@ -360,7 +479,7 @@ describe('JWT Authentication (e2e)', () => {
       await prismaService.session.create({
         data: {
           userId: user!.id,
-          refreshToken: 'expired-token',
+          refreshTokenHash: 'expired-token',
           expiresAt: new Date(Date.now() - 1000), // Expired
         },
       });
@@ -415,6 +534,10 @@ describe('JWT Authentication (e2e)', () => {
         .post('/api/v1/auth/refresh')
         .set('Authorization', `Bearer ${sessions[1].refreshToken}`)
         .expect(200);
+      await request(app.getHttpServer())
+        .get('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${sessions[1].accessToken}`)
+        .expect(200);
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { AppModule } from '../../src/app.module';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { EmailService } from '../../src/email/email.service';
+
+describe('Sign-in alerts (e2e)', () => {
+  let app: INestApplication;
+  let prismaService: PrismaService;
+  let sendSecurityAlertEmail: jest.SpyInstance;
+  let sendPasswordResetEmail: jest.SpyInstance;
+
+  const email = 'login.alerts.test@example.com';
+  const password = 'TestPassword123!';
+
+  const laptop = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0';
+  const phone = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0) Safari/604.1';
+
+  const login = (userAgent: string, userPassword = password) =>
+    request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .set('User-Agent', userAgent)
+      .send({ email, password: userPassword });
+
+  const alertsWithSubject = (subject: string) =>
+    sendSecurityAlertEmail.mock.calls.filter(
+      ([, , alert]) => alert.subject === subject,
+    );
+
+  /** Only a hash is stored, so the token is taken from the outgoing email. */
+  const disputeToken = () => {
+    const [[, , alert]] = alertsWithSubject('New sign-in to your account');
+    return new URL(alert.actionUrl).searchParams.get('token') as string;
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    prismaService = app.get<PrismaService>(PrismaService);
+    const emailService = app.get<EmailService>(EmailService);
+    sendSecurityAlertEmail = jest.spyOn(emailService, 'sendSecurityAlertEmail');
+    sendPasswordResetEmail = jest.spyOn(emailService, 'sendPasswordResetEmail');
+  });
+
+  afterAll(async () => {
+    sendSecurityAlertEmail.mockRestore();
+    sendPasswordResetEmail.mockRestore();
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    sendSecurityAlertEmail.mockClear();
+    sendPasswordResetEmail.mockClear();
+    await prismaService.session.deleteMany({});
+    await prismaService.user.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+    await prismaService.user.create({
+      data: {
+        email,
+        passwordHash: await bcrypt.hash(password, 10),
+        name: 'Login Alerts Test User',
+        emailVerified: true,
+      },
+    });
+  });
+
+  it('should not alert on the first device or on a known one', async () => {
+    await login(laptop).expect(200);
+    await login(laptop).expect(200);
+
+    expect(alertsWithSubject('New sign-in to your account')).toHaveLength(0);
+  });
+
+  it('should alert on a sign-in from a new device', async () => {
+    await login(laptop).expect(200);
+    await login(phone).expect(200);
+
+    const alerts = alertsWithSubject('New sign-in to your account');
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0][0]).toBe(email);
+    expect(alerts[0][2].details).toContainEqual({
+      label: 'Device',
+      value: 'Safari on iOS',
+    });
+  });
+
+  it('should sign out everywhere and force a reset when the sign-in is disputed', async () => {
+    const { body: laptopSession } = await login(laptop).expect(200);
+    await login(phone).expect(200);
+
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/auth/login-dispute')
+      .send({ token: disputeToken() })
+      .expect(200);
+
+    expect(response.body.message).toContain('All sessions were signed out');
+    await expect(
+      prismaService.session.count({ where: { user: { email } } }),
+    ).resolves.toBe(0);
+    await request(app.getHttpServer())
+      .get('/api/v1/users/me')
+      .set('Authorization', `Bearer ${laptopSession.accessToken}`)
+      .expect(401);
+
+    // The old password no longer works, only the emailed reset link does
+    await login(laptop).expect(401);
+    expect(sendPasswordResetEmail).toHaveBeenCalledTimes(1);
+    const resetToken = sendPasswordResetEmail.mock.calls[0][3];
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/reset-password')
+      .send({ token: resetToken, newPassword: 'BrandNewPassword123!' })
+      .expect(200);
+    await login(laptop, 'BrandNewPassword123!').expect(200);
+  });
+
+  it('should only accept a dispute link once', async () => {
+    await login(laptop).expect(200);
+    await login(phone).expect(200);
+    const token = disputeToken();
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/login-dispute')
+      .send({ token })
+      .expect(200);
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/login-dispute')
+      .send({ token })
+      .expect(400);
+  });
+
+  it('should alert the owner when the account gets locked', async () => {
+    // MAX_LOGIN_ATTEMPTS defaults to 5
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await login(laptop, 'WrongPassword123!').expect(401);
+    }
+
+    const alerts = alertsWithSubject('Your account has been locked');
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0][0]).toBe(email);
+  });
+});
@@ -92,6 +92,24 @@ describe('Auth Login (e2e)', () => {
       expect(response.body.user).not.toHaveProperty('passwordHash');
     });
 
+    it('should upgrade a legacy bcrypt hash to Argon2id on login', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/login')
+        .send({ email: testUser.email, password: testUser.password })
+        .expect(200);
+
+      const user = await prismaService.user.findUnique({
+        where: { email: testUser.email },
+      });
+      expect(user?.passwordHash).toMatch(/^\$argon2id\$/);
+
+      // The upgraded hash keeps working
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/login')
+        .send({ email: testUser.email, password: testUser.password })
+        .expect(200);
+    });
+
     it('should reject login with invalid email', async () => {
       const loginDto = {
         email: 'nonexistent@example.com',
@@ -0,0 +1,218 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { AppModule } from '../../src/app.module';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { EmailService } from '../../src/email/email.service';
+
+describe('Magic link login (e2e)', () => {
+  let app: INestApplication;
+  let prismaService: PrismaService;
+  let sendMagicLinkEmail: jest.SpyInstance;
+
+  const testUser = {
+    email: 'magic.test@example.com',
+    password: 'TestPassword123!',
+    name: 'Magic Test User',
+  };
+
+  /** Only a hash is stored, so the token is taken from the outgoing email. */
+  const requestLink = async (email: string) => {
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/magic-link')
+      .send({ email })
+      .expect(200);
+
+    const calls = sendMagicLinkEmail.mock.calls;
+    return calls[calls.length - 1][2] as string;
+  };
+
+  /** Moves the links of an address past the resend interval. */
+  const ageLinks = (email: string) =>
+    prismaService.magicLinkToken.updateMany({
+      where: { email },
+      data: { createdAt: new Date(Date.now() - 60 * 1000) },
+    });
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    prismaService = app.get<PrismaService>(PrismaService);
+    sendMagicLinkEmail = jest.spyOn(
+      app.get<EmailService>(EmailService),
+      'sendMagicLinkEmail',
+    );
+  });
+
+  afterAll(async () => {
+    sendMagicLinkEmail.mockRestore();
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    sendMagicLinkEmail.mockClear();
+    await prismaService.session.deleteMany({});
+    // Links to addresses without an account outlive the user cleanup
+    await prismaService.magicLinkToken.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+    await prismaService.user.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+  });
+
+  it('should sign an existing user in', async () => {
+    const user = await prismaService.user.create({
+      data: {
+        email: testUser.email,
+        passwordHash: await bcrypt.hash(testUser.password, 10),
+        name: testUser.name,
+        emailVerified: true,
+      },
+    });
+
+    const token = await requestLink(testUser.email);
+
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/auth/magic-link/consume')
+      .send({ token })
+      .expect(200);
+
+    expect(response.body).toHaveProperty('accessToken');
+    expect(response.body).toHaveProperty('refreshToken');
+    expect(response.body.user.id).toBe(user.id);
+
+    await request(app.getHttpServer())
+      .get('/api/v1/auth/me')
+      .set('Authorization', `Bearer ${response.body.accessToken}`)
+      .expect(200);
+  });
+
+  it('should create a verified account for a new address', async () => {
+    const token = await requestLink('magic.new.test@example.com');
+
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/auth/magic-link/consume')
+      .send({ token })
+      .expect(200);
+
+    expect(response.body.user).toMatchObject({
+      email: 'magic.new.test@example.com',
+      emailVerified: true,
+    });
+
+    const user = await prismaService.user.findUnique({
+      where: { email: 'magic.new.test@example.com' },
+    });
+    expect(user!.passwordHash).toBeNull();
+  });
+
+  it('should give the same answer for known and unknown addresses', async () => {
+    await prismaService.user.create({
+      data: {
+        email: testUser.email,
+        passwordHash: await bcrypt.hash(testUser.password, 10),
+        emailVerified: true,
+      },
+    });
+
+    const known = await request(app.getHttpServer())
+      .post('/api/v1/auth/magic-link')
+      .send({ email: testUser.email })
+      .expect(200);
+    const unknown = await request(app.getHttpServer())
+      .post('/api/v1/auth/magic-link')
+      .send({ email: 'magic.unknown.test@example.com' })
+      .expect(200);
+
+    expect(known.body).toEqual(unknown.body);
+  });
+
+  it('should accept each link only once', async () => {
+    const token = await requestLink(testUser.email);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/magic-link/consume')
+      .send({ token })
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/magic-link/consume')
+      .send({ token })
+      .expect(401);
+  });
+
+  it('should invalidate the previous link when a new one is requested', async () => {
+    const first = await requestLink(testUser.email);
+    await ageLinks(testUser.email);
+    const second = await requestLink(testUser.email);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/magic-link/consume')
+      .send({ token: first })
+      .expect(401);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/magic-link/consume')
+      .send({ token: second })
+      .expect(200);
+  });
+
+  it('should send at most one link per address every minute', async () => {
+    const first = await requestLink(testUser.email);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/magic-link')
+      .send({ email: testUser.email })
+      .expect(200);
+
+    expect(sendMagicLinkEmail).toHaveBeenCalledTimes(1);
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/magic-link/consume')
+      .send({ token: first })
+      .expect(200);
+  });
+
+  it('should reject expired links', async () => {
+    const token = await requestLink(testUser.email);
+    await prismaService.magicLinkToken.updateMany({
+      where: { email: testUser.email },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    });
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/magic-link/consume')
+      .send({ token })
+      .expect(401);
+  });
+
+  it('should validate the email address', async () => {
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/magic-link')
+      .send({ email: 'not-an-email' })
+      .expect(400);
+  });
+});
@@ -0,0 +1,352 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { AppModule } from '../../src/app.module';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { generateTotp, getTimeStep } from '../../src/mfa/totp';
+
+describe('Two-Factor Authentication (e2e)', () => {
+  let app: INestApplication;
+  let prismaService: PrismaService;
+
+  const testUser = {
+    email: 'mfa.test@example.com',
+    password: 'TestPassword123!',
+    name: 'MFA Test User',
+  };
+
+  let hashedPassword: string;
+
+  const login = async () => {
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .send({ email: testUser.email, password: testUser.password })
+      .expect(200);
+
+    return response.body;
+  };
+
+  /**
+   * Enrolls the test user and returns the TOTP secret and recovery codes.
+   * The confirmation consumes the current time step, so later logins use
+   * the next one (still inside the accepted drift window).
+   */
+  const enroll = async (accessToken: string) => {
+    const enrollment = await request(app.getHttpServer())
+      .post('/api/v1/auth/mfa/enroll')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    const confirmation = await request(app.getHttpServer())
+      .post('/api/v1/auth/mfa/enroll/confirm')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ code: generateTotp(enrollment.body.secret) })
+      .expect(200);
+
+    return {
+      secret: enrollment.body.secret as string,
+      otpauthUri: enrollment.body.otpauthUri as string,
+      recoveryCodes: confirmation.body.recoveryCodes as string[],
+    };
+  };
+
+  const nextCode = (secret: string) => generateTotp(secret, getTimeStep() + 1);
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    prismaService = app.get<PrismaService>(PrismaService);
+
+    hashedPassword = await bcrypt.hash(testUser.password, 10);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prismaService.session.deleteMany({});
+    await prismaService.user.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+
+    await prismaService.user.create({
+      data: {
+        email: testUser.email,
+        passwordHash: hashedPassword,
+        name: testUser.name,
+        emailVerified: true,
+      },
+    });
+  });
+
+  describe('Enrollment', () => {
+    it('should enable two-factor after confirming a first code', async () => {
+      const { accessToken } = await login();
+
+      const { secret, otpauthUri, recoveryCodes } = await enroll(accessToken);
+
+      expect(otpauthUri).toContain(`secret=${secret}`);
+      expect(recoveryCodes).toHaveLength(10);
+
+      const status = await request(app.getHttpServer())
+        .get('/api/v1/auth/mfa')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(status.body).toMatchObject({
+        enabled: true,
+        recoveryCodesRemaining: 10,
+      });
+
+      const user = await prismaService.user.findUnique({
+        where: { email: testUser.email },
+      });
+      expect(user!.mfaSecret).not.toContain(secret);
+    });
+
+    it('should not enable two-factor with a wrong code', async () => {
+      const { accessToken } = await login();
+
+      const enrollment = await request(app.getHttpServer())
+        .post('/api/v1/auth/mfa/enroll')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/mfa/enroll/confirm')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          code: generateTotp(enrollment.body.secret, getTimeStep() + 10),
+        })
+        .expect(400);
+
+      const status = await request(app.getHttpServer())
+        .get('/api/v1/auth/mfa')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(status.body.enabled).toBe(false);
+    });
+  });
+
+  describe('POST /api/v1/auth/login/mfa', () => {
+    it('should return a challenge instead of tokens', async () => {
+      const { accessToken } = await login();
+      await enroll(accessToken);
+
+      const response = await login();
+
+      expect(response.mfaRequired).toBe(true);
+      expect(response).toHaveProperty('mfaToken');
+      expect(response).not.toHaveProperty('accessToken');
+      expect(response).not.toHaveProperty('refreshToken');
+    });
+
+    it('should exchange the challenge and a TOTP code for tokens', async () => {
+      const { accessToken } = await login();
+      const { secret } = await enroll(accessToken);
+      const { mfaToken } = await login();
+
+      const response = await request(app.getHttpServer())
+        .post('/api/v1/auth/login/mfa')
+        .send({ mfaToken, code: nextCode(secret) })
+        .expect(200);
+
+      expect(response.body).toHaveProperty('accessToken');
+      expect(response.body).toHaveProperty('refreshToken');
+      expect(response.body.user.email).toBe(testUser.email);
+    });
+
+    it('should not accept the same TOTP code twice', async () => {
+      const { accessToken } = await login();
+      const { secret } = await enroll(accessToken);
+      const code = nextCode(secret);
+
+      const first = await login();
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/login/mfa')
+        .send({ mfaToken: first.mfaToken, code })
+        .expect(200);
+
+      const second = await login();
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/login/mfa')
+        .send({ mfaToken: second.mfaToken, code })
+        .expect(401);
+    });
+
+    it('should accept each recovery code only once', async () => {
+      const { accessToken } = await login();
+      const { recoveryCodes } = await enroll(accessToken);
+
+      const first = await login();
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/login/mfa')
+        .send({ mfaToken: first.mfaToken, code: recoveryCodes[0] })
+        .expect(200);
+
+      const second = await login();
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/login/mfa')
+        .send({ mfaToken: second.mfaToken, code: recoveryCodes[0] })
+        .expect(401);
+    });
+
+    it('should reject an invalid challenge token', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/login/mfa')
+        .send({ mfaToken: 'invalid.challenge.token', code: '123456' })
+        .expect(401);
+    });
+
+    it('should not accept the challenge as an access token', async () => {
+      const { accessToken } = await login();
+      await enroll(accessToken);
+      const { mfaToken } = await login();
+
+      await request(app.getHttpServer())
+        .get('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${mfaToken}`)
+        .expect(401);
+    });
+  });
+
+  describe('POST /api/v1/auth/mfa/disable', () => {
+    it('should require the current password', async () => {
+      const { accessToken } = await login();
+      await enroll(accessToken);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/mfa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'WrongPassword123!' })
+        .expect(403);
+    });
+
+    it('should turn two-factor off so login returns tokens again', async () => {
+      const { accessToken } = await login();
+      await enroll(accessToken);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/mfa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: testUser.password })
+        .expect(200);
+
+      const response = await login();
+
+      expect(response).toHaveProperty('accessToken');
+      expect(response).not.toHaveProperty('mfaToken');
+    });
+
+    it('should refuse a code alone when the account has a password', async () => {
+      const { accessToken } = await login();
+      const { secret } = await enroll(accessToken);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/mfa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ code: nextCode(secret) })
+        .expect(403);
+    });
+
+    it('should accept the password together with a code', async () => {
+      const { accessToken } = await login();
+      const { secret } = await enroll(accessToken);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/mfa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: testUser.password, code: nextCode(secret) })
+        .expect(200);
+    });
+
+    it('should accept a code alone when the account has no password', async () => {
+      const { accessToken } = await login();
+      const { secret } = await enroll(accessToken);
+      await prismaService.user.update({
+        where: { email: testUser.email },
+        data: { passwordHash: null },
+      });
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/mfa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ code: nextCode(secret) })
+        .expect(200);
+    });
+
+    it('should accept a recovery code when the account has no password', async () => {
+      const { accessToken } = await login();
+      const { recoveryCodes } = await enroll(accessToken);
+      await prismaService.user.update({
+        where: { email: testUser.email },
+        data: { passwordHash: null },
+      });
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/mfa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ code: recoveryCodes[0] })
+        .expect(200);
+    });
+
+    it('should reject an invalid code', async () => {
+      const { accessToken } = await login();
+      await enroll(accessToken);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/mfa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: testUser.password, code: 'AAAAA-AAAAA' })
+        .expect(403);
+    });
+
+    it('should count wrong passwords towards the lockout', async () => {
+      const { accessToken } = await login();
+      await enroll(accessToken);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/mfa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'WrongPassword123!' })
+        .expect(403);
+
+      const user = await prismaService.user.findUnique({
+        where: { email: testUser.email },
+      });
+      expect(user?.failedLoginAttempts).toBe(1);
+    });
+
+    it('should require a password or a code', async () => {
+      const { accessToken } = await login();
+      await enroll(accessToken);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/mfa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({})
+        .expect(400);
+    });
+  });
+});
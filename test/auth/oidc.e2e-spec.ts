@@ -0,0 +1,217 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { AppModule } from '../../src/app.module';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { MockIdentity, MockOidcIssuer } from '../utils/mock-oidc-issuer';
+
+describe('OpenID Connect login (e2e)', () => {
+  let app: INestApplication;
+  let prismaService: PrismaService;
+  const issuer = new MockOidcIssuer();
+
+  const identity: MockIdentity = {
+    sub: 'mock-subject-1',
+    email: 'oidc.test@example.com',
+    email_verified: true,
+    name: 'OIDC Test User',
+  };
+
+  /** Runs the whole redirect dance against the mock issuer. */
+  const signIn = async (signedInAs: MockIdentity = identity) => {
+    const authorization = await request(app.getHttpServer())
+      .post('/api/v1/auth/oidc/mock/authorize')
+      .expect(200);
+
+    const { code, state } = issuer.authorize(
+      authorization.body.authorizationUrl,
+      signedInAs,
+    );
+
+    return request(app.getHttpServer())
+      .post('/api/v1/auth/oidc/mock/callback')
+      .send({ code, state });
+  };
+
+  beforeAll(async () => {
+    await issuer.start();
+    Object.assign(process.env, issuer.env('mock'));
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    prismaService = app.get<PrismaService>(PrismaService);
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await issuer.stop();
+  });
+
+  beforeEach(async () => {
+    await prismaService.session.deleteMany({});
+    await prismaService.user.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+  });
+
+  it('should list the configured providers', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/api/v1/auth/oidc/providers')
+      .expect(200);
+
+    expect(response.body).toEqual([{ key: 'mock' }]);
+  });
+
+  it('should return 404 for unknown providers', async () => {
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/oidc/unknown/authorize')
+      .expect(404);
+  });
+
+  it('should create a verified account without a password on first sign-in', async () => {
+    const response = await signIn();
+
+    expect(response.status).toBe(200);
+    expect(response.body).toHaveProperty('accessToken');
+    expect(response.body.user).toMatchObject({
+      email: identity.email,
+      name: identity.name,
+      emailVerified: true,
+    });
+
+    const user = await prismaService.user.findUnique({
+      where: { email: identity.email },
+      include: { identities: true },
+    });
+    expect(user!.passwordHash).toBeNull();
+    expect(user!.identities).toEqual([
+      expect.objectContaining({ provider: 'mock', subject: identity.sub }),
+    ]);
+
+    // No usable password until the user sets one
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .send({ email: identity.email, password: '' })
+      .expect(400);
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .send({ email: identity.email, password: 'AnyPassword123!' })
+      .expect(401);
+  });
+
+  it('should sign the same identity into the same account', async () => {
+    const first = await signIn();
+    const second = await signIn({
+      ...identity,
+      email: 'oidc.renamed.test@example.com',
+    });
+
+    expect(second.status).toBe(200);
+    expect(second.body.user.id).toBe(first.body.user.id);
+  });
+
+  it('should link to an existing account with the same verified email', async () => {
+    const existing = await prismaService.user.create({
+      data: {
+        email: identity.email!,
+        passwordHash: await bcrypt.hash('TestPassword123!', 10),
+        name: 'Existing User',
+        emailVerified: true,
+      },
+    });
+
+    const response = await signIn();
+
+    expect(response.status).toBe(200);
+    expect(response.body.user.id).toBe(existing.id);
+
+    // The password keeps working next to the linked identity
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .send({ email: identity.email, password: 'TestPassword123!' })
+      .expect(200);
+  });
+
+  it('should take over an unverified account and drop its password', async () => {
+    await prismaService.user.create({
+      data: {
+        email: identity.email!,
+        passwordHash: await bcrypt.hash('TestPassword123!', 10),
+        emailVerified: false,
+      },
+    });
+
+    const response = await signIn();
+
+    expect(response.status).toBe(200);
+
+    const user = await prismaService.user.findUnique({
+      where: { email: identity.email },
+    });
+    expect(user!.emailVerified).toBe(true);
+    expect(user!.passwordHash).toBeNull();
+  });
+
+  it('should refuse identities without a verified email', async () => {
+    const response = await signIn({ ...identity, email_verified: false });
+
+    expect(response.status).toBe(401);
+    expect(
+      await prismaService.user.findUnique({ where: { email: identity.email } }),
+    ).toBeNull();
+  });
+
+  it('should not accept the same state twice', async () => {
+    const authorization = await request(app.getHttpServer())
+      .post('/api/v1/auth/oidc/mock/authorize')
+      .expect(200);
+    const first = issuer.authorize(
+      authorization.body.authorizationUrl,
+      identity,
+    );
+    const second = issuer.authorize(
+      authorization.body.authorizationUrl,
+      identity,
+    );
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/oidc/mock/callback')
+      .send(first)
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/oidc/mock/callback')
+      .send(second)
+      .expect(401);
+  });
+
+  it('should reject a forged authorization code', async () => {
+    const authorization = await request(app.getHttpServer())
+      .post('/api/v1/auth/oidc/mock/authorize')
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/oidc/mock/callback')
+      .send({ code: 'forged-code', state: authorization.body.state })
+      .expect(401);
+  });
+});
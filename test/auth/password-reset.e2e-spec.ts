@@ -4,11 +4,14 @@ import * as request from 'supertest';
 import * as bcrypt from 'bcrypt';
 import { AppModule } from '../../src/app.module';
 import { PrismaService } from '../../src/prisma/prisma.service';
+import { TokenHashService } from '../../src/crypto/token-hash.service';
+import { EmailService } from '../../src/email/email.service';
 import { randomBytes } from 'crypto';
 
 describe('Password Reset (e2e)', () => {
   let app: INestApplication;
   let prismaService: PrismaService;
+  let tokenHashService: TokenHashService;
   
   const testUser = {
     id: '123e4567-e89b-12d3-a456-426614174000',
@@ -39,6 +42,7 @@ describe('Password Reset (e2e)', () => {
     await app.init();
     
     prismaService = app.get<PrismaService>(PrismaService);
+    tokenHashService = app.get<TokenHashService>(TokenHashService);
     
     // Generate test data
     hashedPassword = await bcrypt.hash(testUser.password, 10);
@@ -92,7 +96,7 @@ describe('Password Reset (e2e)', () => {
       const user = await prismaService.user.findUnique({
         where: { email: testUser.email },
       });
-      expect(user!.passwordResetToken).toBeDefined();
+      expect(user!.passwordResetTokenHash).toBeDefined();
       expect(user!.passwordResetExpires).toBeDefined();
       expect(user!.passwordResetExpires!.getTime()).toBeGreaterThan(Date.now());
     });
@@ -127,7 +131,7 @@ describe('Password Reset (e2e)', () => {
       const user1 = await prismaService.user.findUnique({
         where: { email: testUser.email },
       });
-      const firstToken = user1!.passwordResetToken;
+      const firstToken = user1!.passwordResetTokenHash;
 
       // Second request should generate new token
       await request(app.getHttpServer())
@@ -138,7 +142,7 @@ describe('Password Reset (e2e)', () => {
       const user2 = await prismaService.user.findUnique({
         where: { email: testUser.email },
       });
-      const secondToken = user2!.passwordResetToken;
+      const secondToken = user2!.passwordResetTokenHash;
 
       // Tokens should be different
       expect(secondToken).not.toBe(firstToken);
@@ -180,7 +184,7 @@ describe('Password Reset (e2e)', () => {
       const user = await prismaService.user.findUnique({
         where: { email: testUser.email },
       });
-      expect(user!.passwordResetToken).toBeDefined();
+      expect(user!.passwordResetTokenHash).toBeDefined();
     });
 
     it('should trim whitespace from email', async () => {
@@ -196,7 +200,7 @@ describe('Password Reset (e2e)', () => {
       const user = await prismaService.user.findUnique({
         where: { email: testUser.email },
       });
-      expect(user!.passwordResetToken).toBeDefined();
+      expect(user!.passwordResetTokenHash).toBeDefined();
     });
   });
 
@@ -209,7 +213,7 @@ describe('Password Reset (e2e)', () => {
       await prismaService.user.update({
         where: { id: testUser.id },
         data: {
-          passwordResetToken: validResetToken,
+          passwordResetTokenHash: tokenHashService.hash(validResetToken),
           passwordResetExpires: futureDate,
         },
       });
@@ -235,7 +239,7 @@ describe('Password Reset (e2e)', () => {
       });
       
       // Token should be cleared
-      expect(user!.passwordResetToken).toBeNull();
+      expect(user!.passwordResetTokenHash).toBeNull();
       expect(user!.passwordResetExpires).toBeNull();
 
       // Should be able to login with new password
@@ -272,7 +276,7 @@ describe('Password Reset (e2e)', () => {
       await prismaService.user.update({
         where: { id: testUser.id },
         data: {
-          passwordResetToken: expiredResetToken,
+          passwordResetTokenHash: tokenHashService.hash(expiredResetToken),
           passwordResetExpires: pastDate,
         },
       });
@@ -378,6 +382,38 @@ describe('Password Reset (e2e)', () => {
         .expect(401);
     });
 
+    it('should sign out every session after reset', async () => {
+      const loginResponse = await request(app.getHttpServer())
+        .post('/api/v1/auth/login')
+        .send({
+          email: testUser.email,
+          password: testUser.password,
+        })
+        .expect(200);
+      const { accessToken, refreshToken } = loginResponse.body;
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/reset-password')
+        .send({
+          token: validResetToken,
+          newPassword: 'NewPassword123!',
+        })
+        .expect(200);
+
+      // Tokens issued before the reset stop working straight away
+      await request(app.getHttpServer())
+        .get('/api/v1/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(401);
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .set('Authorization', `Bearer ${refreshToken}`)
+        .expect(403);
+      expect(
+        await prismaService.session.count({ where: { userId: testUser.id } }),
+      ).toBe(0);
+    });
+
     it('should handle concurrent reset attempts', async () => {
       const resetDto = {
         token: validResetToken,
@@ -435,17 +471,21 @@ describe('Password Reset (e2e)', () => {
 
   describe('Password Reset Flow Integration', () => {
     it('should complete full password reset flow', async () => {
+      // Only a hash is stored, so take the token from the outgoing email
+      const sendResetEmail = jest.spyOn(
+        app.get<EmailService>(EmailService),
+        'sendPasswordResetEmail',
+      );
+
       // Step 1: Request password reset
       await request(app.getHttpServer())
         .post('/api/v1/auth/forgot-password')
         .send({ email: testUser.email })
         .expect(200);
 
-      // Step 2: Get the reset token from database
-      const userWithToken = await prismaService.user.findUnique({
-        where: { email: testUser.email },
-      });
-      const resetToken = userWithToken!.passwordResetToken;
+      // Step 2: Get the reset token from the email
+      const resetToken = sendResetEmail.mock.calls[0][3];
+      sendResetEmail.mockRestore();
 
       // Step 3: Reset password with token
       const newPassword = 'CompletelyNewPassword123!';
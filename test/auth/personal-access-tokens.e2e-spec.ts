@@ -0,0 +1,217 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { AppModule } from '../../src/app.module';
+import { PrismaService } from '../../src/prisma/prisma.service';
+
+describe('Personal access tokens (e2e)', () => {
+  let app: INestApplication;
+  let prismaService: PrismaService;
+  let accessToken: string;
+
+  const testUser = {
+    email: 'pat.test@example.com',
+    password: 'TestPassword123!',
+    name: 'Token Test User',
+  };
+
+  const createToken = async (body: Record<string, unknown> = {}) => {
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/auth/tokens')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ name: 'CI script', scopes: ['profile:read'], ...body })
+      .expect(201);
+
+    return response.body;
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    prismaService = app.get<PrismaService>(PrismaService);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prismaService.session.deleteMany({});
+    await prismaService.user.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+
+    await prismaService.user.create({
+      data: {
+        email: testUser.email,
+        passwordHash: await bcrypt.hash(testUser.password, 10),
+        name: testUser.name,
+        emailVerified: true,
+      },
+    });
+
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .send({ email: testUser.email, password: testUser.password })
+      .expect(200);
+    accessToken = response.body.accessToken;
+  });
+
+  it('should show the token once and store only its hash', async () => {
+    const created = await createToken();
+
+    expect(created.token).toMatch(/^fata_pat_/);
+    expect(created.token.startsWith(created.tokenPrefix)).toBe(true);
+
+    const stored = await prismaService.personalAccessToken.findUnique({
+      where: { id: created.id },
+    });
+    expect(stored!.tokenHash).not.toBe(created.token);
+
+    const list = await request(app.getHttpServer())
+      .get('/api/v1/auth/tokens')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    expect(list.body).toHaveLength(1);
+    expect(list.body[0]).toMatchObject({
+      id: created.id,
+      name: 'CI script',
+      scopes: ['profile:read'],
+    });
+    expect(list.body[0]).not.toHaveProperty('token');
+    expect(list.body[0]).not.toHaveProperty('tokenHash');
+  });
+
+  it('should authenticate with a Bearer header or X-API-Key', async () => {
+    const { token } = await createToken();
+
+    const bearer = await request(app.getHttpServer())
+      .get('/api/v1/auth/me')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(bearer.body.email).toBe(testUser.email);
+
+    await request(app.getHttpServer())
+      .get('/api/v1/auth/me')
+      .set('X-API-Key', token)
+      .expect(200);
+  });
+
+  it('should record when the token was last used', async () => {
+    const { id, token } = await createToken();
+
+    await request(app.getHttpServer())
+      .get('/api/v1/auth/me')
+      .set('X-API-Key', token)
+      .expect(200);
+
+    const stored = await prismaService.personalAccessToken.findUnique({
+      where: { id },
+    });
+    expect(stored!.lastUsedAt).not.toBeNull();
+    expect(stored!.lastUsedIp).toBeTruthy();
+  });
+
+  it('should not accept tokens on routes that do not allow them', async () => {
+    const { token } = await createToken();
+
+    await request(app.getHttpServer())
+      .get('/api/v1/auth/tokens')
+      .set('X-API-Key', token)
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/tokens')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Escalation', scopes: ['profile:read'] })
+      .expect(403);
+  });
+
+  it('should reject expired tokens', async () => {
+    const { id, token } = await createToken();
+    await prismaService.personalAccessToken.update({
+      where: { id },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    });
+
+    await request(app.getHttpServer())
+      .get('/api/v1/auth/me')
+      .set('X-API-Key', token)
+      .expect(401);
+  });
+
+  it('should reject unknown tokens', async () => {
+    await request(app.getHttpServer())
+      .get('/api/v1/auth/me')
+      .set('X-API-Key', 'fata_pat_unknown')
+      .expect(401);
+  });
+
+  it('should stop accepting a revoked token', async () => {
+    const { id, token } = await createToken();
+
+    await request(app.getHttpServer())
+      .delete(`/api/v1/auth/tokens/${id}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .get('/api/v1/auth/me')
+      .set('X-API-Key', token)
+      .expect(401);
+  });
+
+  it("should not revoke another user's token", async () => {
+    const { id } = await createToken();
+    const other = await prismaService.user.create({
+      data: {
+        email: 'pat.other.test@example.com',
+        passwordHash: await bcrypt.hash(testUser.password, 10),
+        emailVerified: true,
+      },
+    });
+    const login = await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .send({ email: other.email, password: testUser.password })
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .delete(`/api/v1/auth/tokens/${id}`)
+      .set('Authorization', `Bearer ${login.body.accessToken}`)
+      .expect(404);
+  });
+
+  it('should validate scopes and expiry', async () => {
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/tokens')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ name: 'Bad scope', scopes: ['admin'] })
+      .expect(400);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/tokens')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ name: 'Too long', scopes: ['profile:read'], expiresInDays: 400 })
+      .expect(400);
+  });
+});
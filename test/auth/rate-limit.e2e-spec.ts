@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../../src/app.module';
+import { RedisService } from '../../src/redis/redis.service';
+
+describe('Rate limiting (e2e)', () => {
+  let app: INestApplication;
+  let redis: RedisService;
+
+  const forgotPassword = (email: string) =>
+    request(app.getHttpServer())
+      .post('/api/v1/auth/forgot-password')
+      .send({ email });
+
+  beforeAll(async () => {
+    // Turned off for the other suites by test/setup-e2e.ts
+    process.env.RATE_LIMIT_ENABLED = 'true';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    redis = app.get<RedisService>(RedisService);
+  });
+
+  afterAll(async () => {
+    process.env.RATE_LIMIT_ENABLED = 'false';
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    const keys = await redis.keys('throttler:*');
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+  });
+
+  it('should report the limit on every route', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/api/v1/auth/password-policy')
+      .expect(200);
+
+    // RATE_LIMIT defaults to 100/1m
+    expect(response.headers['x-ratelimit-limit']).toBe('100');
+    expect(response.headers['x-ratelimit-remaining']).toBe('99');
+    expect(Number(response.headers['x-ratelimit-reset'])).toBeGreaterThan(0);
+  });
+
+  it('should limit password reset requests per email across letter cases', async () => {
+    // RATE_LIMIT_FORGOT_PASSWORD_PER_EMAIL defaults to 3/1h
+    await forgotPassword('nobody.test@example.com').expect(200);
+    await forgotPassword('Nobody.Test@example.com').expect(200);
+    const last = await forgotPassword('nobody.test@example.com').expect(200);
+    expect(last.headers['x-ratelimit-remaining-email']).toBe('0');
+
+    const refused = await forgotPassword('NOBODY.TEST@example.com').expect(429);
+    expect(Number(refused.headers['retry-after'])).toBeGreaterThan(0);
+
+    // Other addresses keep their own count
+    await forgotPassword('someone.else.test@example.com').expect(200);
+  });
+
+  it('should limit login attempts per client whatever the email', async () => {
+    // RATE_LIMIT_LOGIN defaults to 10/1m
+    for (let attempt = 0; attempt < 10; attempt++) {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/login')
+        .send({
+          email: `nobody.${attempt}.test@example.com`,
+          password: 'WrongPassword123!',
+        })
+        .expect(401);
+    }
+
+    const refused = await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .send({
+        email: 'nobody.10.test@example.com',
+        password: 'WrongPassword123!',
+      })
+      .expect(429);
+    expect(refused.headers['retry-after']).toBeDefined();
+  });
+
+  it('should limit two-factor attempts per client', async () => {
+    // RATE_LIMIT_LOGIN_MFA defaults to 5/1m
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/login/mfa')
+        .send({ mfaToken: 'not-a-challenge', code: `00000${attempt}` })
+        .expect(401);
+    }
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/login/mfa')
+      .send({ mfaToken: 'not-a-challenge', code: '000005' })
+      .expect(429);
+  });
+
+  it('should limit sign-in links per email', async () => {
+    // RATE_LIMIT_MAGIC_LINK_PER_EMAIL defaults to 3/1h
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/magic-link')
+        .send({ email: 'nobody.test@example.com' })
+        .expect(200);
+    }
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/magic-link')
+      .send({ email: 'nobody.test@example.com' })
+      .expect(429);
+  });
+
+  it('should limit verification emails per email from the query string', async () => {
+    // RATE_LIMIT_RESEND_VERIFICATION_PER_EMAIL defaults to 3/1h
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/resend-verification')
+        .query({ email: 'nobody.test@example.com' })
+        .expect(200);
+    }
+
+    await request(app.getHttpServer())
+      .post('/api/v1/auth/resend-verification')
+      .query({ email: 'nobody.test@example.com' })
+      .expect(429);
+  });
+});
@@ -138,6 +138,36 @@ describe('Auth Registration (e2e)', () => {
       }
     });
 
+    it('should list every broken password rule', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/api/v1/auth/register')
+        .send({
+          email: 'jane.doe.test@example.com',
+          password: 'janedoe',
+          name: 'Jane Doe',
+        })
+        .expect(400);
+
+      expect(response.body.violations.map((violation) => violation.rule)).toEqual([
+        'minLength',
+        'uppercase',
+        'digit',
+        'symbol',
+        'personalInfo',
+      ]);
+    });
+
+    it('should publish the password policy', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/api/v1/auth/password-policy')
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        minLength: 8,
+        requiredCharacterClasses: ['lowercase', 'uppercase', 'digit', 'symbol'],
+      });
+    });
+
     it('should reject registration with missing required fields', async () => {
       // Missing email
       await request(app.getHttpServer())
@@ -0,0 +1,236 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { AppModule } from '../../src/app.module';
+import { PrismaService } from '../../src/prisma/prisma.service';
+
+describe('Auth Sessions (e2e)', () => {
+  let app: INestApplication;
+  let prismaService: PrismaService;
+
+  const testUser = {
+    email: 'sessions.test@example.com',
+    password: 'TestPassword123!',
+    name: 'Sessions Test User',
+  };
+
+  const devices = {
+    browser:
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36',
+    phone:
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+  };
+
+  let hashedPassword: string;
+
+  const login = async (userAgent: string, deviceName?: string) => {
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .set('User-Agent', userAgent)
+      .send({
+        email: testUser.email,
+        password: testUser.password,
+        deviceName,
+      })
+      .expect(200);
+
+    return {
+      accessToken: response.body.accessToken as string,
+      refreshToken: response.body.refreshToken as string,
+    };
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    prismaService = app.get<PrismaService>(PrismaService);
+
+    hashedPassword = await bcrypt.hash(testUser.password, 10);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prismaService.session.deleteMany({});
+    await prismaService.user.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+
+    await prismaService.user.create({
+      data: {
+        email: testUser.email,
+        passwordHash: hashedPassword,
+        name: testUser.name,
+        emailVerified: true,
+      },
+    });
+  });
+
+  describe('GET /api/v1/auth/sessions', () => {
+    it('should list active sessions with device metadata', async () => {
+      const browser = await login(devices.browser);
+      await login(devices.phone, "John's iPhone");
+
+      const response = await request(app.getHttpServer())
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${browser.accessToken}`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(2);
+      expect(response.body).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            label: 'Chrome on macOS',
+            platform: 'macOS',
+            userAgent: devices.browser,
+            current: true,
+          }),
+          expect.objectContaining({
+            label: "John's iPhone",
+            platform: 'iOS',
+            current: false,
+          }),
+        ]),
+      );
+      expect(response.body[0]).not.toHaveProperty('refreshToken');
+    });
+
+    it('should require authentication', async () => {
+      await request(app.getHttpServer())
+        .get('/api/v1/auth/sessions')
+        .expect(401);
+    });
+  });
+
+  describe('DELETE /api/v1/auth/sessions/:id', () => {
+    it('should revoke a specific session', async () => {
+      const browser = await login(devices.browser);
+      const phone = await login(devices.phone);
+
+      const sessions = await request(app.getHttpServer())
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${browser.accessToken}`);
+      const phoneSession = sessions.body.find((s: any) => !s.current);
+
+      await request(app.getHttpServer())
+        .delete(`/api/v1/auth/sessions/${phoneSession.id}`)
+        .set('Authorization', `Bearer ${browser.accessToken}`)
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .set('Authorization', `Bearer ${phone.refreshToken}`)
+        .expect(403);
+
+      // The access token of the revoked session stops working straight away
+      await request(app.getHttpServer())
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${phone.accessToken}`)
+        .expect(401);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .set('Authorization', `Bearer ${browser.refreshToken}`)
+        .expect(200);
+    });
+
+    it('should not allow revoking sessions of another user', async () => {
+      const browser = await login(devices.browser);
+      const otherUser = await prismaService.user.create({
+        data: {
+          email: 'sessions.other.test@example.com',
+          passwordHash: hashedPassword,
+          name: 'Other User',
+          emailVerified: true,
+        },
+      });
+      const foreignSession = await prismaService.session.create({
+        data: {
+          userId: otherUser.id,
+          refreshTokenHash: 'foreign-refresh-token-hash',
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        },
+      });
+
+      await request(app.getHttpServer())
+        .delete(`/api/v1/auth/sessions/${foreignSession.id}`)
+        .set('Authorization', `Bearer ${browser.accessToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('DELETE /api/v1/auth/sessions/others', () => {
+    it('should log out everywhere except the current device', async () => {
+      const browser = await login(devices.browser);
+      const phone = await login(devices.phone);
+      const tablet = await login(devices.phone);
+
+      const response = await request(app.getHttpServer())
+        .delete('/api/v1/auth/sessions/others')
+        .set('Authorization', `Bearer ${browser.accessToken}`)
+        .expect(200);
+
+      expect(response.body.revoked).toBe(2);
+
+      for (const device of [phone, tablet]) {
+        await request(app.getHttpServer())
+          .post('/api/v1/auth/refresh')
+          .set('Authorization', `Bearer ${device.refreshToken}`)
+          .expect(403);
+        await request(app.getHttpServer())
+          .get('/api/v1/auth/sessions')
+          .set('Authorization', `Bearer ${device.accessToken}`)
+          .expect(401);
+      }
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .set('Authorization', `Bearer ${browser.refreshToken}`)
+        .expect(200);
+    });
+  });
+
+  describe('Refresh', () => {
+    it('should keep the session and its metadata across token rotation', async () => {
+      const phone = await login(devices.phone);
+
+      const before = await prismaService.session.findMany();
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .set('User-Agent', devices.phone)
+        .set('Authorization', `Bearer ${phone.refreshToken}`)
+        .expect(200);
+
+      const after = await prismaService.session.findMany();
+
+      expect(after).toHaveLength(1);
+      expect(after[0].id).toBe(before[0].id);
+      expect(after[0].platform).toBe('iOS');
+      expect(after[0].lastUsedAt.getTime()).toBeGreaterThanOrEqual(
+        before[0].lastUsedAt.getTime(),
+      );
+    });
+  });
+});
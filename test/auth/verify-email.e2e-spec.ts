@@ -4,11 +4,13 @@ import * as request from 'supertest';
 import * as bcrypt from 'bcrypt';
 import { AppModule } from '../../src/app.module';
 import { PrismaService } from '../../src/prisma/prisma.service';
+import { TokenHashService } from '../../src/crypto/token-hash.service';
 import { randomBytes } from 'crypto';
 
 describe('Email Verification (e2e)', () => {
   let app: INestApplication;
   let prismaService: PrismaService;
+  let tokenHashService: TokenHashService;
   
   const testUser = {
     email: 'verify.test@example.com',
@@ -38,6 +40,7 @@ describe('Email Verification (e2e)', () => {
     await app.init();
     
     prismaService = app.get<PrismaService>(PrismaService);
+    tokenHashService = app.get<TokenHashService>(TokenHashService);
     
     // Generate test data
     hashedPassword = await bcrypt.hash(testUser.password, 10);
@@ -70,7 +73,8 @@ describe('Email Verification (e2e)', () => {
           passwordHash: hashedPassword,
           name: testUser.name,
           emailVerified: false,
-          emailVerificationToken: validToken,
+          emailVerificationTokenHash: tokenHashService.hash(validToken),
+          emailVerificationExpires: new Date(Date.now() + 60 * 60 * 1000),
         },
       });
     });
@@ -92,7 +96,50 @@ describe('Email Verification (e2e)', () => {
         where: { email: testUser.email },
       });
       expect(user!.emailVerified).toBe(true);
-      expect(user!.emailVerificationToken).toBeNull();
+      expect(user!.emailVerificationTokenHash).toBeNull();
+      expect(user!.emailVerificationExpires).toBeNull();
+    });
+
+    it('should tell an expired token apart from an invalid one', async () => {
+      await prismaService.user.create({
+        data: {
+          email: 'expired.verify.test@example.com',
+          passwordHash: hashedPassword,
+          name: 'Expired Token User',
+          emailVerified: false,
+          emailVerificationTokenHash: tokenHashService.hash(expiredToken),
+          emailVerificationExpires: new Date(Date.now() - 60 * 1000),
+        },
+      });
+
+      const response = await request(app.getHttpServer())
+        .post('/api/v1/auth/verify-email')
+        .send({ token: expiredToken })
+        .expect(400);
+
+      expect(response.body.message).toBe('Verification token has expired, please request a new one');
+
+      const user = await prismaService.user.findUnique({
+        where: { email: 'expired.verify.test@example.com' },
+      });
+      expect(user!.emailVerified).toBe(false);
+    });
+
+    it('should not accept a token twice', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/verify-email')
+        .send({ token: validToken })
+        .expect(200);
+
+      await prismaService.user.update({
+        where: { email: testUser.email },
+        data: { emailVerified: false },
+      });
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/verify-email')
+        .send({ token: validToken })
+        .expect(400);
     });
 
     it('should reject invalid verification token', async () => {
@@ -105,7 +152,7 @@ describe('Email Verification (e2e)', () => {
         .send(verifyDto)
         .expect(400);
 
-      expect(response.body.message).toContain('Invalid or expired verification token');
+      expect(response.body.message).toBe('Invalid verification token');
 
       // User should still be unverified
       const user = await prismaService.user.findUnique({
@@ -128,7 +175,8 @@ describe('Email Verification (e2e)', () => {
           passwordHash: hashedPassword,
           name: 'Already Verified',
           emailVerified: true,
-          emailVerificationToken: validToken,
+          emailVerificationTokenHash: tokenHashService.hash(validToken),
+          emailVerificationExpires: new Date(Date.now() + 60 * 60 * 1000),
         },
       });
 
@@ -169,7 +217,7 @@ describe('Email Verification (e2e)', () => {
         .send(verifyDto)
         .expect(400);
 
-      expect(response.body.message).toContain('Invalid or expired verification token');
+      expect(response.body.message).toBe('Invalid verification token');
     });
 
     it('should allow login after email verification', async () => {
@@ -254,6 +302,8 @@ describe('Email Verification (e2e)', () => {
   });
 
   describe('POST /api/v1/auth/resend-verification', () => {
+    const genericMessage = 'If an unverified account exists with this email, a new verification link has been sent.';
+
     beforeEach(async () => {
       // Create an unverified user
       await prismaService.user.create({
@@ -262,7 +312,7 @@ describe('Email Verification (e2e)', () => {
           passwordHash: hashedPassword,
           name: testUser.name,
           emailVerified: false,
-          emailVerificationToken: validToken,
+          emailVerificationTokenHash: tokenHashService.hash(validToken),
         },
       });
     });
@@ -273,14 +323,19 @@ describe('Email Verification (e2e)', () => {
         .query({ email: testUser.email })
         .expect(200);
 
-      expect(response.body.message).toBe('Verification email sent successfully');
+      expect(response.body.message).toBe(genericMessage);
 
-      // Check that a new token was generated
+      // The new link replaces the old one
       const user = await prismaService.user.findUnique({
         where: { email: testUser.email },
       });
-      expect(user!.emailVerificationToken).toBeDefined();
-      // Token might be different from the original
+      expect(user!.emailVerificationTokenHash).not.toBe(tokenHashService.hash(validToken));
+      expect(user!.emailVerificationExpires!.getTime()).toBeGreaterThan(Date.now());
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/verify-email')
+        .send({ token: validToken })
+        .expect(400);
     });
 
     it('should handle already verified user', async () => {
@@ -295,14 +350,16 @@ describe('Email Verification (e2e)', () => {
         .query({ email: testUser.email })
         .expect(200);
 
-      expect(response.body.message).toBe('Email already verified');
+      expect(response.body.message).toBe(genericMessage);
     });
 
-    it('should return error for non-existent user', async () => {
-      await request(app.getHttpServer())
+    it('should not reveal whether the email has an account', async () => {
+      const response = await request(app.getHttpServer())
         .post('/api/v1/auth/resend-verification')
         .query({ email: 'nonexistent@example.com' })
-        .expect(404);
+        .expect(200);
+
+      expect(response.body.message).toBe(genericMessage);
     });
 
     it('should handle missing email parameter', async () => {
@@ -324,7 +381,7 @@ describe('Email Verification (e2e)', () => {
         .query({ email: 'VERIFY.TEST@EXAMPLE.COM' })
         .expect(200);
 
-      expect(response.body.message).toBe('Verification email sent successfully');
+      expect(response.body.message).toBe(genericMessage);
     });
 
     it('should rate limit resend requests', async () => {
@@ -336,10 +393,12 @@ describe('Email Verification (e2e)', () => {
       );
 
       const responses = await Promise.all(requests);
-      
-      // All should succeed (but in production, rate limiting should apply)
-      responses.forEach(response => {
-        expect(response.status).toBe(200);
+      const statuses = responses.map((response) => response.status);
+
+      // Earlier tests in this file count towards the same per-client limit
+      expect(statuses).toContain(429);
+      statuses.forEach((status) => {
+        expect([200, 429]).toContain(status);
       });
     });
   });
@@ -0,0 +1,285 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { AppModule } from '../../src/app.module';
+import { PrismaService } from '../../src/prisma/prisma.service';
+
+const fixture = JSON.parse(
+  readFileSync(
+    join(__dirname, '../../src/webauthn/__fixtures__/passkey.json'),
+    'utf8',
+  ),
+);
+
+describe('Passkeys (e2e)', () => {
+  let app: INestApplication;
+  let prismaService: PrismaService;
+  let accessToken: string;
+  let userId: string;
+
+  const testUser = {
+    email: 'webauthn.test@example.com',
+    password: 'TestPassword123!',
+    name: 'Passkey Test User',
+  };
+
+  /**
+   * The recorded responses are signed over fixed challenges, so the test
+   * asks the API for options (to exercise the endpoint) and then swaps the
+   * stored challenge for the recorded one.
+   */
+  const useRecordedChallenge = async (
+    challengeId: string,
+    challenge: string,
+  ) => {
+    await prismaService.webAuthnChallenge.update({
+      where: { id: challengeId },
+      data: { challenge },
+    });
+  };
+
+  const registerFixturePasskey = async () => {
+    const options = await request(app.getHttpServer())
+      .post('/api/v1/auth/webauthn/register/options')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    await useRecordedChallenge(
+      options.body.challengeId,
+      fixture.registration.challenge,
+    );
+
+    return request(app.getHttpServer())
+      .post('/api/v1/auth/webauthn/register/verify')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        challengeId: options.body.challengeId,
+        response: fixture.registration.response,
+        name: 'Test passkey',
+      });
+  };
+
+  const loginWithFixture = async (recorded: {
+    challenge: string;
+    response: unknown;
+  }) => {
+    const options = await request(app.getHttpServer())
+      .post('/api/v1/auth/webauthn/login/options')
+      .expect(200);
+
+    await useRecordedChallenge(options.body.challengeId, recorded.challenge);
+
+    return request(app.getHttpServer())
+      .post('/api/v1/auth/webauthn/login/verify')
+      .send({
+        challengeId: options.body.challengeId,
+        response: recorded.response,
+      });
+  };
+
+  beforeAll(async () => {
+    process.env.WEBAUTHN_RP_ID = fixture.rpId;
+    process.env.WEBAUTHN_ORIGINS = fixture.origin;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    prismaService = app.get<PrismaService>(PrismaService);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prismaService.session.deleteMany({});
+    await prismaService.user.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+
+    const user = await prismaService.user.create({
+      data: {
+        email: testUser.email,
+        passwordHash: await bcrypt.hash(testUser.password, 10),
+        name: testUser.name,
+        emailVerified: true,
+      },
+    });
+    userId = user.id;
+
+    const login = await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .send({ email: testUser.email, password: testUser.password })
+      .expect(200);
+    accessToken = login.body.accessToken;
+  });
+
+  describe('Registration', () => {
+    it('should return creation options for the current user', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/api/v1/auth/webauthn/register/options')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body).toHaveProperty('challengeId');
+      expect(response.body.options.rp.id).toBe(fixture.rpId);
+      expect(response.body.options.user.name).toBe(testUser.email);
+    });
+
+    it('should register a passkey from a recorded attestation', async () => {
+      const response = await registerFixturePasskey();
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({
+        name: 'Test passkey',
+        deviceType: 'singleDevice',
+      });
+      expect(response.body).not.toHaveProperty('publicKey');
+
+      const stored = await prismaService.webAuthnCredential.findMany({
+        where: { userId },
+      });
+      expect(stored).toHaveLength(1);
+      expect(stored[0].credentialId).toBe(fixture.credential.id);
+    });
+
+    it('should not accept the same challenge twice', async () => {
+      const options = await request(app.getHttpServer())
+        .post('/api/v1/auth/webauthn/register/options')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      await useRecordedChallenge(
+        options.body.challengeId,
+        fixture.registration.challenge,
+      );
+
+      const body = {
+        challengeId: options.body.challengeId,
+        response: fixture.registration.response,
+      };
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/webauthn/register/verify')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send(body)
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/webauthn/register/verify')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send(body)
+        .expect(400);
+    });
+
+    it('should require authentication', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/webauthn/register/options')
+        .expect(401);
+    });
+  });
+
+  describe('Login', () => {
+    it('should log in with a recorded assertion', async () => {
+      await registerFixturePasskey();
+
+      const response = await loginWithFixture(fixture.authentication);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('accessToken');
+      expect(response.body).toHaveProperty('refreshToken');
+      expect(response.body.user.id).toBe(userId);
+    });
+
+    it('should reject an assertion that does not advance the sign count', async () => {
+      await registerFixturePasskey();
+      await loginWithFixture(fixture.authentication);
+
+      const response = await loginWithFixture(fixture.replayedAuthentication);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject unknown passkeys', async () => {
+      const response = await loginWithFixture(fixture.authentication);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('Managing passkeys', () => {
+    it('should list, rename and remove passkeys', async () => {
+      const registered = await registerFixturePasskey();
+
+      const list = await request(app.getHttpServer())
+        .get('/api/v1/auth/webauthn/credentials')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      expect(list.body).toHaveLength(1);
+
+      const renamed = await request(app.getHttpServer())
+        .patch(`/api/v1/auth/webauthn/credentials/${registered.body.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'YubiKey 5C' })
+        .expect(200);
+      expect(renamed.body.name).toBe('YubiKey 5C');
+
+      await request(app.getHttpServer())
+        .delete(`/api/v1/auth/webauthn/credentials/${registered.body.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const response = await loginWithFixture(fixture.authentication);
+      expect(response.status).toBe(401);
+    });
+
+    it('should not touch passkeys of another user', async () => {
+      const otherUser = await prismaService.user.create({
+        data: {
+          email: 'webauthn.other.test@example.com',
+          passwordHash: 'irrelevant',
+          emailVerified: true,
+        },
+      });
+      const foreignPasskey = await prismaService.webAuthnCredential.create({
+        data: {
+          userId: otherUser.id,
+          credentialId: 'foreign-credential',
+          publicKey: Buffer.from(fixture.credential.publicKey, 'base64url'),
+          deviceType: 'singleDevice',
+          name: 'Foreign passkey',
+        },
+      });
+
+      await request(app.getHttpServer())
+        .patch(`/api/v1/auth/webauthn/credentials/${foreignPasskey.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Mine now' })
+        .expect(404);
+
+      await request(app.getHttpServer())
+        .delete(`/api/v1/auth/webauthn/credentials/${foreignPasskey.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,2 @@
+// Suites replay many logins from one address; test/auth/rate-limit.e2e-spec.ts turns it back on
+process.env.RATE_LIMIT_ENABLED = 'false';
@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { AppModule } from '../../src/app.module';
+import { PrismaService } from '../../src/prisma/prisma.service';
+
+describe('Account data (e2e)', () => {
+  let app: INestApplication;
+  let prismaService: PrismaService;
+  let hashedPassword: string;
+
+  const email = 'account.data.test@example.com';
+  const password = 'TestPassword123!';
+
+  const login = async () => {
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .send({ email, password })
+      .expect(200);
+
+    return response.body.accessToken as string;
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    prismaService = app.get<PrismaService>(PrismaService);
+    hashedPassword = await bcrypt.hash(password, 10);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prismaService.session.deleteMany({});
+    await prismaService.user.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+    await prismaService.user.create({
+      data: {
+        email,
+        passwordHash: hashedPassword,
+        name: 'Account Data Test User',
+        emailVerified: true,
+      },
+    });
+  });
+
+  describe('data export', () => {
+    it('should queue an export and list it as pending', async () => {
+      const accessToken = await login();
+
+      const response = await request(app.getHttpServer())
+        .post('/api/v1/users/me/export')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(202);
+
+      expect(response.body).toMatchObject({ status: 'PENDING' });
+
+      const list = await request(app.getHttpServer())
+        .get('/api/v1/users/me/export')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(list.body[0].id).toBe(response.body.id);
+    });
+
+    it('should reject unknown download links', async () => {
+      await request(app.getHttpServer())
+        .get('/api/v1/users/exports/download')
+        .query({ token: 'not-a-real-token' })
+        .expect(404);
+    });
+  });
+
+  describe('account deletion', () => {
+    it('should require the current password', async () => {
+      const accessToken = await login();
+
+      await request(app.getHttpServer())
+        .delete('/api/v1/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'WrongPassword123!' })
+        .expect(403);
+    });
+
+    it('should schedule deletion and sign the user out', async () => {
+      const accessToken = await login();
+
+      const response = await request(app.getHttpServer())
+        .delete('/api/v1/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password })
+        .expect(200);
+
+      expect(
+        new Date(response.body.scheduledDeletionAt).getTime(),
+      ).toBeGreaterThan(Date.now());
+      expect(await prismaService.session.count()).toBe(0);
+    });
+
+    it('should accept a recent sign-in for accounts without a password', async () => {
+      const accessToken = await login();
+      await prismaService.user.update({
+        where: { email },
+        data: { passwordHash: null },
+      });
+
+      await request(app.getHttpServer())
+        .delete('/api/v1/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({})
+        .expect(200);
+    });
+
+    it('should ask accounts without a password to sign in again after a while', async () => {
+      const accessToken = await login();
+      await prismaService.user.update({
+        where: { email },
+        data: { passwordHash: null },
+      });
+      await prismaService.session.updateMany({
+        data: { createdAt: new Date(Date.now() - 60 * 60 * 1000) },
+      });
+
+      await request(app.getHttpServer())
+        .delete('/api/v1/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({})
+        .expect(403);
+    });
+
+    it('should let the user sign back in and cancel', async () => {
+      await request(app.getHttpServer())
+        .delete('/api/v1/users/me')
+        .set('Authorization', `Bearer ${await login()}`)
+        .send({ password })
+        .expect(200);
+
+      const accessToken = await login();
+
+      await request(app.getHttpServer())
+        .post('/api/v1/users/me/cancel-deletion')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const user = await prismaService.user.findUnique({ where: { email } });
+      expect(user?.scheduledDeletionAt).toBeNull();
+
+      await request(app.getHttpServer())
+        .post('/api/v1/users/me/cancel-deletion')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { AppModule } from '../../src/app.module';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { TokenHashService } from '../../src/crypto/token-hash.service';
+
+describe('Email change (e2e)', () => {
+  let app: INestApplication;
+  let prismaService: PrismaService;
+  let tokenHashService: TokenHashService;
+
+  const email = 'email.change.test@example.com';
+  const newEmail = 'email.change.new.test@example.com';
+  const password = 'TestPassword123!';
+
+  const login = async (address = email) => {
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .send({ email: address, password })
+      .expect(200);
+
+    return response.body.accessToken as string;
+  };
+
+  // Links are only ever emailed, so tests plant known tokens on the request
+  const plantTokens = async () => {
+    await prismaService.emailChangeRequest.updateMany({
+      data: {
+        confirmTokenHash: tokenHashService.hash('confirm-token'),
+        revertTokenHash: tokenHashService.hash('revert-token'),
+      },
+    });
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    prismaService = app.get<PrismaService>(PrismaService);
+    tokenHashService = app.get<TokenHashService>(TokenHashService);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prismaService.session.deleteMany({});
+    await prismaService.user.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+    await prismaService.user.create({
+      data: {
+        email,
+        passwordHash: await bcrypt.hash(password, 10),
+        name: 'Email Change Test User',
+        emailVerified: true,
+      },
+    });
+  });
+
+  it('should keep the current email until the new one is confirmed', async () => {
+    await request(app.getHttpServer())
+      .post('/api/v1/users/me/email')
+      .set('Authorization', `Bearer ${await login()}`)
+      .send({ newEmail, password })
+      .expect(202);
+
+    await login();
+    await plantTokens();
+
+    await request(app.getHttpServer())
+      .post('/api/v1/users/email-change/confirm')
+      .send({ token: 'confirm-token' })
+      .expect(200);
+
+    const user = await prismaService.user.findUnique({
+      where: { email: newEmail },
+    });
+    expect(user?.emailVerified).toBe(true);
+    await login(newEmail);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/users/email-change/confirm')
+      .send({ token: 'confirm-token' })
+      .expect(400);
+  });
+
+  it('should let the old address undo a confirmed change', async () => {
+    await request(app.getHttpServer())
+      .post('/api/v1/users/me/email')
+      .set('Authorization', `Bearer ${await login()}`)
+      .send({ newEmail, password })
+      .expect(202);
+    await plantTokens();
+    await request(app.getHttpServer())
+      .post('/api/v1/users/email-change/confirm')
+      .send({ token: 'confirm-token' })
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .post('/api/v1/users/email-change/revert')
+      .send({ token: 'revert-token' })
+      .expect(200);
+
+    expect(await prismaService.session.count()).toBe(0);
+    const user = await prismaService.user.findUnique({ where: { email } });
+    expect(user?.passwordHash).toBeNull();
+    expect(user?.passwordResetTokenHash).not.toBeNull();
+  });
+
+  it('should require the current password', async () => {
+    await request(app.getHttpServer())
+      .post('/api/v1/users/me/email')
+      .set('Authorization', `Bearer ${await login()}`)
+      .send({ newEmail, password: 'WrongPassword123!' })
+      .expect(403);
+  });
+
+  it('should reject an address that is already in use', async () => {
+    await prismaService.user.create({
+      data: { email: newEmail, name: 'Other Test User' },
+    });
+
+    await request(app.getHttpServer())
+      .post('/api/v1/users/me/email')
+      .set('Authorization', `Bearer ${await login()}`)
+      .send({ newEmail, password })
+      .expect(409);
+  });
+});
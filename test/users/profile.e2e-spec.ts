@@ -0,0 +1,146 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { AppModule } from '../../src/app.module';
+import { PrismaService } from '../../src/prisma/prisma.service';
+
+describe('Profile (e2e)', () => {
+  let app: INestApplication;
+  let prismaService: PrismaService;
+  let accessToken: string;
+
+  const email = 'profile.test@example.com';
+  const password = 'TestPassword123!';
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    prismaService = app.get<PrismaService>(PrismaService);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prismaService.session.deleteMany({});
+    await prismaService.user.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+    await prismaService.user.create({
+      data: {
+        email,
+        passwordHash: await bcrypt.hash(password, 10),
+        name: 'Profile Test User',
+        emailVerified: true,
+        preferences: { theme: 'dark', notifications: false },
+      },
+    });
+
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .send({ email, password })
+      .expect(200);
+    accessToken = response.body.accessToken;
+  });
+
+  describe('/users/me', () => {
+    it('should return the profile without sensitive fields', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/api/v1/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({ email, name: 'Profile Test User' });
+      expect(response.body).not.toHaveProperty('passwordHash');
+    });
+
+    it('should update the name', async () => {
+      const response = await request(app.getHttpServer())
+        .patch('/api/v1/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Renamed User' })
+        .expect(200);
+
+      expect(response.body.name).toBe('Renamed User');
+    });
+
+    it('should not let the email be changed directly', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/v1/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ email: 'other.test@example.com' })
+        .expect(400);
+    });
+  });
+
+  describe('/users/me/preferences', () => {
+    it('should upgrade stored preferences to the current schema', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/api/v1/users/me/preferences')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        version: 1,
+        theme: 'dark',
+        notifications: { email: false, push: false },
+        playbackSpeed: 1,
+      });
+    });
+
+    it('should only change the keys sent', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/v1/users/me/preferences')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ notifications: { push: true }, timezone: 'Europe/Berlin' })
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .patch('/api/v1/users/me/preferences')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ playbackSpeed: 1.5, theme: null })
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        theme: 'system',
+        notifications: { email: false, push: true },
+        playbackSpeed: 1.5,
+        timezone: 'Europe/Berlin',
+      });
+    });
+
+    it('should reject invalid values', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/v1/users/me/preferences')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ playbackSpeed: 10 })
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .patch('/api/v1/users/me/preferences')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ fontSize: 'large' })
+        .expect(400);
+    });
+  });
+});
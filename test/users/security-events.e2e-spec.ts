@@ -0,0 +1,244 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Role } from '@prisma/client';
+import * as request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { AppModule } from '../../src/app.module';
+import { PrismaService } from '../../src/prisma/prisma.service';
+
+describe('Security events (e2e)', () => {
+  let app: INestApplication;
+  let prismaService: PrismaService;
+  let hashedPassword: string;
+
+  const email = 'security.events.test@example.com';
+  const password = 'TestPassword123!';
+
+  const createUser = (userEmail: string, data: Record<string, unknown> = {}) =>
+    prismaService.user.create({
+      data: {
+        email: userEmail,
+        passwordHash: hashedPassword,
+        name: 'Security Events Test User',
+        emailVerified: true,
+        ...data,
+      },
+    });
+
+  const login = async (userEmail = email) => {
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/auth/login')
+      .set('User-Agent', 'e2e-agent')
+      .send({ email: userEmail, password })
+      .expect(200);
+
+    return response.body.accessToken as string;
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    await app.init();
+
+    prismaService = app.get<PrismaService>(PrismaService);
+    hashedPassword = await bcrypt.hash(password, 10);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prismaService.session.deleteMany({});
+    // Attempts on unknown emails belong to no account, so the user cascade misses them
+    await prismaService.securityEvent.deleteMany({ where: { userId: null } });
+    await prismaService.user.deleteMany({
+      where: {
+        email: {
+          contains: 'test',
+        },
+      },
+    });
+    await createUser(email);
+  });
+
+  describe('GET /api/v1/users/me/security-events', () => {
+    it('should list failed and successful logins, newest first', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/login')
+        .send({ email, password: 'WrongPassword123!' })
+        .expect(401);
+      const accessToken = await login();
+
+      const response = await request(app.getHttpServer())
+        .get('/api/v1/users/me/security-events')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.nextCursor).toBeNull();
+      expect(response.body.data).toEqual([
+        expect.objectContaining({
+          type: 'LOGIN',
+          outcome: 'SUCCESS',
+          userAgent: 'e2e-agent',
+          metadata: { method: 'password' },
+        }),
+        expect.objectContaining({
+          type: 'LOGIN',
+          outcome: 'FAILURE',
+          metadata: { method: 'password', reason: 'invalid_password' },
+        }),
+      ]);
+    });
+
+    it('should record the lockout once the attempts run out', async () => {
+      // MAX_LOGIN_ATTEMPTS defaults to 5
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await request(app.getHttpServer())
+          .post('/api/v1/auth/login')
+          .send({ email, password: 'WrongPassword123!' })
+          .expect(401);
+      }
+      await prismaService.user.update({
+        where: { email },
+        data: { failedLoginAttempts: 0, lockedUntil: null },
+      });
+      const accessToken = await login();
+
+      const response = await request(app.getHttpServer())
+        .get('/api/v1/users/me/security-events')
+        .query({ type: 'ACCOUNT_LOCKED' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+    });
+
+    it('should page through events with the cursor', async () => {
+      await login();
+      const accessToken = await login();
+
+      const first = await request(app.getHttpServer())
+        .get('/api/v1/users/me/security-events')
+        .query({ limit: 1 })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(first.body.data).toHaveLength(1);
+      expect(first.body.nextCursor).toBe(first.body.data[0].id);
+
+      const second = await request(app.getHttpServer())
+        .get('/api/v1/users/me/security-events')
+        .query({ limit: 1, cursor: first.body.nextCursor })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(second.body.data[0].id).not.toBe(first.body.data[0].id);
+    });
+
+    it('should reject unknown filters', async () => {
+      const accessToken = await login();
+
+      await request(app.getHttpServer())
+        .get('/api/v1/users/me/security-events')
+        .query({ type: 'NOT_A_TYPE' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+    });
+
+    it('should reject anonymous callers', async () => {
+      await request(app.getHttpServer())
+        .get('/api/v1/users/me/security-events')
+        .expect(401);
+    });
+  });
+
+  describe('GET /api/v1/admin/security-events', () => {
+    const loginAs = async (role: Role) => {
+      const staffEmail = `security.events.${role.toLowerCase()}.test@example.com`;
+      await createUser(staffEmail, { role });
+
+      return login(staffEmail);
+    };
+
+    it('should reject regular users', async () => {
+      const accessToken = await login();
+
+      await request(app.getHttpServer())
+        .get('/api/v1/admin/security-events')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should show failed logins for unknown emails to support staff', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/login')
+        .send({ email: 'nobody.test@example.com', password })
+        .expect(401);
+      const accessToken = await loginAs('SUPPORT');
+
+      const response = await request(app.getHttpServer())
+        .get('/api/v1/admin/security-events')
+        .query({ type: 'LOGIN', outcome: 'FAILURE' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual([
+        expect.objectContaining({
+          userId: null,
+          metadata: {
+            method: 'password',
+            reason: 'unknown_email',
+            email: 'nobody.test@example.com',
+          },
+        }),
+      ]);
+    });
+
+    it('should filter by account and date', async () => {
+      const user = await prismaService.user.findUniqueOrThrow({
+        where: { email },
+      });
+      await login();
+      const accessToken = await loginAs('ADMIN');
+
+      const response = await request(app.getHttpServer())
+        .get('/api/v1/admin/security-events')
+        .query({
+          userId: user.id,
+          from: new Date(Date.now() - 60 * 1000).toISOString(),
+        })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({
+        userId: user.id,
+        type: 'LOGIN',
+      });
+
+      const future = await request(app.getHttpServer())
+        .get('/api/v1/admin/security-events')
+        .query({
+          userId: user.id,
+          from: new Date(Date.now() + 60 * 1000).toISOString(),
+        })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(future.body.data).toEqual([]);
+    });
+  });
+});
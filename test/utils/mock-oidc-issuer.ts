@@ -0,0 +1,176 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, generateKeyPairSync, randomBytes } from 'crypto';
+import { JwtService } from '@nestjs/jwt';
+
+export interface MockIdentity {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+interface PendingCode {
+  identity: MockIdentity;
+  nonce: string;
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+/**
+ * Minimal OpenID provider on a local port: discovery, JWKS and a token
+ * endpoint that checks PKCE. There is no login page; tests call
+ * `authorize()` with the URL the API returned, as a browser would after
+ * the user signed in, and get the authorization code back.
+ */
+export class MockOidcIssuer {
+  readonly clientId = 'fata-e2e-client';
+  readonly clientSecret = 'fata-e2e-secret';
+
+  private server: Server;
+  private readonly keys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  private readonly jwtService = new JwtService();
+  private readonly codes = new Map<string, PendingCode>();
+
+  get issuer() {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async start() {
+    this.server = createServer((req, res) => {
+      this.handle(req)
+        .then(({ status, body }) => {
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(body));
+        })
+        .catch(() => {
+          res.writeHead(500);
+          res.end();
+        });
+    });
+
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve),
+    );
+  }
+
+  async stop() {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  /** Environment for a provider with the given key, to set before the app boots. */
+  env(key: string) {
+    const prefix = `OIDC_${key.toUpperCase()}`;
+    return {
+      OIDC_PROVIDERS: key,
+      [`${prefix}_ISSUER`]: this.issuer,
+      [`${prefix}_CLIENT_ID`]: this.clientId,
+      [`${prefix}_CLIENT_SECRET`]: this.clientSecret,
+    };
+  }
+
+  authorize(authorizationUrl: string, identity: MockIdentity) {
+    const params = new URL(authorizationUrl).searchParams;
+    const code = randomBytes(16).toString('hex');
+
+    this.codes.set(code, {
+      identity,
+      nonce: params.get('nonce')!,
+      codeChallenge: params.get('code_challenge')!,
+      redirectUri: params.get('redirect_uri')!,
+    });
+
+    return { code, state: params.get('state')! };
+  }
+
+  private async handle(req: IncomingMessage) {
+    const { pathname } = new URL(req.url!, this.issuer);
+
+    if (pathname === '/.well-known/openid-configuration') {
+      return {
+        status: 200,
+        body: {
+          issuer: this.issuer,
+          authorization_endpoint: `${this.issuer}/authorize`,
+          token_endpoint: `${this.issuer}/token`,
+          jwks_uri: `${this.issuer}/jwks`,
+        },
+      };
+    }
+
+    if (pathname === '/jwks') {
+      return {
+        status: 200,
+        body: {
+          keys: [
+            {
+              ...this.keys.publicKey.export({ format: 'jwk' }),
+              kid: 'mock-key',
+              use: 'sig',
+              alg: 'RS256',
+            },
+          ],
+        },
+      };
+    }
+
+    if (pathname === '/token' && req.method === 'POST') {
+      return this.token(new URLSearchParams(await readBody(req)));
+    }
+
+    return { status: 404, body: { error: 'not_found' } };
+  }
+
+  private async token(params: URLSearchParams) {
+    const pending = this.codes.get(params.get('code') || '');
+    this.codes.delete(params.get('code') || '');
+
+    const verifier = params.get('code_verifier') || '';
+    const challenge = createHash('sha256').update(verifier).digest('base64url');
+
+    if (
+      !pending ||
+      params.get('client_id') !== this.clientId ||
+      params.get('client_secret') !== this.clientSecret ||
+      params.get('redirect_uri') !== pending.redirectUri ||
+      challenge !== pending.codeChallenge
+    ) {
+      return { status: 400, body: { error: 'invalid_grant' } };
+    }
+
+    const idToken = await this.jwtService.signAsync(
+      { ...pending.identity, nonce: pending.nonce },
+      {
+        privateKey: this.keys.privateKey.export({
+          type: 'pkcs8',
+          format: 'pem',
+        }),
+        algorithm: 'RS256',
+        keyid: 'mock-key',
+        issuer: this.issuer,
+        audience: this.clientId,
+        expiresIn: '5m',
+      },
+    );
+
+    return {
+      status: 200,
+      body: {
+        access_token: randomBytes(16).toString('hex'),
+        token_type: 'Bearer',
+        expires_in: 300,
+        id_token: idToken,
+      },
+    };
+  }
+}
+
+function readBody(req: IncomingMessage) {
+  return new Promise<string>((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}